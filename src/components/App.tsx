@@ -57,6 +57,9 @@ function migrateLegacyProject(
     const projectData = {
       settings: state.settings || {},
       panels: state.panels || [],
+      groups: state.groups || [],
+      variables: state.variables || [],
+      joints: state.joints || [],
       stickyNotes: state.stickyNotes || [],
       viewState: state.viewState || { zoom: 0.5, panX: 0, panY: 0 },
     };
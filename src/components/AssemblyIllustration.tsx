@@ -8,6 +8,8 @@
 import { Edges, Text } from "@react-three/drei";
 import { Canvas, useThree } from "@react-three/fiber";
 import { useEffect, useRef, useState } from "react";
+import { getZRange } from "../lib/depth";
+import { getPanelThickness } from "../lib/materials";
 import type { Panel, Settings } from "../types";
 
 // Get true dimensions based on orientation
@@ -45,21 +47,10 @@ function AssemblyPanel({
   const dims = getTrueDimensions(panel, thickness);
   const orientation = panel.orientation || "horizontal";
   const panelDepth = panel.depth || furnitureDepth;
-  const zAlign = panel.zAlign || "front";
+  const { z } = getZRange(panel, thickness, furnitureDepth);
 
-  // Calculate Z offset based on alignment
-  const getZOffset = () => {
-    switch (zAlign) {
-      case "front":
-        return panelDepth / 2;
-      case "back":
-        return furnitureDepth - panelDepth / 2;
-      case "center":
-        return furnitureDepth / 2;
-      default:
-        return panelDepth / 2;
-    }
-  };
+  // Z center from the front face's offset
+  const getZOffset = () => z + panelDepth / 2;
 
   let position: [number, number, number];
   let boxSize: [number, number, number];
@@ -83,7 +74,7 @@ function AssemblyPanel({
     position = [
       panel.x + dims.width / 2,
       panel.y + dims.height / 2,
-      furnitureDepth - thickness / 2,
+      z + thickness / 2,
     ];
   }
 
@@ -96,7 +87,7 @@ function AssemblyPanel({
   const labelPosition: [number, number, number] = [
     position[0],
     position[1],
-    orientation === "back" ? position[2] - thickness / 2 - 5 : -5,
+    z - 5,
   ];
 
   // Scale letter size based on panel dimensions
@@ -131,6 +122,7 @@ function AssemblyScene({
   panels,
   cumulativePanelIds,
   currentPanelId,
+  currentPanelIds,
   letterLabels,
   settings,
   onCapture,
@@ -138,6 +130,7 @@ function AssemblyScene({
   panels: Panel[];
   cumulativePanelIds: string[];
   currentPanelId: string;
+  currentPanelIds?: string[];
   letterLabels: Map<string, string>;
   settings: Settings;
   onCapture: (dataUrl: string) => void;
@@ -155,7 +148,7 @@ function AssemblyScene({
     minX: Math.min(...visiblePanels.map((p) => p.x), 0),
     maxX: Math.max(
       ...visiblePanels.map((p) => {
-        const dims = getTrueDimensions(p, settings.thickness);
+        const dims = getTrueDimensions(p, getPanelThickness(p, settings));
         return p.x + dims.width;
       }),
       100,
@@ -163,7 +156,7 @@ function AssemblyScene({
     minY: Math.min(...visiblePanels.map((p) => p.y), 0),
     maxY: Math.max(
       ...visiblePanels.map((p) => {
-        const dims = getTrueDimensions(p, settings.thickness);
+        const dims = getTrueDimensions(p, getPanelThickness(p, settings));
         return p.y + dims.height;
       }),
       100,
@@ -207,10 +200,10 @@ function AssemblyScene({
         <AssemblyPanel
           key={panel.id}
           panel={panel}
-          thickness={settings.thickness}
+          thickness={getPanelThickness(panel, settings)}
           furnitureDepth={furnitureDepth}
           letter={letterLabels.get(panel.id) || "?"}
-          isCurrent={panel.id === currentPanelId}
+          isCurrent={panel.id === currentPanelId || !!currentPanelIds?.includes(panel.id)}
         />
       ))}
     </>
@@ -221,6 +214,7 @@ interface AssemblyIllustrationProps {
   panels: Panel[];
   cumulativePanelIds: string[];
   currentPanelId: string;
+  currentPanelIds?: string[]; // Several panels going in at once (a sub-assembly)
   letterLabels: Map<string, string>;
   settings: Settings;
   size?: number;
@@ -230,6 +224,7 @@ export default function AssemblyIllustration({
   panels,
   cumulativePanelIds,
   currentPanelId,
+  currentPanelIds,
   letterLabels,
   settings,
   size = 140,
@@ -281,6 +276,7 @@ export default function AssemblyIllustration({
           panels={panels}
           cumulativePanelIds={cumulativePanelIds}
           currentPanelId={currentPanelId}
+          currentPanelIds={currentPanelIds}
           letterLabels={letterLabels}
           settings={settings}
           onCapture={handleCapture}
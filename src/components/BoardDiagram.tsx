@@ -0,0 +1,103 @@
+/**
+ * Board Diagram
+ *
+ * Linear parts laid out along their boards, one bar per board drawn to a
+ * common scale, with the offcut hatched. Styled inline so the copy in the
+ * booklet's print frame looks the same.
+ */
+
+import { memo } from "react";
+import type { LinearCutResult } from "../lib/linear";
+import { formatLength, formatSize, type UnitSettings } from "../lib/units";
+
+const BAR_WIDTH = 640;
+const BAR_HEIGHT = 28;
+
+// Parts narrower than this (px) are labelled by letter only
+const MIN_LENGTH_LABEL = 48;
+
+interface BoardDiagramProps {
+  results: LinearCutResult[];
+  settings: UnitSettings;
+}
+
+const BoardDiagram = memo(function BoardDiagram({ results, settings }: BoardDiagramProps) {
+  if (results.length === 0) return null;
+  const longest = Math.max(...results.flatMap((r) => r.boards.map((b) => b.length)));
+  const scale = BAR_WIDTH / longest;
+
+  return (
+    <div style={{ marginTop: 24 }}>
+      {results.map(({ stock, boards, unplacedPieces }) => (
+        <div key={stock.id} style={{ breakInside: "avoid", marginBottom: 16 }}>
+          <div style={{ fontSize: 13, marginBottom: 6 }}>
+            <span style={{ fontWeight: 600, color: "#0f172a" }}>{stock.name}</span>{" "}
+            <span style={{ color: "#64748b" }}>
+              {formatSize(stock.width, stock.thickness, settings)} · {boards.length} board{boards.length !== 1 ? "s" : ""}
+            </span>
+          </div>
+
+          {boards.map((board, i) => {
+            const width = board.length * scale;
+            const used = board.cuts.length > 0 ? board.cuts[board.cuts.length - 1] : null;
+            const offcutStart = used ? (used.offset + used.length) * scale : 0;
+            return (
+              <div key={i} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
+                <svg width={width + 2} height={BAR_HEIGHT + 2} viewBox={`0 0 ${width + 2} ${BAR_HEIGHT + 2}`}>
+                  <defs>
+                    <pattern id={`offcut-${stock.id}-${i}`} width={6} height={6} patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                      <line x1={0} y1={0} x2={0} y2={6} stroke="#cbd5e1" strokeWidth={2} />
+                    </pattern>
+                  </defs>
+                  <rect x={1} y={1} width={width} height={BAR_HEIGHT} fill="#f1ece3" stroke="#64748b" strokeWidth={1} />
+                  <rect
+                    x={1 + offcutStart}
+                    y={1}
+                    width={Math.max(0, width - offcutStart)}
+                    height={BAR_HEIGHT}
+                    fill={`url(#offcut-${stock.id}-${i})`}
+                  />
+                  {board.cuts.map((cut, j) => {
+                    const x = 1 + cut.offset * scale;
+                    const w = cut.length * scale;
+                    return (
+                      <g key={j}>
+                        <rect x={x} y={1} width={w} height={BAR_HEIGHT} fill="#fdfcfa" stroke="#334155" strokeWidth={1} />
+                        <text
+                          x={x + w / 2}
+                          y={1 + BAR_HEIGHT / 2}
+                          fontSize={10}
+                          fill="#334155"
+                          textAnchor="middle"
+                          dominantBaseline="middle"
+                          fontFamily="system-ui, sans-serif"
+                        >
+                          <tspan fontWeight={700}>{cut.letter}</tspan>
+                          {w >= MIN_LENGTH_LABEL && ` ${formatLength(cut.length, settings)}`}
+                        </text>
+                      </g>
+                    );
+                  })}
+                </svg>
+                <span style={{ fontSize: 11, color: "#64748b", whiteSpace: "nowrap" }}>
+                  {formatLength(board.length, settings, { showUnit: true })} · offcut{" "}
+                  {formatLength(Math.max(0, board.length - (used ? used.offset + used.length : 0)), settings, {
+                    showUnit: true,
+                  })}
+                </span>
+              </div>
+            );
+          })}
+
+          {unplacedPieces.length > 0 && (
+            <div style={{ fontSize: 12, color: "#b91c1c", marginTop: 4 }}>
+              {unplacedPieces.map((p) => p.label).join(", ")} can't be cut from these boards
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export default BoardDiagram;
@@ -0,0 +1,253 @@
+/**
+ * Cabinet Wizard
+ *
+ * Modal for generating a whole carcass from a preset: pick a cabinet type,
+ * adjust its outer size, shelves, construction, back and plinth, and add
+ * all of its panels as one group in a single undoable step.
+ */
+
+import { LayoutTemplate, X } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  CABINET_PRESETS,
+  generateCabinet,
+  validateCabinet,
+  type BackPanelType,
+  type CabinetOptions,
+  type CabinetType,
+  type CarcassConstruction,
+} from "../lib/cabinet";
+import { getPanelThickness } from "../lib/materials";
+import { useDesignStore } from "../stores/designStore";
+import { DimensionInput } from "./ui";
+
+interface CabinetWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const CONSTRUCTION_OPTIONS: { value: CarcassConstruction; label: string }[] = [
+  { value: "sides_over_top", label: "Sides over top" },
+  { value: "top_over_sides", label: "Top over sides" },
+];
+
+const BACK_OPTIONS: { value: BackPanelType; label: string }[] = [
+  { value: "inset", label: "Inset (between sides)" },
+  { value: "overlay", label: "Overlay (full back)" },
+  { value: "none", label: "No back" },
+];
+
+// Gap left between an existing design and a newly placed cabinet
+const PLACEMENT_GAP = 100;
+
+const optionsFor = (type: CabinetType): CabinetOptions => ({ type, ...CABINET_PRESETS[type].defaults });
+
+export default function CabinetWizard({ isOpen, onClose }: CabinetWizardProps) {
+  const { panels, settings, addPanels } = useDesignStore();
+  const [options, setOptions] = useState<CabinetOptions>(() => optionsFor("bookcase"));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const update = (updates: Partial<CabinetOptions>) => setOptions((o) => ({ ...o, ...updates }));
+
+  const error = validateCabinet(options, settings.thickness);
+  const preview = useMemo(
+    () => (error ? [] : generateCabinet(options, settings.thickness)),
+    [options, settings.thickness, error],
+  );
+
+  if (!isOpen) return null;
+
+  const handleCreate = () => {
+    if (error) return;
+    // Place it to the right of whatever is already on the canvas
+    const right = panels.reduce((max, p) => {
+      const width = p.orientation === "vertical" ? getPanelThickness(p, settings) : p.width;
+      return Math.max(max, p.x + width);
+    }, -PLACEMENT_GAP);
+    const cabinet = generateCabinet(options, settings.thickness, right + PLACEMENT_GAP, 0);
+    addPanels(cabinet, {
+      groupName: CABINET_PRESETS[options.type].name,
+      // A first cabinet sets the furniture depth that 3D and assembly work from
+      settings: panels.length === 0 ? { furnitureDepth: options.depth } : undefined,
+    });
+    onClose();
+  };
+
+  const isDrawerUnit = options.type === "drawer_unit";
+  const T = settings.thickness;
+  const scale = Math.min(160 / options.width, 200 / options.height);
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="cabinet-wizard-title"
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} aria-hidden="true" />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full p-6 animate-scale-in">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+          aria-label="Close cabinet wizard"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-2 mb-4">
+          <LayoutTemplate size={20} className="text-blue-600" />
+          <h3 id="cabinet-wizard-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+            New Cabinet
+          </h3>
+        </div>
+
+        {/* Cabinet type */}
+        <div className="grid grid-cols-5 gap-2 mb-5">
+          {(Object.keys(CABINET_PRESETS) as CabinetType[]).map((type) => (
+            <button
+              key={type}
+              onClick={() => setOptions(optionsFor(type))}
+              className={`p-2 text-left rounded-lg border transition-colors ${
+                options.type === type
+                  ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30"
+                  : "border-gray-200 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700"
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-800 dark:text-gray-100">{CABINET_PRESETS[type].name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{CABINET_PRESETS[type].description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-6">
+          {/* Options */}
+          <div className="flex-1 grid grid-cols-3 gap-3 content-start">
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Width</label>
+              <DimensionInput value={options.width} onChange={(width) => update({ width })} settings={settings} min={100} max={5000} ariaLabel="Cabinet width" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Height</label>
+              <DimensionInput value={options.height} onChange={(height) => update({ height })} settings={settings} min={100} max={5000} ariaLabel="Cabinet height" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Depth</label>
+              <DimensionInput value={options.depth} onChange={(depth) => update({ depth })} settings={settings} min={50} max={2000} ariaLabel="Cabinet depth" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{isDrawerUnit ? "Drawers" : "Shelves"}</label>
+              <input
+                type="number"
+                min={isDrawerUnit ? 1 : 0}
+                max={20}
+                value={options.shelfCount}
+                onChange={(e) => update({ shelfCount: Math.max(isDrawerUnit ? 1 : 0, Math.min(20, parseInt(e.target.value) || 0)) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Plinth</label>
+              <DimensionInput value={options.plinthHeight} onChange={(plinthHeight) => update({ plinthHeight })} settings={settings} min={0} max={300} ariaLabel="Plinth height" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Back</label>
+              <select value={options.back} onChange={(e) => update({ back: e.target.value as BackPanelType })} className={inputClass}>
+                {BACK_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-3">
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Construction</label>
+              <div className="flex gap-2">
+                {CONSTRUCTION_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => update({ construction: option.value })}
+                    className={`flex-1 px-3 py-1.5 text-sm rounded-md border transition-colors ${
+                      options.construction === option.value
+                        ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                        : "border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="col-span-3 text-xs text-gray-500 dark:text-gray-400">
+              {error ? (
+                <span className="text-red-600">{error}</span>
+              ) : (
+                <>
+                  {preview.length} panels in {settings.thickness}mm stock
+                  {panels.length > 0 && ", placed to the right of your design"}
+                </>
+              )}
+            </p>
+          </div>
+
+          {/* Front elevation preview */}
+          <div className="w-44 h-52 flex items-end justify-center bg-gray-50 dark:bg-slate-900 rounded-lg p-2">
+            {preview.length > 0 && (
+              <svg width={options.width * scale} height={options.height * scale} viewBox={`0 0 ${options.width} ${options.height}`}>
+                {[...preview]
+                  .sort((a, b) => (a.orientation === "back" ? 0 : 1) - (b.orientation === "back" ? 0 : 1))
+                  .map((panel, i) => {
+                    const w = panel.orientation === "vertical" ? T : panel.width;
+                    const h = panel.orientation === "horizontal" ? T : panel.height;
+                    const isBack = panel.orientation === "back";
+                    return (
+                      <rect
+                        key={i}
+                        x={panel.x}
+                        y={options.height - panel.y - h}
+                        width={w}
+                        height={h}
+                        fill={isBack ? (panel.z === 0 ? "#cbd5e1" : "#f1f5f9") : "#d4a373"}
+                        stroke="#64748b"
+                        strokeWidth={1 / scale}
+                      />
+                    );
+                  })}
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!!error}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add {CABINET_PRESETS[options.type].name}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 import {
+  AlertTriangle,
+  Archive,
+  DoorOpen,
   GripHorizontal,
   GripVertical,
   Hand,
+  LayoutTemplate,
+  Lock,
   Maximize,
   MousePointer2,
   Move,
@@ -12,6 +17,7 @@ import {
   StickyNote,
   Undo2,
   ZoomIn,
+  XCircle,
   ZoomOut,
 } from "lucide-react";
 import React, {
@@ -21,9 +27,30 @@ import React, {
   useRef,
   useState,
 } from "react";
+import { getFurnitureDepth } from "../lib/depth";
+import {
+  ELEVATION_VIEWS,
+  projectPanel,
+  unprojectUpdates,
+  type ElevationView,
+} from "../lib/elevation";
+import { getInteriorShapes, getFaceOutline } from "../lib/features";
+import { getPanelMaterial, getPanelThickness } from "../lib/materials";
 import { setCanvasSvgRef } from "../lib/thumbnail";
+import {
+  formatLength,
+  isImperial,
+  MM_PER_INCH,
+  parseLength,
+  unitLabel,
+  type UnitSettings,
+} from "../lib/units";
+import { getIssuesByPanel, validateDesign, type DesignIssue } from "../lib/validation";
 import { useDesignStore } from "../stores/designStore";
-import type { Panel, StickyNote as StickyNoteType } from "../types";
+import type { Panel, PanelGroup, StickyNote as StickyNoteType } from "../types";
+import CabinetWizard from "./CabinetWizard";
+import DrawerWizard from "./DrawerWizard";
+import FrontWizard from "./FrontWizard";
 import { AlignmentToolbar, ContextMenu, createPanelContextActions } from "./canvasTools";
 
 // =============================================================================
@@ -38,12 +65,15 @@ import { AlignmentToolbar, ContextMenu, createPanelContextActions } from "./canv
 
 const GRID_SIZE = 10; // 1cm = 10mm
 const GRID_SIZE_MAJOR = 100; // 10cm = 100mm for major grid lines
+const IMPERIAL_GRID_SIZE = MM_PER_INCH / 4; // 1/4"
 const MIN_ZOOM = 0.05;
 const MAX_ZOOM = 3;
 const ZOOM_STEP = 0.1;
 const DEFAULT_ZOOM = 0.5; // Higher default zoom so thin panels are visible
 const NUDGE_AMOUNT = 10;
 const NUDGE_AMOUNT_LARGE = 50;
+const IMPERIAL_NUDGE_AMOUNT = MM_PER_INCH / 4; // 1/4"
+const IMPERIAL_NUDGE_AMOUNT_LARGE = MM_PER_INCH * 2; // 2"
 const SNAP_THRESHOLD = 15;
 const RULER_SIZE = 24;
 const MIN_HIT_AREA = 40; // Minimum clickable area for thin panels
@@ -95,6 +125,26 @@ function getTrueDimensions(
   }
 }
 
+// Grid/ruler spacing (in mm) for the current zoom level. Imperial steps are
+// whole inches and feet so ruler labels land on readable values.
+function getGridSteps(
+  zoom: number,
+  settings: UnitSettings,
+): { minor: number; major: number } {
+  if (isImperial(settings)) {
+    if (zoom > 1) return { minor: MM_PER_INCH / 2, major: MM_PER_INCH * 2 };
+    if (zoom > 0.5) return { minor: MM_PER_INCH, major: MM_PER_INCH * 6 };
+    if (zoom > 0.2) return { minor: MM_PER_INCH * 2, major: MM_PER_INCH * 12 };
+    if (zoom > 0.1) return { minor: MM_PER_INCH * 6, major: MM_PER_INCH * 24 };
+    return { minor: MM_PER_INCH * 12, major: MM_PER_INCH * 60 };
+  }
+  if (zoom > 1) return { minor: 10, major: 50 }; // 1cm / 5cm
+  if (zoom > 0.5) return { minor: 10, major: 100 }; // 1cm / 10cm
+  if (zoom > 0.2) return { minor: 50, major: 100 }; // 5cm / 10cm
+  if (zoom > 0.1) return { minor: 100, major: 500 }; // 10cm / 50cm
+  return { minor: 500, major: 1000 }; // 50cm / 1m
+}
+
 // Get expanded hit area for easier clicking on thin panels
 function getHitArea(
   panel: Panel,
@@ -131,16 +181,23 @@ interface SnapGuide {
 
 export default function Canvas() {
   const {
-    panels,
+    panels: designPanels,
     selectedPanelIds,
     selectPanel,
     selectPanels,
     selectAll,
     clearSelection,
-    updatePanel,
+    updatePanel: updateDesignPanel,
     deletePanel,
     deletePanels,
+    setPanelsLocked,
+    groups,
+    groupPanels,
+    ungroupPanels,
+    getCopiedGroups,
+    clonePanelGroups,
     addPanel,
+    joints,
     settings,
     undo,
     redo,
@@ -217,8 +274,34 @@ export default function Canvas() {
   const [shiftHeld, setShiftHeld] = useState(false);
   const [altHeld, setAltHeld] = useState(false);
   const [ctrlHeld, setCtrlHeld] = useState(false);
-  const [clipboard, setClipboard] = useState<Panel[]>([]);
+  // Groups are recorded with the panels, since a cut deletes the originals
+  const [clipboard, setClipboard] = useState<{ panels: Panel[]; groups: PanelGroup[] }>({ panels: [], groups: [] });
   const [tool, setTool] = useState<"select" | "pan" | "measure">("select");
+  const [showCabinetWizard, setShowCabinetWizard] = useState(false);
+  const [showFrontWizard, setShowFrontWizard] = useState(false);
+  const [showDrawerWizard, setShowDrawerWizard] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+
+  // Design problems, checked on the real panels whatever the view
+  const issues = useMemo(() => validateDesign(designPanels, joints, settings), [designPanels, joints, settings]);
+  const issuesByPanel = useMemo(() => getIssuesByPanel(issues), [issues]);
+
+  // Side and top elevations show projections of the same panels; edits to a
+  // projection are mapped back onto depth and Z alignment
+  const [view, setView] = useState<ElevationView>("front");
+  const panels = useMemo(
+    () => (view === "front" ? designPanels : designPanels.map((p) => projectPanel(p, view, settings))),
+    [designPanels, view, settings],
+  );
+  const updatePanel = useCallback(
+    (id: string, updates: Partial<Panel>) => {
+      if (view === "front") return updateDesignPanel(id, updates);
+      // Read the live panel, since a drag sends several updates per render
+      const panel = useDesignStore.getState().panels.find((p) => p.id === id);
+      if (panel) updateDesignPanel(id, unprojectUpdates(panel, updates, view, settings));
+    },
+    [view, settings, updateDesignPanel],
+  );
   const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
   const [showRulers, setShowRulers] = useState(true);
   const [showMeasurements, setShowMeasurements] = useState(false);
@@ -267,10 +350,19 @@ export default function Canvas() {
   const viewBoxX = -pan.x / zoom - viewBoxWidth / 2;
   const viewBoxY = -pan.y / zoom - viewBoxHeight / 2;
 
+  const viewLabels = ELEVATION_VIEWS.find((v) => v.id === view)!.labels;
+
   // For backward compatibility - get first selected panel
   const selectedPanelId =
     selectedPanelIds.length === 1 ? selectedPanelIds[0] : null;
 
+  // Drag/resize snapping follows the display units (10mm or 1/4")
+  const gridSize = isImperial(settings) ? IMPERIAL_GRID_SIZE : GRID_SIZE;
+  const snapToGrid = useCallback(
+    (value: number) => Math.round(value / gridSize) * gridSize,
+    [gridSize],
+  );
+
   // ===========================================================================
   // GAP CALCULATIONS
   // ===========================================================================
@@ -279,9 +371,9 @@ export default function Canvas() {
     if (!selectedPanelId) return null;
     const selectedPanel = panels.find((p) => p.id === selectedPanelId);
     if (!selectedPanel) return null;
-    const visible = getTrueDimensions(selectedPanel, settings.thickness);
+    const visible = getTrueDimensions(selectedPanel, getPanelThickness(selectedPanel, settings));
     return { panel: selectedPanel, visible };
-  }, [selectedPanelId, panels, settings.thickness]);
+  }, [selectedPanelId, panels, settings]);
 
   // ===========================================================================
   // SNAPPING
@@ -302,7 +394,7 @@ export default function Canvas() {
 
       panels.forEach((p) => {
         if (excludeIds.includes(p.id)) return;
-        const trueDims = getTrueDimensions(p, settings.thickness);
+        const trueDims = getTrueDimensions(p, getPanelThickness(p, settings));
         const left = p.x;
         const right = p.x + trueDims.width;
         const bottom = p.y;
@@ -326,7 +418,7 @@ export default function Canvas() {
 
       return { points, panelEdges };
     },
-    [panels, settings.thickness],
+    [panels, settings],
   );
 
   // Find equal spacing positions between panels
@@ -688,7 +780,7 @@ export default function Canvas() {
   const findPanelAtPoint = useCallback(
     (worldX: number, worldY: number): string | null => {
       for (const panel of panels) {
-        const dims = getTrueDimensions(panel, settings.thickness);
+        const dims = getTrueDimensions(panel, getPanelThickness(panel, settings));
         const left = panel.x;
         const right = panel.x + dims.width;
         const bottom = panel.y;
@@ -700,7 +792,7 @@ export default function Canvas() {
       }
       return null;
     },
-    [panels, settings.thickness],
+    [panels, settings],
   );
 
   // Snap a point to panel edges/corners for measurement tool
@@ -719,7 +811,7 @@ export default function Canvas() {
       const snapTargets: { x: number; y: number; type: string; panelId: string }[] = [];
       
       panels.forEach((panel) => {
-        const dims = getTrueDimensions(panel, settings.thickness);
+        const dims = getTrueDimensions(panel, getPanelThickness(panel, settings));
         const left = panel.x;
         const right = panel.x + dims.width;
         const bottom = panel.y;
@@ -803,7 +895,7 @@ export default function Canvas() {
 
       return { x: snappedX, y: snappedY, snapped: snappedToPanel, panelId: snappedPanelId };
     },
-    [panels, settings.thickness, zoom, findPanelAtPoint],
+    [panels, settings, zoom, findPanelAtPoint],
   );
 
   // Calculate the inner gap between two panels
@@ -813,8 +905,8 @@ export default function Canvas() {
       const panelB = panels.find(p => p.id === panelBId);
       if (!panelA || !panelB) return null;
 
-      const dimsA = getTrueDimensions(panelA, settings.thickness);
-      const dimsB = getTrueDimensions(panelB, settings.thickness);
+      const dimsA = getTrueDimensions(panelA, getPanelThickness(panelA, settings));
+      const dimsB = getTrueDimensions(panelB, getPanelThickness(panelB, settings));
 
       // Get bounds for both panels
       const aLeft = panelA.x, aRight = panelA.x + dimsA.width;
@@ -868,7 +960,7 @@ export default function Canvas() {
 
       return gapStart && gapEnd ? { start: gapStart, end: gapEnd } : null;
     },
-    [panels, settings.thickness],
+    [panels, settings],
   );
 
   // ===========================================================================
@@ -917,7 +1009,7 @@ export default function Canvas() {
       minY = Infinity,
       maxY = -Infinity;
     panels.forEach((p) => {
-      const dims = getTrueDimensions(p, settings.thickness);
+      const dims = getTrueDimensions(p, getPanelThickness(p, settings));
       minX = Math.min(minX, p.x);
       maxX = Math.max(maxX, p.x + dims.width);
       minY = Math.min(minY, p.y);
@@ -940,7 +1032,38 @@ export default function Canvas() {
     );
     setZoom(fitZoom);
     setPan({ x: -centerX * fitZoom, y: centerY * fitZoom });
-  }, [panels, handleResetZoom, canvasSize, settings.thickness]);
+  }, [panels, handleResetZoom, canvasSize, settings]);
+
+  // Select an issue's panels and bring them into view at the current zoom
+  const handleShowIssue = useCallback(
+    (issue: DesignIssue) => {
+      const involved = panels.filter((p) => issue.panelIds.includes(p.id));
+      if (involved.length === 0) return;
+      selectPanels(issue.panelIds);
+      let minX = Infinity,
+        maxX = -Infinity,
+        minY = Infinity,
+        maxY = -Infinity;
+      involved.forEach((p) => {
+        const dims = getTrueDimensions(p, getPanelThickness(p, settings));
+        minX = Math.min(minX, p.x);
+        maxX = Math.max(maxX, p.x + dims.width);
+        minY = Math.min(minY, p.y);
+        maxY = Math.max(maxY, p.y + dims.height);
+      });
+      setPan({ x: -((minX + maxX) / 2) * zoom, y: ((minY + maxY) / 2) * zoom });
+    },
+    [panels, settings, zoom, selectPanels, setPan],
+  );
+
+  // Each view has its own extents, so frame the design again after switching
+  const lastView = useRef(view);
+  useEffect(() => {
+    if (lastView.current === view) return;
+    lastView.current = view;
+    setStickyNoteTool(false);
+    handleFitToContent();
+  }, [view, handleFitToContent]);
 
   useEffect(() => {
     if (
@@ -1076,6 +1199,7 @@ export default function Canvas() {
       corner?: string,
     ) => {
       e.stopPropagation();
+      if (action === "resize" && panel.locked) return;
       setDragStart(getSVGPoint(e));
       setPanelStart({
         x: panel.x,
@@ -1091,18 +1215,26 @@ export default function Canvas() {
 
       if (action === "drag") {
         const isAlreadySelected = selectedPanelIds.includes(panel.id);
-
-        // Alt+drag = duplicate
-        if (e.altKey) {
-          // Duplicate all selected panels if this panel is selected, otherwise just this one
+        // Clicking a grouped panel picks up its whole group; Cmd/Ctrl+click
+        // reaches a single member
+        const singleMember = e.metaKey || e.ctrlKey;
+        const clickedIds =
+          panel.groupId && !singleMember
+            ? panels.filter((p) => p.groupId === panel.groupId).map((p) => p.id)
+            : [panel.id];
+
+        // Alt+drag = duplicate (front view only, where copies are placed)
+        if (e.altKey && view === "front") {
+          // Duplicate all selected panels if this panel is selected, otherwise just this one (or its group)
           const panelsToDuplicate = isAlreadySelected
             ? panels.filter((p) => selectedPanelIds.includes(p.id))
-            : [panel];
-          const newPanels = panelsToDuplicate.map((p) => ({
+            : panels.filter((p) => clickedIds.includes(p.id));
+          const newPanels = clonePanelGroups(panelsToDuplicate.map((p) => ({
             ...p,
             id: `panel_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
             label: `${p.label} copy`,
-          }));
+            locked: undefined, // Copies start out unlocked
+          })));
           useDesignStore.setState({
             panels: [...useDesignStore.getState().panels, ...newPanels],
           });
@@ -1115,24 +1247,51 @@ export default function Canvas() {
           setDragStartPositions(startPos);
           setHasDuplicatedOnDrag(true);
         } else {
+          // Locked panels can be selected but not dragged
+          const draggingId = panel.locked ? null : panel.id;
+
           // Shift+click = add to selection
           if (e.shiftKey) {
-            selectPanel(panel.id, true);
-            setDragging(panel.id);
+            if (clickedIds.length > 1) {
+              const allSelected = clickedIds.every((id) => selectedPanelIds.includes(id));
+              selectPanels(
+                allSelected
+                  ? selectedPanelIds.filter((id) => !clickedIds.includes(id))
+                  : [...new Set([...selectedPanelIds, ...clickedIds])],
+              );
+            } else {
+              selectPanel(panel.id, true);
+            }
+            setDragging(draggingId);
+          } else if (singleMember) {
+            // Single group member
+            selectPanel(panel.id);
+            setDragging(draggingId);
+            setDraggingMultiple(false);
           } else if (isAlreadySelected && selectedPanelIds.length > 1) {
             // Dragging one of multiple selected panels - move all
-            setDragging(panel.id);
+            setDragging(draggingId);
             setDraggingMultiple(true);
-            // Store start positions for all selected panels
+            // Store start positions for all selected panels that can move
             const startPos = new Map<string, { x: number; y: number }>();
             panels
-              .filter((p) => selectedPanelIds.includes(p.id))
+              .filter((p) => selectedPanelIds.includes(p.id) && !p.locked)
+              .forEach((p) => startPos.set(p.id, { x: p.x, y: p.y }));
+            setDragStartPositions(startPos);
+          } else if (clickedIds.length > 1) {
+            // Whole group moves together
+            selectPanels(clickedIds);
+            setDragging(draggingId);
+            setDraggingMultiple(true);
+            const startPos = new Map<string, { x: number; y: number }>();
+            panels
+              .filter((p) => clickedIds.includes(p.id) && !p.locked)
               .forEach((p) => startPos.set(p.id, { x: p.x, y: p.y }));
             setDragStartPositions(startPos);
           } else {
             // Single selection
             selectPanel(panel.id);
-            setDragging(panel.id);
+            setDragging(draggingId);
             setDraggingMultiple(false);
           }
         }
@@ -1146,8 +1305,10 @@ export default function Canvas() {
       selectPanels,
       selectedPanelIds,
       panels,
+      clonePanelGroups,
       getSVGPoint,
       saveToHistory,
+      view,
     ],
   );
 
@@ -1190,9 +1351,11 @@ export default function Canvas() {
         const minY = Math.min(marqueeStart.y, worldPoint.y);
         const maxY = Math.max(marqueeStart.y, worldPoint.y);
 
+        // Locked panels are left out unless Alt is held
         const selectedIds = panels
+          .filter((p) => !p.locked || e.altKey)
           .filter((p) => {
-            const dims = getTrueDimensions(p, settings.thickness);
+            const dims = getTrueDimensions(p, getPanelThickness(p, settings));
             const panelMinX = p.x;
             const panelMaxX = p.x + dims.width;
             const panelMinY = p.y;
@@ -1207,7 +1370,15 @@ export default function Canvas() {
           })
           .map((p) => p.id);
 
-        selectPanels(selectedIds);
+        // Touching any panel of a group selects the whole group
+        const touchedGroups = new Set(
+          panels.filter((p) => p.groupId && selectedIds.includes(p.id)).map((p) => p.groupId),
+        );
+        const groupMemberIds = panels
+          .filter((p) => touchedGroups.has(p.groupId) && !selectedIds.includes(p.id))
+          .map((p) => p.id);
+
+        selectPanels([...selectedIds, ...groupMemberIds]);
         return;
       }
 
@@ -1255,7 +1426,7 @@ export default function Canvas() {
           const primaryPanel = panels.find((p) => p.id === dragging);
           if (!primaryPanel) return;
 
-          const trueDims = getTrueDimensions(primaryPanel, settings.thickness);
+          const trueDims = getTrueDimensions(primaryPanel, getPanelThickness(primaryPanel, settings));
           const primaryStartPos = dragStartPositions.get(primaryPanel.id);
           if (!primaryStartPos) return;
 
@@ -1267,8 +1438,8 @@ export default function Canvas() {
 
           if (disableSnap) {
             setSnapGuides([]);
-            finalX = Math.round(rawX / GRID_SIZE) * GRID_SIZE;
-            finalY = Math.round(rawY / GRID_SIZE) * GRID_SIZE;
+            finalX = snapToGrid(rawX);
+            finalY = snapToGrid(rawY);
           } else {
             const {
               x: snappedX,
@@ -1284,10 +1455,10 @@ export default function Canvas() {
             setSnapGuides(guides);
             finalX = guides.some((g) => g.type === "vertical")
               ? snappedX
-              : Math.round(rawX / GRID_SIZE) * GRID_SIZE;
+              : snapToGrid(rawX);
             finalY = guides.some((g) => g.type === "horizontal")
               ? snappedY
-              : Math.round(rawY / GRID_SIZE) * GRID_SIZE;
+              : snapToGrid(rawY);
           }
 
           // Calculate delta from snapped primary position
@@ -1301,8 +1472,8 @@ export default function Canvas() {
               const startPos = dragStartPositions.get(p.id);
               if (startPos) {
                 updatePanel(p.id, {
-                  x: Math.round((startPos.x + deltaX) / GRID_SIZE) * GRID_SIZE,
-                  y: Math.round((startPos.y + deltaY) / GRID_SIZE) * GRID_SIZE,
+                  x: snapToGrid(startPos.x + deltaX),
+                  y: snapToGrid(startPos.y + deltaY),
                 });
               }
             });
@@ -1311,14 +1482,14 @@ export default function Canvas() {
           const draggedPanel = panels.find((p) => p.id === dragging);
           if (!draggedPanel) return;
 
-          const trueDims = getTrueDimensions(draggedPanel, settings.thickness);
+          const trueDims = getTrueDimensions(draggedPanel, getPanelThickness(draggedPanel, settings));
           const rawX = panelStart.x + dxWorld,
             rawY = panelStart.y + dyWorld;
 
           if (e.ctrlKey || e.metaKey) {
             setSnapGuides([]);
-            const finalX = Math.round(rawX / GRID_SIZE) * GRID_SIZE;
-            const finalY = Math.round(rawY / GRID_SIZE) * GRID_SIZE;
+            const finalX = snapToGrid(rawX);
+            const finalY = snapToGrid(rawY);
             updatePanel(dragging, { x: finalX, y: finalY });
           } else {
             const {
@@ -1335,10 +1506,10 @@ export default function Canvas() {
             setSnapGuides(guides);
             const finalX = guides.some((g) => g.type === "vertical")
               ? snappedX
-              : Math.round(rawX / GRID_SIZE) * GRID_SIZE;
+              : snapToGrid(rawX);
             const finalY = guides.some((g) => g.type === "horizontal")
               ? snappedY
-              : Math.round(rawY / GRID_SIZE) * GRID_SIZE;
+              : snapToGrid(rawY);
             updatePanel(dragging, { x: finalX, y: finalY });
           }
         }
@@ -1361,10 +1532,10 @@ export default function Canvas() {
           newY = panelStart.y + panelStart.height - newHeight;
         }
         updatePanel(resizing.id, {
-          x: Math.round(newX / GRID_SIZE) * GRID_SIZE,
-          y: Math.round(newY / GRID_SIZE) * GRID_SIZE,
-          width: Math.round(newWidth / GRID_SIZE) * GRID_SIZE,
-          height: Math.round(newHeight / GRID_SIZE) * GRID_SIZE,
+          x: snapToGrid(newX),
+          y: snapToGrid(newY),
+          width: snapToGrid(newWidth),
+          height: snapToGrid(newHeight),
         });
       }
     },
@@ -1382,7 +1553,7 @@ export default function Canvas() {
       panStart,
       zoom,
       panels,
-      settings.thickness,
+      settings,
       findSnapPosition,
       isMarqueeSelecting,
       marqueeStart,
@@ -1396,6 +1567,7 @@ export default function Canvas() {
       measurePoints,
       shiftHeld,
       snapMeasurePoint,
+      snapToGrid,
     ],
   );
 
@@ -1511,8 +1683,9 @@ export default function Canvas() {
   // Auto-stretch panel to fit between adjacent panels of opposite orientation
   const handlePanelDoubleClick = useCallback(
     (panel: Panel) => {
+      if (panel.locked || view !== "front") return;
       const orientation = panel.orientation || "horizontal";
-      const trueDims = getTrueDimensions(panel, settings.thickness);
+      const trueDims = getTrueDimensions(panel, getPanelThickness(panel, settings));
       
       // Get panel bounds in world coordinates
       const panelLeft = panel.x;
@@ -1528,7 +1701,7 @@ export default function Canvas() {
         const verticalPanels = panels.filter(p => {
           if (p.id === panel.id) return false;
           if ((p.orientation || "horizontal") !== "vertical") return false;
-          const dims = getTrueDimensions(p, settings.thickness);
+          const dims = getTrueDimensions(p, getPanelThickness(p, settings));
           const pBottom = p.y;
           const pTop = p.y + dims.height;
           // Check vertical overlap - the divider should span the shelf's Y position
@@ -1539,7 +1712,7 @@ export default function Canvas() {
         let leftBound: number | null = null;
         let leftDivider: Panel | null = null;
         verticalPanels.forEach(p => {
-          const dims = getTrueDimensions(p, settings.thickness);
+          const dims = getTrueDimensions(p, getPanelThickness(p, settings));
           const dividerRight = p.x + dims.width;
           if (dividerRight <= panelLeft + 1) { // +1 for tolerance
             if (leftBound === null || dividerRight > leftBound) {
@@ -1581,7 +1754,7 @@ export default function Canvas() {
         const horizontalPanels = panels.filter(p => {
           if (p.id === panel.id) return false;
           if ((p.orientation || "horizontal") !== "horizontal") return false;
-          const dims = getTrueDimensions(p, settings.thickness);
+          const dims = getTrueDimensions(p, getPanelThickness(p, settings));
           const pLeft = p.x;
           const pRight = p.x + dims.width;
           // Check horizontal overlap - the shelf should span the divider's X position
@@ -1591,7 +1764,7 @@ export default function Canvas() {
         // Find closest shelf below (its top edge is below panel's bottom edge)
         let bottomBound: number | null = null;
         horizontalPanels.forEach(p => {
-          const dims = getTrueDimensions(p, settings.thickness);
+          const dims = getTrueDimensions(p, getPanelThickness(p, settings));
           const shelfTop = p.y + dims.height;
           if (shelfTop <= panelBottom + 1) { // +1 for tolerance
             if (bottomBound === null || shelfTop > bottomBound) {
@@ -1626,14 +1799,14 @@ export default function Canvas() {
         }
       }
     },
-    [panels, settings.thickness, saveToHistory, updatePanel],
+    [panels, settings, saveToHistory, updatePanel, view],
   );
 
   const handleCanvasDoubleClick = useCallback(
     (e: React.MouseEvent) => {
       // Don't create panel if clicking on an existing panel or UI element
       const target = e.target as SVGElement;
-      if (target.closest("g[data-panel-id]") || target.closest("g[data-note]")) {
+      if (view !== "front" || target.closest("g[data-panel-id]") || target.closest("g[data-note]")) {
         return;
       }
       
@@ -1648,7 +1821,7 @@ export default function Canvas() {
       
       addPanel(worldPoint.x - panelWidth / 2, worldPoint.y - settings.thickness / 2);
     },
-    [getSVGPoint, screenToWorld, addPanel, settings.thickness],
+    [getSVGPoint, screenToWorld, addPanel, settings.thickness, view],
   );
 
   const handleCanvasMouseDown = useCallback(
@@ -1677,62 +1850,73 @@ export default function Canvas() {
   // KEYBOARD
   // ===========================================================================
 
+  // Copies are always made from the real panels, never their projections
   const handleCopy = useCallback(() => {
-    const selected = panels.filter((p) => selectedPanelIds.includes(p.id));
-    if (selected.length > 0) setClipboard(selected.map((p) => ({ ...p })));
-  }, [selectedPanelIds, panels]);
+    const selected = designPanels.filter((p) => selectedPanelIds.includes(p.id));
+    if (selected.length > 0) setClipboard({ panels: selected.map((p) => ({ ...p })), groups: getCopiedGroups(selected) });
+  }, [selectedPanelIds, designPanels, getCopiedGroups]);
 
   const handlePaste = useCallback(() => {
-    if (clipboard.length === 0) return;
+    if (clipboard.panels.length === 0) return;
     saveToHistory();
-    const newPanels = clipboard.map((p) => ({
+    const newPanels = clonePanelGroups(clipboard.panels.map((p) => ({
       ...p,
       id: `panel_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
       label: `${p.label} copy`,
+      locked: undefined, // Copies start out unlocked
       x: p.x + 40,
       y: p.y + 40,
-    }));
+    })), clipboard.groups);
     useDesignStore.setState({
       panels: [...useDesignStore.getState().panels, ...newPanels],
     });
     selectPanels(newPanels.map((p) => p.id));
-  }, [clipboard, selectPanels, saveToHistory]);
+  }, [clipboard, selectPanels, clonePanelGroups, saveToHistory]);
 
   const handleDuplicate = useCallback(() => {
-    const selected = panels.filter((p) => selectedPanelIds.includes(p.id));
+    const selected = designPanels.filter((p) => selectedPanelIds.includes(p.id));
     if (selected.length === 0) return;
     saveToHistory();
-    const newPanels = selected.map((p) => ({
+    const newPanels = clonePanelGroups(selected.map((p) => ({
       ...p,
       id: `panel_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
       label: `${p.label} copy`,
+      locked: undefined, // Copies start out unlocked
       x: p.x + 40,
       y: p.y + 40,
-    }));
+    })));
     useDesignStore.setState({
       panels: [...useDesignStore.getState().panels, ...newPanels],
     });
     selectPanels(newPanels.map((p) => p.id));
-  }, [selectedPanelIds, panels, selectPanels, saveToHistory]);
+  }, [selectedPanelIds, designPanels, selectPanels, clonePanelGroups, saveToHistory]);
 
   const handleCut = useCallback(() => {
-    const selected = panels.filter((p) => selectedPanelIds.includes(p.id));
+    const selected = designPanels.filter((p) => selectedPanelIds.includes(p.id));
     if (selected.length > 0) {
-      setClipboard(selected.map((p) => ({ ...p })));
+      setClipboard({ panels: selected.map((p) => ({ ...p })), groups: getCopiedGroups(selected) });
       saveToHistory();
       deletePanels(selectedPanelIds);
     }
-  }, [selectedPanelIds, panels, deletePanels, saveToHistory]);
+  }, [selectedPanelIds, designPanels, deletePanels, saveToHistory, getCopiedGroups]);
 
   // ===========================================================================
   // ALIGNMENT FUNCTIONS
   // ===========================================================================
 
+  // Locked panels stay put while the rest of the selection lines up
+  const updateUnlockedPanel = useCallback(
+    (id: string, updates: Partial<Panel>) => {
+      if (!panels.find((p) => p.id === id)?.locked) updatePanel(id, updates);
+    },
+    [panels, updatePanel],
+  );
+
   const getSelectedPanelsWithBounds = useCallback(() => {
     return panels
       .filter((p) => selectedPanelIds.includes(p.id))
       .map((p) => {
-        const dims = getTrueDimensions(p, settings.thickness);
+        const dims = getTrueDimensions(p, getPanelThickness(p, settings));
         return {
           ...p,
           right: p.x + dims.width,
@@ -1743,15 +1927,15 @@ export default function Canvas() {
           trueHeight: dims.height,
         };
       });
-  }, [panels, selectedPanelIds, settings.thickness]);
+  }, [panels, selectedPanelIds, settings]);
 
   const handleAlignLeft = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
     if (selected.length < 2) return;
     saveToHistory();
     const minX = Math.min(...selected.map((p) => p.x));
-    selected.forEach((p) => updatePanel(p.id, { x: minX }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.forEach((p) => updateUnlockedPanel(p.id, { x: minX }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleAlignCenterH = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
@@ -1760,24 +1944,24 @@ export default function Canvas() {
     const minX = Math.min(...selected.map((p) => p.x));
     const maxRight = Math.max(...selected.map((p) => p.right));
     const centerX = (minX + maxRight) / 2;
-    selected.forEach((p) => updatePanel(p.id, { x: centerX - p.trueWidth / 2 }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.forEach((p) => updateUnlockedPanel(p.id, { x: centerX - p.trueWidth / 2 }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleAlignRight = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
     if (selected.length < 2) return;
     saveToHistory();
     const maxRight = Math.max(...selected.map((p) => p.right));
-    selected.forEach((p) => updatePanel(p.id, { x: maxRight - p.trueWidth }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.forEach((p) => updateUnlockedPanel(p.id, { x: maxRight - p.trueWidth }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleAlignTop = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
     if (selected.length < 2) return;
     saveToHistory();
     const maxTop = Math.max(...selected.map((p) => p.top));
-    selected.forEach((p) => updatePanel(p.id, { y: maxTop - p.trueHeight }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.forEach((p) => updateUnlockedPanel(p.id, { y: maxTop - p.trueHeight }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleAlignCenterV = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
@@ -1786,16 +1970,16 @@ export default function Canvas() {
     const minY = Math.min(...selected.map((p) => p.y));
     const maxTop = Math.max(...selected.map((p) => p.top));
     const centerY = (minY + maxTop) / 2;
-    selected.forEach((p) => updatePanel(p.id, { y: centerY - p.trueHeight / 2 }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.forEach((p) => updateUnlockedPanel(p.id, { y: centerY - p.trueHeight / 2 }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleAlignBottom = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
     if (selected.length < 2) return;
     saveToHistory();
     const minY = Math.min(...selected.map((p) => p.y));
-    selected.forEach((p) => updatePanel(p.id, { y: minY }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.forEach((p) => updateUnlockedPanel(p.id, { y: minY }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleDistributeH = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
@@ -1809,11 +1993,11 @@ export default function Canvas() {
     let currentX = minX;
     sorted.forEach((p, i) => {
       if (i > 0) {
-        updatePanel(p.id, { x: currentX });
+        updateUnlockedPanel(p.id, { x: currentX });
       }
       currentX += p.trueWidth + gap;
     });
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleDistributeV = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
@@ -1827,11 +2011,11 @@ export default function Canvas() {
     let currentY = minY;
     sorted.forEach((p, i) => {
       if (i > 0) {
-        updatePanel(p.id, { y: currentY });
+        updateUnlockedPanel(p.id, { y: currentY });
       }
       currentY += p.trueHeight + gap;
     });
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleMatchWidth = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
@@ -1839,8 +2023,8 @@ export default function Canvas() {
     saveToHistory();
     // Match to the first selected panel's width
     const targetWidth = selected[0].width;
-    selected.slice(1).forEach((p) => updatePanel(p.id, { width: targetWidth }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.slice(1).forEach((p) => updateUnlockedPanel(p.id, { width: targetWidth }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   const handleMatchHeight = useCallback(() => {
     const selected = getSelectedPanelsWithBounds();
@@ -1848,8 +2032,8 @@ export default function Canvas() {
     saveToHistory();
     // Match to the first selected panel's height
     const targetHeight = selected[0].height;
-    selected.slice(1).forEach((p) => updatePanel(p.id, { height: targetHeight }));
-  }, [getSelectedPanelsWithBounds, updatePanel, saveToHistory]);
+    selected.slice(1).forEach((p) => updateUnlockedPanel(p.id, { height: targetHeight }));
+  }, [getSelectedPanelsWithBounds, updateUnlockedPanel, saveToHistory]);
 
   // ===========================================================================
   // CONTEXT MENU
@@ -1864,6 +2048,35 @@ export default function Canvas() {
     setContextMenu(null);
   }, []);
 
+  // The selection counts as locked once every panel in it is
+  const selectionLocked =
+    selectedPanelIds.length > 0 &&
+    selectedPanelIds.every((id) => panels.find((p) => p.id === id)?.locked);
+
+  // The group the selection is made of, if it's exactly one whole group
+  const selectedGroupId = useMemo(() => {
+    const groupId = panels.find((p) => p.id === selectedPanelIds[0])?.groupId;
+    if (!groupId) return null;
+    const members = panels.filter((p) => p.groupId === groupId);
+    return members.length === selectedPanelIds.length &&
+      members.every((p) => selectedPanelIds.includes(p.id))
+      ? groupId
+      : null;
+  }, [panels, selectedPanelIds]);
+
+  const handleGroup = useCallback(() => {
+    if (selectedPanelIds.length < 2) return;
+    groupPanels(selectedPanelIds);
+  }, [selectedPanelIds, groupPanels]);
+
+  const handleUngroup = useCallback(() => {
+    // Ungroup every group that has a panel in the selection
+    const groupIds = new Set(
+      panels.filter((p) => selectedPanelIds.includes(p.id) && p.groupId).map((p) => p.groupId!),
+    );
+    groupIds.forEach((id) => ungroupPanels(id));
+  }, [panels, selectedPanelIds, ungroupPanels]);
+
   const contextMenuActions = useMemo(() => {
     return createPanelContextActions({
       hasSelection: selectedPanelIds.length > 0,
@@ -1887,9 +2100,20 @@ export default function Canvas() {
       onAlignBottom: handleAlignBottom,
       onDistributeH: handleDistributeH,
       onDistributeV: handleDistributeV,
+      onLock: () => setPanelsLocked(selectedPanelIds, true),
+      onUnlock: () => setPanelsLocked(selectedPanelIds, false),
+      isLocked: selectionLocked,
+      onGroup: handleGroup,
+      onUngroup: handleUngroup,
+      isGrouped: selectedGroupId !== null,
     });
   }, [
     selectedPanelIds,
+    selectionLocked,
+    setPanelsLocked,
+    selectedGroupId,
+    handleGroup,
+    handleUngroup,
     handleCut,
     handleCopy,
     handlePaste,
@@ -1970,7 +2194,9 @@ export default function Canvas() {
       }
       if (e.key === "r") setShowRulers((r) => !r);
       if (e.key === "m") setShowMeasurements((m) => !m);
-      if (e.key === "n") setStickyNoteTool((n) => !n);
+      if (e.key === "n" && view === "front") setStickyNoteTool((n) => !n);
+      const elevation = ELEVATION_VIEWS.find((v) => v.key === e.key);
+      if (elevation && !e.metaKey && !e.ctrlKey && !e.altKey) setView(elevation.id);
       if (e.key === "Escape" && tool === "measure") {
         setMeasurePoints([]);
         setMeasurePreview(null);
@@ -1998,6 +2224,22 @@ export default function Canvas() {
         handleCut();
       }
 
+      // Lock/unlock with Cmd+Shift+L
+      if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === "l" && selectedPanelIds.length > 0) {
+        e.preventDefault();
+        setPanelsLocked(selectedPanelIds, !selectionLocked);
+      }
+
+      // Group with Cmd+G, ungroup with Cmd+Shift+G
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "g" && selectedPanelIds.length > 0) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleUngroup();
+        } else {
+          handleGroup();
+        }
+      }
+
       // Alignment shortcuts (when multiple panels selected)
       if (selectedPanelIds.length >= 2) {
         // Alt/Option + key for alignment
@@ -2045,10 +2287,12 @@ export default function Canvas() {
       ) {
         e.preventDefault();
         saveToHistory();
-        const amount = e.shiftKey ? NUDGE_AMOUNT_LARGE : NUDGE_AMOUNT;
+        const amount = isImperial(settings)
+          ? e.shiftKey ? IMPERIAL_NUDGE_AMOUNT_LARGE : IMPERIAL_NUDGE_AMOUNT
+          : e.shiftKey ? NUDGE_AMOUNT_LARGE : NUDGE_AMOUNT;
         selectedPanelIds.forEach((id) => {
           const panel = panels.find((p) => p.id === id);
-          if (!panel) return;
+          if (!panel || panel.locked) return;
           if (e.key === "ArrowUp") updatePanel(id, { y: panel.y + amount });
           if (e.key === "ArrowDown") updatePanel(id, { y: panel.y - amount });
           if (e.key === "ArrowLeft") updatePanel(id, { x: panel.x - amount });
@@ -2073,6 +2317,10 @@ export default function Canvas() {
     };
   }, [
     selectedPanelIds,
+    selectionLocked,
+    setPanelsLocked,
+    handleGroup,
+    handleUngroup,
     deletePanels,
     deletePanel,
     handleZoomIn,
@@ -2092,12 +2340,14 @@ export default function Canvas() {
     handleDistributeH,
     handleDistributeV,
     panels,
+    settings,
     updatePanel,
     selectPanel,
     selectAll,
     undo,
     redo,
     saveToHistory,
+    view,
   ]);
 
   // ===========================================================================
@@ -2108,46 +2358,32 @@ export default function Canvas() {
   const gridLines = useMemo(() => {
     const lines: React.ReactNode[] = [];
     
-    // Adaptive grid sizing based on zoom level
-    let minorGrid: number;
-    let majorGrid: number;
-    
-    if (zoom > 1) {
-      minorGrid = 10;
-      majorGrid = 50;
-    } else if (zoom > 0.5) {
-      minorGrid = 10;
-      majorGrid = 100;
-    } else if (zoom > 0.2) {
-      minorGrid = 50;
-      majorGrid = 100;
-    } else if (zoom > 0.1) {
-      minorGrid = 100;
-      majorGrid = 500;
-    } else {
-      minorGrid = 500;
-      majorGrid = 1000;
-    }
+    // Adaptive grid sizing based on zoom level (and display units)
+    const { minor: minorGrid, major: majorGrid } = getGridSteps(zoom, settings);
+    const majorEvery = Math.round(majorGrid / minorGrid);
     
     // Limit the number of grid lines to improve performance
     const maxLines = 200;
-    const startX = Math.floor(viewBoxX / minorGrid) * minorGrid;
+    const startXIndex = Math.floor(viewBoxX / minorGrid);
     const endX = viewBoxX + viewBoxWidth + minorGrid;
-    const startY = Math.floor(viewBoxY / minorGrid) * minorGrid;
+    const startYIndex = Math.floor(viewBoxY / minorGrid);
     const endY = viewBoxY + viewBoxHeight + minorGrid;
+    const startX = startXIndex * minorGrid;
+    const startY = startYIndex * minorGrid;
     
     let lineCount = 0;
     
-    // Draw vertical grid lines
-    for (let x = startX; x <= endX && lineCount < maxLines; x += minorGrid) {
-      const isMajor = x % majorGrid === 0;
-      const isAxis = x === 0;
+    // Draw vertical grid lines (indexed so inch steps don't drift)
+    for (let i = startXIndex; i * minorGrid <= endX && lineCount < maxLines; i++) {
+      const x = i * minorGrid;
+      const isMajor = i % majorEvery === 0;
+      const isAxis = i === 0;
       
       if (isAxis) continue;
       
       lines.push(
         <line
-          key={`v${x}`}
+          key={`v${i}`}
           x1={x}
           y1={startY}
           x2={x}
@@ -2160,16 +2396,16 @@ export default function Canvas() {
     }
     
     // Draw horizontal grid lines
-    for (let y = startY; y <= endY && lineCount < maxLines; y += minorGrid) {
-      const worldY = screenToWorldY(y);
-      const isMajor = Math.abs(worldY) % majorGrid === 0;
-      const isAxis = worldY === 0;
+    for (let i = startYIndex; i * minorGrid <= endY && lineCount < maxLines; i++) {
+      const y = i * minorGrid;
+      const isMajor = i % majorEvery === 0;
+      const isAxis = i === 0;
       
       if (isAxis) continue;
       
       lines.push(
         <line
-          key={`h${y}`}
+          key={`h${i}`}
           x1={startX}
           y1={y}
           x2={endX}
@@ -2182,7 +2418,7 @@ export default function Canvas() {
     }
     
     return lines;
-  }, [viewBoxX, viewBoxY, viewBoxWidth, viewBoxHeight, zoom]);
+  }, [viewBoxX, viewBoxY, viewBoxWidth, viewBoxHeight, zoom, settings.units]);
 
   const renderGrid = () => gridLines;
 
@@ -2276,46 +2512,42 @@ export default function Canvas() {
 
   const renderAxes = () => axesElements;
 
+  // Ruler labels: mm (switching to cm past 1m) or feet and inches
+  const formatRulerLabel = useCallback(
+    (value: number) => {
+      if (Math.abs(value) < 0.01) return "0";
+      if (isImperial(settings)) {
+        return formatLength(value, settings, { showUnit: true, feet: true });
+      }
+      return Math.abs(value) >= 1000 ? `${value / 10}cm` : value;
+    },
+    [settings.units, settings.fractionPrecision],
+  );
+
   // Memoized horizontal ruler
   const horizontalRulerElements = useMemo(() => {
     if (!showRulers) return null;
     
     // Determine tick intervals based on zoom level
-    let majorStep: number;
-    let minorStep: number;
+    const { minor: minorStep, major: majorStep } = getGridSteps(zoom, settings);
+    const majorEvery = Math.round(majorStep / minorStep);
     
-    if (zoom > 1) {
-      majorStep = 50;   // 5cm
-      minorStep = 10;   // 1cm
-    } else if (zoom > 0.5) {
-      majorStep = 100;  // 10cm
-      minorStep = 10;   // 1cm
-    } else if (zoom > 0.2) {
-      majorStep = 100;  // 10cm
-      minorStep = 50;   // 5cm
-    } else if (zoom > 0.1) {
-      majorStep = 500;  // 50cm
-      minorStep = 100;  // 10cm
-    } else {
-      majorStep = 1000; // 100cm = 1m
-      minorStep = 500;  // 50cm
-    }
-    
-    const start = Math.floor(viewBoxX / minorStep) * minorStep;
+    const startIndex = Math.floor(viewBoxX / minorStep);
     const end = viewBoxX + viewBoxWidth + minorStep;
     const ticks = [];
     
     // Limit number of ticks to prevent performance issues
     const maxTicks = 150;
-    const step = Math.max(minorStep, Math.ceil((end - start) / maxTicks / minorStep) * minorStep);
+    const stride = Math.max(1, Math.ceil((end - startIndex * minorStep) / maxTicks / minorStep));
     
-    for (let x = start; x <= end; x += step) {
-      const isMajor = x % majorStep === 0;
-      const isOrigin = x === 0;
+    for (let i = startIndex; i * minorStep <= end; i += stride) {
+      const x = i * minorStep;
+      const isMajor = i % majorEvery === 0;
+      const isOrigin = i === 0;
       const tickHeight = isMajor ? 14 : 8;
       
       ticks.push(
-        <g key={x}>
+        <g key={i}>
           <line
             x1={x}
             y1={viewBoxY}
@@ -2332,7 +2564,7 @@ export default function Canvas() {
               fill={isOrigin ? AXIS_COLOR : "#666"}
               fontWeight={isOrigin ? 600 : 400}
             >
-              {x === 0 ? "0" : x >= 1000 ? `${x / 10}cm` : x}
+              {formatRulerLabel(x)}
             </text>
           )}
         </g>
@@ -2351,7 +2583,7 @@ export default function Canvas() {
         {ticks}
       </g>
     );
-  }, [showRulers, zoom, viewBoxX, viewBoxY, viewBoxWidth]);
+  }, [showRulers, zoom, viewBoxX, viewBoxY, viewBoxWidth, settings.units, formatRulerLabel]);
 
   const renderHorizontalRuler = () => horizontalRulerElements;
 
@@ -2360,42 +2592,26 @@ export default function Canvas() {
     if (!showRulers) return null;
     
     // Same tick intervals as horizontal ruler
-    let majorStep: number;
-    let minorStep: number;
+    const { minor: minorStep, major: majorStep } = getGridSteps(zoom, settings);
+    const majorEvery = Math.round(majorStep / minorStep);
     
-    if (zoom > 1) {
-      majorStep = 50;
-      minorStep = 10;
-    } else if (zoom > 0.5) {
-      majorStep = 100;
-      minorStep = 10;
-    } else if (zoom > 0.2) {
-      majorStep = 100;
-      minorStep = 50;
-    } else if (zoom > 0.1) {
-      majorStep = 500;
-      minorStep = 100;
-    } else {
-      majorStep = 1000;
-      minorStep = 500;
-    }
-    
-    const start = Math.floor(viewBoxY / minorStep) * minorStep;
+    const startIndex = Math.floor(viewBoxY / minorStep);
     const end = viewBoxY + viewBoxHeight + minorStep;
     const ticks = [];
     
     // Limit number of ticks
     const maxTicks = 150;
-    const step = Math.max(minorStep, Math.ceil((end - start) / maxTicks / minorStep) * minorStep);
+    const stride = Math.max(1, Math.ceil((end - startIndex * minorStep) / maxTicks / minorStep));
     
-    for (let screenY = start; screenY <= end; screenY += step) {
+    for (let i = startIndex; i * minorStep <= end; i += stride) {
+      const screenY = i * minorStep;
       const worldY = screenToWorldY(screenY);
-      const isMajor = screenY % majorStep === 0;
-      const isOrigin = worldY === 0;
+      const isMajor = i % majorEvery === 0;
+      const isOrigin = i === 0;
       const tickWidth = isMajor ? 14 : 8;
       
       ticks.push(
-        <g key={screenY}>
+        <g key={i}>
           <line
             x1={viewBoxX}
             y1={screenY}
@@ -2412,7 +2628,7 @@ export default function Canvas() {
               fill={isOrigin ? AXIS_COLOR : "#666"}
               fontWeight={isOrigin ? 600 : 400}
             >
-              {worldY === 0 ? "0" : Math.abs(worldY) >= 1000 ? `${worldY / 10}cm` : worldY}
+              {formatRulerLabel(worldY)}
             </text>
           )}
         </g>
@@ -2431,16 +2647,55 @@ export default function Canvas() {
         {ticks}
       </g>
     );
-  }, [showRulers, zoom, viewBoxX, viewBoxY, viewBoxHeight]);
+  }, [showRulers, zoom, viewBoxX, viewBoxY, viewBoxHeight, settings.units, formatRulerLabel]);
 
   const renderVerticalRuler = () => verticalRulerElements;
 
+  // Cut features are drawn in canvas background so they read as removed
+  const renderFeatures = (panel: Panel, width: number, height: number) => {
+    const face = { width, height };
+    const toScreen = (x: number, y: number) => `${panel.x + x},${worldToScreenY(panel.y + y)}`;
+    const outline = getFaceOutline(panel.features!, face);
+    const stroke = { stroke: "#94a3b8", strokeWidth: 1 / zoom, strokeDasharray: `${3 / zoom} ${2 / zoom}` };
+
+    return (
+      <g pointerEvents="none">
+        {/* Whatever the notches leave uncovered of the panel's rectangle */}
+        {outline.length > 4 && (
+          <path
+            d={`M${toScreen(0, 0)} L${toScreen(width, 0)} L${toScreen(width, height)} L${toScreen(0, height)} Z M${outline.map((p) => toScreen(p.x, p.y)).join(" L")} Z`}
+            fill="#f1f5f9"
+            fillRule="evenodd"
+            {...stroke}
+          />
+        )}
+        {getInteriorShapes(panel.features!, face).map((shape, i) =>
+          shape.kind === "circle" ? (
+            <circle key={i} cx={panel.x + shape.cx} cy={worldToScreenY(panel.y + shape.cy)} r={shape.r} fill="#f1f5f9" {...stroke} />
+          ) : (
+            <rect
+              key={i}
+              x={panel.x + shape.x}
+              y={worldToScreenY(panel.y + shape.y + shape.height)}
+              width={shape.width}
+              height={shape.height}
+              fill="#f1f5f9"
+              {...stroke}
+            />
+          ),
+        )}
+      </g>
+    );
+  };
+
   const renderPanel = (panel: Panel) => {
     const isSelected = selectedPanelIds.includes(panel.id);
     const isHovered = hoveredPanelId === panel.id && !isSelected;
-    const woodColor = getWoodColorVariants(settings.woodColor || "#E8D4B8");
-    const trueDims = getTrueDimensions(panel, settings.thickness);
-    const hitArea = getHitArea(panel, settings.thickness);
+    const panelIssues = issuesByPanel.get(panel.id);
+    const issueColor = panelIssues?.some((i) => i.severity === "error") ? "#dc2626" : "#f59e0b";
+    const woodColor = getWoodColorVariants(getPanelMaterial(panel, settings).color);
+    const trueDims = getTrueDimensions(panel, getPanelThickness(panel, settings));
+    const hitArea = getHitArea(panel, getPanelThickness(panel, settings));
     const { width, height } = trueDims;
     const orientation = panel.orientation || "horizontal";
 
@@ -2448,6 +2703,8 @@ export default function Canvas() {
     const screenX = panel.x;
     const screenY = worldToScreenY(panel.y + height);
     const handleSize = 8 / zoom; // Smaller handles
+    const lockX = screenX + width - (panel.quantity > 1 ? 40 : 16) / zoom;
+    const lockY = screenY + 16 / zoom;
 
     // Hit area extends around the true panel for easier clicking
     const hitX = screenX - hitArea.offsetX;
@@ -2462,7 +2719,7 @@ export default function Canvas() {
           width={hitArea.width}
           height={hitArea.height}
           fill="transparent"
-          style={{ cursor: spaceHeld || tool === "pan" ? "grab" : tool === "measure" ? "crosshair" : "move" }}
+          style={{ cursor: spaceHeld || tool === "pan" ? "grab" : tool === "measure" ? "crosshair" : panel.locked ? "default" : "move" }}
           onMouseDown={(e) => {
             if (!spaceHeld && tool !== "pan" && tool !== "measure") handleMouseDown(e, panel, "drag");
           }}
@@ -2490,6 +2747,24 @@ export default function Canvas() {
             opacity={0.8}
           />
         )}
+        {/* Issue outline */}
+        {panelIssues && (
+          <rect
+            x={screenX - 3 / zoom}
+            y={screenY - 3 / zoom}
+            width={width + 6 / zoom}
+            height={height + 6 / zoom}
+            fill="none"
+            stroke={issueColor}
+            strokeWidth={2 / zoom}
+            strokeDasharray={`${6 / zoom} ${3 / zoom}`}
+            rx={4}
+            ry={4}
+            pointerEvents="none"
+          >
+            <title>{panelIssues.map((i) => i.message).join("\n")}</title>
+          </rect>
+        )}
         {/* Visible panel at TRUE size */}
         <rect
           x={screenX}
@@ -2503,6 +2778,8 @@ export default function Canvas() {
           ry={2}
           pointerEvents="none"
         />
+        {/* Notches, cut-outs and holes - the face is only seen flat-on as a "back" */}
+        {orientation === "back" && panel.features?.length ? renderFeatures(panel, width, height) : null}
         {/* Orientation indicator - small icon in corner */}
         <text
           x={screenX + 6 / zoom}
@@ -2518,8 +2795,24 @@ export default function Canvas() {
               : "▢"}
         </text>
 
-        {/* Only show resize handles when exactly one panel is selected */}
+        {/* Lock badge - beside the quantity badge when there is one */}
+        {panel.locked && (
+          <g pointerEvents="none">
+            <circle cx={lockX} cy={lockY} r={9 / zoom} fill="#475569" stroke="white" strokeWidth={2 / zoom} />
+            <Lock
+              x={lockX - 5 / zoom}
+              y={lockY - 5 / zoom}
+              width={10 / zoom}
+              height={10 / zoom}
+              color="white"
+              strokeWidth={2.5}
+            />
+          </g>
+        )}
+
+        {/* Only show resize handles when exactly one unlocked panel is selected */}
         {isSelected &&
+          !panel.locked &&
           selectedPanelIds.length === 1 &&
           (orientation === "back"
             ? ["nw", "ne", "sw", "se", "n", "s", "e", "w"]
@@ -2603,9 +2896,12 @@ export default function Canvas() {
             {(() => {
               const ori = panel.orientation || "horizontal";
               const depth = panel.depth ?? settings.furnitureDepth ?? 400;
-              if (ori === "vertical") return `${Math.round(panel.height)} × ${Math.round(depth)}`;
-              if (ori === "horizontal") return `${Math.round(panel.width)} × ${Math.round(depth)}`;
-              return `${Math.round(panel.width)} × ${Math.round(panel.height)}`;
+              const fmt = (value: number) => formatLength(value, settings);
+              // Projections are labelled with what they show
+              if (view !== "front") return `${fmt(width)} × ${fmt(height)}`;
+              if (ori === "vertical") return `${fmt(panel.height)} × ${fmt(depth)}`;
+              if (ori === "horizontal") return `${fmt(panel.width)} × ${fmt(depth)}`;
+              return `${fmt(panel.width)} × ${fmt(panel.height)}`;
             })()}
           </text>
         )}
@@ -2613,6 +2909,37 @@ export default function Canvas() {
     );
   };
 
+  // Front and back faces of the furniture in the side and top views
+  const renderDepthBounds = () => {
+    if (view === "front") return null;
+    const depth = getFurnitureDepth(settings);
+    const faces = [
+      { label: "Front", at: 0 },
+      { label: "Back", at: depth },
+    ];
+    return (
+      <g pointerEvents="none">
+        {faces.map(({ label, at }) =>
+          view === "side" ? (
+            <g key={label}>
+              <line x1={at} y1={viewBoxY} x2={at} y2={viewBoxY + viewBoxHeight} stroke="#64748b" strokeWidth={1 / zoom} strokeDasharray={`${6 / zoom} ${4 / zoom}`} />
+              <text x={at + 4 / zoom} y={viewBoxY + (RULER_SIZE + 14) / zoom} fontSize={10 / zoom} fill="#64748b">
+                {label}
+              </text>
+            </g>
+          ) : (
+            <g key={label}>
+              <line x1={viewBoxX} y1={worldToScreenY(at)} x2={viewBoxX + viewBoxWidth} y2={worldToScreenY(at)} stroke="#64748b" strokeWidth={1 / zoom} strokeDasharray={`${6 / zoom} ${4 / zoom}`} />
+              <text x={viewBoxX + (RULER_SIZE + 4) / zoom} y={worldToScreenY(at) - 4 / zoom} fontSize={10 / zoom} fill="#64748b">
+                {label}
+              </text>
+            </g>
+          ),
+        )}
+      </g>
+    );
+  };
+
   const renderSnapGuides = () => {
     const renderedGuides: React.ReactNode[] = [];
     const gapLabels: React.ReactNode[] = [];
@@ -2649,6 +2976,8 @@ export default function Canvas() {
         const gapKey = `${guide.type}-${Math.round(guide.gapSize)}`;
         if (!seenGaps.has(gapKey)) {
           seenGaps.add(gapKey);
+          const gapText = formatLength(guide.gapSize, settings, { showUnit: true });
+          const gapLabelWidth = Math.max(50, gapText.length * 6 + 8);
           const labelX =
             guide.type === "vertical"
               ? guide.position + 5 / zoom
@@ -2663,20 +2992,20 @@ export default function Canvas() {
               <rect
                 x={labelX - 2 / zoom}
                 y={labelY - 12 / zoom}
-                width={50 / zoom}
+                width={gapLabelWidth / zoom}
                 height={16 / zoom}
                 fill="#10b981"
                 rx={3 / zoom}
               />
               <text
-                x={labelX + 23 / zoom}
+                x={labelX + (gapLabelWidth / 2 - 2) / zoom}
                 y={labelY - 1 / zoom}
                 fontSize={10 / zoom}
                 fill="white"
                 textAnchor="middle"
                 fontWeight={600}
               >
-                {Math.round(guide.gapSize)}mm
+                {gapText}
               </text>
             </g>,
           );
@@ -2913,7 +3242,7 @@ export default function Canvas() {
       maxY = -Infinity;
 
     selectedPanels.forEach((p) => {
-      const dims = getTrueDimensions(p, settings.thickness);
+      const dims = getTrueDimensions(p, getPanelThickness(p, settings));
       minX = Math.min(minX, p.x);
       maxX = Math.max(maxX, p.x + dims.width);
       minY = Math.min(minY, p.y);
@@ -2921,6 +3250,10 @@ export default function Canvas() {
     });
 
     const padding = 8 / zoom;
+    const groupName = groups.find((g) => g.id === selectedGroupId)?.name;
+    const badgeText = groupName
+      ? `${groupName} · ${selectedPanelIds.length} panels`
+      : `${selectedPanelIds.length} panels selected`;
 
     return (
       <g>
@@ -2943,7 +3276,7 @@ export default function Canvas() {
           <rect
             x={minX - padding}
             y={worldToScreenY(maxY) - padding - 24 / zoom}
-            width={120 / zoom}
+            width={Math.max(120, badgeText.length * 6 + 16) / zoom}
             height={20 / zoom}
             fill="#2563eb"
             rx={4 / zoom}
@@ -2956,7 +3289,7 @@ export default function Canvas() {
             fill="white"
             fontWeight={500}
           >
-            {selectedPanelIds.length} panels selected
+            {badgeText}
           </text>
         </g>
       </g>
@@ -2993,7 +3326,7 @@ export default function Canvas() {
 
     // Get all panel bounds
     const panelBounds = panels.map((p) => {
-      const dims = getTrueDimensions(p, settings.thickness);
+      const dims = getTrueDimensions(p, getPanelThickness(p, settings));
       return {
         id: p.id,
         left: p.x,
@@ -3101,7 +3434,7 @@ export default function Canvas() {
     });
 
     return measurements;
-  }, [showMeasurements, panels, settings.thickness]);
+  }, [showMeasurements, panels, settings]);
 
   const handleMeasurementDoubleClick = useCallback(
     (measurement: (typeof getMeasurements)[0], e: React.MouseEvent) => {
@@ -3121,22 +3454,22 @@ export default function Canvas() {
         currentValue: measurement.value,
         position: { x: screenX, y: screenY },
       });
-      setMeasurementInputValue(Math.round(measurement.value).toString());
+      setMeasurementInputValue(formatLength(measurement.value, settings));
     },
-    [],
+    [settings],
   );
 
   const handleMeasurementSubmit = useCallback(() => {
     if (!editingMeasurement) return;
 
-    const newValue = parseFloat(measurementInputValue);
-    if (isNaN(newValue) || newValue < 0) {
+    const newValue = parseLength(measurementInputValue, settings);
+    if (newValue === null || newValue < 0) {
       setEditingMeasurement(null);
       return;
     }
 
     const panel = panels.find((p) => p.id === editingMeasurement.panelId);
-    if (!panel) {
+    if (!panel || panel.locked) {
       setEditingMeasurement(null);
       return;
     }
@@ -3170,6 +3503,7 @@ export default function Canvas() {
     editingMeasurement,
     measurementInputValue,
     panels,
+    settings,
     updatePanel,
     saveToHistory,
   ]);
@@ -3177,7 +3511,9 @@ export default function Canvas() {
   const renderMeasurements = () => {
     if (!showMeasurements) return null;
 
-    const labelWidth = 50 / zoom;
+    // Fractional inches need a wider pill than whole millimetres
+    const labelWidthPx = isImperial(settings) ? 70 : 50;
+    const labelWidth = labelWidthPx / zoom;
     const labelHeight = 20 / zoom;
 
     // First pass: calculate initial label positions
@@ -3315,7 +3651,7 @@ export default function Canvas() {
             ) : null}
             {/* Label background (clickable) */}
             <rect
-              x={adjustedLabelX - 25 / zoom}
+              x={adjustedLabelX - labelWidthPx / 2 / zoom}
               y={adjustedLabelY - 10 / zoom}
               width={labelWidth}
               height={labelHeight}
@@ -3334,7 +3670,7 @@ export default function Canvas() {
               fontWeight={600}
               style={{ pointerEvents: "none" }}
             >
-              {Math.round(m.value)}
+              {formatLength(m.value, settings)}
             </text>
           </g>
         );
@@ -3390,7 +3726,7 @@ export default function Canvas() {
       <g className="measure-tool">
         {/* Highlight panels being measured */}
         {startPanelId && panels.filter(p => p.id === startPanelId || p.id === endPanelId).map((panel) => {
-          const dims = getTrueDimensions(panel, settings.thickness);
+          const dims = getTrueDimensions(panel, getPanelThickness(panel, settings));
           const screenY = worldToScreenY(panel.y + dims.height);
           return (
             <rect
@@ -3410,7 +3746,7 @@ export default function Canvas() {
         
         {/* Snap indicators for all panel corners/edges when measuring */}
         {measurePoints.length < 2 && panels.map((panel) => {
-          const dims = getTrueDimensions(panel, settings.thickness);
+          const dims = getTrueDimensions(panel, getPanelThickness(panel, settings));
           const points = [
             { x: panel.x, y: panel.y },
             { x: panel.x + dims.width, y: panel.y },
@@ -3501,12 +3837,13 @@ export default function Canvas() {
               {/* Only show extended label with dimensions if it's a diagonal (both deltas > 10) */}
               {(() => {
                 const showDimensions = measurePoints.length === 2 && deltaX > 10 && deltaY > 10;
+                const measureLabelWidth = isImperial(settings) ? 120 : 80;
                 return (
                   <>
                     <rect
-                      x={-40 / zoom}
+                      x={-measureLabelWidth / 2 / zoom}
                       y={showDimensions ? -24 / zoom : -12 / zoom}
-                      width={80 / zoom}
+                      width={measureLabelWidth / zoom}
                       height={showDimensions ? 44 / zoom : 24 / zoom}
                       fill="#10b981"
                       rx={4 / zoom}
@@ -3519,7 +3856,7 @@ export default function Canvas() {
                       textAnchor="middle"
                       fontWeight={600}
                     >
-                      {Math.round(distance)} mm
+                      {formatLength(distance, settings, { showUnit: true })}
                     </text>
                     {showDimensions && (
                       <text
@@ -3529,7 +3866,7 @@ export default function Canvas() {
                         fill="rgba(255,255,255,0.8)"
                         textAnchor="middle"
                       >
-                        {Math.round(deltaX)}×{Math.round(deltaY)}
+                        {formatLength(deltaX, settings)}×{formatLength(deltaY, settings)}
                       </text>
                     )}
                   </>
@@ -3587,6 +3924,32 @@ export default function Canvas() {
           <Square size={16} />
           <span className="text-xs">Back</span>
         </button>
+        <button
+          onClick={() => setShowCabinetWizard(true)}
+          className="p-1.5 text-slate-300 hover:text-white hover:bg-slate-700 rounded-md transition-colors flex items-center gap-1"
+          title="Generate a Cabinet"
+        >
+          <LayoutTemplate size={16} />
+          <span className="text-xs">Cabinet</span>
+        </button>
+        <button
+          onClick={() => setShowFrontWizard(true)}
+          disabled={selectedPanelIds.length === 0 || view !== "front"}
+          className={`p-1.5 rounded-md transition-colors flex items-center gap-1 ${selectedPanelIds.length > 0 && view === "front" ? "text-slate-300 hover:text-white hover:bg-slate-700" : "text-slate-600 cursor-not-allowed"}`}
+          title="Add doors or drawer fronts to the selected opening"
+        >
+          <DoorOpen size={16} />
+          <span className="text-xs">Fronts</span>
+        </button>
+        <button
+          onClick={() => setShowDrawerWizard(true)}
+          disabled={selectedPanelIds.length === 0 || view !== "front"}
+          className={`p-1.5 rounded-md transition-colors flex items-center gap-1 ${selectedPanelIds.length > 0 && view === "front" ? "text-slate-300 hover:text-white hover:bg-slate-700" : "text-slate-600 cursor-not-allowed"}`}
+          title="Build drawer boxes into the selected opening"
+        >
+          <Archive size={16} />
+          <span className="text-xs">Drawers</span>
+        </button>
         <div className="w-px h-5 bg-slate-600 mx-1" />
         
         {/* Tool Selection */}
@@ -3686,7 +4049,8 @@ export default function Canvas() {
         </button>
         <button
           onClick={() => setStickyNoteTool(!stickyNoteTool)}
-          className={`p-1.5 rounded-md transition-colors ${stickyNoteTool ? "bg-yellow-400 text-slate-800" : "text-slate-300 hover:text-white hover:bg-slate-700"}`}
+          disabled={view !== "front"}
+          className={`p-1.5 rounded-md transition-colors ${stickyNoteTool ? "bg-yellow-400 text-slate-800" : view !== "front" ? "text-slate-600 cursor-not-allowed" : "text-slate-300 hover:text-white hover:bg-slate-700"}`}
           title="Add Note (N)"
         >
           <StickyNote size={16} />
@@ -3729,7 +4093,7 @@ export default function Canvas() {
         >
           <div className="flex items-center gap-1 bg-white rounded-lg shadow-xl border border-slate-200 p-1">
             <input
-              type="number"
+              type="text"
               value={measurementInputValue}
               onChange={(e) => setMeasurementInputValue(e.target.value)}
               onKeyDown={(e) => {
@@ -3738,7 +4102,7 @@ export default function Canvas() {
               }}
               autoFocus
               className="w-20 px-2 py-1 text-sm border border-slate-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="mm"
+              placeholder={unitLabel(settings)}
             />
             <button
               onClick={handleMeasurementSubmit}
@@ -3777,15 +4141,15 @@ export default function Canvas() {
       {/* Status Bar - Bottom Left */}
       {calculateGaps && (
         <div className="absolute bottom-4 left-4 z-20 text-xs bg-slate-800 text-slate-300 rounded-lg px-3 py-1.5 shadow-lg font-mono">
-          <span className="text-slate-500">x:</span>
-          {Math.round(calculateGaps.panel.x)}{" "}
-          <span className="text-slate-500">y:</span>
-          {Math.round(calculateGaps.panel.y)}
+          <span className="text-slate-500">{viewLabels[0]}:</span>
+          {formatLength(calculateGaps.panel.x, settings)}{" "}
+          <span className="text-slate-500">{viewLabels[1]}:</span>
+          {formatLength(calculateGaps.panel.y, settings)}
           <span className="mx-2 text-slate-600">|</span>
-          <span className="text-slate-500">w:</span>
-          {Math.round(calculateGaps.visible.width)}{" "}
-          <span className="text-slate-500">h:</span>
-          {Math.round(calculateGaps.visible.height)}
+          <span className="text-slate-500">{viewLabels[2]}:</span>
+          {formatLength(calculateGaps.visible.width, settings)}{" "}
+          <span className="text-slate-500">{viewLabels[3]}:</span>
+          {formatLength(calculateGaps.visible.height, settings)}
         </div>
       )}
 
@@ -3796,15 +4160,18 @@ export default function Canvas() {
             <div className="flex items-center gap-1">
               <div 
                 className="h-1 bg-slate-400 rounded-full" 
-                style={{ width: `${Math.max(20, 100 * zoom)}px` }}
+                style={{ width: `${Math.max(20, (isImperial(settings) ? MM_PER_INCH * 4 : 100) * zoom)}px` }}
               />
             </div>
             <span className="font-mono">
-              = {zoom > 0.5 ? "10cm" : zoom > 0.2 ? "10cm" : zoom > 0.1 ? "50cm" : "1m"}
+              = {isImperial(settings) ? '4"' : "10cm"}
             </span>
           </div>
           <div className="text-[10px] text-slate-400 mt-1">
-            Grid: {zoom > 0.5 ? "1cm" : zoom > 0.2 ? "5cm" : zoom > 0.1 ? "10cm" : "50cm"} · All values in mm
+            Grid: {isImperial(settings)
+              ? formatLength(getGridSteps(zoom, settings).minor, settings, { showUnit: true, feet: true })
+              : `${getGridSteps(zoom, settings).minor / 10}cm`}{" "}
+            · All values in {isImperial(settings) ? "inches" : "mm"}
           </div>
         </div>
       )}
@@ -3833,6 +4200,62 @@ export default function Canvas() {
         )}
       </div>
 
+      {/* Elevation Switcher - Top Left */}
+      <div className="absolute top-8 left-8 z-20 flex items-center gap-2">
+        <div className="flex items-center bg-white/90 backdrop-blur rounded-lg p-0.5 shadow border border-slate-200">
+          {ELEVATION_VIEWS.map((v) => (
+            <button
+              key={v.id}
+              onClick={() => setView(v.id)}
+              className={`px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${view === v.id ? "bg-slate-800 text-white" : "text-slate-600 hover:bg-slate-100"}`}
+              title={`${v.name} view (${v.key})`}
+            >
+              {v.name}
+            </button>
+          ))}
+        </div>
+        {view !== "front" && (
+          <span className="text-[10px] text-slate-500 bg-white/80 backdrop-blur rounded-lg px-2 py-1 shadow">
+            {view === "side" ? "Front on the left" : "Front at the bottom"} · drag to set depth and Z position
+          </span>
+        )}
+        {issues.length > 0 && (
+          <div className="relative">
+            <button
+              onClick={() => setShowIssues(!showIssues)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-lg shadow border transition-colors ${
+                issues.some((i) => i.severity === "error")
+                  ? "bg-red-50 text-red-700 border-red-200 hover:bg-red-100"
+                  : "bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100"
+              }`}
+              aria-expanded={showIssues}
+              title="Design issues"
+            >
+              <AlertTriangle size={14} />
+              {issues.length} {issues.length === 1 ? "issue" : "issues"}
+            </button>
+            {showIssues && (
+              <div className="absolute left-0 top-full mt-1 w-80 max-h-72 overflow-y-auto bg-white rounded-lg shadow-xl border border-slate-200 py-1">
+                {issues.map((issue) => (
+                  <button
+                    key={issue.id}
+                    onClick={() => handleShowIssue(issue)}
+                    className="w-full flex items-start gap-2 px-3 py-2 text-left text-xs text-slate-700 hover:bg-slate-50"
+                  >
+                    {issue.severity === "error" ? (
+                      <XCircle size={14} className="text-red-600 flex-shrink-0 mt-px" />
+                    ) : (
+                      <AlertTriangle size={14} className="text-amber-500 flex-shrink-0 mt-px" />
+                    )}
+                    <span>{issue.message}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Keyboard Hints - Top Right (small, unobtrusive) */}
       {!dragging && !resizing && (
         <div className="absolute top-4 right-4 z-20 text-[10px] text-slate-400 bg-white/80 backdrop-blur rounded-lg px-2 py-1.5 shadow">
@@ -3876,12 +4299,13 @@ export default function Canvas() {
           />
           {renderGrid()}
           {renderAxes()}
+          {renderDepthBounds()}
           {panels.map(renderPanel)}
           {renderSelectionBounds()}
           {renderSnapGuides()}
           {renderMeasurements()}
           {renderMeasureTool()}
-          {renderStickyNotes()}
+          {view === "front" && renderStickyNotes()}
           {renderMarqueeSelection()}
           {panels.length === 0 && stickyNotes.length === 0 && (
             <g>
@@ -3931,6 +4355,10 @@ export default function Canvas() {
           )}
         </svg>
       </div>
+
+      <CabinetWizard isOpen={showCabinetWizard} onClose={() => setShowCabinetWizard(false)} />
+      <FrontWizard isOpen={showFrontWizard} onClose={() => setShowFrontWizard(false)} />
+      <DrawerWizard isOpen={showDrawerWizard} onClose={() => setShowDrawerWizard(false)} />
     </div>
   );
 }
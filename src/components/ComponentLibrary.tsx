@@ -0,0 +1,232 @@
+/**
+ * Component Library
+ *
+ * Sidebar section for the shared component library: save the selected
+ * panels as a component, insert saved components at a position, and move
+ * the library between machines as a JSON file.
+ */
+
+import { Download, Library, Plus, Trash2, Upload } from "lucide-react";
+import React, { useRef, useState } from "react";
+import { exportLibraryToJSON, importLibraryFromJSON } from "../lib/export";
+import { createComponent, getInsertPosition } from "../lib/library";
+import { formatSize } from "../lib/units";
+import { useDesignStore } from "../stores/designStore";
+import { useLibraryStore } from "../stores/libraryStore";
+import type { LibraryComponent } from "../types";
+import { DimensionInput, useToast } from "./ui";
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function ComponentLibrary() {
+  const { panels, selectedPanelIds, joints, stickyNotes, groups, settings, insertComponent } = useDesignStore();
+  const { components, addComponent, updateComponent, removeComponent, importComponents } = useLibraryStore();
+  const toast = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  // Insert position; follows the design's right edge until the user sets one
+  const [position, setPosition] = useState<{ x: number; y: number } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const selectedPanels = panels.filter((p) => selectedPanelIds.includes(p.id));
+  const insertAt = position || getInsertPosition(panels, settings);
+
+  // Suggest the group's name when the selection is one group
+  const selectedGroup = groups.find((g) => selectedPanels.length > 0 && selectedPanels.every((p) => p.groupId === g.id));
+
+  const handleSave = () => {
+    const component = createComponent(
+      name || selectedGroup?.name || "",
+      description,
+      selectedPanels,
+      joints,
+      stickyNotes,
+      settings,
+    );
+    addComponent(component);
+    setName("");
+    setDescription("");
+    toast.success("Component saved", `${component.name} is in the library`);
+  };
+
+  const handleInsert = (component: LibraryComponent) => {
+    insertComponent(component, insertAt.x, insertAt.y);
+    setPosition(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const imported = await importLibraryFromJSON(file);
+      const added = importComponents(imported);
+      toast.success(
+        "Library imported",
+        `Added ${added} component${added !== 1 ? "s" : ""}` +
+          (added < imported.length ? `, ${imported.length - added} already in the library` : ""),
+      );
+    } catch (err) {
+      toast.error("Import failed", err instanceof Error ? err.message : "Could not read the file");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="flex items-center gap-1.5 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wide">
+          <Library size={12} />
+          Component Library
+        </h3>
+        <div className="flex items-center gap-1">
+          <input ref={fileInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded"
+            aria-label="Import library"
+            title="Import library"
+          >
+            <Upload size={14} />
+          </button>
+          <button
+            onClick={() => exportLibraryToJSON(components)}
+            disabled={components.length === 0}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Export library"
+            title="Export library"
+          >
+            <Download size={14} />
+          </button>
+        </div>
+      </div>
+
+      {selectedPanels.length > 0 && (
+        <div className="space-y-2 mb-3 p-2 bg-gray-50 dark:bg-slate-700/50 rounded-md">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={selectedGroup?.name || "Component name"}
+            className={inputClass}
+            aria-label="Component name"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Notes (optional)"
+            rows={2}
+            className={`${inputClass} resize-none`}
+            aria-label="Component notes"
+          />
+          <button
+            onClick={handleSave}
+            className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={14} />
+            Save {selectedPanels.length} panel{selectedPanels.length !== 1 ? "s" : ""} as component
+          </button>
+        </div>
+      )}
+
+      {components.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          Select panels to save them as a component you can insert into any project.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 mb-2 text-xs text-gray-500 dark:text-gray-400">
+            <span className="shrink-0">Insert at</span>
+            <span>X</span>
+            <DimensionInput
+              value={insertAt.x}
+              onChange={(x) => setPosition({ ...insertAt, x })}
+              settings={settings}
+              className={inputClass}
+              ariaLabel="Insert at X"
+            />
+            <span>Y</span>
+            <DimensionInput
+              value={insertAt.y}
+              onChange={(y) => setPosition({ ...insertAt, y })}
+              settings={settings}
+              className={inputClass}
+              ariaLabel="Insert at Y"
+            />
+          </div>
+          <ul className="space-y-1">
+            {components.map((component) => {
+              const expanded = expandedId === component.id;
+              return (
+                <li
+                  key={component.id}
+                  className="border border-gray-200 dark:border-slate-600 rounded-md text-sm"
+                >
+                  <div className="flex items-center gap-1 pl-2">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : component.id)}
+                      className="flex-1 min-w-0 py-1.5 text-left"
+                    >
+                      <div className="truncate font-medium text-gray-800 dark:text-gray-200">{component.name}</div>
+                      <div className="text-xs text-gray-400">
+                        {component.panels.length} panel{component.panels.length !== 1 ? "s" : ""} ·{" "}
+                        {formatSize(component.width, component.height, settings)}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleInsert(component)}
+                      className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700 rounded"
+                    >
+                      Insert
+                    </button>
+                    <button
+                      onClick={() => removeComponent(component.id)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 rounded"
+                      aria-label={`Remove ${component.name}`}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                  {expanded && (
+                    <div className="px-2 pb-2 space-y-1.5">
+                      <input
+                        type="text"
+                        value={component.name}
+                        onChange={(e) => updateComponent(component.id, { name: e.target.value })}
+                        className={inputClass}
+                        aria-label="Component name"
+                      />
+                      <textarea
+                        value={component.description || ""}
+                        onChange={(e) => updateComponent(component.id, { description: e.target.value || undefined })}
+                        placeholder="Notes (optional)"
+                        rows={2}
+                        className={`${inputClass} resize-none`}
+                        aria-label="Component notes"
+                      />
+                      <ul className="text-xs text-gray-500 dark:text-gray-400">
+                        {component.panels.map((panel, i) => (
+                          <li key={i} className="truncate">
+                            {panel.label}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {!expanded && component.description && (
+                    <p className="px-2 pb-1.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+                      {component.description}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,64 @@
-import { calculateGroupedCutList } from "../lib/optimizer";
+import { Fragment } from "react";
+import { calculateGroupedCutList, type PieceBanding } from "../lib/optimizer";
+import { formatArea, formatLength, formatSize, unitLabel } from "../lib/units";
 import { useDesignStore } from "../stores/designStore";
 
 interface CutListTableProps {
   variant?: "sidebar" | "print";
 }
 
+/**
+ * The piece as a small rectangle, length across, with its banded edges
+ * drawn thick: long edges top and bottom, short edges left and right.
+ */
+function BandingMark({ banding }: { banding?: PieceBanding }) {
+  if (!banding) return <span className="text-gray-300">—</span>;
+  const { long, short, type } = banding;
+  return (
+    <svg width={28} height={16} viewBox="0 0 28 16" className="inline-block align-middle">
+      <title>{type.name}</title>
+      <rect x={3} y={3} width={22} height={10} fill="none" stroke="#cbd5e1" strokeWidth={1} />
+      {long > 0 && <line x1={3} y1={3} x2={25} y2={3} stroke="#1d4ed8" strokeWidth={2.5} />}
+      {long > 1 && <line x1={3} y1={13} x2={25} y2={13} stroke="#1d4ed8" strokeWidth={2.5} />}
+      {short > 0 && <line x1={3} y1={3} x2={3} y2={13} stroke="#1d4ed8" strokeWidth={2.5} />}
+      {short > 1 && <line x1={25} y1={3} x2={25} y2={13} stroke="#1d4ed8" strokeWidth={2.5} />}
+    </svg>
+  );
+}
+
+// Marks the dimension the grain runs along
+function GrainMark() {
+  return (
+    <span className="ml-1 text-[10px] text-amber-700" title="Grain runs this way">
+      ═
+    </span>
+  );
+}
+
 export default function CutListTable({
   variant = "sidebar",
 }: CutListTableProps) {
-  const { panels, settings } = useDesignStore();
+  const { panels, joints, settings } = useDesignStore();
   
   const { pieces, totalPieces, totalArea } = calculateGroupedCutList(
     panels,
-    settings.thickness,
-    settings.furnitureDepth || 400,
+    settings,
+    joints,
   );
 
+  const hasMultipleMaterials = new Set(pieces.map((p) => p.materialId)).size > 1;
+  const thicknessText = Array.from(new Set(pieces.map((p) => p.thickness)))
+    .map((t) => formatLength(t, settings, { showUnit: true }))
+    .join(" / ");
+
+  const hasBanding = pieces.some((p) => p.banding);
+
+  // The size once banded, when banding makes it differ from the cut size
+  const finishedNote = (piece: (typeof pieces)[number]) =>
+    piece.banding && (piece.finishedLength !== piece.length || piece.finishedWidth !== piece.width)
+      ? `Finished ${formatSize(piece.finishedLength, piece.finishedWidth, settings)} with ${piece.banding.type.name.toLowerCase()}`
+      : null;
+
   if (panels.length === 0) {
     return (
       <p className="text-sm text-gray-400">Add panels to see the cut list</p>
@@ -26,13 +69,18 @@ export default function CutListTable({
     return (
       <div>
         <p className="text-xs text-gray-500 mb-3">
-          Pieces grouped by dimensions. Cut these from {settings.thickness}mm
+          Pieces grouped by {hasMultipleMaterials ? "material, " : ""}dimensions, grain and banding. Cut these from {thicknessText}
           board stock.
         </p>
         <table className="w-full border-collapse">
           <thead>
             <tr className="bg-gray-900 text-white">
               <th className="text-center py-2 px-3 text-xs font-semibold">Part</th>
+              {hasMultipleMaterials && (
+                <th className="text-left py-2 px-3 text-xs font-semibold">
+                  Material
+                </th>
+              )}
               <th className="text-right py-2 px-3 text-xs font-semibold">
                 Length
               </th>
@@ -42,6 +90,11 @@ export default function CutListTable({
               <th className="text-right py-2 px-3 text-xs font-semibold">
                 Thick
               </th>
+              {hasBanding && (
+                <th className="text-center py-2 px-3 text-xs font-semibold">
+                  Band
+                </th>
+              )}
               <th className="text-center py-2 px-3 text-xs font-semibold">
                 Qty
               </th>
@@ -51,38 +104,66 @@ export default function CutListTable({
             </tr>
           </thead>
           <tbody>
-            {pieces.map((item, index) => (
-              <tr
-                key={index}
-                className={index % 2 === 0 ? "bg-gray-50" : "bg-white"}
-              >
-                <td className="py-2 px-3 text-sm text-center border-b border-gray-200">
-                  <span className="inline-flex items-center justify-center w-6 h-6 bg-slate-700 text-white text-xs font-semibold rounded-full">
-                    {item.letter}
-                  </span>
-                </td>
-                <td className="py-2 px-3 text-sm text-gray-700 text-right border-b border-gray-200 font-medium">
-                  {item.length}mm
-                </td>
-                <td className="py-2 px-3 text-sm text-gray-700 text-right border-b border-gray-200">
-                  {item.width}mm
-                </td>
-                <td className="py-2 px-3 text-sm text-gray-700 text-right border-b border-gray-200">
-                  {item.thickness}mm
-                </td>
-                <td className="py-2 px-3 text-sm text-gray-900 text-center border-b border-gray-200 font-bold">
-                  {item.qty}
-                </td>
-                <td className="py-2 px-3 text-sm text-gray-600 text-right border-b border-gray-200">
-                  {item.area.toFixed(2)}m²
-                </td>
-              </tr>
-            ))}
+            {pieces.map((item, index) => {
+              const finished = finishedNote(item);
+              return (
+                <Fragment key={index}>
+                  <tr className={index % 2 === 0 ? "bg-gray-50" : "bg-white"}>
+                    <td className="py-2 px-3 text-sm text-center border-b border-gray-200">
+                      <span className="inline-flex items-center justify-center w-6 h-6 bg-slate-700 text-white text-xs font-semibold rounded-full">
+                        {item.letter}
+                      </span>
+                    </td>
+                    {hasMultipleMaterials && (
+                      <td className="py-2 px-3 text-sm text-gray-700 border-b border-gray-200">
+                        {item.materialName}
+                      </td>
+                    )}
+                    <td className="py-2 px-3 text-sm text-gray-700 text-right border-b border-gray-200 font-medium">
+                      {formatLength(item.length, settings, { showUnit: true })}
+                      {item.grain === "length" && <GrainMark />}
+                    </td>
+                    <td className="py-2 px-3 text-sm text-gray-700 text-right border-b border-gray-200">
+                      {formatLength(item.width, settings, { showUnit: true })}
+                      {item.grain === "width" && <GrainMark />}
+                    </td>
+                    <td className="py-2 px-3 text-sm text-gray-700 text-right border-b border-gray-200">
+                      {formatLength(item.thickness, settings, { showUnit: true })}
+                    </td>
+                    {hasBanding && (
+                      <td className="py-2 px-3 text-center border-b border-gray-200">
+                        <BandingMark banding={item.banding} />
+                      </td>
+                    )}
+                    <td className="py-2 px-3 text-sm text-gray-900 text-center border-b border-gray-200 font-bold">
+                      {item.qty}
+                    </td>
+                    <td className="py-2 px-3 text-sm text-gray-600 text-right border-b border-gray-200">
+                      {formatArea(item.area * 1_000_000, settings)}
+                    </td>
+                  </tr>
+                  {(item.machining.length > 0 || finished) && (
+                    <tr className={index % 2 === 0 ? "bg-gray-50" : "bg-white"}>
+                      <td className="border-b border-gray-200" />
+                      <td
+                        colSpan={5 + (hasMultipleMaterials ? 1 : 0) + (hasBanding ? 1 : 0)}
+                        className="pb-2 px-3 text-xs text-gray-600 border-b border-gray-200"
+                      >
+                        {finished && <div>{finished}</div>}
+                        {item.machining.map((note, i) => (
+                          <div key={i}>✂ {note}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
           </tbody>
           <tfoot>
             <tr className="bg-gray-100 font-semibold">
               <td
-                colSpan={4}
+                colSpan={4 + (hasMultipleMaterials ? 1 : 0) + (hasBanding ? 1 : 0)}
                 className="py-2 px-3 text-sm text-gray-900 text-right"
               >
                 Total:
@@ -91,7 +172,7 @@ export default function CutListTable({
                 {totalPieces}
               </td>
               <td className="py-2 px-3 text-sm text-gray-900 text-right">
-                {totalArea.toFixed(2)}m²
+                {formatArea(totalArea * 1_000_000, settings)}
               </td>
             </tr>
           </tfoot>
@@ -108,11 +189,16 @@ export default function CutListTable({
           <tr className="border-b border-gray-200">
             <th className="text-center py-2 px-2 text-gray-500 font-medium">Part</th>
             <th className="text-right py-2 px-2 text-gray-500 font-medium">
-              Length
+              Length ({unitLabel(settings)})
             </th>
             <th className="text-right py-2 px-2 text-gray-500 font-medium">
-              Width
+              Width ({unitLabel(settings)})
             </th>
+            {hasBanding && (
+              <th className="text-center py-2 px-2 text-gray-500 font-medium">
+                Band
+              </th>
+            )}
             <th className="text-center py-2 px-2 text-gray-500 font-medium">
               Qty
             </th>
@@ -122,47 +208,70 @@ export default function CutListTable({
           </tr>
         </thead>
         <tbody>
-          {pieces.map((piece, index) => (
-            <tr
-              key={index}
-              className="border-b border-gray-100 hover:bg-gray-50"
-            >
-              <td className="py-2 px-2 text-center">
-                <span className="inline-flex items-center justify-center w-6 h-6 bg-slate-700 text-white text-xs font-semibold rounded-full">
-                  {piece.letter}
-                </span>
-              </td>
-              <td className="py-2 px-2 text-right text-gray-600 font-medium">
-                {piece.length}
-              </td>
-              <td className="py-2 px-2 text-right text-gray-600">
-                {piece.width}
-              </td>
-              <td className="py-2 px-2 text-center text-gray-800 font-semibold">
-                {piece.qty}
-              </td>
-              <td className="py-2 px-2 text-right text-gray-600">
-                {piece.area.toFixed(2)}
-              </td>
-            </tr>
-          ))}
+          {pieces.map((piece, index) => {
+            const finished = finishedNote(piece);
+            return (
+              <Fragment key={index}>
+                <tr className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-2 px-2 text-center">
+                    <span
+                      className="inline-flex items-center justify-center w-6 h-6 bg-slate-700 text-white text-xs font-semibold rounded-full"
+                      title={`${piece.materialName} · ${formatLength(piece.thickness, settings, { showUnit: true })}`}
+                    >
+                      {piece.letter}
+                    </span>
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-600 font-medium">
+                    {formatLength(piece.length, settings)}
+                  {piece.grain === "length" && <GrainMark />}
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-600">
+                    {formatLength(piece.width, settings)}
+                  {piece.grain === "width" && <GrainMark />}
+                  </td>
+                  {hasBanding && (
+                    <td className="py-2 px-2 text-center">
+                      <BandingMark banding={piece.banding} />
+                    </td>
+                  )}
+                  <td className="py-2 px-2 text-center text-gray-800 font-semibold">
+                    {piece.qty}
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-600">
+                    {formatArea(piece.area * 1_000_000, settings)}
+                  </td>
+                </tr>
+                {(piece.machining.length > 0 || finished) && (
+                  <tr className="border-b border-gray-100">
+                    <td />
+                    <td colSpan={hasBanding ? 5 : 4} className="pb-2 px-2 text-xs text-gray-500">
+                      {finished && <div>{finished}</div>}
+                      {piece.machining.map((note, i) => (
+                        <div key={i}>✂ {note}</div>
+                      ))}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
         </tbody>
         <tfoot>
           <tr className="bg-gray-50 font-medium">
-            <td colSpan={3} className="py-2 px-2 text-gray-700">
+            <td colSpan={hasBanding ? 4 : 3} className="py-2 px-2 text-gray-700">
               Total
             </td>
             <td className="py-2 px-2 text-center text-gray-700">
               {totalPieces}
             </td>
             <td className="py-2 px-2 text-right text-gray-700">
-              {totalArea.toFixed(2)}m²
+              {formatArea(totalArea * 1_000_000, settings)}
             </td>
           </tr>
         </tfoot>
       </table>
       <p className="text-xs text-gray-400 mt-2">
-        Board thickness: {settings.thickness}mm • Grouped by cut dimensions
+        Board thickness: {thicknessText} • Grouped by {hasMultipleMaterials ? "material, " : ""}cut dimensions, grain and banding
       </p>
     </div>
   );
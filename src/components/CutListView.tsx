@@ -1,4 +1,6 @@
 import { ClipboardList, Download, FileText, Scissors } from "lucide-react";
+import { getCutOptions } from "../lib/optimizer";
+import { formatLength, formatSize } from "../lib/units";
 import { useDesignStore } from "../stores/designStore";
 import CutList from "./CutList";
 import CuttingDiagram from "./CuttingDiagram";
@@ -52,7 +54,7 @@ export default function CutListView() {
             </h2>
             <p className="text-sm text-gray-500">
               {panels.length} panel{panels.length !== 1 ? "s" : ""} • Sheet
-              size: {settings.sheetWidth} × {settings.sheetHeight} mm
+              size: {formatSize(settings.sheetWidth, settings.sheetHeight, settings)}
             </p>
           </div>
         </div>
@@ -138,7 +140,10 @@ export default function CutListView() {
                 💡 Cutting Tips
               </h4>
               <ul className="text-sm text-amber-700 space-y-1">
-                <li>• Allow 3mm for each cut (blade kerf)</li>
+                <li>
+                  • Allow {formatLength(getCutOptions(settings).kerf, settings, { showUnit: true })} for
+                  each cut (blade kerf)
+                </li>
                 <li>• Cut larger pieces first to minimize waste</li>
                 <li>• Double-check measurements before cutting</li>
                 <li>• Consider grain direction for visible surfaces</li>
@@ -1,32 +1,59 @@
-import { AlertTriangle, CheckCircle2, Info } from "lucide-react";
+import { AlertTriangle, Archive, CheckCircle2, Info, PackageCheck, Sparkles, Square } from "lucide-react";
 import React, { memo, useMemo } from "react";
-import { calculateGroupedCutList, getPanelLetter, optimizeCuts } from "../lib/optimizer";
+import {
+  calculateGroupedCutList,
+  getCutOptions,
+  getCutPanels,
+  getPanelLetter,
+  getPieceBanding,
+  getStockUsage,
+  summarizeMaterialResults,
+} from "../lib/optimizer";
+import { getPlacedFeatureShapes } from "../lib/features";
+import { getMaterialStock } from "../lib/materials";
+import { formatLength, formatSize } from "../lib/units";
+import { useLayoutSearch, useSheetLayout } from "../hooks/useLayoutSearch";
 import { useDesignStore } from "../stores/designStore";
+import { useInventoryStore } from "../stores/inventoryStore";
+import { SEARCH_TIME_OPTIONS, useLayoutStore } from "../stores/layoutStore";
+import { useToast } from "./ui";
 
 const DIAGRAM_WIDTH = 520;
 const DIAGRAM_HEIGHT = 260;
 
 const CuttingDiagram = memo(function CuttingDiagram() {
-  const { panels, settings } = useDesignStore();
+  const { panels, joints, settings } = useDesignStore();
+  const { searchTime, setSearchTime } = useLayoutStore();
+  const { items: inventory, addItems, consumeItems } = useInventoryStore();
+  const toast = useToast();
 
   // Get dimension-to-letter mapping (sorted by size, A = largest)
   const { dimensionToLetter } = useMemo(() => {
-    return calculateGroupedCutList(
-      panels,
-      settings.thickness,
-      settings.furnitureDepth || 400,
-    );
-  }, [panels, settings.thickness, settings.furnitureDepth]);
+    return calculateGroupedCutList(panels, settings, joints);
+  }, [panels, settings, joints]);
 
-  const result = useMemo(() => {
-    return optimizeCuts(
-      panels, 
-      settings.sheetWidth, 
-      settings.sheetHeight, 
-      settings.furnitureDepth || 400,
-      dimensionToLetter
-    );
-  }, [panels, settings.sheetWidth, settings.sheetHeight, settings.furnitureDepth, dimensionToLetter]);
+  // Pieces are cut longer for dados and rabbets, shorter for banding
+  const cutPanels = useMemo(() => getCutPanels(panels, joints, settings), [panels, joints, settings]);
+
+  const cutOptions = useMemo(
+    () => getCutOptions(settings),
+    [settings.kerf, settings.edgeTrim, settings.minOffcut, settings.cutMode],
+  );
+
+  // Each material is nested on its own sheets; a better layout when the
+  // user has searched for one
+  const { baseResults, results: materialResults, improved, key } = useSheetLayout(
+    cutPanels,
+    settings,
+    dimensionToLetter,
+    inventory,
+  );
+  const search = useLayoutSearch(key);
+
+  const summary = useMemo(
+    () => summarizeMaterialResults(materialResults),
+    [materialResults],
+  );
 
   if (panels.length === 0) {
     return (
@@ -36,6 +63,9 @@ const CuttingDiagram = memo(function CuttingDiagram() {
     );
   }
 
+  // Every part is cut from board stock; BoardDiagram lays those out
+  if (materialResults.length === 0) return null;
+
   // Calculate efficiency rating
   const getEfficiencyRating = (waste: number) => {
     if (waste <= 15) return { label: "Excellent", color: "text-green-600", bg: "bg-green-50" };
@@ -44,27 +74,73 @@ const CuttingDiagram = memo(function CuttingDiagram() {
     return { label: "Poor", color: "text-red-600", bg: "bg-red-50" };
   };
   
-  const efficiency = getEfficiencyRating(result.totalWaste);
+  const efficiency = getEfficiencyRating(summary.totalWaste);
+
+  const usedInventoryIds = materialResults.flatMap(({ result }) =>
+    result.sheets.flatMap((sheet) => (sheet.inventoryId ? [sheet.inventoryId] : [])),
+  );
+  // Offcuts this project has already saved aren't offered again, so the
+  // button can't add the same pieces twice
+  const savedOffcuts = inventory.filter(
+    (item) => item.source === "offcut" && (item.projectName || "") === (settings.projectName || ""),
+  );
+  const newOffcuts = materialResults
+    .flatMap(({ material, result }) =>
+      (result.usableWaste || []).map((waste) => ({
+        label: `${settings.projectName || "Project"} offcut`,
+        materialType: material.type,
+        thickness: material.thickness,
+        width: waste.width,
+        height: waste.height,
+        quantity: 1,
+        source: "offcut" as const,
+        projectName: settings.projectName,
+      })),
+    )
+    .filter((offcut) => {
+      const saved = savedOffcuts.findIndex(
+        (item) =>
+          item.materialType === offcut.materialType &&
+          item.thickness === offcut.thickness &&
+          item.width === offcut.width &&
+          item.height === offcut.height,
+      );
+      if (saved === -1) return true;
+      savedOffcuts.splice(saved, 1);
+      return false;
+    });
+  const offcutCount = newOffcuts.length;
 
-  const scale =
-    Math.min(
-      DIAGRAM_WIDTH / settings.sheetWidth,
-      DIAGRAM_HEIGHT / settings.sheetHeight,
-    ) * 0.95;
+  const handleSaveOffcuts = () => {
+    addItems(newOffcuts);
+    toast.success("Offcuts saved", `${offcutCount} offcut${offcutCount !== 1 ? "s" : ""} added to your inventory`);
+  };
+
+  const handleSearch = () => {
+    search.start({ panels: cutPanels, settings, dimensionToLetter, inventory, timeBudget: searchTime * 1000 });
+  };
+  const sheetsSaved = summarizeMaterialResults(baseResults).totalSheets - summary.totalSheets;
 
-  const scaledSheetWidth = settings.sheetWidth * scale;
-  const scaledSheetHeight = settings.sheetHeight * scale;
+  const handleConsumeInventory = () => {
+    consumeItems(usedInventoryIds);
+    toast.success("Inventory updated", `${usedInventoryIds.length} piece${usedInventoryIds.length !== 1 ? "s" : ""} marked as used`);
+  };
+  const hasMultipleMaterials = materialResults.length > 1;
+  const primaryMaterial = materialResults[0].material;
 
   return (
     <div className="space-y-5">
       {/* Summary Cards */}
       <div className="grid grid-cols-3 gap-4">
         <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
-          <div className="text-2xl font-bold text-slate-800">{result.totalSheets}</div>
-          <div className="text-sm text-slate-500">Sheets needed</div>
+          <div className="text-2xl font-bold text-slate-800">{summary.totalSheets}</div>
+          <div className="text-sm text-slate-500">
+            Sheets needed
+            {usedInventoryIds.length > 0 && ` + ${usedInventoryIds.length} from inventory`}
+          </div>
         </div>
         <div className={`rounded-lg p-4 border ${efficiency.bg} border-opacity-50`}>
-          <div className={`text-2xl font-bold ${efficiency.color}`}>{100 - result.totalWaste}%</div>
+          <div className={`text-2xl font-bold ${efficiency.color}`}>{100 - summary.totalWaste}%</div>
           <div className="text-sm text-slate-500">Material used</div>
         </div>
         <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
@@ -74,7 +150,7 @@ const CuttingDiagram = memo(function CuttingDiagram() {
       </div>
 
       {/* Unplaced pieces warning */}
-      {result.unplacedPieces.length > 0 && (
+      {summary.unplacedPieces.length > 0 && (
         <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
           <AlertTriangle
             className="text-amber-500 flex-shrink-0 mt-0.5"
@@ -85,15 +161,17 @@ const CuttingDiagram = memo(function CuttingDiagram() {
               Some pieces are too large for the sheet
             </p>
             <p className="text-amber-700 mt-1">
-              {result.unplacedPieces.map((p) => getPanelLetter(p, settings.furnitureDepth || 400, dimensionToLetter)).join(", ")} won't fit
-              on a {settings.sheetWidth}×{settings.sheetHeight}mm sheet. Consider using larger sheets.
+              {summary.unplacedPieces.map((p) => getPanelLetter(p, settings.furnitureDepth || 400, dimensionToLetter)).join(", ")} won't fit
+              on {hasMultipleMaterials
+                ? "their material's sheets"
+                : `a ${formatSize(primaryMaterial.sheetWidth, primaryMaterial.sheetHeight, settings)} sheet`}. Consider using larger sheets.
             </p>
           </div>
         </div>
       )}
 
       {/* Efficiency tip */}
-      {result.totalWaste > 30 && result.unplacedPieces.length === 0 && (
+      {summary.totalWaste > 30 && summary.unplacedPieces.length === 0 && (
         <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-start gap-3">
           <Info className="text-blue-500 flex-shrink-0 mt-0.5" size={16} />
           <p className="text-sm text-blue-700">
@@ -103,234 +181,481 @@ const CuttingDiagram = memo(function CuttingDiagram() {
         </div>
       )}
 
-      {/* Sheet Diagrams */}
-      <div className="space-y-6">
-        {result.sheets.map((sheet, sheetIndex) => {
-          const utilization = 100 - sheet.wastePercent;
-          const sheetEfficiency = getEfficiencyRating(sheet.wastePercent);
-          
-          return (
-            <div key={sheet.id} className="bg-white border border-slate-200 rounded-lg overflow-hidden">
-              {/* Sheet Header */}
-              <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
-                <div className="flex items-center gap-3">
-                  <span className="inline-flex items-center justify-center w-7 h-7 bg-slate-700 text-white text-sm font-semibold rounded-full">
-                    {sheetIndex + 1}
-                  </span>
-                  <span className="font-medium text-slate-700">Sheet {sheetIndex + 1}</span>
-                </div>
-                <div className="flex items-center gap-4 text-sm">
-                  <span className="text-slate-500">
-                    {sheet.placements.length} piece{sheet.placements.length !== 1 ? 's' : ''}
-                  </span>
-                  <span className={`font-medium ${sheetEfficiency.color}`}>
-                    {utilization}% used
-                  </span>
-                </div>
+      {/* Layout search */}
+      <div className="no-print flex flex-wrap items-center gap-3 p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm">
+        <Sparkles size={16} className="text-violet-500" />
+        {search.running ? (
+          <>
+            <div className="flex-1 min-w-40">
+              <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-violet-500 transition-[width]"
+                  style={{ width: `${Math.round(search.progress * 100)}%` }}
+                />
               </div>
+              <div className="mt-1 text-xs text-slate-500">
+                Searching... {search.iterations.toLocaleString()} layouts tried
+                {improved && ` · best so far saves ${sheetsSaved} sheet${sheetsSaved !== 1 ? "s" : ""}`}
+              </div>
+            </div>
+            <button
+              onClick={search.stop}
+              className="flex items-center gap-1.5 px-3 py-1.5 font-medium text-slate-700 bg-white border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors"
+            >
+              <Square size={12} />
+              Stop
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 text-slate-600">
+              {improved
+                ? sheetsSaved > 0
+                  ? `Found a layout using ${sheetsSaved} fewer sheet${sheetsSaved !== 1 ? "s" : ""}`
+                  : "Found a tighter layout"
+                : search.progress === 1
+                  ? `No better layout found after ${search.iterations.toLocaleString()} tries`
+                  : "Try many more piece orders to look for a layout with fewer sheets"}
+            </span>
+            <select
+              value={searchTime}
+              onChange={(e) => setSearchTime(parseInt(e.target.value))}
+              className="px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-slate-700"
+              aria-label="Search time"
+            >
+              {SEARCH_TIME_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds}s
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleSearch}
+              className="px-3 py-1.5 font-medium text-white bg-violet-600 rounded-lg hover:bg-violet-700 transition-colors"
+            >
+              Find better layout
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Inventory actions */}
+      {(offcutCount > 0 || usedInventoryIds.length > 0) && (
+        <div className="no-print flex flex-wrap items-center gap-2">
+          {offcutCount > 0 && (
+            <button
+              onClick={handleSaveOffcuts}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-green-700 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors"
+            >
+              <Archive size={14} />
+              Save {offcutCount} offcut{offcutCount !== 1 ? "s" : ""} to inventory
+            </button>
+          )}
+          {usedInventoryIds.length > 0 && (
+            <button
+              onClick={handleConsumeInventory}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-slate-700 bg-slate-50 border border-slate-200 rounded-lg hover:bg-slate-100 transition-colors"
+            >
+              <PackageCheck size={14} />
+              Mark inventory pieces as used
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Sheet Diagrams - one set per material */}
+      {materialResults.map(({ material, result }) => {
+        const hasMultipleSizes = getMaterialStock(material).length > 1;
+        // One scale per material so offcuts show at their true relative size
+        const scale =
+          Math.min(
+            DIAGRAM_WIDTH / Math.max(material.sheetWidth, ...result.sheets.map((s) => s.width)),
+            DIAGRAM_HEIGHT / Math.max(material.sheetHeight, ...result.sheets.map((s) => s.height)),
+          ) * 0.95;
+
+        return (
+          <div key={material.id} className="space-y-6">
+            {(hasMultipleMaterials || hasMultipleSizes) && (
+              <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <span
+                  className="w-4 h-4 rounded-full border border-slate-300"
+                  style={{ backgroundColor: material.color }}
+                />
+                {material.name} · {formatLength(material.thickness, settings, { showUnit: true })}
+                <span className="font-normal text-slate-500">
+                  ({getStockUsage(material, result)
+                    .map((usage) => `${usage.sheets} × ${formatSize(usage.stock.width, usage.stock.height, settings)}`)
+                    .join(" + ")})
+                </span>
+              </div>
+            )}
+            {result.sheets.map((sheet, sheetIndex) => {
+              const utilization = 100 - sheet.wastePercent;
+              const sheetEfficiency = getEfficiencyRating(sheet.wastePercent);
+              const sheetCuts = result.cutSequence?.filter((c) => c.sheetIndex === sheetIndex) ?? [];
+              const inventoryItem = sheet.inventoryId
+                ? inventory.find((item) => item.id === sheet.inventoryId)
+                : undefined;
+              const scaledSheetWidth = sheet.width * scale;
+              const scaledSheetHeight = sheet.height * scale;
+          
+              return (
+                <div key={sheet.id} className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+                  {/* Sheet Header */}
+                  <div className="flex items-center justify-between px-4 py-3 bg-slate-50 border-b border-slate-200">
+                    <div className="flex items-center gap-3">
+                      <span className="inline-flex items-center justify-center w-7 h-7 bg-slate-700 text-white text-sm font-semibold rounded-full">
+                        {sheetIndex + 1}
+                      </span>
+                      <span className="font-medium text-slate-700">Sheet {sheetIndex + 1}</span>
+                      {hasMultipleSizes && sheet.stockId && (
+                        <span className="px-2 py-0.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 rounded">
+                          {formatSize(sheet.width, sheet.height, settings)}
+                        </span>
+                      )}
+                      {sheet.inventoryId && (
+                        <span className="px-2 py-0.5 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded">
+                          Inventory: {inventoryItem?.label || "offcut"} · {formatSize(sheet.width, sheet.height, settings)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 text-sm">
+                      <span className="text-slate-500">
+                        {sheet.placements.length} piece{sheet.placements.length !== 1 ? 's' : ''}
+                      </span>
+                      <span className={`font-medium ${sheetEfficiency.color}`}>
+                        {utilization}% used
+                      </span>
+                    </div>
+                  </div>
               
-              {/* Sheet Diagram */}
-              <div className="p-4 flex justify-center">
-                <svg
-                  width={scaledSheetWidth + 2}
-                  height={scaledSheetHeight + 2}
-                  className="drop-shadow-sm"
-                >
-                  {/* Sheet background with wood texture */}
-                  <defs>
-                    <pattern id={`wood-${sheet.id}`} patternUnits="userSpaceOnUse" width="200" height="200">
-                      <rect width="200" height="200" fill="#f7f3ed" />
-                      <line x1="0" y1="12" x2="200" y2="14" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
-                      <line x1="0" y1="38" x2="200" y2="36" stroke="#ebe4d8" strokeWidth="0.5" opacity="0.5" />
-                      <line x1="0" y1="65" x2="200" y2="67" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
-                      <line x1="0" y1="95" x2="200" y2="94" stroke="#ebe4d8" strokeWidth="0.5" opacity="0.5" />
-                      <line x1="0" y1="120" x2="200" y2="122" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
-                      <line x1="0" y1="150" x2="200" y2="148" stroke="#ebe4d8" strokeWidth="0.5" opacity="0.5" />
-                      <line x1="0" y1="175" x2="200" y2="177" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
-                    </pattern>
-                    <filter id="piece-shadow" x="-10%" y="-10%" width="120%" height="120%">
-                      <feDropShadow dx="0" dy="1" stdDeviation="1" floodOpacity="0.15"/>
-                    </filter>
-                  </defs>
+                  {/* Sheet Diagram */}
+                  <div className="p-4 flex justify-center">
+                    <svg
+                      width={scaledSheetWidth + 2}
+                      height={scaledSheetHeight + 2}
+                      className="drop-shadow-sm"
+                    >
+                      {/* Sheet background with wood texture */}
+                      <defs>
+                        <pattern id={`wood-${sheet.id}`} patternUnits="userSpaceOnUse" width="200" height="200">
+                          <rect width="200" height="200" fill="#f7f3ed" />
+                          <line x1="0" y1="12" x2="200" y2="14" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
+                          <line x1="0" y1="38" x2="200" y2="36" stroke="#ebe4d8" strokeWidth="0.5" opacity="0.5" />
+                          <line x1="0" y1="65" x2="200" y2="67" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
+                          <line x1="0" y1="95" x2="200" y2="94" stroke="#ebe4d8" strokeWidth="0.5" opacity="0.5" />
+                          <line x1="0" y1="120" x2="200" y2="122" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
+                          <line x1="0" y1="150" x2="200" y2="148" stroke="#ebe4d8" strokeWidth="0.5" opacity="0.5" />
+                          <line x1="0" y1="175" x2="200" y2="177" stroke="#ebe4d8" strokeWidth="1" opacity="0.7" />
+                        </pattern>
+                        <filter id="piece-shadow" x="-10%" y="-10%" width="120%" height="120%">
+                          <feDropShadow dx="0" dy="1" stdDeviation="1" floodOpacity="0.15"/>
+                        </filter>
+                      </defs>
                   
-                  {/* Sheet outline */}
-                  <rect
-                    x={1}
-                    y={1}
-                    width={scaledSheetWidth}
-                    height={scaledSheetHeight}
-                    fill={`url(#wood-${sheet.id})`}
-                    stroke="#c4b5a0"
-                    strokeWidth={1.5}
-                    rx={2}
-                  />
+                      {/* Sheet outline */}
+                      <rect
+                        x={1}
+                        y={1}
+                        width={scaledSheetWidth}
+                        height={scaledSheetHeight}
+                        fill={`url(#wood-${sheet.id})`}
+                        stroke="#c4b5a0"
+                        strokeWidth={1.5}
+                        rx={2}
+                      />
 
-                  {/* Placed pieces */}
-                  {sheet.placements.map((placement) => {
-                    const x = placement.x * scale + 1;
-                    const y = placement.y * scale + 1;
-                    const w = placement.width * scale;
-                    const h = placement.height * scale;
-                    const letter = placement.letter || "?";
-
-                    return (
-                      <g key={placement.id} filter="url(#piece-shadow)">
-                        {/* Panel rectangle - clean wood color */}
-                        <rect
-                          x={x}
-                          y={y}
-                          width={w}
-                          height={h}
-                          fill="#fdfcfa"
-                          stroke="#64748b"
-                          strokeWidth={1.5}
-                          rx={2}
-                        />
-                        
-                        {/* Subtle inner highlight */}
+                      {/* Edge trim line */}
+                      {cutOptions.edgeTrim > 0 && !sheet.inventoryId && (
                         <rect
-                          x={x + 2}
-                          y={y + 2}
-                          width={w - 4}
-                          height={h - 4}
+                          x={cutOptions.edgeTrim * scale + 1}
+                          y={cutOptions.edgeTrim * scale + 1}
+                          width={(sheet.width - 2 * cutOptions.edgeTrim) * scale}
+                          height={(sheet.height - 2 * cutOptions.edgeTrim) * scale}
                           fill="none"
-                          stroke="#fff"
+                          stroke="#c4b5a0"
                           strokeWidth={1}
-                          rx={1}
-                          opacity={0.5}
+                          strokeDasharray="4 3"
                         />
+                      )}
+
+                      {/* Placed pieces */}
+                      {sheet.placements.map((placement) => {
+                        const x = placement.x * scale + 1;
+                        const y = placement.y * scale + 1;
+                        const w = placement.width * scale;
+                        const h = placement.height * scale;
+                        const letter = placement.letter || "?";
+                        const source = panels.find((p) => p.id === placement.sourceId);
+                        const features = source
+                          ? getPlacedFeatureShapes(source, settings.furnitureDepth || 400, placement)
+                          : [];
+                        const cutPanel = cutPanels.find((p) => p.id === placement.sourceId);
+                        const banding = cutPanel && getPieceBanding(cutPanel, settings);
+                        // Banded edges as lines just inside the piece; the long edges run along its longer side
+                        const bandingEdges: [number, number, number, number][] = [];
+                        if (banding) {
+                          const top: [number, number, number, number] = [x, y + 3, x + w, y + 3];
+                          const bottom: [number, number, number, number] = [x, y + h - 3, x + w, y + h - 3];
+                          const left: [number, number, number, number] = [x + 3, y, x + 3, y + h];
+                          const right: [number, number, number, number] = [x + w - 3, y, x + w - 3, y + h];
+                          const [long, short] = w >= h ? [[top, bottom], [left, right]] : [[left, right], [top, bottom]];
+                          bandingEdges.push(...long.slice(0, banding.long), ...short.slice(0, banding.short));
+                        }
+
+                        return (
+                          <g key={placement.id} filter="url(#piece-shadow)">
+                            {/* Panel rectangle - clean wood color */}
+                            <rect
+                              x={x}
+                              y={y}
+                              width={w}
+                              height={h}
+                              fill="#fdfcfa"
+                              stroke="#64748b"
+                              strokeWidth={1.5}
+                              rx={2}
+                            />
                         
-                        {/* Letter label badge */}
-                        <circle
-                          cx={x + 14}
-                          cy={y + 14}
-                          r={10}
-                          fill="#1e3a5f"
-                        />
-                        <text
-                          x={x + 14}
-                          y={y + 18}
-                          textAnchor="middle"
-                          fontSize={11}
-                          fill="white"
-                          fontWeight="600"
-                          fontFamily="system-ui, sans-serif"
-                        >
-                          {letter}
-                        </text>
-                        
-                        {/* Dimensions - centered in piece */}
-                        {w > 55 && h > 35 && (
-                          <text
-                            x={x + w / 2}
-                            y={y + h / 2 + 4}
-                            textAnchor="middle"
-                            dominantBaseline="middle"
-                            fontSize={10}
-                            fill="#475569"
-                            fontWeight="500"
-                            fontFamily="system-ui, sans-serif"
-                          >
-                            {placement.width}×{placement.height}
-                          </text>
-                        )}
+                            {/* Subtle inner highlight */}
+                            <rect
+                              x={x + 2}
+                              y={y + 2}
+                              width={w - 4}
+                              height={h - 4}
+                              fill="none"
+                              stroke="#fff"
+                              strokeWidth={1}
+                              rx={1}
+                              opacity={0.5}
+                            />
+
+                            {bandingEdges.map(([x1, y1, x2, y2], i) => (
+                              <line key={`band-${i}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#1d4ed8" strokeWidth={2} opacity={0.7} />
+                            ))}
+
+                            {/* Notches, cut-outs and holes show the sheet through */}
+                            {features.map((shape, i) =>
+                              shape.kind === "circle" ? (
+                                <circle
+                                  key={i}
+                                  cx={x + shape.cx * scale}
+                                  cy={y + shape.cy * scale}
+                                  r={shape.r * scale}
+                                  fill={`url(#wood-${sheet.id})`}
+                                  stroke="#64748b"
+                                  strokeWidth={1}
+                                  strokeDasharray="3 2"
+                                />
+                              ) : (
+                                <rect
+                                  key={i}
+                                  x={x + shape.x * scale}
+                                  y={y + shape.y * scale}
+                                  width={shape.width * scale}
+                                  height={shape.height * scale}
+                                  fill={`url(#wood-${sheet.id})`}
+                                  stroke="#64748b"
+                                  strokeWidth={1}
+                                  strokeDasharray="3 2"
+                                />
+                              ),
+                            )}
                         
-                        {/* Rotation indicator */}
-                        {placement.rotated && w > 45 && (
-                          <g transform={`translate(${x + w - 16}, ${y + 8})`}>
+                            {/* Letter label badge */}
+                            <circle
+                              cx={x + 14}
+                              cy={y + 14}
+                              r={10}
+                              fill="#1e3a5f"
+                            />
                             <text
-                              fontSize={11}
-                              fill="#94a3b8"
+                              x={x + 14}
+                              y={y + 18}
+                              textAnchor="middle"
+                              fontSize={letter.length > 2 ? 8 : 11}
+                              fill="white"
+                              fontWeight="600"
                               fontFamily="system-ui, sans-serif"
                             >
-                              ↻
+                              {letter}
                             </text>
-                          </g>
-                        )}
                         
-                        {/* Grain direction indicator */}
-                        {placement.grainDirection && placement.grainDirection !== "none" && w > 35 && h > 25 && (
-                          <g transform={`translate(${x + w - 22}, ${y + h - 14})`}>
+                            {/* Dimensions - centered in piece */}
+                            {w > 55 && h > 35 && (
+                              <text
+                                x={x + w / 2}
+                                y={y + h / 2 + 4}
+                                textAnchor="middle"
+                                dominantBaseline="middle"
+                                fontSize={10}
+                                fill="#475569"
+                                fontWeight="500"
+                                fontFamily="system-ui, sans-serif"
+                              >
+                                {formatLength(placement.width, settings)}×{formatLength(placement.height, settings)}
+                              </text>
+                            )}
+                        
+                            {/* Rotation indicator */}
+                            {placement.rotated && w > 45 && (
+                              <g transform={`translate(${x + w - 16}, ${y + 8})`}>
+                                <text
+                                  fontSize={11}
+                                  fill="#94a3b8"
+                                  fontFamily="system-ui, sans-serif"
+                                >
+                                  ↻
+                                </text>
+                              </g>
+                            )}
+                        
+                            {/* Grain direction indicator */}
+                            {placement.grainDirection && placement.grainDirection !== "none" && w > 35 && h > 25 && (
+                              <g transform={`translate(${x + w - 22}, ${y + h - 14})`}>
+                                <text
+                                  fontSize={10}
+                                  fill="#8b7355"
+                                  fontFamily="system-ui, sans-serif"
+                                  aria-label={`Grain: ${placement.grainDirection}`}
+                                >
+                                  {placement.grainDirection === "horizontal" ? "═══" : "║"}
+                                </text>
+                              </g>
+                            )}
+                          </g>
+                        );
+                      })}
+                  
+                      {/* Usable waste areas - shown with dashed outline */}
+                      {result.usableWaste?.filter(w => w.sheetIndex === sheetIndex).map((waste, wasteIndex) => {
+                        const x = waste.x * scale + 1;
+                        const y = waste.y * scale + 1;
+                        const w = waste.width * scale;
+                        const h = waste.height * scale;
+                        const areaM2 = (waste.area / 1000000).toFixed(2);
+                    
+                        return (
+                          <g key={`waste-${wasteIndex}`} opacity={0.6}>
+                            <rect
+                              x={x}
+                              y={y}
+                              width={w}
+                              height={h}
+                              fill="#dcfce7"
+                              stroke="#22c55e"
+                              strokeWidth={1}
+                              strokeDasharray="4 2"
+                              rx={2}
+                            />
+                            {w > 50 && h > 30 && (
+                              <text
+                                x={x + w / 2}
+                                y={y + h / 2 + 3}
+                                textAnchor="middle"
+                                dominantBaseline="middle"
+                                fontSize={9}
+                                fill="#16a34a"
+                                fontWeight="500"
+                                fontFamily="system-ui, sans-serif"
+                              >
+                                {formatLength(waste.width, settings)}×{formatLength(waste.height, settings)}
+                              </text>
+                            )}
+                          </g>
+                        );
+                      })}
+
+                      {/* Numbered guillotine cuts */}
+                      {sheetCuts.map((cut) => {
+                        const midX = ((cut.x1 + cut.x2) / 2) * scale + 1;
+                        const midY = ((cut.y1 + cut.y2) / 2) * scale + 1;
+
+                        return (
+                          <g key={`cut-${cut.step}`}>
+                            <line
+                              x1={cut.x1 * scale + 1}
+                              y1={cut.y1 * scale + 1}
+                              x2={cut.x2 * scale + 1}
+                              y2={cut.y2 * scale + 1}
+                              stroke="#dc2626"
+                              strokeWidth={1.25}
+                              strokeDasharray="6 3"
+                            />
+                            <circle cx={midX} cy={midY} r={7} fill="#dc2626" />
                             <text
-                              fontSize={10}
-                              fill="#8b7355"
+                              x={midX}
+                              y={midY + 3}
+                              textAnchor="middle"
+                              fontSize={8}
+                              fill="white"
+                              fontWeight="600"
                               fontFamily="system-ui, sans-serif"
-                              aria-label={`Grain: ${placement.grainDirection}`}
                             >
-                              {placement.grainDirection === "horizontal" ? "═══" : "║"}
+                              {cut.step}
                             </text>
                           </g>
-                        )}
-                      </g>
-                    );
-                  })}
-                  
-                  {/* Usable waste areas - shown with dashed outline */}
-                  {result.usableWaste?.filter(w => w.sheetIndex === sheetIndex).map((waste, wasteIndex) => {
-                    const x = waste.x * scale + 1;
-                    const y = waste.y * scale + 1;
-                    const w = waste.width * scale;
-                    const h = waste.height * scale;
-                    const areaM2 = (waste.area / 1000000).toFixed(2);
-                    
-                    return (
-                      <g key={`waste-${wasteIndex}`} opacity={0.6}>
-                        <rect
-                          x={x}
-                          y={y}
-                          width={w}
-                          height={h}
-                          fill="#dcfce7"
-                          stroke="#22c55e"
-                          strokeWidth={1}
-                          strokeDasharray="4 2"
-                          rx={2}
-                        />
-                        {w > 50 && h > 30 && (
-                          <text
-                            x={x + w / 2}
-                            y={y + h / 2 + 3}
-                            textAnchor="middle"
-                            dominantBaseline="middle"
-                            fontSize={9}
-                            fill="#16a34a"
-                            fontWeight="500"
-                            fontFamily="system-ui, sans-serif"
-                          >
-                            {waste.width}×{waste.height}
-                          </text>
-                        )}
-                      </g>
-                    );
-                  })}
-                </svg>
-              </div>
-              
-              {/* Usable waste summary for this sheet */}
-              {result.usableWaste && result.usableWaste.filter(w => w.sheetIndex === sheetIndex).length > 0 && (
-                <div className="px-4 pb-3">
-                  <div className="text-xs text-green-600 flex items-center gap-1">
-                    <span className="inline-block w-3 h-3 border border-green-400 border-dashed rounded bg-green-50"></span>
-                    <span>
-                      Usable offcuts: {result.usableWaste.filter(w => w.sheetIndex === sheetIndex).map(w => `${w.width}×${w.height}mm`).join(", ")}
-                    </span>
+                        );
+                      })}
+                    </svg>
                   </div>
+
+                  {/* Cut sequence for this sheet */}
+                  {sheetCuts.length > 0 && (
+                    <div className="px-4 pb-3">
+                      <div className="text-xs font-medium text-slate-600 mb-1">Cut sequence</div>
+                      <ol className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-0.5 text-xs text-slate-600">
+                        {sheetCuts.map((cut) => (
+                          <li key={cut.step} className="flex items-center gap-1.5">
+                            <span className="inline-flex items-center justify-center w-4 h-4 bg-red-600 text-white text-[10px] font-semibold rounded-full">
+                              {cut.step}
+                            </span>
+                            {cut.direction === "rip" ? "Rip" : "Crosscut"} at {formatLength(cut.offset, settings, { showUnit: true })}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+              
+                  {/* Usable waste summary for this sheet */}
+                  {result.usableWaste && result.usableWaste.filter(w => w.sheetIndex === sheetIndex).length > 0 && (
+                    <div className="px-4 pb-3">
+                      <div className="text-xs text-green-600 flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 border border-green-400 border-dashed rounded bg-green-50"></span>
+                        <span>
+                          Usable offcuts: {result.usableWaste.filter(w => w.sheetIndex === sheetIndex).map(w => formatSize(w.width, w.height, settings)).join(", ")}
+                        </span>
+                      </div>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-          );
-        })}
-      </div>
+              );
+            })}
+          </div>
+        );
+      })}
 
       {/* Footer info */}
       <div className="flex items-center justify-between text-xs text-slate-500 pt-2">
         <div className="flex items-center gap-1">
           <Info size={12} />
-          <span>Sheet: {settings.sheetWidth}×{settings.sheetHeight}mm • Thickness: {settings.thickness}mm</span>
+          <span>
+            {hasMultipleMaterials
+              ? `${materialResults.length} materials`
+              : `Sheet: ${getMaterialStock(primaryMaterial).map((stock) => formatSize(stock.width, stock.height, settings)).join(" or ")} • Thickness: ${formatLength(primaryMaterial.thickness, settings, { showUnit: true })}`}
+          </span>
         </div>
         <div className="flex items-center gap-1">
           <CheckCircle2 size={12} className="text-green-500" />
-          <span>Includes 3mm kerf allowance</span>
+          <span>
+            Includes {formatLength(cutOptions.kerf, settings, { showUnit: true })} kerf allowance
+            {cutOptions.edgeTrim > 0 && (
+              <> • {formatLength(cutOptions.edgeTrim, settings, { showUnit: true })} edge trim</>
+            )}
+            {cutOptions.mode !== "nested" && (
+              <> • Guillotine, {cutOptions.mode === "rip-first" ? "rip" : "crosscut"} first</>
+            )}
+          </span>
         </div>
       </div>
     </div>
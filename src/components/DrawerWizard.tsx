@@ -0,0 +1,304 @@
+/**
+ * Drawer Wizard
+ *
+ * Modal for building drawer boxes into the opening framed by the selected
+ * panels: pick a slide type, how many drawers to stack and what to make
+ * them from, and add every box as one group in a single undoable step.
+ */
+
+import { Archive, X } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_DRAWER_BOX_OPTIONS,
+  SLIDE_TYPES,
+  generateDrawerBoxes,
+  getBoxDepth,
+  getOpeningDepth,
+  getSlideLengths,
+  validateDrawerBoxes,
+  type DrawerBoxOptions,
+  type SlideType,
+} from "../lib/drawers";
+import { findOpening } from "../lib/fronts";
+import { DEFAULT_MATERIAL_ID, getMaterial, getMaterials } from "../lib/materials";
+import { formatLength, formatSize } from "../lib/units";
+import { useDesignStore } from "../stores/designStore";
+import { DimensionInput } from "./ui";
+
+interface DrawerWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const toMaterialId = (id: string) => (id === DEFAULT_MATERIAL_ID ? undefined : id);
+
+export default function DrawerWizard({ isOpen, onClose }: DrawerWizardProps) {
+  const { panels, selectedPanelIds, settings, addPanels } = useDesignStore();
+  const [options, setOptions] = useState<DrawerBoxOptions>(() => {
+    // Bottoms default to the thinnest sheet in the library
+    const thinnest = [...getMaterials(settings)].sort((a, b) => a.thickness - b.thickness)[0];
+    return { ...DEFAULT_DRAWER_BOX_OPTIONS, bottomMaterialId: toMaterialId(thinnest.id) };
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const update = (updates: Partial<DrawerBoxOptions>) => setOptions((o) => ({ ...o, ...updates }));
+
+  const selected = useMemo(
+    () => panels.filter((p) => selectedPanelIds.includes(p.id)),
+    [panels, selectedPanelIds],
+  );
+  const opening = useMemo(() => findOpening(selected, settings), [selected, settings]);
+  const openingDepth = useMemo(() => getOpeningDepth(selected, settings), [selected, settings]);
+
+  const error = opening
+    ? validateDrawerBoxes(opening, openingDepth, options, settings)
+    : "Select the panels around an opening first";
+  const preview = useMemo(
+    () => (opening && !error ? generateDrawerBoxes(opening, openingDepth, options, settings) : []),
+    [opening, openingDepth, options, settings, error],
+  );
+
+  if (!isOpen) return null;
+
+  const handleCreate = () => {
+    if (error || preview.length === 0) return;
+    addPanels(preview, { groupName: options.count > 1 ? "Drawer boxes" : "Drawer box" });
+    onClose();
+  };
+
+  const materials = getMaterials(settings);
+  const slideLengths = getSlideLengths(options.slide, openingDepth);
+  const boxDepth = getBoxDepth(openingDepth, options);
+  const boxT = getMaterial(settings, options.boxMaterialId).thickness;
+  const bottomT = getMaterial(settings, options.bottomMaterialId).thickness;
+
+  // Cut sizes of one box; every drawer in the stack is the same
+  const [side, , front, , bottom] = preview;
+  const parts = side
+    ? [
+        { name: "Sides", quantity: 2, size: formatSize(side.width, side.height, settings), thickness: boxT },
+        { name: "Front & back", quantity: 2, size: formatSize(front.width, front.height, settings), thickness: boxT },
+        { name: "Bottom", quantity: 1, size: formatSize(bottom.width, bottom.height, settings), thickness: bottomT },
+      ]
+    : [];
+
+  // Preview frames the opening with the selection around it
+  const T = settings.thickness;
+  const box = opening && {
+    x: opening.x - opening.frame.left - T,
+    y: opening.y - opening.frame.bottom - T,
+    width: opening.width + opening.frame.left + opening.frame.right + 2 * T,
+    height: opening.height + opening.frame.bottom + opening.frame.top + 2 * T,
+  };
+  const scale = box ? Math.min(160 / box.width, 200 / box.height) : 1;
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="drawer-wizard-title"
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} aria-hidden="true" />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full p-6 animate-scale-in">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+          aria-label="Close drawer wizard"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-2 mb-4">
+          <Archive size={20} className="text-blue-600" />
+          <h3 id="drawer-wizard-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+            Drawer Boxes
+          </h3>
+        </div>
+
+        {/* Slide type */}
+        <div className="grid grid-cols-3 gap-2 mb-5">
+          {(Object.keys(SLIDE_TYPES) as SlideType[]).map((slide) => (
+            <button
+              key={slide}
+              onClick={() => update({ slide, slideLength: undefined })}
+              className={`p-2 text-left rounded-lg border transition-colors ${
+                options.slide === slide
+                  ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30"
+                  : "border-gray-200 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700"
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-800 dark:text-gray-100">{SLIDE_TYPES[slide].name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{SLIDE_TYPES[slide].description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-6">
+          {/* Options */}
+          <div className="flex-1 grid grid-cols-3 gap-3 content-start">
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Drawers</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={options.count}
+                onChange={(e) => update({ count: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Slide length</label>
+              {slideLengths.length > 0 ? (
+                <select
+                  value={boxDepth}
+                  onChange={(e) => update({ slideLength: parseInt(e.target.value) })}
+                  className={inputClass}
+                >
+                  {slideLengths.map((length) => (
+                    <option key={length} value={length}>
+                      {formatLength(length, settings, { showUnit: true })}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <div className="px-2 py-1.5 text-sm text-gray-600 dark:text-gray-300">
+                  {boxDepth > 0 ? formatLength(boxDepth, settings, { showUnit: true }) : "–"}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Groove depth</label>
+              <DimensionInput value={options.grooveDepth} onChange={(grooveDepth) => update({ grooveDepth })} settings={settings} min={0} max={20} ariaLabel="Groove depth" className={inputClass} />
+            </div>
+            <div className="col-span-3 grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Box material</label>
+                <select
+                  value={options.boxMaterialId || DEFAULT_MATERIAL_ID}
+                  onChange={(e) => update({ boxMaterialId: toMaterialId(e.target.value) })}
+                  className={inputClass}
+                >
+                  {materials.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name} ({formatLength(m.thickness, settings, { showUnit: true })})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Bottom material</label>
+                <select
+                  value={options.bottomMaterialId || DEFAULT_MATERIAL_ID}
+                  onChange={(e) => update({ bottomMaterialId: toMaterialId(e.target.value) })}
+                  className={inputClass}
+                >
+                  {materials.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name} ({formatLength(m.thickness, settings, { showUnit: true })})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Cut sizes */}
+            <div className="col-span-3 text-xs">
+              {error ? (
+                <span className="text-red-600">{error}</span>
+              ) : (
+                <table className="w-full text-gray-600 dark:text-gray-300">
+                  <tbody>
+                    {parts.map((part) => (
+                      <tr key={part.name}>
+                        <td className="py-0.5">{part.name}</td>
+                        <td className="py-0.5 text-right tabular-nums">
+                          {part.quantity * options.count} × {part.size}
+                        </td>
+                        <td className="py-0.5 pl-2 text-right text-gray-400">{formatLength(part.thickness, settings, { showUnit: true })}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {!error && bottomT >= boxT && (
+                <p className="mt-1 text-amber-600">Add a thinner sheet material in Settings for the bottoms.</p>
+              )}
+            </div>
+          </div>
+
+          {/* Front elevation preview */}
+          <div className="w-44 h-52 flex items-end justify-center bg-gray-50 dark:bg-slate-900 rounded-lg p-2">
+            {box && (
+              <svg width={box.width * scale} height={box.height * scale} viewBox={`${box.x} ${-box.y - box.height} ${box.width} ${box.height}`}>
+                {selected.map((panel) => {
+                  const w = panel.orientation === "vertical" ? T : panel.width;
+                  const h = (panel.orientation || "horizontal") === "horizontal" ? T : panel.height;
+                  return (
+                    <rect
+                      key={panel.id}
+                      x={panel.x}
+                      y={-panel.y - h}
+                      width={w}
+                      height={h}
+                      fill={panel.orientation === "back" ? "#f1f5f9" : "#d4a373"}
+                      stroke="#64748b"
+                      strokeWidth={1 / scale}
+                    />
+                  );
+                })}
+                {preview
+                  .filter((panel) => panel.orientation === "back" && panel.z === 0)
+                  .map((panel, i) => (
+                    <rect
+                      key={i}
+                      x={panel.x - boxT}
+                      y={-panel.y - panel.height}
+                      width={panel.width + 2 * boxT}
+                      height={panel.height}
+                      fill="#e9c46a"
+                      fillOpacity={0.85}
+                      stroke="#92400e"
+                      strokeWidth={1 / scale}
+                    />
+                  ))}
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!!error}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add {options.count > 1 ? `${options.count} Drawer Boxes` : "Drawer Box"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * Drilling Diagram
+ *
+ * One part's face at cut size with its holes, every hole centre dimensioned
+ * from the face's bottom-left corner, and a table of the hole sizes.
+ * Styled inline so the copy in the booklet's print frame looks the same.
+ */
+
+import { memo } from "react";
+import { DRILL_HOLE_NAMES, groupDrillHoles, type DrillingPlan } from "../lib/drilling";
+import { getFaceEdgeName } from "../lib/features";
+import { formatLength, type UnitSettings } from "../lib/units";
+
+const MAX_WIDTH = 300;
+const MAX_HEIGHT = 200;
+const MARGIN = { left: 48, right: 12, top: 12, bottom: 48 };
+
+// Dimension labels closer than this (px) to the previous one are left out
+const MIN_LABEL_GAP = 10;
+
+interface DrillingDiagramProps {
+  plan: DrillingPlan;
+  letter: string;
+  settings: UnitSettings;
+}
+
+// Distinct positions inside the face, each far enough from the last to be labelled
+function getDimensions(values: number[], size: number, scale: number): number[] {
+  const sorted = [...new Set(values)].filter((v) => v > 0 && v < size).sort((a, b) => a - b);
+  const shown: number[] = [];
+  for (const value of sorted) {
+    if (shown.length === 0 || (value - shown[shown.length - 1]) * scale >= MIN_LABEL_GAP) shown.push(value);
+  }
+  return shown;
+}
+
+const DrillingDiagram = memo(function DrillingDiagram({ plan, letter, settings }: DrillingDiagramProps) {
+  const { panel, face, holes } = plan;
+  const orientation = panel.orientation || "horizontal";
+  const scale = Math.min(MAX_WIDTH / face.width, MAX_HEIGHT / face.height);
+  const w = face.width * scale;
+  const h = face.height * scale;
+  const svgWidth = MARGIN.left + w + MARGIN.right;
+  const svgHeight = MARGIN.top + h + MARGIN.bottom;
+
+  // Face coordinates are Y up
+  const px = (x: number) => MARGIN.left + x * scale;
+  const py = (y: number) => MARGIN.top + h - y * scale;
+  const length = (mm: number) => formatLength(mm, settings);
+
+  const xDimensions = getDimensions(holes.map((hole) => hole.x), face.width, scale);
+  const yDimensions = getDimensions(holes.map((hole) => hole.y), face.height, scale);
+
+  return (
+    <div style={{ breakInside: "avoid", marginBottom: 16 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4, fontSize: 13 }}>
+        <span
+          style={{
+            display: "inline-flex",
+            alignItems: "center",
+            justifyContent: "center",
+            width: 24,
+            height: 24,
+            background: "#1e293b",
+            color: "#fff",
+            fontSize: 11,
+            fontWeight: 700,
+            borderRadius: 4,
+          }}
+        >
+          {letter}
+        </span>
+        <span style={{ fontWeight: 600, color: "#0f172a" }}>{panel.label}</span>
+        <span style={{ color: "#64748b" }}>
+          {length(face.width)} × {length(face.height)}
+        </span>
+      </div>
+
+      <svg width={svgWidth} height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`}>
+        <rect x={px(0)} y={py(face.height)} width={w} height={h} fill="#f8fafc" stroke="#334155" strokeWidth={1} />
+
+        {/* Holes: bores into an edge are drawn as their depth going in */}
+        {holes.map((hole, i) => {
+          const r = Math.max((hole.diameter / 2) * scale, 1.5);
+          if (hole.edge) {
+            const depth = Math.max(hole.depth * scale, 3);
+            const across = hole.edge === "left" || hole.edge === "right";
+            return (
+              <rect
+                key={i}
+                x={hole.edge === "left" ? px(0) : hole.edge === "right" ? px(face.width) - depth : px(hole.x) - r}
+                y={hole.edge === "top" ? py(face.height) : hole.edge === "bottom" ? py(0) - depth : py(hole.y) - r}
+                width={across ? depth : 2 * r}
+                height={across ? 2 * r : depth}
+                fill="none"
+                stroke="#1d4ed8"
+                strokeWidth={0.75}
+                strokeDasharray="2 1.5"
+              />
+            );
+          }
+          return (
+            <circle
+              key={i}
+              cx={px(hole.x)}
+              cy={py(hole.y)}
+              r={r}
+              fill={hole.depth === 0 ? "#1d4ed8" : "#fff"}
+              stroke="#1d4ed8"
+              strokeWidth={0.75}
+            />
+          );
+        })}
+
+        {/* Hole centres from the left edge */}
+        {xDimensions.map((x) => (
+          <g key={`x${x}`}>
+            <line x1={px(x)} y1={py(0) + 2} x2={px(x)} y2={py(0) + 6} stroke="#64748b" strokeWidth={0.75} />
+            <text
+              x={px(x)}
+              y={py(0) + 8}
+              fontSize={8}
+              fill="#334155"
+              textAnchor="end"
+              dominantBaseline="middle"
+              transform={`rotate(-90 ${px(x)} ${py(0) + 8})`}
+            >
+              {length(x)}
+            </text>
+          </g>
+        ))}
+
+        {/* Hole centres from the bottom edge */}
+        {yDimensions.map((y) => (
+          <g key={`y${y}`}>
+            <line x1={px(0) - 6} y1={py(y)} x2={px(0) - 2} y2={py(y)} stroke="#64748b" strokeWidth={0.75} />
+            <text x={px(0) - 8} y={py(y)} fontSize={8} fill="#334155" textAnchor="end" dominantBaseline="middle">
+              {length(y)}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <div style={{ fontSize: 11, color: "#64748b", marginBottom: 4 }}>
+        Measured from the {getFaceEdgeName(orientation, "left")} and {getFaceEdgeName(orientation, "bottom")} edges
+      </div>
+      <table style={{ fontSize: 12, borderCollapse: "collapse" }}>
+        <tbody>
+          {groupDrillHoles(holes).map((group, i) => (
+            <tr key={i}>
+              <td style={{ padding: "1px 8px 1px 0", fontWeight: 600 }}>{group.count} ×</td>
+              <td style={{ padding: "1px 8px 1px 0" }}>{DRILL_HOLE_NAMES[group.kind]}</td>
+              <td style={{ padding: "1px 8px 1px 0", fontFamily: "monospace" }}>
+                Ø{formatLength(group.diameter, settings, { showUnit: true })}{" "}
+                {group.depth > 0 ? `× ${formatLength(group.depth, settings, { showUnit: true })} deep` : "through"}
+              </td>
+              <td style={{ padding: "1px 0", color: "#64748b" }}>{group.surface}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+
+export default DrillingDiagram;
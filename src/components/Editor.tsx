@@ -15,12 +15,14 @@ import {
   Undo2,
   Upload,
 } from "lucide-react";
-import React, { Suspense, lazy, useCallback, useEffect, useRef, useState } from "react";
+import React, { Suspense, lazy, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
 import { useTheme } from "../hooks/useTheme";
 import { exportToCSV, exportToJSON, importFromJSON } from "../lib/export";
+import { calculateHardwareBOM } from "../lib/hardware";
 import { calculateCutList } from "../lib/optimizer";
 import { captureCurrentCanvasThumbnail } from "../lib/thumbnail";
+import { validateDesign } from "../lib/validation";
 import { useDesignStore } from "../stores/designStore";
 import { useProjectsStore } from "../stores/projectsStore";
 import { CraftCutLogo } from "./CraftCutLogo";
@@ -60,7 +62,7 @@ function EditorContent({ onGoHome, projectId }: EditorContentProps) {
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [showPrintBooklet, setShowPrintBooklet] = useState(false);
-  const { addPanel, clearAll, panels, settings, exportDesign, loadDesign, saveProject, undo, redo, canUndo, canRedo } =
+  const { addPanel, clearAll, panels, joints, settings, exportDesign, loadDesign, saveProject, undo, redo, canUndo, canRedo } =
     useDesignStore();
   const { updateProject, getProject } = useProjectsStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -130,7 +132,7 @@ function EditorContent({ onGoHome, projectId }: EditorContentProps) {
   const handleExportCSV = () => {
     try {
       const { pieces } = calculateCutList(panels);
-      exportToCSV(pieces);
+      exportToCSV(pieces, settings, calculateHardwareBOM(panels, joints, settings));
       toast.success("Cut list exported", "CSV file has been downloaded");
     } catch {
       toast.error("Export failed", "Could not generate the cut list");
@@ -194,10 +196,14 @@ function EditorContent({ onGoHome, projectId }: EditorContentProps) {
     onGoHome?.();
   };
 
-  const tabs: { id: ViewTab; label: string; icon: React.ReactNode }[] = [
+  // Flag design problems on the Production tab before anything gets cut
+  const issues = useMemo(() => validateDesign(panels, joints, settings), [panels, joints, settings]);
+  const hasErrors = issues.some((i) => i.severity === "error");
+
+  const tabs: { id: ViewTab; label: string; icon: React.ReactNode; badge?: number }[] = [
     { id: "design", label: "Design", icon: <PenTool size={16} /> },
     { id: "3d", label: "3D", icon: <Box size={16} /> },
-    { id: "production", label: "Production", icon: <Package size={16} /> },
+    { id: "production", label: "Production", icon: <Package size={16} />, badge: issues.length },
     { id: "settings", label: "Settings", icon: <Settings size={16} /> },
   ];
 
@@ -259,6 +265,14 @@ function EditorContent({ onGoHome, projectId }: EditorContentProps) {
                 >
                   <span aria-hidden="true">{tab.icon}</span>
                   {tab.label}
+                  {!!tab.badge && (
+                    <span
+                      className={`min-w-[16px] px-1 text-[10px] leading-4 text-white rounded-full ${hasErrors ? "bg-red-500" : "bg-amber-500"}`}
+                      title={`${tab.badge} design ${tab.badge === 1 ? "issue" : "issues"}`}
+                    >
+                      {tab.badge}
+                    </span>
+                  )}
                 </button>
               ))}
             </div>
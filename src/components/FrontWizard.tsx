@@ -0,0 +1,247 @@
+/**
+ * Front Wizard
+ *
+ * Modal for fitting doors or drawer fronts to the opening framed by the
+ * selected panels: pick an overlay or inset style, a layout and the reveal
+ * gap, and add the sized fronts as one group in a single undoable step.
+ */
+
+import { DoorOpen, X } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_FRONT_OPTIONS,
+  FRONT_LAYOUTS,
+  FRONT_STYLES,
+  findOpening,
+  generateFronts,
+  validateFronts,
+  type FrontOptions,
+} from "../lib/fronts";
+import { formatSize } from "../lib/units";
+import { useDesignStore } from "../stores/designStore";
+import type { HingeSide } from "../types";
+import { DimensionInput } from "./ui";
+
+interface FrontWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const HINGE_OPTIONS: { value: HingeSide; label: string }[] = [
+  { value: "left", label: "Hinged left" },
+  { value: "right", label: "Hinged right" },
+];
+
+export default function FrontWizard({ isOpen, onClose }: FrontWizardProps) {
+  const { panels, selectedPanelIds, settings, addPanels } = useDesignStore();
+  const [options, setOptions] = useState<FrontOptions>(DEFAULT_FRONT_OPTIONS);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const update = (updates: Partial<FrontOptions>) => setOptions((o) => ({ ...o, ...updates }));
+
+  const selected = useMemo(
+    () => panels.filter((p) => selectedPanelIds.includes(p.id)),
+    [panels, selectedPanelIds],
+  );
+  const opening = useMemo(() => findOpening(selected, settings), [selected, settings]);
+
+  const error = opening ? validateFronts(opening, options) : "Select the panels around an opening first";
+  const preview = useMemo(
+    () => (opening && !error ? generateFronts(opening, options, settings.thickness) : []),
+    [opening, options, settings.thickness, error],
+  );
+
+  if (!isOpen) return null;
+
+  const handleCreate = () => {
+    if (error || preview.length === 0) return;
+    addPanels(preview, { groupName: options.layout === "drawers" ? "Drawer fronts" : "Doors" });
+    onClose();
+  };
+
+  // Preview frames the opening with the selection around it
+  const T = settings.thickness;
+  const box = opening && {
+    x: opening.x - opening.frame.left - T,
+    y: opening.y - opening.frame.bottom - T,
+    width: opening.width + opening.frame.left + opening.frame.right + 2 * T,
+    height: opening.height + opening.frame.bottom + opening.frame.top + 2 * T,
+  };
+  const scale = box ? Math.min(160 / box.width, 200 / box.height) : 1;
+
+  return (
+    <div
+      className="fixed inset-0 z-[200] flex items-center justify-center p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="front-wizard-title"
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} aria-hidden="true" />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full p-6 animate-scale-in">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+          aria-label="Close front wizard"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-2 mb-4">
+          <DoorOpen size={20} className="text-blue-600" />
+          <h3 id="front-wizard-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+            Doors & Drawer Fronts
+          </h3>
+        </div>
+
+        {/* Style */}
+        <div className="grid grid-cols-3 gap-2 mb-5">
+          {FRONT_STYLES.map((style) => (
+            <button
+              key={style.id}
+              onClick={() => update({ style: style.id })}
+              className={`p-2 text-left rounded-lg border transition-colors ${
+                options.style === style.id
+                  ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30"
+                  : "border-gray-200 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700"
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-800 dark:text-gray-100">{style.name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{style.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-6">
+          {/* Options */}
+          <div className="flex-1 grid grid-cols-2 gap-3 content-start">
+            <div className="col-span-2">
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Layout</label>
+              <div className="flex gap-2">
+                {FRONT_LAYOUTS.map((layout) => (
+                  <button
+                    key={layout.id}
+                    onClick={() => update({ layout: layout.id })}
+                    className={`flex-1 px-3 py-1.5 text-sm rounded-md border transition-colors ${
+                      options.layout === layout.id
+                        ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                        : "border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700"
+                    }`}
+                  >
+                    {layout.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Reveal</label>
+              <DimensionInput value={options.reveal} onChange={(reveal) => update({ reveal })} settings={settings} min={0} max={20} ariaLabel="Reveal gap" className={inputClass} />
+            </div>
+            {options.layout === "drawers" && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Drawers</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={options.drawerCount}
+                  onChange={(e) => update({ drawerCount: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)) })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            {options.layout === "single" && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Hinges</label>
+                <select value={options.hinge} onChange={(e) => update({ hinge: e.target.value as HingeSide })} className={inputClass}>
+                  {HINGE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+              {error ? (
+                <span className="text-red-600">{error}</span>
+              ) : (
+                <>
+                  {preview.length} {preview.length === 1 ? "front" : "fronts"}, {formatSize(preview[0].width, preview[0].height, settings)}
+                  {preview.length > 1 && " each"}, in {settings.thickness}mm stock
+                </>
+              )}
+            </p>
+          </div>
+
+          {/* Front elevation preview */}
+          <div className="w-44 h-52 flex items-end justify-center bg-gray-50 dark:bg-slate-900 rounded-lg p-2">
+            {box && (
+              <svg width={box.width * scale} height={box.height * scale} viewBox={`${box.x} ${-box.y - box.height} ${box.width} ${box.height}`}>
+                {selected.map((panel) => {
+                  const w = panel.orientation === "vertical" ? T : panel.width;
+                  const h = (panel.orientation || "horizontal") === "horizontal" ? T : panel.height;
+                  return (
+                    <rect
+                      key={panel.id}
+                      x={panel.x}
+                      y={-panel.y - h}
+                      width={w}
+                      height={h}
+                      fill={panel.orientation === "back" ? "#f1f5f9" : "#d4a373"}
+                      stroke="#64748b"
+                      strokeWidth={1 / scale}
+                    />
+                  );
+                })}
+                {preview.map((front, i) => (
+                  <rect
+                    key={i}
+                    x={front.x}
+                    y={-front.y - front.height}
+                    width={front.width}
+                    height={front.height}
+                    fill="#e9c46a"
+                    fillOpacity={0.85}
+                    stroke="#92400e"
+                    strokeWidth={1 / scale}
+                  />
+                ))}
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-slate-700 rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!!error}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add {options.layout === "drawers" ? "Drawer Fronts" : options.layout === "pair" ? "Doors" : "Door"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
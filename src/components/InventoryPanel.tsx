@@ -0,0 +1,181 @@
+/**
+ * Inventory Panel
+ *
+ * Lists the shared offcut inventory and lets the user enter partial
+ * sheets they already own. The optimizer fills matching stock (same
+ * material type and thickness) before opening new sheets.
+ */
+
+import { Archive, Plus, Trash2 } from "lucide-react";
+import React, { useState } from "react";
+import { formatLength, formatSize } from "../lib/units";
+import { useDesignStore } from "../stores/designStore";
+import { useInventoryStore } from "../stores/inventoryStore";
+import { MATERIAL_PRESETS, type MaterialType } from "../types";
+import { DimensionInput } from "./ui";
+
+const inputClass =
+  "w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function InventoryPanel() {
+  const { settings, updateSettings } = useDesignStore();
+  const { items, addItems, updateItem, removeItem } = useInventoryStore();
+
+  const [label, setLabel] = useState("");
+  const [materialType, setMaterialType] = useState<MaterialType>(settings.materialType || "plywood");
+  const [thickness, setThickness] = useState(settings.thickness);
+  const [width, setWidth] = useState(1200);
+  const [height, setHeight] = useState(600);
+  const [quantity, setQuantity] = useState(1);
+
+  const materialName = (type: MaterialType) =>
+    MATERIAL_PRESETS.find((p) => p.id === type)?.name || type;
+
+  const handleAdd = () => {
+    addItems([
+      {
+        label: label.trim() || "Partial sheet",
+        materialType,
+        thickness,
+        // Width always runs along the sheet's length
+        width: Math.max(width, height),
+        height: Math.min(width, height),
+        quantity,
+        source: "sheet",
+      },
+    ]);
+    setLabel("");
+  };
+
+  return (
+    <div className="no-print mt-6 border border-gray-200 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <Archive size={16} className="text-gray-500" />
+          <span className="font-medium text-gray-800">Offcut Inventory</span>
+          <span className="text-xs text-gray-500">
+            {items.length} item{items.length !== 1 ? "s" : ""} · shared by all projects
+          </span>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.useInventory !== false}
+            onChange={(e) => updateSettings({ useInventory: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Use for this project
+        </label>
+      </div>
+
+      {items.length > 0 ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+              <th className="px-4 py-2 font-medium">Label</th>
+              <th className="px-4 py-2 font-medium">Material</th>
+              <th className="px-4 py-2 font-medium">Size</th>
+              <th className="px-4 py-2 font-medium w-20">Qty</th>
+              <th className="px-4 py-2 w-10" />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id} className="border-b border-gray-100 last:border-0">
+                <td className="px-4 py-2">
+                  <div className="text-gray-800">{item.label}</div>
+                  <div className="text-xs text-gray-400">
+                    {item.source === "offcut" ? `Offcut${item.projectName ? ` from ${item.projectName}` : ""}` : "Partial sheet"}
+                  </div>
+                </td>
+                <td className="px-4 py-2 text-gray-600">
+                  {materialName(item.materialType)} · {formatLength(item.thickness, settings, { showUnit: true })}
+                </td>
+                <td className="px-4 py-2 text-gray-600">{formatSize(item.width, item.height, settings)}</td>
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={item.quantity}
+                    onChange={(e) => updateItem(item.id, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className={inputClass}
+                    aria-label={`Quantity of ${item.label}`}
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <button
+                    onClick={() => removeItem(item.id)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    aria-label={`Remove ${item.label}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="px-4 py-3 text-sm text-gray-400">
+          No stock yet. Save offcuts from a cutting layout, or add a partial sheet below.
+        </p>
+      )}
+
+      {/* Add partial sheet */}
+      <div className="grid grid-cols-6 gap-2 items-end px-4 py-3 bg-gray-50 border-t border-gray-200">
+        <div className="col-span-2">
+          <label className="block text-xs text-gray-500 mb-1">Label</label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Partial sheet"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Material</label>
+          <select
+            value={materialType}
+            onChange={(e) => setMaterialType(e.target.value as MaterialType)}
+            className={inputClass}
+          >
+            {MATERIAL_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Thickness</label>
+          <DimensionInput value={thickness} onChange={setThickness} settings={settings} min={1} max={100} ariaLabel="Stock thickness" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Length × Width</label>
+          <div className="flex gap-1">
+            <DimensionInput value={width} onChange={setWidth} settings={settings} min={50} max={5000} ariaLabel="Stock length" className={inputClass} />
+            <DimensionInput value={height} onChange={setHeight} settings={settings} min={50} max={5000} ariaLabel="Stock width" className={inputClass} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+            className={inputClass}
+            aria-label="Quantity"
+          />
+          <button
+            onClick={handleAdd}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={14} />
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
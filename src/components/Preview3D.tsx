@@ -1,9 +1,14 @@
 import { Html, OrbitControls } from "@react-three/drei";
-import { Canvas, useThree } from "@react-three/fiber";
-import { Box, Tag } from "lucide-react";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { Box, DoorClosed, DoorOpen, Tag } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
 import * as THREE from "three";
+import { getZRange } from "../lib/depth";
+import { getFaceOutline, getFaceSize, getInteriorShapes, type FaceSize } from "../lib/features";
+import { getPanelMaterial } from "../lib/materials";
+import { formatLength, unitLabel } from "../lib/units";
 import { useDesignStore } from "../stores/designStore";
+import type { CutFeature, PanelFront, PanelOrientation } from "../types";
 
 // Generate realistic wood grain texture with flowing lines
 function createWoodTexture(baseColor: string): THREE.CanvasTexture {
@@ -220,6 +225,48 @@ function createWoodTexture(baseColor: string): THREE.CanvasTexture {
   return texture;
 }
 
+// A panel with notches, cut-outs or holes: its face outline extruded through
+// the thickness, centred, then turned to lie the way the panel does
+function createFeatureGeometry(
+  features: CutFeature[],
+  face: FaceSize,
+  orientation: PanelOrientation,
+  thickness: number,
+  scale: number,
+): THREE.ExtrudeGeometry {
+  const toScene = (x: number, y: number) => [(x - face.width / 2) * scale, (y - face.height / 2) * scale] as const;
+
+  const shape = new THREE.Shape();
+  getFaceOutline(features, face).forEach((point, i) => {
+    const [x, y] = toScene(point.x, point.y);
+    if (i === 0) shape.moveTo(x, y);
+    else shape.lineTo(x, y);
+  });
+
+  getInteriorShapes(features, face).forEach((cut) => {
+    const hole = new THREE.Path();
+    if (cut.kind === "circle") {
+      const [cx, cy] = toScene(cut.cx, cut.cy);
+      hole.absarc(cx, cy, cut.r * scale, 0, Math.PI * 2, true);
+    } else {
+      const [x1, y1] = toScene(cut.x, cut.y);
+      const [x2, y2] = toScene(cut.x + cut.width, cut.y + cut.height);
+      hole.moveTo(x1, y1);
+      hole.lineTo(x1, y2);
+      hole.lineTo(x2, y2);
+      hole.lineTo(x2, y1);
+    }
+    shape.holes.push(hole);
+  });
+
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth: thickness, bevelEnabled: false, curveSegments: 24 });
+  geometry.translate(0, 0, -thickness / 2);
+  // Shelves face up with their front edge towards -Z; sides face along X
+  if (orientation === "horizontal") geometry.rotateX(Math.PI / 2);
+  else if (orientation === "vertical") geometry.rotateY(-Math.PI / 2);
+  return geometry;
+}
+
 // Single panel component with wood texture
 function WoodPanel({
   position,
@@ -228,6 +275,7 @@ function WoodPanel({
   woodTexture,
   label,
   showLabel,
+  features,
 }: {
   position: [number, number, number];
   size: [number, number, number];
@@ -235,12 +283,21 @@ function WoodPanel({
   woodTexture: THREE.CanvasTexture;
   label?: string;
   showLabel?: boolean;
+  features?: { list: CutFeature[]; face: FaceSize; orientation: PanelOrientation; thickness: number; scale: number };
 }) {
   const meshRef = useRef<THREE.Mesh>(null);
 
+  const featureGeometry = useMemo(
+    () =>
+      features &&
+      createFeatureGeometry(features.list, features.face, features.orientation, features.thickness, features.scale),
+    [features],
+  );
+  useEffect(() => () => featureGeometry?.dispose(), [featureGeometry]);
+
   return (
     <mesh position={position} ref={meshRef}>
-      <boxGeometry args={size} />
+      {featureGeometry ? <primitive object={featureGeometry} attach="geometry" /> : <boxGeometry args={size} />}
       <meshStandardMaterial map={woodTexture} roughness={0.7} metalness={0.0} />
       {showLabel && label && (
         <Html
@@ -258,17 +315,67 @@ function WoodPanel({
   );
 }
 
+// How far doors swing and drawers slide when shown open
+const DOOR_OPEN_ANGLE = (100 * Math.PI) / 180;
+const DRAWER_OPEN_FRACTION = 0.6; // Of the furniture depth
+
+// Door or drawer front that swings about its hinge edge or slides out
+// toward the front (-Z), easing between closed and open
+function MovingFront({
+  front,
+  position,
+  size,
+  travel,
+  open,
+  children,
+}: {
+  front: PanelFront;
+  position: [number, number, number];
+  size: [number, number, number];
+  travel: number;
+  open: boolean;
+  children: ReactNode;
+}) {
+  const moveRef = useRef<THREE.Group>(null);
+  const progress = useRef(open ? 1 : 0);
+  const [w, , t] = size;
+
+  // Doors turn about the back edge on their hinge side
+  const isDoor = front.type === "door";
+  const hingeSign = front.hinge === "right" ? -1 : 1;
+  const pivot: [number, number, number] = isDoor
+    ? [position[0] - (hingeSign * w) / 2, position[1], position[2] + t / 2]
+    : position;
+  const offset: [number, number, number] = isDoor ? [(hingeSign * w) / 2, 0, -t / 2] : [0, 0, 0];
+
+  useFrame((_, delta) => {
+    if (!moveRef.current) return;
+    progress.current = THREE.MathUtils.damp(progress.current, open ? 1 : 0, 6, delta);
+    if (isDoor) moveRef.current.rotation.y = hingeSign * DOOR_OPEN_ANGLE * progress.current;
+    else moveRef.current.position.z = -travel * progress.current;
+  });
+
+  return (
+    <group position={pivot}>
+      <group ref={moveRef}>
+        <group position={offset}>{children}</group>
+      </group>
+    </group>
+  );
+}
+
 // 3D Scene with all furniture panels
 function FurnitureScene({
   onBoundsCalculated,
   showLabels,
+  frontsOpen,
 }: {
   onBoundsCalculated?: (center: [number, number, number], size: number) => void;
   showLabels?: boolean;
+  frontsOpen?: boolean;
 }) {
   const { panels, settings } = useDesignStore();
 
-  const thickness = settings.thickness || 18;
   const furnitureDepth = settings.furnitureDepth || 400; // mm - now from settings
   const SCALE = 0.01; // Convert mm to scene units
 
@@ -285,16 +392,20 @@ function FurnitureScene({
     // 2D now shows TRUE dimensions (no visual enlargement)
     // This makes conversion straightforward!
 
+    // Each panel takes its thickness from its material
+    const getThickness = (p: (typeof panels)[0]) =>
+      getPanelMaterial(p, settings).thickness;
+
     // Get the TRUE visible dimensions (actual physical size)
     const getTrueHeight = (p: (typeof panels)[0]) => {
       const orient = p.orientation || "horizontal";
-      if (orient === "horizontal") return thickness;
+      if (orient === "horizontal") return getThickness(p);
       return p.height;
     };
 
     const getTrueWidth = (p: (typeof panels)[0]) => {
       const orient = p.orientation || "horizontal";
-      if (orient === "vertical") return thickness;
+      if (orient === "vertical") return getThickness(p);
       return p.width;
     };
 
@@ -321,12 +432,13 @@ function FurnitureScene({
 
       const panelW = panel.width * SCALE;
       const panelH = panel.height * SCALE;
-      const panelT = thickness * SCALE;
+      const material = getPanelMaterial(panel, settings);
+      const panelT = material.thickness * SCALE;
       const fullDepth = furnitureDepth * SCALE;
 
       // Use panel's custom depth if set, otherwise use furniture depth
       const panelDepth = (panel.depth || furnitureDepth) * SCALE;
-      const zAlign = panel.zAlign || "front";
+      const { z } = getZRange(panel, material.thickness, furnitureDepth);
 
       // X position: center the design around 0
       const totalWidth = maxX - minX;
@@ -338,21 +450,14 @@ function FurnitureScene({
       const trueHeight = getTrueHeight(panel);
       const y3d = (panel.y + trueHeight / 2) * SCALE;
 
-      // Calculate Z position based on alignment
-      // Z=0 is the front, positive Z goes to the back
-      // Center of panel should be positioned based on alignment
-      const getZPosition = (depth: number) => {
-        switch (zAlign) {
-          case "front":
-            return -fullDepth / 2 + depth / 2; // Front-aligned
-          case "back":
-            return fullDepth / 2 - depth / 2; // Back-aligned
-          case "center":
-            return 0; // Centered
-          default:
-            return -fullDepth / 2 + depth / 2;
-        }
-      };
+      // Z position: z is the front face's offset from the furniture front,
+      // and the furniture is centered on Z=0 with positive Z to the back
+      const getZPosition = (depth: number) => -fullDepth / 2 + z * SCALE + depth / 2;
+
+      // Notches, cut-outs and holes replace the plain box
+      const features = panel.features?.length
+        ? { list: panel.features, face: getFaceSize(panel, furnitureDepth), orientation, thickness: panelT, scale: SCALE }
+        : undefined;
 
       switch (orientation) {
         case "horizontal": {
@@ -361,6 +466,9 @@ function FurnitureScene({
           return {
             id: panel.id,
             label: panel.label,
+            color: material.color,
+            front: panel.front,
+            features,
             position: [x3d + panelW / 2, y3d, zPos] as [number, number, number],
             size: [panelW, panelT, panelDepth] as [number, number, number],
           };
@@ -372,17 +480,24 @@ function FurnitureScene({
           return {
             id: panel.id,
             label: panel.label,
+            color: material.color,
+            front: panel.front,
+            features,
             position: [x3d + panelT / 2, y3d, zPos] as [number, number, number],
             size: [panelT, panelH, panelDepth] as [number, number, number],
           };
         }
 
         case "back": {
-          // Back panel: at the back - panel.height tall in 3D Y
+          // Back panel: at the back unless offset - panel.height tall in 3D Y
+          const zPos = getZPosition(panelT);
           return {
             id: panel.id,
             label: panel.label,
-            position: [x3d + panelW / 2, y3d, fullDepth / 2 - panelT / 2] as [
+            color: material.color,
+            front: panel.front,
+            features,
+            position: [x3d + panelW / 2, y3d, zPos] as [
               number,
               number,
               number,
@@ -395,6 +510,9 @@ function FurnitureScene({
           return {
             id: panel.id,
             label: panel.label,
+            color: material.color,
+            front: panel.front,
+            features,
             position: [x3d + panelW / 2, y3d, 0] as [number, number, number],
             size: [panelW, panelT, panelDepth] as [number, number, number],
           };
@@ -407,7 +525,7 @@ function FurnitureScene({
       center: [centerX, centerY, centerZ] as [number, number, number],
       maxDimension: maxDim,
     };
-  }, [panels, thickness, furnitureDepth, SCALE]);
+  }, [panels, settings, furnitureDepth, SCALE]);
 
   // Notify parent of bounds for camera positioning
   useEffect(() => {
@@ -416,12 +534,15 @@ function FurnitureScene({
     }
   }, [center, maxDimension, onBoundsCalculated, panels.length]);
 
-  const woodColor = settings.woodColor || "#E8D4B8";
-
-  // Create wood texture based on color (memoized to avoid recreation)
-  const woodTexture = useMemo(() => {
-    return createWoodTexture(woodColor);
-  }, [woodColor]);
+  // Create one wood texture per material color (memoized to avoid recreation)
+  const colorKey = panels3D.map((p) => p.color).join(",");
+  const woodTextures = useMemo(() => {
+    const textures = new Map<string, THREE.CanvasTexture>();
+    for (const color of new Set(colorKey.split(","))) {
+      if (color) textures.set(color, createWoodTexture(color));
+    }
+    return textures;
+  }, [colorKey]);
 
   return (
     <>
@@ -432,17 +553,33 @@ function FurnitureScene({
       <directionalLight position={[0, -5, 10]} intensity={0.4} />
 
       {/* Render all panels */}
-      {panels3D.map((panel) => (
-        <WoodPanel
-          key={panel.id}
-          position={panel.position}
-          size={panel.size}
-          color={woodColor}
-          woodTexture={woodTexture}
-          label={panel.label}
-          showLabel={showLabels}
-        />
-      ))}
+      {panels3D.map((panel) => {
+        const woodPanel = (position: [number, number, number]) => (
+          <WoodPanel
+            key={panel.id}
+            position={position}
+            size={panel.size}
+            color={panel.color}
+            woodTexture={woodTextures.get(panel.color)!}
+            label={panel.label}
+            showLabel={showLabels}
+            features={panel.features}
+          />
+        );
+        if (!panel.front) return woodPanel(panel.position);
+        return (
+          <MovingFront
+            key={panel.id}
+            front={panel.front}
+            position={panel.position}
+            size={panel.size}
+            travel={furnitureDepth * SCALE * DRAWER_OPEN_FRACTION}
+            open={!!frontsOpen}
+          >
+            {woodPanel([0, 0, 0])}
+          </MovingFront>
+        );
+      })}
 
       {/* Floor grid for reference */}
       <mesh
@@ -504,6 +641,8 @@ export default function Preview3D() {
   ]);
   const [furnitureSize, setFurnitureSize] = useState(5);
   const showLabels = settings.show3DLabels ?? false;
+  const [frontsOpen, setFrontsOpen] = useState(false);
+  const hasFronts = panels.some((p) => p.front);
 
   const handleBoundsCalculated = useCallback(
     (center: [number, number, number], size: number) => {
@@ -536,17 +675,33 @@ export default function Preview3D() {
           </span>
         </div>
         {panels.length > 0 && (
-          <button
-            onClick={() => updateSettings({ show3DLabels: !showLabels })}
-            className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors ${
-              showLabels 
-                ? "bg-blue-100 text-blue-700" 
-                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
-            }`}
-          >
-            <Tag size={12} />
-            Labels
-          </button>
+          <div className="flex items-center gap-1.5">
+            {hasFronts && (
+              <button
+                onClick={() => setFrontsOpen(!frontsOpen)}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  frontsOpen
+                    ? "bg-blue-100 text-blue-700"
+                    : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                }`}
+                title={frontsOpen ? "Close doors and drawers" : "Open doors and drawers"}
+              >
+                {frontsOpen ? <DoorOpen size={12} /> : <DoorClosed size={12} />}
+                Doors
+              </button>
+            )}
+            <button
+              onClick={() => updateSettings({ show3DLabels: !showLabels })}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                showLabels 
+                  ? "bg-blue-100 text-blue-700" 
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              <Tag size={12} />
+              Labels
+            </button>
+          </div>
         )}
       </div>
 
@@ -576,7 +731,7 @@ export default function Preview3D() {
               background: "linear-gradient(to bottom, #f1f5f9, #e2e8f0)",
             }}
           >
-            <FurnitureScene onBoundsCalculated={handleBoundsCalculated} showLabels={showLabels} />
+            <FurnitureScene onBoundsCalculated={handleBoundsCalculated} showLabels={showLabels} frontsOpen={frontsOpen} />
             <CameraController target={cameraTarget} distance={furnitureSize} />
           </Canvas>
         )}
@@ -587,23 +742,23 @@ export default function Preview3D() {
           <div className="flex items-center justify-center gap-3 text-sm">
             <span className="text-gray-600">
               <span className="font-semibold text-gray-800">
-                {dimensions.width}
+                {formatLength(dimensions.width, settings)}
               </span>{" "}
-              mm
+              {unitLabel(settings)}
             </span>
             <span className="text-gray-400">×</span>
             <span className="text-gray-600">
               <span className="font-semibold text-gray-800">
-                {dimensions.height}
+                {formatLength(dimensions.height, settings)}
               </span>{" "}
-              mm
+              {unitLabel(settings)}
             </span>
             <span className="text-gray-400">×</span>
             <span className="text-gray-600">
               <span className="font-semibold text-gray-800">
-                {dimensions.depth}
+                {formatLength(dimensions.depth, settings)}
               </span>{" "}
-              mm
+              {unitLabel(settings)}
             </span>
           </div>
         </div>
@@ -1,6 +1,8 @@
 import { Edges } from "@react-three/drei";
 import { Canvas, useThree } from "@react-three/fiber";
 import { useEffect, useRef, useState } from "react";
+import { getZRange } from "../lib/depth";
+import { getPanelThickness } from "../lib/materials";
 import { useDesignStore } from "../stores/designStore";
 import type { Panel } from "../types";
 
@@ -35,25 +37,14 @@ function PrintPanel({
   const dims = getTrueDimensions(panel, thickness);
   const orientation = panel.orientation || "horizontal";
   const panelDepth = panel.depth || furnitureDepth;
-  const zAlign = panel.zAlign || "front";
+  const { z } = getZRange(panel, thickness, furnitureDepth);
 
   // Calculate position (Y-up, front view shows x-y plane)
   let position: [number, number, number];
   let boxSize: [number, number, number];
 
-  // Calculate Z offset based on alignment
-  const getZOffset = () => {
-    switch (zAlign) {
-      case "front":
-        return panelDepth / 2;
-      case "back":
-        return furnitureDepth - panelDepth / 2;
-      case "center":
-        return furnitureDepth / 2;
-      default:
-        return panelDepth / 2;
-    }
-  };
+  // Z center from the front face's offset
+  const getZOffset = () => z + panelDepth / 2;
 
   if (orientation === "horizontal") {
     boxSize = [dims.width, dims.height, panelDepth];
@@ -74,7 +65,7 @@ function PrintPanel({
     position = [
       panel.x + dims.width / 2,
       panel.y + dims.height / 2,
-      furnitureDepth - thickness / 2,
+      z + thickness / 2,
     ];
   }
 
@@ -102,7 +93,7 @@ function PrintScene({ onCapture }: { onCapture: (dataUrl: string) => void }) {
     minX: Math.min(...panels.map((p) => p.x), 0),
     maxX: Math.max(
       ...panels.map((p) => {
-        const dims = getTrueDimensions(p, settings.thickness);
+        const dims = getTrueDimensions(p, getPanelThickness(p, settings));
         return p.x + dims.width;
       }),
       100,
@@ -110,7 +101,7 @@ function PrintScene({ onCapture }: { onCapture: (dataUrl: string) => void }) {
     minY: Math.min(...panels.map((p) => p.y), 0),
     maxY: Math.max(
       ...panels.map((p) => {
-        const dims = getTrueDimensions(p, settings.thickness);
+        const dims = getTrueDimensions(p, getPanelThickness(p, settings));
         return p.y + dims.height;
       }),
       100,
@@ -157,7 +148,7 @@ function PrintScene({ onCapture }: { onCapture: (dataUrl: string) => void }) {
         <PrintPanel
           key={panel.id}
           panel={panel}
-          thickness={settings.thickness}
+          thickness={getPanelThickness(panel, settings)}
           furnitureDepth={furnitureDepth}
         />
       ))}
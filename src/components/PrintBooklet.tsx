@@ -1,8 +1,28 @@
 import { Printer, X } from "lucide-react";
-import { useEffect, useMemo, useRef, useState } from "react";
-import { calculateGroupedCutList, optimizeCuts } from "../lib/optimizer";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { generateAssemblySteps } from "../lib/assembly";
+import { calculateBandingUsage, getBandingCost } from "../lib/banding";
+import { generateDrillingPlans } from "../lib/drilling";
+import { getMachiningNotes } from "../lib/features";
+import { calculateHardwareBOM, getCategoryName, getHardwareCost } from "../lib/hardware";
+import { getJoineryNotes } from "../lib/joinery";
+import { getBoardUsage, optimizeLinearCuts } from "../lib/linear";
+import {
+  calculateGroupedCutList,
+  getCutOptions,
+  getCutPanels,
+  getPanelLetter,
+  getStockUsage,
+  summarizeMaterialResults,
+} from "../lib/optimizer";
+import { getMaterialStock } from "../lib/materials";
+import { formatLength, formatSize } from "../lib/units";
+import { useSheetLayout } from "../hooks/useLayoutSearch";
 import { useDesignStore } from "../stores/designStore";
+import { useInventoryStore } from "../stores/inventoryStore";
+import BoardDiagram from "./BoardDiagram";
 import CuttingDiagram from "./CuttingDiagram";
+import DrillingDiagram from "./DrillingDiagram";
 
 interface PrintBookletProps {
   onClose: () => void;
@@ -57,31 +77,26 @@ td { color: #1e293b; }
 `;
 
 export default function PrintBooklet({ onClose }: PrintBookletProps) {
-  const { panels, settings } = useDesignStore();
+  const { panels, groups, joints, settings } = useDesignStore();
+  const inventory = useInventoryStore((state) => state.items);
   const contentRef = useRef<HTMLDivElement>(null);
   const diagramRef = useRef<HTMLDivElement>(null);
+  const drillingRef = useRef<HTMLDivElement>(null);
   const [isPrinting, setIsPrinting] = useState(false);
 
   // Calculate cut list and optimization
   const { dimensionToLetter } = useMemo(() => {
-    return calculateGroupedCutList(
-      panels,
-      settings.thickness,
-      settings.furnitureDepth || 400,
-    );
-  }, [panels, settings.thickness, settings.furnitureDepth]);
+    return calculateGroupedCutList(panels, settings, joints);
+  }, [panels, settings, joints]);
 
   // Enrich each panel with its assigned cut-list letter (A, B, C…)
   const groupedPieces = useMemo(() => {
     return panels.map((panel) => {
-      const orientation = panel.orientation || "horizontal";
-      const depth = panel.depth || settings.furnitureDepth || 400;
-      let length: number, width: number;
-      if (orientation === "horizontal") { length = panel.width; width = depth; }
-      else if (orientation === "vertical") { length = panel.height; width = depth; }
-      else { length = panel.width; width = panel.height; }
-      if (width > length) { [length, width] = [width, length]; }
-      const letter = dimensionToLetter.get(`${length}x${width}`) ?? "?";
+      const letter = getPanelLetter(
+        panel,
+        settings.furnitureDepth || 400,
+        dimensionToLetter,
+      );
       return {
         sourceId: panel.id,
         label: panel.label,
@@ -89,67 +104,101 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
         width: panel.width,
         height: panel.height,
         quantity: panel.quantity,
+        machining: [...getMachiningNotes(panel, settings), ...getJoineryNotes(panel, panels, joints, settings)],
       };
     });
-  }, [panels, dimensionToLetter, settings.furnitureDepth]);
-
-  const optimizationResult = useMemo(() => {
-    return optimizeCuts(
-      panels,
-      settings.sheetWidth,
-      settings.sheetHeight,
-      settings.furnitureDepth || 400,
-      dimensionToLetter,
-    );
-  }, [panels, settings, dimensionToLetter]);
+  }, [panels, joints, dimensionToLetter, settings]);
+
+  const cutPanels = useMemo(() => getCutPanels(panels, joints, settings), [panels, joints, settings]);
+
+  // Same layout as the cutting diagrams, including one a search found
+  const { results: materialResults } = useSheetLayout(cutPanels, settings, dimensionToLetter, inventory);
+
+  const linearResults = useMemo(
+    () => optimizeLinearCuts(cutPanels, settings, dimensionToLetter),
+    [cutPanels, settings, dimensionToLetter],
+  );
+
+  const optimizationResult = useMemo(
+    () => summarizeMaterialResults(materialResults),
+    [materialResults],
+  );
+
+  // "2440 × 1220mm" for one material, "Plywood: 2440 × 1220mm, MDF: ..." for several
+  const sheetSizeText = materialResults
+    .map(({ material }) => {
+      const size = getMaterialStock(material)
+        .map((stock) => formatSize(stock.width, stock.height, settings))
+        .join(" or ");
+      return materialResults.length > 1 ? `${material.name}: ${size}` : size;
+    })
+    .join(", ");
+
+  const thicknessText = Array.from(new Set(materialResults.map((r) => r.material.thickness)))
+    .map((t) => formatLength(t, settings, { showUnit: true }))
+    .join(" / ");
+
+  const hardwareBOM = useMemo(() => calculateHardwareBOM(panels, joints, settings), [panels, joints, settings]);
 
   // Calculate cost estimate
   const costEstimate = useMemo(() => {
-    const sheetPrice = settings.sheetPrice || 0;
-    const edgeBandingPrice = settings.edgeBandingPrice || 0;
     const currency = settings.currency || "$";
     const totalSheets = optimizationResult.totalSheets;
-    const sheetCost = totalSheets * sheetPrice;
-
-    let edgeBandingLength = 0;
-    panels.forEach((panel) => {
-      if (!panel.edgeBanding) return;
-      const qty = panel.quantity || 1;
-      const orientation = panel.orientation || "horizontal";
-      const depth = panel.depth || settings.furnitureDepth || 400;
-
-      let panelLength: number, panelWidth: number;
-      if (orientation === "horizontal") {
-        panelLength = panel.width;
-        panelWidth = depth;
-      } else if (orientation === "vertical") {
-        panelLength = panel.height;
-        panelWidth = depth;
-      } else {
-        panelLength = panel.width;
-        panelWidth = panel.height;
-      }
-
-      if (panel.edgeBanding.top) edgeBandingLength += panelLength * qty;
-      if (panel.edgeBanding.bottom) edgeBandingLength += panelLength * qty;
-      if (panel.edgeBanding.left) edgeBandingLength += panelWidth * qty;
-      if (panel.edgeBanding.right) edgeBandingLength += panelWidth * qty;
-    });
+    const materialCosts = materialResults.flatMap(({ material, result }) =>
+      getStockUsage(material, result).map(({ stock, sheets, cost }) => {
+        const name = materialResults.length > 1 ? `${material.name} sheets` : "Sheets";
+        return {
+          material,
+          stock,
+          // "MDF sheets 1220×610mm" when a material comes in several sizes
+          label: getMaterialStock(material).length > 1
+            ? `${name} ${formatSize(stock.width, stock.height, settings)}`
+            : name,
+          sheets,
+          sheetPrice: stock.price || 0,
+          cost,
+        };
+      }),
+    );
+    const sheetCost = materialCosts.reduce((sum, m) => sum + m.cost, 0);
+    const boardCosts = linearResults.flatMap(getBoardUsage);
+    const boardCost = boardCosts.reduce((sum, b) => sum + b.cost, 0);
 
-    const edgeBandingMeters = edgeBandingLength / 1000;
-    const edgeBandingCost = edgeBandingMeters * edgeBandingPrice;
-    const totalCost = sheetCost + edgeBandingCost;
+    const bandingUsage = calculateBandingUsage(panels, settings);
+    const edgeBandingCost = getBandingCost(bandingUsage);
+    const hardwareCost = getHardwareCost(hardwareBOM);
+    const totalCost = sheetCost + boardCost + edgeBandingCost + hardwareCost;
 
     return {
       totalSheets,
+      materialCosts,
       sheetCost,
-      edgeBandingMeters,
-      edgeBandingCost,
+      boardCosts: boardCosts.filter((b) => b.cost > 0),
+      bandingCosts: bandingUsage.filter((u) => u.cost > 0),
+      hardwareCosts: hardwareBOM.filter((line) => line.cost > 0),
       totalCost,
       currency,
       wastePercent: optimizationResult.totalWaste,
+      hasPrice: materialCosts.some((m) => m.sheetPrice > 0) || boardCost > 0 || edgeBandingCost > 0 || hardwareCost > 0,
     };
-  }, [panels, settings, optimizationResult]);
+  }, [panels, settings, materialResults, linearResults, optimizationResult, hardwareBOM]);
+
+  // Groups are built on their own before the main assembly
+  const subAssemblies = useMemo(() => {
+    const steps = generateAssemblySteps(panels, settings, groups);
+    return groups
+      .map((group) => ({
+        group,
+        steps: steps.filter((step) => step.subAssembly?.id === group.id),
+      }))
+      .filter(({ steps }) => steps.length > 0);
+  }, [panels, settings, groups]);
+
+  const drillingPlans = useMemo(() => generateDrillingPlans(panels, joints, settings), [panels, joints, settings]);
+
+  const subAssemblyNum = costEstimate.hasPrice ? 4 : 3;
+  const drillingNum = subAssemblyNum + (subAssemblies.length > 0 ? 1 : 0);
+  const notesNum = drillingNum + (drillingPlans.length > 0 ? 1 : 0);
 
   const today = new Date().toLocaleDateString("en-US", {
     year: "numeric",
@@ -164,6 +213,7 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
 
     // Grab the rendered SVGs from the CuttingDiagram component
     const diagramHTML = diagramRef.current?.innerHTML ?? "";
+    const drillingHTML = drillingRef.current?.innerHTML ?? "";
 
     // Build parts-list table rows
     const partsRows = groupedPieces
@@ -179,30 +229,52 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
         return `<tr>
         <td><span class="badge">${piece.letter}</span></td>
         <td>${piece.label}</td>
-        <td class="text-right mono">${piece.width} × ${piece.height} mm</td>
+        <td class="text-right mono">${formatSize(piece.width, piece.height, settings)}</td>
         <td class="text-center" style="font-weight:600">${piece.quantity}</td>
         <td style="text-transform:capitalize">${panel?.orientation || "horizontal"}</td>
         <td>${edges.length ? edges.join(", ") : "—"}</td>
-      </tr>`;
+      </tr>${piece.machining.length > 0 ? `
+      <tr><td></td><td colspan="5" style="font-size:.75rem;color:#475569">${piece.machining.map((note) => `<div>✂ ${note}</div>`).join("")}</td></tr>` : ""}`;
       })
       .join("\n");
 
+    const hardwareHTML = hardwareBOM.length > 0
+      ? `<h3 style="font-size:1rem;margin:1.25rem 0 .5rem">Hardware</h3>
+        <table><thead><tr><th>Item</th><th>Category</th><th>Used on</th><th class="text-center">Qty</th></tr></thead><tbody>
+          ${hardwareBOM.map(({ item, quantity, usedBy }) => `<tr><td>${item.name}</td><td>${getCategoryName(item.category)}</td><td>${usedBy.join(", ")}</td><td class="text-center" style="font-weight:600">${quantity}</td></tr>`).join("")}
+        </tbody></table>`
+      : "";
+
     // Build cost section
     let costHTML = "";
-    if (settings.sheetPrice || settings.edgeBandingPrice) {
+    if (costEstimate.hasPrice) {
       costHTML = `
         <div class="page-break"></div>
         <div class="section">
           <div class="section-title"><span class="section-num">3</span> Cost Estimate</div>
-          <div class="cost-row"><span class="label">Sheets (${costEstimate.totalSheets} × ${costEstimate.currency}${settings.sheetPrice})</span><span class="value">${costEstimate.currency}${costEstimate.sheetCost.toFixed(2)}</span></div>
-          ${settings.edgeBandingPrice && costEstimate.edgeBandingMeters > 0 ? `<div class="cost-row"><span class="label">Edge Banding (${costEstimate.edgeBandingMeters.toFixed(1)}m × ${costEstimate.currency}${settings.edgeBandingPrice})</span><span class="value">${costEstimate.currency}${costEstimate.edgeBandingCost.toFixed(2)}</span></div>` : ""}
+          ${costEstimate.materialCosts.filter((m) => m.sheetPrice > 0).map((m) => `<div class="cost-row"><span class="label">${m.label} (${m.sheets} × ${costEstimate.currency}${m.sheetPrice})</span><span class="value">${costEstimate.currency}${m.cost.toFixed(2)}</span></div>`).join("")}
+          ${costEstimate.boardCosts.map(({ stock, length, boards, cost }) => `<div class="cost-row"><span class="label">${stock.name} ${formatLength(length, settings, { showUnit: true })} (${boards} × ${costEstimate.currency}${(cost / boards).toFixed(2)})</span><span class="value">${costEstimate.currency}${cost.toFixed(2)}</span></div>`).join("")}
+          ${costEstimate.bandingCosts.map(({ type, meters, cost }) => `<div class="cost-row"><span class="label">${type.name} (${meters.toFixed(1)}m × ${costEstimate.currency}${type.price})</span><span class="value">${costEstimate.currency}${cost.toFixed(2)}</span></div>`).join("")}
+          ${costEstimate.hardwareCosts.map(({ item, quantity, cost }) => `<div class="cost-row"><span class="label">${item.name} (${quantity} × ${costEstimate.currency}${item.price})</span><span class="value">${costEstimate.currency}${cost.toFixed(2)}</span></div>`).join("")}
           <div class="cost-total"><span style="font-weight:600">Total</span><span class="value">${costEstimate.currency}${costEstimate.totalCost.toFixed(2)}</span></div>
           <div class="warning-box" style="margin-top:1rem"><strong>Note:</strong> This is an estimate. Actual costs may vary based on supplier pricing and waste factors.</div>
         </div>`;
     }
 
-    const notesNum =
-      settings.sheetPrice || settings.edgeBandingPrice ? "4" : "3";
+    // Build sub-assembly section
+    let subAssemblyHTML = "";
+    if (subAssemblies.length > 0) {
+      subAssemblyHTML = `
+        <div class="page-break"></div>
+        <div class="section">
+          <div class="section-title"><span class="section-num">${subAssemblyNum}</span> Sub-assemblies</div>
+          ${subAssemblies.map(({ group, steps }) => `
+            <h3 style="font-size:1rem;margin:1rem 0 .5rem">${group.name}</h3>
+            <table><thead><tr><th class="text-center">Step</th><th>Part</th><th>Instruction</th></tr></thead><tbody>
+              ${steps.map((step) => `<tr><td class="text-center" style="font-weight:600">${step.stepNumber}</td><td><span class="badge">${step.letterLabel}</span> ${step.panelLabel}</td><td>${step.instruction}</td></tr>`).join("")}
+            </tbody></table>`).join("")}
+        </div>`;
+    }
 
     const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${settings.projectName || "Project"} – Print</title><style>${PRINT_CSS}</style></head><body>
 
@@ -217,24 +289,34 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
       <div class="section">
         <div class="section-title"><span class="section-num">1</span> Parts List</div>
         <table><thead><tr><th>ID</th><th>Name</th><th class="text-right">Dimensions</th><th class="text-center">Qty</th><th>Type</th><th>Edge Band</th></tr></thead><tbody>${partsRows}</tbody></table>
-        <div class="footer-row"><span>Material thickness: ${settings.thickness}mm</span><span>Total unique parts: ${groupedPieces.length}</span></div>
+        <div class="footer-row"><span>Material thickness: ${thicknessText}</span><span>Total unique parts: ${groupedPieces.length}</span></div>
+        ${hardwareHTML}
       </div>
 
       <div class="page-break"></div>
 
       <div class="section">
         <div class="section-title"><span class="section-num">2</span> Cutting Diagrams</div>
-        <div style="font-size:.85rem;color:#475569;margin-bottom:.75rem">Sheet size: ${settings.sheetWidth} × ${settings.sheetHeight} mm</div>
+        <div style="font-size:.85rem;color:#475569;margin-bottom:.75rem">Sheet size: ${sheetSizeText}</div>
         <div class="diagram-container">${diagramHTML}</div>
       </div>
 
       ${costHTML}
 
+      ${subAssemblyHTML}
+
+      ${drillingPlans.length > 0 ? `
+      <div class="page-break"></div>
+      <div class="section">
+        <div class="section-title"><span class="section-num">${drillingNum}</span> Drilling</div>
+        <div style="display:flex;flex-wrap:wrap;column-gap:32px">${drillingHTML}</div>
+      </div>` : ""}
+
       <div class="page-break"></div>
 
       <div class="section">
         <div class="section-title"><span class="section-num">${notesNum}</span> Notes</div>
-        <div class="note-box"><strong>Cutting Tips:</strong><ul><li>Allow 3mm kerf (blade width) between cuts</li><li>Cut larger pieces first to maximize material usage</li><li>Label each piece with its letter immediately after cutting</li><li>Check grain direction before cutting</li></ul></div>
+        <div class="note-box"><strong>Cutting Tips:</strong><ul><li>Allow ${formatLength(getCutOptions(settings).kerf, settings, { showUnit: true })} kerf (blade width) between cuts</li><li>Cut larger pieces first to maximize material usage</li><li>Label each piece with its letter immediately after cutting</li><li>Check grain direction before cutting</li></ul></div>
         <div class="note-box"><strong>Legend:</strong><ul><li><b>T/B/L/R</b> = Top/Bottom/Left/Right edge banding</li><li><b>↻</b> = Panel rotated 90° on cutting diagram</li></ul></div>
         <div class="generated">Generated with CraftCut • ${today}</div>
       </div>
@@ -423,35 +505,75 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
                 if (edgeBanding?.right) edges.push("R");
 
                 return (
-                  <tr key={piece.letter} className="border-b border-gray-100">
-                    <td className="py-2">
-                      <span className="inline-flex items-center justify-center w-7 h-7 bg-slate-800 text-white text-xs font-bold rounded">
-                        {piece.letter}
-                      </span>
-                    </td>
-                    <td className="py-2 text-gray-900">{piece.label}</td>
-                    <td className="py-2 text-right font-mono text-gray-700">
-                      {piece.width} × {piece.height} mm
-                    </td>
-                    <td className="py-2 text-center font-semibold text-gray-900">
-                      {piece.quantity}
-                    </td>
-                    <td className="py-2 text-gray-600 capitalize">
-                      {panel?.orientation || "horizontal"}
-                    </td>
-                    <td className="py-2 text-gray-600">
-                      {edges.length > 0 ? edges.join(", ") : "—"}
-                    </td>
-                  </tr>
+                  <React.Fragment key={piece.sourceId}>
+                    <tr className={piece.machining.length > 0 ? "" : "border-b border-gray-100"}>
+                      <td className="py-2">
+                        <span className="inline-flex items-center justify-center w-7 h-7 bg-slate-800 text-white text-xs font-bold rounded">
+                          {piece.letter}
+                        </span>
+                      </td>
+                      <td className="py-2 text-gray-900">{piece.label}</td>
+                      <td className="py-2 text-right font-mono text-gray-700">
+                        {formatSize(piece.width, piece.height, settings)}
+                      </td>
+                      <td className="py-2 text-center font-semibold text-gray-900">
+                        {piece.quantity}
+                      </td>
+                      <td className="py-2 text-gray-600 capitalize">
+                        {panel?.orientation || "horizontal"}
+                      </td>
+                      <td className="py-2 text-gray-600">
+                        {edges.length > 0 ? edges.join(", ") : "—"}
+                      </td>
+                    </tr>
+                    {piece.machining.length > 0 && (
+                      <tr className="border-b border-gray-100">
+                        <td />
+                        <td colSpan={5} className="pb-2 text-xs text-gray-600">
+                          {piece.machining.map((note, i) => (
+                            <div key={i}>✂ {note}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 );
               })}
             </tbody>
           </table>
 
           <div className="mt-4 pt-4 border-t border-gray-200 flex justify-between text-sm text-gray-600">
-            <span>Material thickness: {settings.thickness}mm</span>
+            <span>
+              Material thickness: {thicknessText}
+            </span>
             <span>Total unique parts: {groupedPieces.length}</span>
           </div>
+
+          {hardwareBOM.length > 0 && (
+            <>
+              <h3 className="font-semibold text-gray-900 mt-6 mb-2">Hardware</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b-2 border-gray-200">
+                    <th className="text-left py-2 font-semibold text-gray-700">Item</th>
+                    <th className="text-left py-2 font-semibold text-gray-700">Category</th>
+                    <th className="text-left py-2 font-semibold text-gray-700">Used on</th>
+                    <th className="text-center py-2 font-semibold text-gray-700">Qty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {hardwareBOM.map(({ item, quantity, usedBy }) => (
+                    <tr key={item.id} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-900">{item.name}</td>
+                      <td className="py-2 text-gray-600">{getCategoryName(item.category)}</td>
+                      <td className="py-2 text-xs text-gray-600">{usedBy.join(", ")}</td>
+                      <td className="py-2 text-center font-semibold text-gray-900">{quantity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
         </div>
 
         <div className="page-break"></div>
@@ -466,18 +588,19 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
           </h2>
 
           <div className="text-sm text-gray-600 mb-4">
-            Sheet size: {settings.sheetWidth} × {settings.sheetHeight} mm
+            Sheet size: {sheetSizeText}
           </div>
 
           <div ref={diagramRef}>
             <CuttingDiagram />
+            <BoardDiagram results={linearResults} settings={settings} />
           </div>
         </div>
 
         <div className="page-break"></div>
 
         {/* Cost Summary */}
-        {(settings.sheetPrice || settings.edgeBandingPrice) && (
+        {(costEstimate.hasPrice) && (
           <div className="bg-white rounded-lg shadow-sm p-6 mb-6 print:shadow-none print:rounded-none print:mb-0 page-break-inside-avoid">
             <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
               <span className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center text-blue-600 text-sm font-bold">
@@ -487,31 +610,63 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
             </h2>
 
             <div className="space-y-3">
-              <div className="flex justify-between py-2 border-b border-gray-100">
-                <span className="text-gray-600">
-                  Sheets ({costEstimate.totalSheets} × {costEstimate.currency}
-                  {settings.sheetPrice})
-                </span>
-                <span className="font-semibold text-gray-900">
-                  {costEstimate.currency}
-                  {costEstimate.sheetCost.toFixed(2)}
-                </span>
-              </div>
-
-              {settings.edgeBandingPrice &&
-                costEstimate.edgeBandingMeters > 0 && (
-                  <div className="flex justify-between py-2 border-b border-gray-100">
+              {costEstimate.materialCosts
+                .filter((m) => m.sheetPrice > 0)
+                .map((m) => (
+                  <div
+                    key={`${m.material.id}-${m.stock.id}`}
+                    className="flex justify-between py-2 border-b border-gray-100"
+                  >
                     <span className="text-gray-600">
-                      Edge Banding ({costEstimate.edgeBandingMeters.toFixed(1)}m
-                      × {costEstimate.currency}
-                      {settings.edgeBandingPrice})
+                      {m.label}{" "}
+                      ({m.sheets} × {costEstimate.currency}
+                      {m.sheetPrice})
                     </span>
                     <span className="font-semibold text-gray-900">
                       {costEstimate.currency}
-                      {costEstimate.edgeBandingCost.toFixed(2)}
+                      {m.cost.toFixed(2)}
                     </span>
                   </div>
-                )}
+                ))}
+
+              {costEstimate.boardCosts.map(({ stock, length, boards, cost }) => (
+                <div key={`${stock.id}-${length}`} className="flex justify-between py-2 border-b border-gray-100">
+                  <span className="text-gray-600">
+                    {stock.name} {formatLength(length, settings, { showUnit: true })} ({boards} × {costEstimate.currency}
+                    {(cost / boards).toFixed(2)})
+                  </span>
+                  <span className="font-semibold text-gray-900">
+                    {costEstimate.currency}
+                    {cost.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+
+              {costEstimate.bandingCosts.map(({ type, meters, cost }) => (
+                <div key={type.id} className="flex justify-between py-2 border-b border-gray-100">
+                  <span className="text-gray-600">
+                    {type.name} ({meters.toFixed(1)}m × {costEstimate.currency}
+                    {type.price})
+                  </span>
+                  <span className="font-semibold text-gray-900">
+                    {costEstimate.currency}
+                    {cost.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+
+              {costEstimate.hardwareCosts.map(({ item, quantity, cost }) => (
+                <div key={item.id} className="flex justify-between py-2 border-b border-gray-100">
+                  <span className="text-gray-600">
+                    {item.name} ({quantity} × {costEstimate.currency}
+                    {item.price})
+                  </span>
+                  <span className="font-semibold text-gray-900">
+                    {costEstimate.currency}
+                    {cost.toFixed(2)}
+                  </span>
+                </div>
+              ))}
 
               <div className="flex justify-between py-3 border-t-2 border-gray-200">
                 <span className="font-semibold text-gray-900">Total</span>
@@ -529,11 +684,75 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
           </div>
         )}
 
+        {/* Sub-assemblies */}
+        {subAssemblies.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-6 print:shadow-none print:rounded-none print:mb-0">
+            <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+              <span className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center text-blue-600 text-sm font-bold">
+                {subAssemblyNum}
+              </span>
+              Sub-assemblies
+            </h2>
+
+            {subAssemblies.map(({ group, steps }) => (
+              <div key={group.id} className="mb-6 last:mb-0 page-break-inside-avoid">
+                <h3 className="font-semibold text-gray-900 mb-2">{group.name}</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b-2 border-gray-200">
+                      <th className="text-center py-2 font-semibold text-gray-700 w-14">Step</th>
+                      <th className="text-left py-2 font-semibold text-gray-700">Part</th>
+                      <th className="text-left py-2 font-semibold text-gray-700">Instruction</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {steps.map((step) => (
+                      <tr key={step.stepNumber} className="border-b border-gray-100 align-top">
+                        <td className="py-2 text-center font-semibold text-gray-900">{step.stepNumber}</td>
+                        <td className="py-2 text-gray-900 whitespace-nowrap">
+                          <span className="inline-flex items-center justify-center w-7 h-7 mr-2 bg-slate-800 text-white text-xs font-bold rounded">
+                            {step.letterLabel}
+                          </span>
+                          {step.panelLabel}
+                        </td>
+                        <td className="py-2 text-gray-600">{step.instruction}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Drilling */}
+        {drillingPlans.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm p-6 mb-6 print:shadow-none print:rounded-none print:mb-0">
+            <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+              <span className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center text-blue-600 text-sm font-bold">
+                {drillingNum}
+              </span>
+              Drilling
+            </h2>
+
+            <div ref={drillingRef} style={{ display: "flex", flexWrap: "wrap", columnGap: 32 }}>
+              {drillingPlans.map((plan) => (
+                <DrillingDiagram
+                  key={plan.panel.id}
+                  plan={plan}
+                  letter={groupedPieces.find((piece) => piece.sourceId === plan.panel.id)?.letter || "?"}
+                  settings={settings}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Notes Section */}
         <div className="bg-white rounded-lg shadow-sm p-6 print:shadow-none print:rounded-none page-break-inside-avoid">
           <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
             <span className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center text-blue-600 text-sm font-bold">
-              {settings.sheetPrice || settings.edgeBandingPrice ? "4" : "3"}
+              {notesNum}
             </span>
             Notes
           </h2>
@@ -542,7 +761,10 @@ export default function PrintBooklet({ onClose }: PrintBookletProps) {
             <div className="p-3 bg-gray-50 rounded-lg">
               <strong className="text-gray-900">Cutting Tips:</strong>
               <ul className="mt-2 space-y-1 list-disc list-inside">
-                <li>Allow 3mm kerf (blade width) between cuts</li>
+                <li>
+                  Allow {formatLength(getCutOptions(settings).kerf, settings, { showUnit: true })} kerf
+                  (blade width) between cuts
+                </li>
                 <li>Cut larger pieces first to maximize material usage</li>
                 <li>
                   Label each piece with its letter immediately after cutting
@@ -2,10 +2,15 @@ import { Printer, X } from "lucide-react";
 import React, { useEffect, useMemo, useRef } from "react";
 import { createPortal } from "react-dom";
 import { generateAssemblySteps, getAssemblySummary } from "../lib/assembly";
+import { generateDrillingPlans } from "../lib/drilling";
+import { calculateHardwareBOM, getCategoryName } from "../lib/hardware";
+import { getPanelThickness } from "../lib/materials";
+import { formatLength, formatSize, isImperial, unitLabel } from "../lib/units";
 import { useDesignStore } from "../stores/designStore";
 import type { Panel } from "../types";
 import AssemblyIllustration from "./AssemblyIllustration";
 import CutListTable from "./CutListTable";
+import DrillingDiagram from "./DrillingDiagram";
 import Print3DImage from "./Print3DImage";
 
 interface PrintViewProps {
@@ -31,7 +36,7 @@ function getTrueDimensions(
 }
 
 export default function PrintView({ onClose }: PrintViewProps) {
-  const { panels, settings } = useDesignStore();
+  const { panels, groups, joints, settings } = useDesignStore();
   const printRef = useRef<HTMLDivElement>(null);
 
   // Calculate bounds
@@ -44,7 +49,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
       maxY = -Infinity;
 
     panels.forEach((p) => {
-      const dims = getTrueDimensions(p, settings.thickness);
+      const dims = getTrueDimensions(p, getPanelThickness(p, settings));
       minX = Math.min(minX, p.x);
       maxX = Math.max(maxX, p.x + dims.width);
       minY = Math.min(minY, p.y);
@@ -57,7 +62,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
       minY: minY - 50,
       maxY: maxY + 50,
     };
-  }, [panels, settings.thickness]);
+  }, [panels, settings]);
 
   const totalWidth = bounds.maxX - bounds.minX;
   const totalHeight = bounds.maxY - bounds.minY;
@@ -77,7 +82,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
     }[] = [];
 
     const panelBounds = panels.map((p) => {
-      const dims = getTrueDimensions(p, settings.thickness);
+      const dims = getTrueDimensions(p, getPanelThickness(p, settings));
       return {
         id: p.id,
         left: p.x,
@@ -171,7 +176,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
     });
 
     return result;
-  }, [panels, settings.thickness]);
+  }, [panels, settings]);
 
   // Overall dimensions
   const overallDims = React.useMemo(() => {
@@ -184,7 +189,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
       maxY = -Infinity;
 
     panels.forEach((p) => {
-      const dims = getTrueDimensions(p, settings.thickness);
+      const dims = getTrueDimensions(p, getPanelThickness(p, settings));
       minX = Math.min(minX, p.x);
       maxX = Math.max(maxX, p.x + dims.width);
       minY = Math.min(minY, p.y);
@@ -192,12 +197,19 @@ export default function PrintView({ onClose }: PrintViewProps) {
     });
 
     return { width: maxX - minX, height: maxY - minY, minX, maxX, minY, maxY };
-  }, [panels, settings.thickness]);
+  }, [panels, settings]);
 
   // Generate assembly steps
   const assemblySteps = useMemo(() => {
-    return generateAssemblySteps(panels, settings);
-  }, [panels, settings]);
+    return generateAssemblySteps(panels, settings, groups);
+  }, [panels, settings, groups]);
+
+  // Fractional inch labels ("23 15/16") need a wider box than whole mm
+  const measureLabelWidth = isImperial(settings) ? 84 : 56;
+
+  const hardwareBOM = useMemo(() => calculateHardwareBOM(panels, joints, settings), [panels, joints, settings]);
+
+  const drillingPlans = useMemo(() => generateDrillingPlans(panels, joints, settings), [panels, joints, settings]);
 
   const assemblySummary = useMemo(() => {
     return getAssemblySummary(assemblySteps);
@@ -269,28 +281,28 @@ export default function PrintView({ onClose }: PrintViewProps) {
             <div className="inline-flex gap-8 px-8 py-4 bg-gray-100 rounded-lg">
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {Math.round(overallDims.width)}
+                  {formatLength(overallDims.width, settings)}
                 </div>
                 <div className="text-xs text-gray-500 uppercase">
-                  Width (mm)
+                  Width ({unitLabel(settings)})
                 </div>
               </div>
               <div className="border-l border-gray-300" />
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {Math.round(overallDims.height)}
+                  {formatLength(overallDims.height, settings)}
                 </div>
                 <div className="text-xs text-gray-500 uppercase">
-                  Height (mm)
+                  Height ({unitLabel(settings)})
                 </div>
               </div>
               <div className="border-l border-gray-300" />
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {settings.furnitureDepth || 400}
+                  {formatLength(settings.furnitureDepth || 400, settings)}
                 </div>
                 <div className="text-xs text-gray-500 uppercase">
-                  Depth (mm)
+                  Depth ({unitLabel(settings)})
                 </div>
               </div>
               <div className="border-l border-gray-300" />
@@ -338,7 +350,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
 
               {/* Panels */}
               {panels.map((p) => {
-                const dims = getTrueDimensions(p, settings.thickness);
+                const dims = getTrueDimensions(p, getPanelThickness(p, settings));
                 const screenY = -p.y - dims.height;
                 return (
                   <g key={p.id}>
@@ -447,9 +459,9 @@ export default function PrintView({ onClose }: PrintViewProps) {
                     )}
                     {/* Label */}
                     <rect
-                      x={m.labelX - 28}
+                      x={m.labelX - measureLabelWidth / 2}
                       y={screenLabelY - 12}
-                      width={56}
+                      width={measureLabelWidth}
                       height={24}
                       fill="white"
                       stroke="#000"
@@ -463,7 +475,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
                       textAnchor="middle"
                       fontWeight={700}
                     >
-                      {Math.round(m.value)}
+                      {formatLength(m.value, settings)}
                     </text>
                   </g>
                 );
@@ -510,7 +522,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
                   textAnchor="middle"
                   fontWeight={700}
                 >
-                  {Math.round(overallDims.width)}
+                  {formatLength(overallDims.width, settings)}
                 </text>
               </g>
 
@@ -555,7 +567,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
                   textAnchor="middle"
                   fontWeight={700}
                 >
-                  {Math.round(overallDims.height)}
+                  {formatLength(overallDims.height, settings)}
                 </text>
               </g>
             </svg>
@@ -586,7 +598,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
             // Create a map of panel ID to letter label from assembly steps
             const panelLetters = new Map<string, string>();
             assemblySteps.forEach((step) => {
-              panelLetters.set(step.panelId, step.letterLabel);
+              if (!step.installsGroup) panelLetters.set(step.panelId, step.letterLabel);
             });
 
             // Process each panel individually with its letter
@@ -883,14 +895,20 @@ export default function PrintView({ onClose }: PrintViewProps) {
           {(() => {
             const letterLabels = new Map<string, string>();
             assemblySteps.forEach((step) => {
-              letterLabels.set(step.panelId, step.letterLabel);
+              if (!step.installsGroup) letterLabels.set(step.panelId, step.letterLabel);
             });
 
             return (
               <div className="grid grid-cols-2 gap-6">
-                {assemblySteps.map((step) => (
+                {assemblySteps.map((step, index) => (
+                  <React.Fragment key={step.stepNumber}>
+                  {/* Heading where each sub-assembly starts and where the main assembly begins */}
+                  {step.subAssembly?.id !== assemblySteps[index - 1]?.subAssembly?.id && (
+                    <h3 className="col-span-2 text-base font-semibold text-gray-900 border-b border-gray-300 pb-1">
+                      {step.subAssembly ? `Sub-assembly: ${step.subAssembly.name}` : "Main assembly"}
+                    </h3>
+                  )}
                   <div
-                    key={step.stepNumber}
                     className="flex gap-4 p-4 bg-gray-50 rounded-lg border border-gray-200 page-break-inside-avoid"
                   >
                     {/* Left: Illustration */}
@@ -899,6 +917,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
                         panels={panels}
                         cumulativePanelIds={step.cumulativePanels}
                         currentPanelId={step.panelId}
+                        currentPanelIds={step.installsGroup?.panelIds}
                         letterLabels={letterLabels}
                         settings={settings}
                         size={140}
@@ -913,7 +932,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
                           {step.stepNumber}
                         </span>
                         <span className="text-lg font-bold text-gray-900">
-                          Panel {step.letterLabel}
+                          {step.installsGroup ? step.installsGroup.name : `Panel ${step.letterLabel}`}
                         </span>
                         {/* Stability warning badge */}
                         {step.stabilityStatus === "unstable" && (
@@ -961,6 +980,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
                       )}
                     </div>
                   </div>
+                  </React.Fragment>
                 ))}
               </div>
             );
@@ -1001,7 +1021,10 @@ export default function PrintView({ onClose }: PrintViewProps) {
                 Board Thickness
               </div>
               <div className="text-lg font-semibold text-gray-900">
-                {settings.thickness}mm
+                {Array.from(new Set(panels.map((p) => getPanelThickness(p, settings))))
+                  .sort((a, b) => b - a)
+                  .map((t) => formatLength(t, settings, { showUnit: true }))
+                  .join(" / ")}
               </div>
             </div>
             <div>
@@ -1009,7 +1032,9 @@ export default function PrintView({ onClose }: PrintViewProps) {
                 Standard Depth
               </div>
               <div className="text-lg font-semibold text-gray-900">
-                {settings.furnitureDepth || 400}mm
+                {formatLength(settings.furnitureDepth || 400, settings, {
+                  showUnit: true,
+                })}
               </div>
             </div>
             <div>
@@ -1017,7 +1042,7 @@ export default function PrintView({ onClose }: PrintViewProps) {
                 Sheet Size
               </div>
               <div className="text-lg font-semibold text-gray-900">
-                {settings.sheetWidth} × {settings.sheetHeight}mm
+                {formatSize(settings.sheetWidth, settings.sheetHeight, settings)}
               </div>
             </div>
             <div>
@@ -1031,9 +1056,68 @@ export default function PrintView({ onClose }: PrintViewProps) {
           </div>
         </section>
 
+        {/* Hardware */}
+        {hardwareBOM.length > 0 && (
+          <section className="mt-8 page-break-inside-avoid">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <span className="w-6 h-6 bg-gray-900 text-white rounded flex items-center justify-center text-xs font-bold">
+                7
+              </span>
+              Hardware
+            </h2>
+            <table className="w-full text-sm border border-gray-200">
+              <thead>
+                <tr className="bg-gray-100 text-left">
+                  <th className="px-3 py-2 font-semibold">Item</th>
+                  <th className="px-3 py-2 font-semibold">Category</th>
+                  <th className="px-3 py-2 font-semibold">Used on</th>
+                  <th className="px-3 py-2 font-semibold text-center">Qty</th>
+                  <th className="px-3 py-2 font-semibold text-center">✓</th>
+                </tr>
+              </thead>
+              <tbody>
+                {hardwareBOM.map(({ item, quantity, usedBy }) => (
+                  <tr key={item.id} className="border-t border-gray-200">
+                    <td className="px-3 py-2 text-gray-900">{item.name}</td>
+                    <td className="px-3 py-2 text-gray-600">{getCategoryName(item.category)}</td>
+                    <td className="px-3 py-2 text-xs text-gray-600">{usedBy.join(", ")}</td>
+                    <td className="px-3 py-2 text-center font-semibold">{quantity}</td>
+                    <td className="px-3 py-2 text-center">
+                      <span className="inline-block w-4 h-4 border border-gray-400 rounded-sm" />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        {/* Drilling */}
+        {drillingPlans.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <span className="w-6 h-6 bg-gray-900 text-white rounded flex items-center justify-center text-xs font-bold">
+                {hardwareBOM.length > 0 ? 8 : 7}
+              </span>
+              Drilling
+            </h2>
+            <div className="flex flex-wrap gap-x-8">
+              {drillingPlans.map((plan) => (
+                <DrillingDiagram
+                  key={plan.panel.id}
+                  plan={plan}
+                  letter={assemblySteps.find((step) => step.panelId === plan.panel.id && !step.installsGroup)?.letterLabel || "?"}
+                  settings={settings}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Footer */}
         <footer className="mt-8 pt-4 border-t border-gray-200 text-center text-xs text-gray-400">
-          Generated by CraftCut • All measurements in millimeters
+          Generated by CraftCut • All measurements in{" "}
+          {isImperial(settings) ? "inches" : "millimeters"}
         </footer>
       </div>
 
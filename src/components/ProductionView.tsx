@@ -7,15 +7,34 @@ import {
   FileDown,
   DollarSign,
   Loader2,
+  ShoppingCart,
 } from "lucide-react";
 import React, { useMemo, useRef, useState } from "react";
 import { generateAssemblySteps, getAssemblySummary } from "../lib/assembly";
-import { calculateGroupedCutList, optimizeCuts } from "../lib/optimizer";
+import { calculateBandingUsage, getBandingCost } from "../lib/banding";
+import { getHardwareCSVLines } from "../lib/export";
+import { calculateHardwareBOM, getCategoryName, getHardwareCost } from "../lib/hardware";
+import { getBoardUsage, optimizeLinearCuts } from "../lib/linear";
+import { getMaterialStock, getPanelThickness } from "../lib/materials";
+import {
+  calculateGroupedCutList,
+  getCutOptions,
+  getCutPanels,
+  getPanelLetter,
+  getStockUsage,
+  summarizeMaterialResults,
+} from "../lib/optimizer";
 import { exportToPDF } from "../lib/pdf";
+import { getShoppingList, SHOPPING_CATEGORY_NAMES } from "../lib/shopping";
+import { formatArea, formatLength, formatSize, unitLabel, type UnitSettings } from "../lib/units";
+import { useSheetLayout } from "../hooks/useLayoutSearch";
 import { useDesignStore } from "../stores/designStore";
+import { useInventoryStore } from "../stores/inventoryStore";
 import type { Panel } from "../types";
 import AssemblyIllustration from "./AssemblyIllustration";
+import BoardDiagram from "./BoardDiagram";
 import CuttingDiagram from "./CuttingDiagram";
+import InventoryPanel from "./InventoryPanel";
 import Print3DImage from "./Print3DImage";
 
 // Self-contained print CSS for the iframe document
@@ -171,7 +190,8 @@ function getTrueDimensions(
 }
 
 export default function ProductionView() {
-  const { panels, settings, exportDesign } = useDesignStore();
+  const { panels, groups, joints, settings, exportDesign } = useDesignStore();
+  const inventory = useInventoryStore((state) => state.items);
   const contentRef = useRef<HTMLDivElement>(null);
   const [isExportingPDF, setIsExportingPDF] = useState(false);
 
@@ -185,7 +205,7 @@ export default function ProductionView() {
       maxY = -Infinity;
 
     panels.forEach((p) => {
-      const dims = getTrueDimensions(p, settings.thickness);
+      const dims = getTrueDimensions(p, getPanelThickness(p, settings));
       minX = Math.min(minX, p.x);
       maxX = Math.max(maxX, p.x + dims.width);
       minY = Math.min(minY, p.y);
@@ -198,15 +218,15 @@ export default function ProductionView() {
       minY: minY - 50,
       maxY: maxY + 50,
     };
-  }, [panels, settings.thickness]);
+  }, [panels, settings]);
 
   const totalWidth = bounds.maxX - bounds.minX;
   const totalHeight = bounds.maxY - bounds.minY;
 
   // Generate assembly steps
   const assemblySteps = useMemo(() => {
-    return generateAssemblySteps(panels, settings);
-  }, [panels, settings]);
+    return generateAssemblySteps(panels, settings, groups);
+  }, [panels, settings, groups]);
 
   const assemblySummary = useMemo(() => {
     return getAssemblySummary(assemblySteps);
@@ -214,47 +234,26 @@ export default function ProductionView() {
 
   // Get grouped cut list (sorted by size, A = largest)
   const { pieces: groupedPieces, dimensionToLetter } = useMemo(() => {
-    return calculateGroupedCutList(
-      panels,
-      settings.thickness,
-      settings.furnitureDepth || 400,
-    );
-  }, [panels, settings.thickness, settings.furnitureDepth]);
+    return calculateGroupedCutList(panels, settings, joints);
+  }, [panels, settings, joints]);
+
+  // Thicknesses actually in use, e.g. 18mm carcass and 6mm back
+  const usedThicknesses = useMemo(
+    () => Array.from(new Set(groupedPieces.map((p) => p.thickness))).sort((a, b) => b - a),
+    [groupedPieces],
+  );
+  const hasMultipleMaterials = new Set(groupedPieces.map((p) => p.materialId)).size > 1;
+
+  const hardwareBOM = useMemo(() => calculateHardwareBOM(panels, joints, settings), [panels, joints, settings]);
 
   // Create letter labels map based on dimensions (for assembly illustrations)
   const panelLetters = useMemo(() => {
     const map = new Map<string, string>();
     panels.forEach((panel) => {
-      const orientation = panel.orientation || "horizontal";
-      const panelDepth = panel.depth || settings.furnitureDepth || 400;
-      let length: number, width: number;
-
-      switch (orientation) {
-        case "horizontal":
-          length = panel.width;
-          width = panelDepth;
-          break;
-        case "vertical":
-          length = panel.height;
-          width = panelDepth;
-          break;
-        case "back":
-          length = panel.width;
-          width = panel.height;
-          break;
-        default:
-          length = panel.width;
-          width = panelDepth;
-      }
-
-      // Normalize
-      if (width > length) {
-        [length, width] = [width, length];
-      }
-
-      const key = `${length}x${width}`;
-      const letter = dimensionToLetter.get(key) || "?";
-      map.set(panel.id, letter);
+      map.set(
+        panel.id,
+        getPanelLetter(panel, settings.furnitureDepth || 400, dimensionToLetter),
+      );
     });
     return map;
   }, [panels, settings.furnitureDepth, dimensionToLetter]);
@@ -273,7 +272,8 @@ export default function ProductionView() {
   };
 
   const handleExportCSV = () => {
-    const headers = ["Letter", "Label", "Width (mm)", "Height (mm)", "Depth (mm)", "Type", "Quantity"];
+    const unit = unitLabel(settings);
+    const headers = ["Letter", "Label", `Width (${unit})`, `Height (${unit})`, `Depth (${unit})`, "Type", "Quantity"];
     const rows = panels.map((p) => {
       const letter = panelLetters.get(p.id) || "?";
       const orientation = p.orientation || "horizontal";
@@ -281,14 +281,14 @@ export default function ProductionView() {
       return [
         letter,
         p.label || `Panel ${letter}`,
-        p.width,
-        p.height,
-        depth,
+        formatLength(p.width, settings),
+        formatLength(p.height, settings),
+        formatLength(depth, settings),
         orientation,
         p.quantity,
       ].join(",");
     });
-    const csv = [headers.join(","), ...rows].join("\n");
+    const csv = [headers.join(","), ...rows, ...getHardwareCSVLines(hardwareBOM)].join("\n");
 
     const blob = new Blob([csv], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
@@ -364,66 +364,59 @@ export default function ProductionView() {
     }
   };
 
+  // Sheets are priced from the layout the cutting diagrams show
+  const cutPanels = useMemo(() => getCutPanels(panels, joints, settings), [panels, joints, settings]);
+  const { results: materialResults } = useSheetLayout(cutPanels, settings, dimensionToLetter, inventory);
+
   // Calculate material cost including edge banding
   const costEstimate = useMemo(() => {
-    const result = optimizeCuts(
-      panels,
-      settings.sheetWidth,
-      settings.sheetHeight,
-      settings.furnitureDepth || 400,
-      dimensionToLetter
+    const linearResults = optimizeLinearCuts(cutPanels, settings, dimensionToLetter);
+    const summary = summarizeMaterialResults(materialResults);
+    
+    // One cost line per material and sheet size bought
+    const materialCosts = materialResults.flatMap(({ material, result }) =>
+      getStockUsage(material, result).map(({ stock, sheets, cost }) => ({
+        material,
+        stock,
+        sheets,
+        sheetPrice: stock.price || 0,
+        cost,
+        hasSizes: getMaterialStock(material).length > 1,
+      })),
     );
     
-    const sheetPrice = settings.sheetPrice || 0;
-    const edgeBandingPrice = settings.edgeBandingPrice || 0;
     const currency = settings.currency || '$';
-    const totalSheets = result.totalSheets;
-    const sheetCost = totalSheets * sheetPrice;
-    const wastePercent = result.totalWaste;
-    
-    // Calculate edge banding length
-    let edgeBandingLength = 0; // in mm
-    panels.forEach(panel => {
-      if (!panel.edgeBanding) return;
-      const qty = panel.quantity || 1;
-      const orientation = panel.orientation || 'horizontal';
-      const depth = panel.depth || settings.furnitureDepth || 400;
-      
-      let panelLength: number, panelWidth: number;
-      if (orientation === 'horizontal') {
-        panelLength = panel.width;
-        panelWidth = depth;
-      } else if (orientation === 'vertical') {
-        panelLength = panel.height;
-        panelWidth = depth;
-      } else {
-        panelLength = panel.width;
-        panelWidth = panel.height;
-      }
-      
-      if (panel.edgeBanding.top) edgeBandingLength += panelLength * qty;
-      if (panel.edgeBanding.bottom) edgeBandingLength += panelLength * qty;
-      if (panel.edgeBanding.left) edgeBandingLength += panelWidth * qty;
-      if (panel.edgeBanding.right) edgeBandingLength += panelWidth * qty;
-    });
+    const totalSheets = summary.totalSheets;
+    const sheetCost = materialCosts.reduce((sum, m) => sum + m.cost, 0);
+    const wastePercent = summary.totalWaste;
+
+    // One cost line per board stock and length bought
+    const boardCosts = linearResults.flatMap(getBoardUsage);
+    const boardCost = boardCosts.reduce((sum, b) => sum + b.cost, 0);
     
-    const edgeBandingMeters = edgeBandingLength / 1000;
-    const edgeBandingCost = edgeBandingMeters * edgeBandingPrice;
-    const totalCost = sheetCost + edgeBandingCost;
+    // Edge banding, per banding type
+    const bandingUsage = calculateBandingUsage(panels, settings);
+    const edgeBandingCost = getBandingCost(bandingUsage);
+    const hardwareCost = getHardwareCost(hardwareBOM);
+    const totalCost = sheetCost + boardCost + edgeBandingCost + hardwareCost;
     
     return {
       totalSheets,
-      sheetPrice,
+      primaryMaterial: materialResults[0]?.material,
+      materialCosts,
       sheetCost,
-      edgeBandingMeters,
-      edgeBandingPrice,
+      linearResults,
+      boardCosts,
+      bandingUsage,
       edgeBandingCost,
+      hardwareCost,
       totalCost,
       wastePercent,
       currency,
-      hasPrice: sheetPrice > 0 || edgeBandingPrice > 0,
+      shoppingList: getShoppingList(materialResults, linearResults, bandingUsage, hardwareBOM, settings),
+      hasPrice: materialCosts.some((m) => m.sheetPrice > 0) || boardCost > 0 || edgeBandingCost > 0 || hardwareCost > 0,
     };
-  }, [panels, settings, dimensionToLetter]);
+  }, [panels, cutPanels, materialResults, settings, dimensionToLetter, hardwareBOM]);
 
   // No style injection needed — printing uses a self-contained iframe
 
@@ -533,19 +526,21 @@ export default function ProductionView() {
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div className="bg-gray-50 rounded-lg p-3">
                       <div className="text-gray-500">Overall Width</div>
-                      <div className="text-xl font-semibold">{Math.round(totalWidth - 100)} mm</div>
+                      <div className="text-xl font-semibold">{formatLength(totalWidth - 100, settings, { showUnit: true })}</div>
                     </div>
                     <div className="bg-gray-50 rounded-lg p-3">
                       <div className="text-gray-500">Overall Height</div>
-                      <div className="text-xl font-semibold">{Math.round(totalHeight - 100)} mm</div>
+                      <div className="text-xl font-semibold">{formatLength(totalHeight - 100, settings, { showUnit: true })}</div>
                     </div>
                     <div className="bg-gray-50 rounded-lg p-3">
                       <div className="text-gray-500">Depth</div>
-                      <div className="text-xl font-semibold">{settings.furnitureDepth || 400} mm</div>
+                      <div className="text-xl font-semibold">{formatLength(settings.furnitureDepth || 400, settings, { showUnit: true })}</div>
                     </div>
                     <div className="bg-gray-50 rounded-lg p-3">
                       <div className="text-gray-500">Board Thickness</div>
-                      <div className="text-xl font-semibold">{settings.thickness} mm</div>
+                      <div className="text-xl font-semibold">
+                        {usedThicknesses.map((t) => formatLength(t, settings, { showUnit: true })).join(" / ")}
+                      </div>
                     </div>
                   </div>
                   
@@ -594,43 +589,96 @@ export default function ProductionView() {
                   </div>
                 </div>
                 
-                {/* Sheet costs */}
-                {costEstimate.sheetPrice > 0 && (
-                  <div className="mb-4">
-                    <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">Sheet Material</div>
+                {/* Sheet costs - one line per material */}
+                {costEstimate.materialCosts.filter((m) => m.sheetPrice > 0).map((m) => (
+                  <div key={`${m.material.id}-${m.stock.id}`} className="mb-4">
+                    <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">
+                      {hasMultipleMaterials
+                        ? `${m.material.name} · ${formatLength(m.material.thickness, settings, { showUnit: true })}`
+                        : "Sheet Material"}
+                      {m.hasSizes && ` · ${formatSize(m.stock.width, m.stock.height, settings)}`}
+                    </div>
                     <div className="grid grid-cols-3 gap-3">
                       <div className="bg-white rounded-lg p-3 border border-green-100">
                         <div className="text-xs text-gray-500">Sheets</div>
-                        <div className="text-lg font-bold text-gray-900">{costEstimate.totalSheets}</div>
+                        <div className="text-lg font-bold text-gray-900">{m.sheets}</div>
                       </div>
                       <div className="bg-white rounded-lg p-3 border border-green-100">
                         <div className="text-xs text-gray-500">Price/Sheet</div>
-                        <div className="text-lg font-bold text-gray-900">{costEstimate.currency}{costEstimate.sheetPrice}</div>
+                        <div className="text-lg font-bold text-gray-900">{costEstimate.currency}{m.sheetPrice}</div>
                       </div>
                       <div className="bg-white rounded-lg p-3 border border-green-100">
                         <div className="text-xs text-gray-500">Subtotal</div>
-                        <div className="text-lg font-bold text-gray-700">{costEstimate.currency}{costEstimate.sheetCost.toFixed(2)}</div>
+                        <div className="text-lg font-bold text-gray-700">{costEstimate.currency}{m.cost.toFixed(2)}</div>
                       </div>
                     </div>
                   </div>
-                )}
+                ))}
                 
+                {/* Board costs - one line per stock and length */}
+                {costEstimate.boardCosts.filter((b) => b.cost > 0).map((b) => (
+                  <div key={`${b.stock.id}-${b.length}`} className="mb-4">
+                    <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">
+                      {b.stock.name} · {formatLength(b.length, settings, { showUnit: true })} boards
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="bg-white rounded-lg p-3 border border-green-100">
+                        <div className="text-xs text-gray-500">Boards</div>
+                        <div className="text-lg font-bold text-gray-900">{b.boards}</div>
+                      </div>
+                      <div className="bg-white rounded-lg p-3 border border-green-100">
+                        <div className="text-xs text-gray-500">Price/Board</div>
+                        <div className="text-lg font-bold text-gray-900">{costEstimate.currency}{(b.cost / b.boards).toFixed(2)}</div>
+                      </div>
+                      <div className="bg-white rounded-lg p-3 border border-green-100">
+                        <div className="text-xs text-gray-500">Subtotal</div>
+                        <div className="text-lg font-bold text-gray-700">{costEstimate.currency}{b.cost.toFixed(2)}</div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
                 {/* Edge banding costs */}
-                {costEstimate.edgeBandingMeters > 0 && costEstimate.edgeBandingPrice > 0 && (
-                  <div className="mb-4">
-                    <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">Edge Banding</div>
+                {costEstimate.bandingUsage.filter((u) => u.cost > 0).map((u) => (
+                  <div key={u.type.id} className="mb-4">
+                    <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">
+                      {costEstimate.bandingUsage.length > 1 ? `Edge Banding · ${u.type.name}` : "Edge Banding"}
+                    </div>
                     <div className="grid grid-cols-3 gap-3">
                       <div className="bg-white rounded-lg p-3 border border-green-100">
                         <div className="text-xs text-gray-500">Length</div>
-                        <div className="text-lg font-bold text-gray-900">{costEstimate.edgeBandingMeters.toFixed(1)}m</div>
+                        <div className="text-lg font-bold text-gray-900">{u.meters.toFixed(1)}m</div>
                       </div>
                       <div className="bg-white rounded-lg p-3 border border-green-100">
                         <div className="text-xs text-gray-500">Price/Meter</div>
-                        <div className="text-lg font-bold text-gray-900">{costEstimate.currency}{costEstimate.edgeBandingPrice}</div>
+                        <div className="text-lg font-bold text-gray-900">{costEstimate.currency}{u.type.price}</div>
                       </div>
                       <div className="bg-white rounded-lg p-3 border border-green-100">
                         <div className="text-xs text-gray-500">Subtotal</div>
-                        <div className="text-lg font-bold text-gray-700">{costEstimate.currency}{costEstimate.edgeBandingCost.toFixed(2)}</div>
+                        <div className="text-lg font-bold text-gray-700">{costEstimate.currency}{u.cost.toFixed(2)}</div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                
+                {/* Hardware costs */}
+                {costEstimate.hardwareCost > 0 && (
+                  <div className="mb-4">
+                    <div className="text-xs text-gray-500 uppercase tracking-wide mb-2">Hardware</div>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="bg-white rounded-lg p-3 border border-green-100">
+                        <div className="text-xs text-gray-500">Pieces</div>
+                        <div className="text-lg font-bold text-gray-900">
+                          {hardwareBOM.filter((line) => line.cost > 0).reduce((sum, line) => sum + line.quantity, 0)}
+                        </div>
+                      </div>
+                      <div className="bg-white rounded-lg p-3 border border-green-100">
+                        <div className="text-xs text-gray-500">Items</div>
+                        <div className="text-lg font-bold text-gray-900">{hardwareBOM.filter((line) => line.cost > 0).length}</div>
+                      </div>
+                      <div className="bg-white rounded-lg p-3 border border-green-100">
+                        <div className="text-xs text-gray-500">Subtotal</div>
+                        <div className="text-lg font-bold text-gray-700">{costEstimate.currency}{costEstimate.hardwareCost.toFixed(2)}</div>
                       </div>
                     </div>
                   </div>
@@ -659,7 +707,7 @@ export default function ProductionView() {
                 Parts List
               </h3>
               <p className="text-sm text-gray-500 mt-1">
-                Grouped by dimensions • Sorted by size (A = largest)
+                Grouped by {hasMultipleMaterials ? "material and dimensions" : "dimensions"} • Sorted by size (A = largest)
               </p>
             </div>
             <div className="p-4">
@@ -667,6 +715,7 @@ export default function ProductionView() {
                 <thead>
                   <tr className="bg-gray-100">
                     <th className="px-3 py-2 text-center font-semibold">Part</th>
+                    {hasMultipleMaterials && <th className="px-3 py-2 text-left font-semibold">Material</th>}
                     <th className="px-3 py-2 text-right font-semibold">Length</th>
                     <th className="px-3 py-2 text-right font-semibold">Width</th>
                     <th className="px-3 py-2 text-right font-semibold">Thickness</th>
@@ -676,28 +725,115 @@ export default function ProductionView() {
                 </thead>
                 <tbody>
                   {groupedPieces.map((piece, idx) => (
-                    <tr key={piece.letter} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
-                      <td className="px-3 py-2 text-center">
-                        <span className="inline-flex items-center justify-center w-7 h-7 bg-blue-600 text-white text-sm font-bold rounded">
-                          {piece.letter}
-                        </span>
-                      </td>
-                      <td className="px-3 py-2 text-right font-mono">{piece.length} mm</td>
-                      <td className="px-3 py-2 text-right font-mono">{piece.width} mm</td>
-                      <td className="px-3 py-2 text-right font-mono">{piece.thickness} mm</td>
-                      <td className="px-3 py-2 text-center font-semibold">{piece.qty}</td>
-                      <td className="px-3 py-2 text-right text-gray-600">{piece.area.toFixed(2)} m²</td>
-                    </tr>
+                    <React.Fragment key={piece.letter}>
+                      <tr className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                        <td className="px-3 py-2 text-center">
+                          <span className="inline-flex items-center justify-center w-7 h-7 bg-blue-600 text-white text-sm font-bold rounded">
+                            {piece.letter}
+                          </span>
+                        </td>
+                        {hasMultipleMaterials && <td className="px-3 py-2 text-gray-700">{piece.materialName}</td>}
+                        <td className="px-3 py-2 text-right font-mono">{formatLength(piece.length, settings, { showUnit: true })}</td>
+                        <td className="px-3 py-2 text-right font-mono">{formatLength(piece.width, settings, { showUnit: true })}</td>
+                        <td className="px-3 py-2 text-right font-mono">{formatLength(piece.thickness, settings, { showUnit: true })}</td>
+                        <td className="px-3 py-2 text-center font-semibold">{piece.qty}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">{formatArea(piece.area * 1_000_000, settings)}</td>
+                      </tr>
+                      {piece.machining.length > 0 && (
+                        <tr className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                          <td />
+                          <td colSpan={hasMultipleMaterials ? 6 : 5} className="px-3 pb-2 text-xs text-gray-600">
+                            {piece.machining.map((note, i) => (
+                              <div key={i}>✂ {note}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
                   ))}
                 </tbody>
                 <tfoot>
                   <tr className="bg-gray-100 font-semibold">
-                    <td colSpan={4} className="px-3 py-2 text-right">Total:</td>
+                    <td colSpan={hasMultipleMaterials ? 5 : 4} className="px-3 py-2 text-right">Total:</td>
                     <td className="px-3 py-2 text-center">{groupedPieces.reduce((sum, p) => sum + p.qty, 0)}</td>
-                    <td className="px-3 py-2 text-right">{groupedPieces.reduce((sum, p) => sum + p.area, 0).toFixed(2)} m²</td>
+                    <td className="px-3 py-2 text-right">{formatArea(groupedPieces.reduce((sum, p) => sum + p.area, 0) * 1_000_000, settings)}</td>
                   </tr>
                 </tfoot>
               </table>
+
+              {hardwareBOM.length > 0 && (
+                <>
+                  <h4 className="font-semibold text-gray-800 mt-6 mb-2 flex items-center gap-2">
+                    <Wrench size={16} className="text-gray-500" />
+                    Hardware
+                  </h4>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="px-3 py-2 text-left font-semibold">Item</th>
+                        <th className="px-3 py-2 text-left font-semibold">Used on</th>
+                        <th className="px-3 py-2 text-center font-semibold">Qty</th>
+                        <th className="px-3 py-2 text-right font-semibold">Unit price</th>
+                        <th className="px-3 py-2 text-right font-semibold">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {hardwareBOM.map(({ item, quantity, cost, usedBy }, idx) => (
+                        <tr key={item.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                          <td className="px-3 py-2">
+                            <div className="text-gray-900">{item.name}</div>
+                            <div className="text-xs text-gray-500">{getCategoryName(item.category)}</div>
+                          </td>
+                          <td className="px-3 py-2 text-xs text-gray-600">{usedBy.join(", ")}</td>
+                          <td className="px-3 py-2 text-center font-semibold">{quantity}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">
+                            {item.price ? `${costEstimate.currency}${item.price.toFixed(2)}` : "–"}
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono">
+                            {item.price ? `${costEstimate.currency}${cost.toFixed(2)}` : "–"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+
+              {costEstimate.shoppingList.length > 0 && (
+                <>
+                  <h4 className="font-semibold text-gray-800 mt-6 mb-2 flex items-center gap-2">
+                    <ShoppingCart size={16} className="text-gray-500" />
+                    Shopping List
+                  </h4>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="px-3 py-2 text-left font-semibold">Item</th>
+                        <th className="px-3 py-2 text-left font-semibold">Size</th>
+                        <th className="px-3 py-2 text-right font-semibold">Qty</th>
+                        <th className="px-3 py-2 text-right font-semibold">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {costEstimate.shoppingList.map((item, idx) => (
+                        <tr key={idx} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                          <td className="px-3 py-2">
+                            <div className="text-gray-900">{item.name}</div>
+                            <div className="text-xs text-gray-500">{SHOPPING_CATEGORY_NAMES[item.category]}</div>
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{item.detail}</td>
+                          <td className="px-3 py-2 text-right font-semibold whitespace-nowrap">
+                            {item.quantity} {item.unit === "m" ? "m" : `${item.unit}${item.quantity !== 1 ? "s" : ""}`}
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono">
+                            {item.cost > 0 ? `${costEstimate.currency}${item.cost.toFixed(2)}` : "–"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
             </div>
           </section>
 
@@ -722,11 +858,15 @@ export default function ProductionView() {
                 Cutting Diagrams
               </h3>
               <p className="text-sm text-gray-500 mt-1">
-                Optimized layout for cutting panels from {settings.sheetWidth} × {settings.sheetHeight} mm sheets
+                {hasMultipleMaterials || !costEstimate.primaryMaterial
+                  ? "Optimized layout for each material on its own sheets"
+                  : `Optimized layout for cutting panels from ${getMaterialStock(costEstimate.primaryMaterial).map((stock) => formatSize(stock.width, stock.height, settings)).join(" or ")} sheets`}
               </p>
             </div>
             <div className="p-4">
               <CuttingDiagram />
+              <BoardDiagram results={costEstimate.linearResults} settings={settings} />
+              <InventoryPanel />
             </div>
           </section>
 
@@ -743,8 +883,15 @@ export default function ProductionView() {
             </div>
             <div className="p-4">
               <div className="space-y-6">
-                {assemblySteps.map((step) => (
-                  <div key={step.stepNumber} className="flex gap-4 page-break-inside-avoid">
+                {assemblySteps.map((step, index) => (
+                  <React.Fragment key={step.stepNumber}>
+                  {/* Heading where each sub-assembly starts and where the main assembly begins */}
+                  {step.subAssembly?.id !== assemblySteps[index - 1]?.subAssembly?.id && (
+                    <h4 className="text-sm font-semibold text-gray-800 border-b border-gray-200 pb-1">
+                      {step.subAssembly ? `Sub-assembly: ${step.subAssembly.name}` : "Main assembly"}
+                    </h4>
+                  )}
+                  <div className="flex gap-4 page-break-inside-avoid">
                     {/* Step illustration - fixed size container */}
                     <div className="w-40 h-40 bg-gray-100 rounded-lg flex-shrink-0 flex items-center justify-center">
                       <AssemblyIllustration
@@ -752,6 +899,7 @@ export default function ProductionView() {
                         settings={settings}
                         cumulativePanelIds={step.cumulativePanels}
                         currentPanelId={step.panelId}
+                        currentPanelIds={step.installsGroup?.panelIds}
                         letterLabels={panelLetters}
                         size={160}
                       />
@@ -764,7 +912,7 @@ export default function ProductionView() {
                           {step.stepNumber}
                         </span>
                         <span className="inline-flex items-center justify-center px-2 py-1 bg-gray-200 text-gray-700 text-xs font-semibold rounded">
-                          Panel {step.letterLabel}
+                          {step.installsGroup ? step.installsGroup.name : `Panel ${step.letterLabel}`}
                         </span>
                         {step.stabilityStatus === "unstable" && (
                           <span className="text-xs bg-amber-100 text-amber-700 px-2 py-1 rounded">
@@ -789,6 +937,7 @@ export default function ProductionView() {
                       )}
                     </div>
                   </div>
+                  </React.Fragment>
                 ))}
               </div>
             </div>
@@ -803,7 +952,7 @@ export default function ProductionView() {
             </h4>
             <ul className="text-sm text-amber-700 space-y-2">
               <li>• <strong>Before starting:</strong> Lay out all panels and verify dimensions against this list</li>
-              <li>• <strong>Cutting:</strong> Allow 3mm for blade kerf, cut larger pieces first</li>
+              <li>• <strong>Cutting:</strong> Allow {formatLength(getCutOptions(settings).kerf, settings, { showUnit: true })} for blade kerf, cut larger pieces first</li>
               <li>• <strong>Assembly:</strong> Work on a flat surface, use clamps to hold panels while securing</li>
               <li>• <strong>Squareness:</strong> Check diagonals are equal before final fastening</li>
               <li>• <strong>Back panel:</strong> Always attach last—it squares up the entire unit</li>
@@ -823,7 +972,7 @@ function PanelShapesSection({
   panelLetters 
 }: { 
   panels: Panel[]; 
-  settings: { thickness: number; furnitureDepth?: number }; 
+  settings: UnitSettings & { thickness: number; furnitureDepth?: number }; 
   panelLetters: Map<string, string>;
 }) {
   type GroupedPanel = {
@@ -862,7 +1011,7 @@ function PanelShapesSection({
     const letter = panelLetters.get(p.id) || "?";
     
     // Group key based on dimensions and orientation
-    const key = `${length}x${width}x${orientation}`;
+    const key = `${length}x${width}x${orientation}${p.materialId ? `@${p.materialId}` : ""}`;
     
     const existing = grouped.get(key);
     if (existing) {
@@ -946,10 +1095,10 @@ function PanelShapesSection({
             
             {/* Dimensions */}
             <text x={leftMargin - 4} y={topMargin + t + h / 2} fontSize={8} fill="#333" textAnchor="end" dominantBaseline="middle">
-              {length}
+              {formatLength(length, settings)}
             </text>
             <text x={leftMargin + w / 2} y={topMargin + t + h + 12} fontSize={8} fill="#333" textAnchor="middle">
-              {width}
+              {formatLength(width, settings)}
             </text>
             
             {/* Quantity label below dimensions */}
@@ -993,10 +1142,10 @@ function PanelShapesSection({
             
             {/* Dimensions */}
             <text x={leftMargin - 4} y={topMargin + t + h / 2} fontSize={8} fill="#333" textAnchor="end" dominantBaseline="middle">
-              {width}
+              {formatLength(width, settings)}
             </text>
             <text x={leftMargin + w / 2} y={topMargin + t + h + 10} fontSize={8} fill="#333" textAnchor="middle">
-              {length}
+              {formatLength(length, settings)}
             </text>
             
             {/* Quantity label below dimensions */}
@@ -1,6 +1,27 @@
-import { Palette, Ruler, DollarSign, FileText, Package, Sun, Moon, Monitor } from "lucide-react";
+import { Palette, Ruler, DollarSign, FileText, Layers, Package, Plus, Scissors, Sun, Moon, Monitor, Trash2, Wrench } from "lucide-react";
+import { useState } from "react";
+import { createBandingType } from "../lib/banding";
+import { HARDWARE_CATEGORIES, createHardwareItem, getHardwareCatalog } from "../lib/hardware";
+import { createLinearStock, DEFAULT_END_TRIM } from "../lib/linear";
+import { createMaterial, createStockSize, getDefaultMaterial, getMaterialGrain } from "../lib/materials";
+import { DEFAULT_CUT_OPTIONS } from "../lib/optimizer";
+import { formatLength, parseLength, unitLabel } from "../lib/units";
 import { useDesignStore } from "../stores/designStore";
-import type { MaterialType } from "../types";
+import {
+  MATERIAL_PRESETS,
+  type CutMode,
+  type EdgeBandingType,
+  type HardwareCategory,
+  type HardwareItem,
+  type LinearStock,
+  type Material,
+  type MaterialType,
+  type PartNumbering,
+  type Settings,
+  type SheetGrain,
+  type StockSize,
+} from "../types";
+import { DimensionInput } from "./ui";
 
 const THICKNESS_OPTIONS = [12, 15, 18, 19, 25];
 
@@ -18,6 +39,33 @@ const MATERIALS: { id: MaterialType; name: string; color: string; description: s
   { id: "solid_wood", name: "Solid Wood", color: "#C19A6B", description: "Premium, natural grain" },
 ];
 
+const UNIT_OPTIONS: { value: "mm" | "inches"; label: string }[] = [
+  { value: "mm", label: "Millimeters" },
+  { value: "inches", label: "Inches" },
+];
+
+const CUT_MODE_OPTIONS: { value: CutMode; label: string }[] = [
+  { value: "nested", label: "Nested" },
+  { value: "rip-first", label: "Rip first" },
+  { value: "crosscut-first", label: "Crosscut first" },
+];
+
+const SHEET_GRAIN_OPTIONS: { value: SheetGrain; label: string }[] = [
+  { value: "length", label: "Along length" },
+  { value: "width", label: "Along width" },
+  { value: "none", label: "No grain" },
+];
+
+const PART_NUMBERING_OPTIONS: { value: PartNumbering; label: string }[] = [
+  { value: "letters", label: "Letters (A, B … Z, AA, AB …)" },
+  { value: "numbers", label: "Numbers (1, 2, 3 …)" },
+];
+
+const PRECISION_OPTIONS: { value: 16 | 32; label: string }[] = [
+  { value: 16, label: '1/16"' },
+  { value: 32, label: '1/32"' },
+];
+
 const CURRENCIES = [
   { value: "$", label: "USD ($)" },
   { value: "€", label: "EUR (€)" },
@@ -67,10 +115,216 @@ const inputClass =
 
 const selectClass = inputClass;
 
+/**
+ * Extra sheet sizes a material can be bought in. The optimizer picks the
+ * cheapest mix of these and the main sheet size.
+ */
+function StockSizesEditor({
+  material,
+  settings,
+  onChange,
+}: {
+  material: Material;
+  settings: Settings;
+  onChange: (stockSizes: StockSize[]) => void;
+}) {
+  const stockSizes = material.stockSizes || [];
+  const updateSize = (id: string, updates: Partial<StockSize>) => {
+    onChange(stockSizes.map((s) => (s.id === id ? { ...s, ...updates } : s)));
+  };
+
+  return (
+    <div>
+      <FieldLabel hint="Other sizes you can buy, e.g. half sheets. The cheapest mix is used.">
+        Extra Sheet Sizes
+      </FieldLabel>
+      {stockSizes.length > 0 && (
+        <div className="space-y-2 mb-2">
+          <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>Length ({unitLabel(settings)})</span>
+            <span>Width ({unitLabel(settings)})</span>
+            <span>Price</span>
+            <span>Available</span>
+            <span className="w-8" />
+          </div>
+          {stockSizes.map((size) => (
+            <div key={size.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-start">
+              <DimensionInput
+                value={size.width}
+                onChange={(width) => updateSize(size.id, { width })}
+                settings={settings}
+                min={100}
+                max={5000}
+                ariaLabel="Stock sheet length"
+                className={inputClass}
+              />
+              <DimensionInput
+                value={size.height}
+                onChange={(height) => updateSize(size.id, { height })}
+                settings={settings}
+                min={100}
+                max={5000}
+                ariaLabel="Stock sheet width"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                placeholder={settings.currency || "$"}
+                value={size.price || ""}
+                onChange={(e) => updateSize(size.id, { price: parseFloat(e.target.value) || undefined })}
+                className={inputClass}
+                aria-label="Stock sheet price"
+              />
+              <input
+                type="number"
+                min={0}
+                placeholder="Unlimited"
+                value={size.maxQuantity ?? ""}
+                onChange={(e) =>
+                  updateSize(size.id, {
+                    maxQuantity: e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+                  })
+                }
+                className={inputClass}
+                aria-label="Sheets available"
+              />
+              <button
+                onClick={() => onChange(stockSizes.filter((s) => s.id !== size.id))}
+                className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                title="Remove sheet size"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => onChange([...stockSizes, createStockSize(material)])}
+        className="flex items-center gap-1.5 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700"
+      >
+        <Plus size={14} />
+        Add sheet size
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Board lengths as one comma-separated field, in display units. The text
+ * is kept while typing and parsed when the field loses focus.
+ */
+function BoardLengthsInput({
+  lengths,
+  settings,
+  onChange,
+}: {
+  lengths: number[];
+  settings: Settings;
+  onChange: (lengths: number[]) => void;
+}) {
+  const format = (values: number[]) => values.map((l) => formatLength(l, settings)).join(", ");
+  const [text, setText] = useState(() => format(lengths));
+
+  const commit = () => {
+    const parsed = text
+      .split(",")
+      .map((part) => parseLength(part.trim(), settings))
+      .filter((l): l is number => l !== null && l > 0);
+    const next = [...new Set(parsed)].sort((a, b) => a - b);
+    if (next.length > 0) onChange(next);
+    setText(format(next.length > 0 ? next : lengths));
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+      className={inputClass}
+      aria-label="Board lengths"
+    />
+  );
+}
+
 export default function SettingsView() {
-  const { settings, updateSettings } = useDesignStore();
+  const { settings, updateSettings, panels, updatePanel, updatePanels } = useDesignStore();
 
   const selectedMaterial = MATERIALS.find((m) => m.id === (settings.materialType || "plywood"));
+  const libraryMaterials = settings.materials || [];
+
+  const updateMaterial = (id: string, updates: Partial<Material>) => {
+    updateSettings({
+      materials: libraryMaterials.map((m) => (m.id === id ? { ...m, ...updates } : m)),
+    });
+  };
+
+  const removeMaterial = (id: string) => {
+    // Panels using the removed material fall back to the default material
+    updateSettings({ materials: libraryMaterials.filter((m) => m.id !== id) });
+    const affected = panels.filter((p) => p.materialId === id).map((p) => p.id);
+    if (affected.length > 0) {
+      updatePanels(affected, { materialId: undefined });
+    }
+  };
+
+  const bandingTypes = settings.edgeBandingTypes || [];
+
+  const updateBandingType = (id: string, updates: Partial<EdgeBandingType>) => {
+    updateSettings({
+      edgeBandingTypes: bandingTypes.map((t) => (t.id === id ? { ...t, ...updates } : t)),
+    });
+  };
+
+  const removeBandingType = (id: string) => {
+    // Panels banded with the removed type fall back to the default banding
+    updateSettings({ edgeBandingTypes: bandingTypes.filter((t) => t.id !== id) });
+    for (const panel of panels) {
+      if (panel.edgeBanding?.typeId === id) {
+        updatePanel(panel.id, { edgeBanding: { ...panel.edgeBanding, typeId: undefined } });
+      }
+    }
+  };
+
+  const linearStock = settings.linearStock || [];
+
+  const updateLinearStock = (id: string, updates: Partial<LinearStock>) => {
+    updateSettings({
+      linearStock: linearStock.map((s) => (s.id === id ? { ...s, ...updates } : s)),
+    });
+  };
+
+  const removeLinearStock = (id: string) => {
+    // Parts cut from the removed stock go back to sheets
+    updateSettings({ linearStock: linearStock.filter((s) => s.id !== id) });
+    const affected = panels.filter((p) => p.linearStockId === id).map((p) => p.id);
+    if (affected.length > 0) {
+      updatePanels(affected, { linearStockId: undefined });
+    }
+  };
+
+  const hardwareCatalog = getHardwareCatalog(settings);
+
+  const updateHardwareItem = (id: string, updates: Partial<HardwareItem>) => {
+    updateSettings({
+      hardware: hardwareCatalog.map((item) => (item.id === id ? { ...item, ...updates } : item)),
+    });
+  };
+
+  const removeHardwareItem = (id: string) => {
+    // Panels drop their attachments of the removed item
+    updateSettings({ hardware: hardwareCatalog.filter((item) => item.id !== id) });
+    for (const panel of panels) {
+      if (panel.hardware?.some((a) => a.itemId === id)) {
+        const hardware = panel.hardware.filter((a) => a.itemId !== id);
+        updatePanel(panel.id, { hardware: hardware.length > 0 ? hardware : undefined });
+      }
+    }
+  };
 
   return (
     <div className="h-full overflow-auto bg-gray-50 dark:bg-slate-900">
@@ -95,10 +349,70 @@ export default function SettingsView() {
               className={inputClass}
             />
           </div>
+
+          <div>
+            <FieldLabel hint="Cut list, cutting diagrams and assembly steps">Part Labels</FieldLabel>
+            <select
+              value={settings.partNumbering || "letters"}
+              onChange={(e) => updateSettings({ partNumbering: e.target.value as PartNumbering })}
+              className={selectClass}
+            >
+              {PART_NUMBERING_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </SectionCard>
+
+        {/* Units */}
+        <SectionCard icon={<Ruler size={18} />} title="Units" description="How lengths are shown and entered">
+          <div>
+            <FieldLabel hint="Designs are always stored in millimeters, so switching is lossless">
+              Measurement Units
+            </FieldLabel>
+            <div className="flex gap-2">
+              {UNIT_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => updateSettings({ units: opt.value })}
+                  className={`flex-1 px-3 py-2.5 rounded-lg border text-sm font-medium transition-all ${
+                    (settings.units || "mm") === opt.value
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 ring-1 ring-blue-500"
+                      : "border-gray-200 dark:border-slate-600 text-gray-600 dark:text-gray-400 hover:border-gray-300 dark:hover:border-slate-500"
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {settings.units === "inches" && (
+            <div>
+              <FieldLabel hint="Lengths are rounded to the nearest fraction">Fraction Precision</FieldLabel>
+              <select
+                value={settings.fractionPrecision || 16}
+                onChange={(e) => updateSettings({ fractionPrecision: parseInt(e.target.value) as 16 | 32 })}
+                className={selectClass}
+              >
+                {PRECISION_OPTIONS.map((p) => (
+                  <option key={p.value} value={p.value}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </SectionCard>
 
         {/* Material Settings */}
-        <SectionCard icon={<Package size={18} />} title="Material" description="Board type, thickness, and dimensions">
+        <SectionCard
+          icon={<Package size={18} />}
+          title="Default Material"
+          description="Board type, thickness, and dimensions for panels without a specific material"
+        >
           <div>
             <FieldLabel>Material Type</FieldLabel>
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
@@ -142,7 +456,7 @@ export default function SettingsView() {
               >
                 {THICKNESS_OPTIONS.map((t) => (
                   <option key={t} value={t}>
-                    {t} mm
+                    {formatLength(t, settings, { showUnit: true })}
                   </option>
                 ))}
               </select>
@@ -151,17 +465,17 @@ export default function SettingsView() {
             <div>
               <FieldLabel hint="Default depth for all panels">Furniture Depth</FieldLabel>
               <div className="relative">
-                <input
-                  type="number"
+                <DimensionInput
+                  value={settings.furnitureDepth || 400}
+                  onChange={(furnitureDepth) => updateSettings({ furnitureDepth })}
+                  settings={settings}
                   min={100}
                   max={1000}
-                  step={10}
-                  value={settings.furnitureDepth || 400}
-                  onChange={(e) => updateSettings({ furnitureDepth: parseInt(e.target.value) || 400 })}
+                  ariaLabel="Furniture depth"
                   className={inputClass}
                 />
-                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
-                  mm
+                <span className="absolute right-3 top-[1.125rem] -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                  {unitLabel(settings)}
                 </span>
               </div>
             </div>
@@ -186,6 +500,465 @@ export default function SettingsView() {
               ))}
             </select>
           </div>
+
+          <div>
+            <FieldLabel>Sheet Grain</FieldLabel>
+            <select
+              value={getMaterialGrain(getDefaultMaterial(settings))}
+              onChange={(e) => updateSettings({ sheetGrain: e.target.value as SheetGrain })}
+              className={selectClass}
+            >
+              {SHEET_GRAIN_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              Panels with a grain direction are turned to match
+            </p>
+          </div>
+
+          <StockSizesEditor
+            material={getDefaultMaterial(settings)}
+            settings={settings}
+            onChange={(stockSizes) => updateSettings({ stockSizes })}
+          />
+        </SectionCard>
+
+        {/* Material Library */}
+        <SectionCard
+          icon={<Layers size={18} />}
+          title="Material Library"
+          description="Extra materials, e.g. 6mm hardboard for backs. Assign them per panel in the Design tab."
+        >
+          {libraryMaterials.map((m) => {
+            const usedBy = panels.filter((p) => p.materialId === m.id).length;
+            return (
+              <div key={m.id} className="p-3 rounded-lg border border-gray-200 dark:border-slate-600 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={m.color}
+                    onChange={(e) => updateMaterial(m.id, { color: e.target.value })}
+                    className="w-9 h-9 rounded-lg border border-gray-300 dark:border-slate-600 cursor-pointer p-0.5 shrink-0"
+                    aria-label="Material color"
+                  />
+                  <input
+                    type="text"
+                    value={m.name}
+                    onChange={(e) => updateMaterial(m.id, { name: e.target.value })}
+                    className={inputClass}
+                    aria-label="Material name"
+                  />
+                  <button
+                    onClick={() => removeMaterial(m.id)}
+                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 shrink-0"
+                    title={usedBy > 0 ? `Remove (${usedBy} panel${usedBy !== 1 ? "s" : ""} revert to default)` : "Remove"}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <FieldLabel>Type</FieldLabel>
+                    <select
+                      value={m.type}
+                      onChange={(e) => updateMaterial(m.id, { type: e.target.value as MaterialType })}
+                      className={selectClass}
+                    >
+                      {MATERIAL_PRESETS.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <FieldLabel>Thickness ({unitLabel(settings)})</FieldLabel>
+                    <DimensionInput
+                      value={m.thickness}
+                      onChange={(thickness) => updateMaterial(m.id, { thickness })}
+                      settings={settings}
+                      min={1}
+                      max={100}
+                      ariaLabel="Material thickness"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <FieldLabel>Sheet Length ({unitLabel(settings)})</FieldLabel>
+                    <DimensionInput
+                      value={m.sheetWidth}
+                      onChange={(sheetWidth) => updateMaterial(m.id, { sheetWidth })}
+                      settings={settings}
+                      min={100}
+                      max={5000}
+                      ariaLabel="Sheet length"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <FieldLabel>Sheet Width ({unitLabel(settings)})</FieldLabel>
+                    <DimensionInput
+                      value={m.sheetHeight}
+                      onChange={(sheetHeight) => updateMaterial(m.id, { sheetHeight })}
+                      settings={settings}
+                      min={100}
+                      max={5000}
+                      ariaLabel="Sheet width"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <FieldLabel>Sheet Price</FieldLabel>
+                    <div className="relative">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-400 pointer-events-none">
+                        {settings.currency || "$"}
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        placeholder="0.00"
+                        value={m.sheetPrice || ""}
+                        onChange={(e) => updateMaterial(m.id, { sheetPrice: parseFloat(e.target.value) || 0 })}
+                        className={`${inputClass} pl-7`}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <FieldLabel>Sheet Grain</FieldLabel>
+                    <select
+                      value={getMaterialGrain(m)}
+                      onChange={(e) => updateMaterial(m.id, { grain: e.target.value as SheetGrain })}
+                      className={selectClass}
+                    >
+                      {SHEET_GRAIN_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-span-2 text-xs text-gray-400 dark:text-gray-500">
+                    Used by {usedBy} panel{usedBy !== 1 ? "s" : ""}
+                  </div>
+                </div>
+
+                <StockSizesEditor
+                  material={m}
+                  settings={settings}
+                  onChange={(stockSizes) => updateMaterial(m.id, { stockSizes })}
+                />
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => updateSettings({ materials: [...libraryMaterials, createMaterial(settings)] })}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border border-dashed border-gray-300 dark:border-slate-600 text-sm text-gray-600 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <Plus size={16} />
+            Add Material
+          </button>
+        </SectionCard>
+
+        {/* Board Stock */}
+        <SectionCard
+          icon={<Ruler size={18} />}
+          title="Board Stock"
+          description="Battens, rails and dowels bought by the length. Pick one as a panel's material in the Design tab to cut it from boards."
+        >
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <FieldLabel hint="Off each board end">End Trim</FieldLabel>
+              <div className="relative">
+                <DimensionInput
+                  value={settings.endTrim ?? DEFAULT_END_TRIM}
+                  onChange={(endTrim) => updateSettings({ endTrim })}
+                  settings={settings}
+                  min={0}
+                  max={100}
+                  ariaLabel="Board end trim"
+                  className={inputClass}
+                />
+                <span className="absolute right-3 top-[1.125rem] -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                  {unitLabel(settings)}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {linearStock.map((stock) => {
+            const usedBy = panels.filter((p) => p.linearStockId === stock.id).length;
+            return (
+              <div key={stock.id} className="p-3 rounded-lg border border-gray-200 dark:border-slate-600 space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={stock.name}
+                    onChange={(e) => updateLinearStock(stock.id, { name: e.target.value })}
+                    className={inputClass}
+                    aria-label="Board stock name"
+                  />
+                  <button
+                    onClick={() => removeLinearStock(stock.id)}
+                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 shrink-0"
+                    title={usedBy > 0 ? `Remove (${usedBy} part${usedBy !== 1 ? "s" : ""} go back to sheets)` : "Remove"}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <FieldLabel>Width</FieldLabel>
+                    <DimensionInput
+                      value={stock.width}
+                      onChange={(width) => updateLinearStock(stock.id, { width })}
+                      settings={settings}
+                      min={1}
+                      max={500}
+                      ariaLabel="Board width"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <FieldLabel>Thickness</FieldLabel>
+                    <DimensionInput
+                      value={stock.thickness}
+                      onChange={(thickness) => updateLinearStock(stock.id, { thickness })}
+                      settings={settings}
+                      min={1}
+                      max={500}
+                      ariaLabel="Board thickness"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <FieldLabel>Price / m</FieldLabel>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      placeholder={settings.currency || "$"}
+                      value={stock.price || ""}
+                      onChange={(e) => updateLinearStock(stock.id, { price: parseFloat(e.target.value) || undefined })}
+                      className={inputClass}
+                      aria-label="Board price per meter"
+                    />
+                  </div>
+                  <div className="col-span-3">
+                    <FieldLabel hint="Separate with commas; the shortest that holds each board's parts is used">
+                      Board Lengths ({unitLabel(settings)})
+                    </FieldLabel>
+                    <BoardLengthsInput
+                      lengths={stock.lengths}
+                      settings={settings}
+                      onChange={(lengths) => updateLinearStock(stock.id, { lengths })}
+                    />
+                  </div>
+                  <div className="col-span-3 text-xs text-gray-400 dark:text-gray-500">
+                    Used by {usedBy} part{usedBy !== 1 ? "s" : ""}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => updateSettings({ linearStock: [...linearStock, createLinearStock()] })}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border border-dashed border-gray-300 dark:border-slate-600 text-sm text-gray-600 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <Plus size={16} />
+            Add Board Stock
+          </button>
+        </SectionCard>
+
+        {/* Cutting */}
+        <SectionCard icon={<Scissors size={18} />} title="Cutting" description="Saw and sheet allowances used by the optimizer">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <FieldLabel hint="Blade width">Saw Kerf</FieldLabel>
+              <div className="relative">
+                <DimensionInput
+                  value={settings.kerf ?? DEFAULT_CUT_OPTIONS.kerf}
+                  onChange={(kerf) => updateSettings({ kerf })}
+                  settings={settings}
+                  min={0}
+                  max={20}
+                  ariaLabel="Saw kerf"
+                  className={inputClass}
+                />
+                <span className="absolute right-3 top-[1.125rem] -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                  {unitLabel(settings)}
+                </span>
+              </div>
+            </div>
+
+            <div>
+              <FieldLabel hint="Off each sheet edge">Edge Trim</FieldLabel>
+              <div className="relative">
+                <DimensionInput
+                  value={settings.edgeTrim ?? DEFAULT_CUT_OPTIONS.edgeTrim}
+                  onChange={(edgeTrim) => updateSettings({ edgeTrim })}
+                  settings={settings}
+                  min={0}
+                  max={100}
+                  ariaLabel="Edge trim"
+                  className={inputClass}
+                />
+                <span className="absolute right-3 top-[1.125rem] -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                  {unitLabel(settings)}
+                </span>
+              </div>
+            </div>
+
+            <div>
+              <FieldLabel hint="Smallest side to keep">Min. Offcut</FieldLabel>
+              <div className="relative">
+                <DimensionInput
+                  value={settings.minOffcut ?? DEFAULT_CUT_OPTIONS.minOffcut}
+                  onChange={(minOffcut) => updateSettings({ minOffcut })}
+                  settings={settings}
+                  min={0}
+                  max={1000}
+                  ariaLabel="Minimum offcut size"
+                  className={inputClass}
+                />
+                <span className="absolute right-3 top-[1.125rem] -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                  {unitLabel(settings)}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <FieldLabel hint="Guillotine layouts use only straight through-cuts, for table and panel saws">
+              Cutting Layout
+            </FieldLabel>
+            <div className="flex gap-2">
+              {CUT_MODE_OPTIONS.map((opt) => (
+                <button
+                  key={opt.value}
+                  onClick={() => updateSettings({ cutMode: opt.value })}
+                  className={`flex-1 px-3 py-2.5 rounded-lg border text-sm font-medium transition-all ${
+                    (settings.cutMode || DEFAULT_CUT_OPTIONS.mode) === opt.value
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 ring-1 ring-blue-500"
+                      : "border-gray-200 dark:border-slate-600 text-gray-600 dark:text-gray-400 hover:border-gray-300 dark:hover:border-slate-500"
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </SectionCard>
+
+        {/* Edge Banding */}
+        <SectionCard
+          icon={<Layers size={18} />}
+          title="Edge Banding"
+          description="Pieces are cut short by the banding's thickness on every banded edge. Pick a type per panel in the Design tab."
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <FieldLabel hint="Default banding">Thickness</FieldLabel>
+              <div className="relative">
+                <DimensionInput
+                  value={settings.edgeBandingThickness ?? 0}
+                  onChange={(edgeBandingThickness) => updateSettings({ edgeBandingThickness })}
+                  settings={settings}
+                  min={0}
+                  max={10}
+                  ariaLabel="Edge banding thickness"
+                  className={inputClass}
+                />
+                <span className="absolute right-3 top-[1.125rem] -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                  {unitLabel(settings)}
+                </span>
+              </div>
+            </div>
+
+            <div>
+              <FieldLabel hint="Per meter">Price</FieldLabel>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-400 pointer-events-none">
+                  {settings.currency || "$"}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  placeholder="0.00"
+                  value={settings.edgeBandingPrice || ""}
+                  onChange={(e) => updateSettings({ edgeBandingPrice: parseFloat(e.target.value) || 0 })}
+                  className={`${inputClass} pl-7`}
+                />
+              </div>
+            </div>
+          </div>
+
+          {bandingTypes.map((type) => {
+            const usedBy = panels.filter((p) => p.edgeBanding?.typeId === type.id).length;
+            return (
+              <div key={type.id} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={type.name}
+                  onChange={(e) => updateBandingType(type.id, { name: e.target.value })}
+                  className={inputClass}
+                  aria-label="Banding name"
+                />
+                <div className="relative w-24 shrink-0">
+                  <DimensionInput
+                    value={type.thickness}
+                    onChange={(thickness) => updateBandingType(type.id, { thickness })}
+                    settings={settings}
+                    min={0}
+                    max={10}
+                    ariaLabel="Banding thickness"
+                    className={inputClass}
+                  />
+                  <span className="absolute right-3 top-[1.125rem] -translate-y-1/2 text-xs text-gray-400 pointer-events-none">
+                    {unitLabel(settings)}
+                  </span>
+                </div>
+                <div className="relative w-28 shrink-0">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-400 pointer-events-none">
+                    {settings.currency || "$"}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="0.00"
+                    value={type.price || ""}
+                    onChange={(e) => updateBandingType(type.id, { price: parseFloat(e.target.value) || undefined })}
+                    className={`${inputClass} pl-7`}
+                    aria-label="Price per meter"
+                  />
+                </div>
+                <button
+                  onClick={() => removeBandingType(type.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 shrink-0"
+                  title={usedBy > 0 ? `Remove (${usedBy} panel${usedBy !== 1 ? "s" : ""} revert to default)` : "Remove"}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => updateSettings({ edgeBandingTypes: [...bandingTypes, createBandingType()] })}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border border-dashed border-gray-300 dark:border-slate-600 text-sm text-gray-600 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <Plus size={16} />
+            Add Banding
+          </button>
         </SectionCard>
 
         {/* Appearance */}
@@ -278,25 +1051,71 @@ export default function SettingsView() {
                 />
               </div>
             </div>
+          </div>
+        </SectionCard>
 
-            <div>
-              <FieldLabel hint="Per meter of banding">Edge Banding Price</FieldLabel>
-              <div className="relative">
-                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-400 pointer-events-none">
-                  {settings.currency || "$"}
-                </span>
+        {/* Hardware Catalog */}
+        <SectionCard
+          icon={<Wrench size={18} />}
+          title="Hardware Catalog"
+          description="Fittings you can attach to panels and joints. Priced items add to the cost estimate."
+        >
+          {hardwareCatalog.map((item) => {
+            const usedBy = panels.filter((p) => p.hardware?.some((a) => a.itemId === item.id)).length;
+            return (
+              <div key={item.id} className="flex items-center gap-2">
                 <input
-                  type="number"
-                  min={0}
-                  step={0.01}
-                  placeholder="0.00"
-                  value={settings.edgeBandingPrice || ""}
-                  onChange={(e) => updateSettings({ edgeBandingPrice: parseFloat(e.target.value) || 0 })}
-                  className={`${inputClass} pl-7`}
+                  type="text"
+                  value={item.name}
+                  onChange={(e) => updateHardwareItem(item.id, { name: e.target.value })}
+                  className={inputClass}
+                  aria-label="Hardware name"
                 />
+                <select
+                  value={item.category}
+                  onChange={(e) => updateHardwareItem(item.id, { category: e.target.value as HardwareCategory })}
+                  className={`${selectClass} w-40 shrink-0`}
+                  aria-label="Hardware category"
+                >
+                  {HARDWARE_CATEGORIES.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="relative w-28 shrink-0">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-400 pointer-events-none">
+                    {settings.currency || "$"}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="0.00"
+                    value={item.price || ""}
+                    onChange={(e) => updateHardwareItem(item.id, { price: parseFloat(e.target.value) || undefined })}
+                    className={`${inputClass} pl-7`}
+                    aria-label="Price per piece"
+                  />
+                </div>
+                <button
+                  onClick={() => removeHardwareItem(item.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 shrink-0"
+                  title={usedBy > 0 ? `Remove (used on ${usedBy} panel${usedBy !== 1 ? "s" : ""})` : "Remove"}
+                >
+                  <Trash2 size={16} />
+                </button>
               </div>
-            </div>
-          </div>
+            );
+          })}
+
+          <button
+            onClick={() => updateSettings({ hardware: [...hardwareCatalog, createHardwareItem()] })}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border border-dashed border-gray-300 dark:border-slate-600 text-sm text-gray-600 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <Plus size={16} />
+            Add Hardware
+          </button>
         </SectionCard>
 
         {/* Bottom spacing */}
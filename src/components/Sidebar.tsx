@@ -1,6 +1,39 @@
-import { useState } from "react";
+import { ChevronDown, ChevronRight, Group, Lock, Plus, Ungroup, Unlock, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { detectJointsForPanel } from "../lib/assembly";
+import { getFurnitureDepth, getMatchingZPreset, getPanelZRange, getZPresetOffset, Z_PRESETS } from "../lib/depth";
+import {
+  createFeature,
+  CUT_FEATURE_TYPES,
+  FEATURE_CORNERS,
+  FEATURE_EDGES,
+  getFaceCornerName,
+  getFaceEdgeName,
+  getFaceSize,
+} from "../lib/features";
+import { DEFAULT_BANDING_ID, getBandingType, getBandingTypes, isBanded } from "../lib/banding";
+import { getHardwareCatalog, getJointId } from "../lib/hardware";
+import { getJoineryDepth, getJointEnd, JOINERY_TYPES } from "../lib/joinery";
+import { getLinearStockUpdates } from "../lib/linear";
+import { DEFAULT_MATERIAL_ID, getMaterials, getPanelLinearStock, getPanelMaterial, getPanelThickness } from "../lib/materials";
+import { evaluatePanelFormulas, resolveVariables, validateVariableName } from "../lib/parametric";
+import { formatLength, formatSize, unitLabel } from "../lib/units";
 import { useDesignStore } from "../stores/designStore";
-import type { EdgeBanding, PanelOrientation, ZAlignment, GrainDirection } from "../types";
+import type {
+  CutFeature,
+  EdgeBanding,
+  FeatureEdge,
+  FormulaField,
+  GrainDirection,
+  HardwareAttachment,
+  JoineryType,
+  JointSpec,
+  Panel,
+  PanelOrientation,
+  Settings,
+} from "../types";
+import ComponentLibrary from "./ComponentLibrary";
+import { DimensionInput } from "./ui";
 
 // Validation constraints
 const MIN_DIMENSION = 10;
@@ -8,6 +41,8 @@ const MAX_DIMENSION = 10000;
 const MIN_POSITION = -5000;
 const MAX_POSITION = 10000;
 
+type BandedEdge = "top" | "bottom" | "left" | "right";
+
 // Validated number input handler
 function useValidatedInput(
   initialValue: number,
@@ -76,33 +111,461 @@ const ORIENTATION_OPTIONS: {
   },
 ];
 
-const Z_ALIGN_OPTIONS: {
-  value: ZAlignment;
-  label: string;
-}[] = [
-  { value: "front", label: "Front" },
-  { value: "back", label: "Back" },
-  { value: "center", label: "Center" },
+// Formula fields shown for each panel type, besides X and Y
+const FORMULA_SIZE_FIELDS: Record<PanelOrientation, { field: FormulaField; label: string }[]> = {
+  horizontal: [
+    { field: "width", label: "Width" },
+    { field: "depth", label: "Depth" },
+  ],
+  vertical: [
+    { field: "height", label: "Height" },
+    { field: "depth", label: "Depth" },
+  ],
+  back: [
+    { field: "width", label: "Width" },
+    { field: "height", label: "Height" },
+  ],
+};
+
+// Variables offered first, with starting values (D starts at the furniture depth)
+const SUGGESTED_VARIABLES = [
+  { name: "W", expression: "800" },
+  { name: "H", expression: "1800" },
+  { name: "D", expression: "" },
 ];
 
+// Text field that commits on Enter or blur, for formulas and variable names
+function FormulaInput({
+  value,
+  onCommit,
+  validate,
+  placeholder,
+  ariaLabel,
+  className = "",
+}: {
+  value: string;
+  onCommit: (value: string) => void;
+  validate?: (value: string) => string | null;
+  placeholder?: string;
+  ariaLabel?: string;
+  className?: string;
+}) {
+  const [localValue, setLocalValue] = useState(value);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setLocalValue(value), [value]);
+
+  const commit = () => {
+    const trimmed = localValue.trim();
+    const problem = validate?.(trimmed) ?? null;
+    setError(problem);
+    if (problem) return;
+    if (trimmed !== value) onCommit(trimmed);
+  };
+
+  return (
+    <div className="flex-1 min-w-0">
+      <input
+        type="text"
+        value={localValue}
+        onChange={(e) => setLocalValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+          if (e.key === "Escape") {
+            setLocalValue(value);
+            setError(null);
+          }
+        }}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        aria-invalid={!!error}
+        className={`w-full px-2 py-1 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          error ? "border-red-300 focus:ring-red-500" : ""
+        } ${className}`}
+      />
+      {error && <p className="text-xs text-red-500 mt-0.5">{error}</p>}
+    </div>
+  );
+}
+
+// Where each orientation's face is seen flat-on, for the feature hint
+const FACE_VIEW: Record<PanelOrientation, string> = {
+  back: "from the front",
+  horizontal: "from above, front edge at the bottom",
+  vertical: "from the side, front edge on the left",
+};
+
+// Notches, cut-outs and holes on one panel
+function CutFeaturesEditor({
+  panel,
+  settings,
+  onChange,
+}: {
+  panel: Panel;
+  settings: Settings;
+  onChange: (features: CutFeature[] | undefined) => void;
+}) {
+  const orientation = panel.orientation || "horizontal";
+  const features = panel.features || [];
+  const face = getFaceSize(panel, settings.furnitureDepth || 400);
+  const edgeName = (edge: FeatureEdge) => getFaceEdgeName(orientation, edge);
+
+  const update = (id: string, updates: Partial<CutFeature>) =>
+    onChange(features.map((f) => (f.id === id ? { ...f, ...updates } : f)));
+  const remove = (id: string) => {
+    const rest = features.filter((f) => f.id !== id);
+    onChange(rest.length > 0 ? rest : undefined);
+  };
+
+  const selectClass =
+    "w-full px-1.5 py-1 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const field = (feature: CutFeature, key: "x" | "y" | "width" | "height", label: string, min = 0) => (
+    <div key={key}>
+      <span className="block text-[10px] text-gray-400 mb-0.5">{label}</span>
+      <DimensionInput
+        value={feature[key]}
+        settings={settings}
+        min={min}
+        max={MAX_DIMENSION}
+        onChange={(value) => update(feature.id, key === "width" && feature.type === "hole" ? { width: value, height: value } : { [key]: value })}
+        ariaLabel={label}
+        className="w-full px-1.5 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+      />
+    </div>
+  );
+
+  const fieldsFor = (feature: CutFeature) => {
+    switch (feature.type) {
+      case "corner_notch":
+        return [field(feature, "width", "Across", 1), field(feature, "height", "Up", 1)];
+      case "edge_notch": {
+        const alongWidth = (feature.edge || "bottom") === "bottom" || feature.edge === "top";
+        return alongWidth
+          ? [field(feature, "x", `From ${edgeName("left")}`), field(feature, "width", "Wide", 1), field(feature, "height", "Deep", 1)]
+          : [field(feature, "y", `From ${edgeName("bottom")}`), field(feature, "height", "Wide", 1), field(feature, "width", "Deep", 1)];
+      }
+      case "hole":
+        return [
+          field(feature, "x", `Centre from ${edgeName("left")}`),
+          field(feature, "y", `Centre from ${edgeName("bottom")}`),
+          field(feature, "width", "Diameter", 1),
+        ];
+      default:
+        return [
+          field(feature, "x", `From ${edgeName("left")}`),
+          field(feature, "y", `From ${edgeName("bottom")}`),
+          field(feature, "width", "Across", 1),
+          field(feature, "height", "Up", 1),
+        ];
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-500 mb-2">Notches, Cut-outs &amp; Holes</label>
+      <div className="space-y-2">
+        {features.map((feature) => (
+          <div key={feature.id} className="p-2 border border-gray-200 dark:border-slate-600 rounded-md">
+            <div className="flex items-center gap-1.5 mb-1.5">
+              <span className="text-xs font-medium text-gray-700 dark:text-gray-200 flex-1">
+                {CUT_FEATURE_TYPES.find((t) => t.id === feature.type)?.name}
+              </span>
+              {feature.type === "corner_notch" && (
+                <select
+                  value={feature.corner || "bottom-left"}
+                  onChange={(e) => update(feature.id, { corner: e.target.value as CutFeature["corner"] })}
+                  className={`${selectClass} w-auto`}
+                  aria-label="Corner"
+                >
+                  {FEATURE_CORNERS.map((corner) => (
+                    <option key={corner} value={corner}>
+                      {getFaceCornerName(orientation, corner)}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {feature.type === "edge_notch" && (
+                <select
+                  value={feature.edge || "bottom"}
+                  onChange={(e) => update(feature.id, { edge: e.target.value as CutFeature["edge"] })}
+                  className={`${selectClass} w-auto`}
+                  aria-label="Edge"
+                >
+                  {FEATURE_EDGES.map((edge) => (
+                    <option key={edge} value={edge}>
+                      {edgeName(edge)} edge
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => remove(feature.id)}
+                className="p-0.5 text-gray-400 hover:text-red-500"
+                aria-label="Remove feature"
+              >
+                <X size={12} />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-1.5">{fieldsFor(feature)}</div>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-1.5 mt-2">
+        {CUT_FEATURE_TYPES.map((type) => (
+          <button
+            key={type.id}
+            onClick={() => onChange([...features, createFeature(type.id, face)])}
+            className="flex items-center justify-center gap-1 px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+          >
+            <Plus size={12} />
+            {type.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">Measured on the face seen {FACE_VIEW[orientation]}</p>
+    </div>
+  );
+}
+
+// Hardware on a panel or a joint: catalog item and how many
+function HardwareEditor({
+  attachments,
+  settings,
+  onChange,
+}: {
+  attachments: HardwareAttachment[];
+  settings: Settings;
+  onChange: (hardware: HardwareAttachment[] | undefined) => void;
+}) {
+  const catalog = getHardwareCatalog(settings);
+  const selectClass =
+    "w-full px-1.5 py-1 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const update = (index: number, updates: Partial<HardwareAttachment>) =>
+    onChange(attachments.map((a, i) => (i === index ? { ...a, ...updates } : a)));
+  const remove = (index: number) => {
+    const rest = attachments.filter((_, i) => i !== index);
+    onChange(rest.length > 0 ? rest : undefined);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {attachments.map((attachment, index) => (
+        <div key={index} className="flex items-center gap-1.5">
+          <select
+            value={attachment.itemId}
+            onChange={(e) => update(index, { itemId: e.target.value })}
+            className={`${selectClass} flex-1 min-w-0`}
+            aria-label="Hardware item"
+          >
+            {!catalog.some((item) => item.id === attachment.itemId) && <option value={attachment.itemId}>(removed)</option>}
+            {catalog.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={attachment.quantity}
+            onChange={(e) => update(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+            className={`${selectClass} w-14 font-mono`}
+            aria-label="Quantity"
+          />
+          <button onClick={() => remove(index)} className="p-0.5 text-gray-400 hover:text-red-500" aria-label="Remove hardware">
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...attachments, { itemId: e.target.value, quantity: 1 }])}
+        className={`${selectClass} text-gray-500`}
+        aria-label="Add hardware"
+      >
+        <option value="">+ Add hardware…</option>
+        {catalog.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// Joinery and connectors on the joints between a panel and the panels it touches
+function JointEditor({
+  panel,
+  panels,
+  joints,
+  settings,
+  onChange,
+}: {
+  panel: Panel;
+  panels: Panel[];
+  joints: JointSpec[];
+  settings: Settings;
+  onChange: (otherId: string, updates: Partial<Omit<JointSpec, "id" | "panelIds">>) => void;
+}) {
+  const others = panels.filter((p) => p.id !== panel.id);
+  const touching = detectJointsForPanel(panel, others, settings.thickness, settings.furnitureDepth || 400)
+    .map((joint) => others.find((p) => p.id === joint.panelBId)!)
+    .filter((other) => !other.front);
+  if (touching.length === 0) return null;
+
+  const selectClass =
+    "w-full px-1.5 py-1 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-500 mb-2">Joints</label>
+      <div className="space-y-2">
+        {touching.map((other) => {
+          const joint = joints.find((j) => j.id === getJointId(panel.id, other.id));
+          const joinery = joint?.joinery;
+          const jointEnd = getJointEnd(panel, other, settings);
+          const hasDepth = !!joinery && !!JOINERY_TYPES.find((t) => t.id === joinery.type)?.hasDepth;
+          const outerT = jointEnd?.outerThickness ?? settings.thickness;
+          return (
+            <div key={other.id} className="p-2 border border-gray-200 dark:border-slate-600 rounded-md space-y-1.5">
+              <div className="text-xs font-medium text-gray-700 dark:text-gray-200">To {other.label}</div>
+              <div className="flex items-center gap-1.5">
+                <select
+                  value={joinery?.type || ""}
+                  onChange={(e) =>
+                    onChange(other.id, { joinery: e.target.value ? { type: e.target.value as JoineryType } : undefined })
+                  }
+                  className={`${selectClass} flex-1 min-w-0`}
+                  aria-label="Joinery"
+                >
+                  <option value="">Butt (plain)</option>
+                  {JOINERY_TYPES.map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.name}
+                    </option>
+                  ))}
+                </select>
+                {hasDepth && (
+                  <DimensionInput
+                    value={getJoineryDepth(joinery!, outerT)}
+                    onChange={(depth) => onChange(other.id, { joinery: { ...joinery!, depth } })}
+                    settings={settings}
+                    min={0}
+                    max={outerT / 2}
+                    ariaLabel="Joinery depth"
+                    className={`${selectClass} w-16 font-mono`}
+                  />
+                )}
+              </div>
+              {hasDepth && jointEnd && (
+                <p className="text-xs text-gray-400">
+                  {jointEnd.inner.label} is cut{" "}
+                  {formatLength(getJoineryDepth(joinery!, outerT), settings, { showUnit: true })} longer
+                </p>
+              )}
+              <HardwareEditor
+                attachments={joint?.hardware || []}
+                settings={settings}
+                onChange={(hardware) => onChange(other.id, { hardware })}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">How each joint is made; connectors are counted once per joint</p>
+    </div>
+  );
+}
+
 export default function Sidebar() {
   const {
     panels,
     selectedPanelIds,
     settings,
     updatePanel,
+    updatePanels,
     deletePanel,
     deletePanels,
+    setPanelsLocked,
+    groups,
+    groupPanels,
+    ungroupPanels,
+    renameGroup,
+    selectPanel,
+    selectPanels,
+    variables,
+    addVariable,
+    updateVariable,
+    removeVariable,
+    setPanelFormula,
+    joints,
+    updateJoint,
   } = useDesignStore();
 
+  const resolved = resolveVariables(variables, settings);
+  const bandingTypes = getBandingTypes(settings);
+  const suggested = SUGGESTED_VARIABLES.find((v) => !variables.some((existing) => existing.name === v.name));
+  const nextVariable = !suggested
+    ? { name: `V${variables.length + 1}`, expression: "0" }
+    : suggested.name === "D"
+      ? { name: "D", expression: String(settings.furnitureDepth || 400) }
+      : suggested;
+
+  // Groups listed in the tree start out collapsed
+  const [expandedGroups, setExpandedGroups] = useState<string[]>([]);
+  const toggleGroup = (id: string) =>
+    setExpandedGroups((ids) => (ids.includes(id) ? ids.filter((g) => g !== id) : [...ids, id]));
+
+  const materials = getMaterials(settings);
+  const grainGroups = [...new Set(panels.map((p) => p.grainGroup).filter(Boolean))] as string[];
+
+  // The default material is stored as "no material id" on the panel
+  const toMaterialId = (id: string) => (id === DEFAULT_MATERIAL_ID ? undefined : id);
+
   // If exactly one panel is selected, show its properties
   const selectedPanel =
     selectedPanelIds.length === 1
       ? panels.find((p) => p.id === selectedPanelIds[0])
       : null;
+  const linearStock = selectedPanel ? getPanelLinearStock(selectedPanel, settings) : undefined;
 
   // Multiple panels selected
   const multipleSelected = selectedPanelIds.length > 1;
+  const selectedPanels = panels.filter((p) => selectedPanelIds.includes(p.id));
+  const allLocked = selectedPanels.length > 0 && selectedPanels.every((p) => p.locked);
+  const lockedCount = selectedPanels.filter((p) => p.locked).length;
+
+  // The selection is one whole group
+  const groupMembers = (groupId: string) => panels.filter((p) => p.groupId === groupId);
+  const selectedGroup = groups.find(
+    (g) =>
+      g.id === selectedPanels[0]?.groupId &&
+      groupMembers(g.id).length === selectedPanels.length &&
+      selectedPanels.every((p) => p.groupId === g.id),
+  );
+  const panelGroup = selectedPanel?.groupId ? groups.find((g) => g.id === selectedPanel.groupId) : undefined;
+  const formulaErrors = selectedPanel ? evaluatePanelFormulas(selectedPanel, resolved.values).errors : {};
+  const formulaFields = selectedPanel
+    ? [
+        ...FORMULA_SIZE_FIELDS[selectedPanel.orientation || "horizontal"],
+        { field: "x" as const, label: "X" },
+        { field: "y" as const, label: "Y" },
+        { field: "z" as const, label: "Z" },
+      ]
+    : [];
+
+  const lockButton = (
+    <button
+      onClick={() => setPanelsLocked(selectedPanelIds, !allLocked)}
+      className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+    >
+      {allLocked ? <Unlock size={14} /> : <Lock size={14} />}
+      {allLocked ? "Unlock" : "Lock Position"}
+    </button>
+  );
 
   return (
     <div className="w-full h-full bg-white dark:bg-slate-800 p-4 flex flex-col gap-5 overflow-y-auto">
@@ -122,15 +585,79 @@ export default function Sidebar() {
               {selectedPanelIds.length} panels selected. Use arrow keys to move
               them together, or Cmd+D to duplicate.
             </p>
+            {selectedGroup ? (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Group Name</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={selectedGroup.name}
+                    onChange={(e) => renameGroup(selectedGroup.id, e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => ungroupPanels(selectedGroup.id)}
+                    title="Ungroup (⌘⇧G)"
+                    className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    <Ungroup size={14} />
+                    Ungroup
+                  </button>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">Built as one sub-assembly in the assembly steps</p>
+              </div>
+            ) : (
+              <button
+                onClick={() => groupPanels(selectedPanelIds)}
+                title="Group (⌘G)"
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-slate-600 rounded-md hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+              >
+                <Group size={14} />
+                Group as Sub-assembly
+              </button>
+            )}
+            {materials.length > 1 && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Material</label>
+                <select
+                  value=""
+                  onChange={(e) =>
+                    updatePanels(selectedPanelIds, { materialId: toMaterialId(e.target.value) })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="" disabled>
+                    Set material for all…
+                  </option>
+                  {materials.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name} · {formatLength(m.thickness, settings, { showUnit: true })}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {lockButton}
             <button
               onClick={() => deletePanels(selectedPanelIds)}
-              className="w-full px-3 py-2 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+              disabled={allLocked}
+              className="w-full px-3 py-2 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
             >
-              Delete {selectedPanelIds.length} Panels
+              Delete {selectedPanelIds.length - lockedCount} Panels
+              {lockedCount > 0 && !allLocked && ` (${lockedCount} locked)`}
             </button>
           </div>
         ) : selectedPanel ? (
           <div className="space-y-3">
+            {panelGroup && (
+              <button
+                onClick={() => selectPanels(groupMembers(panelGroup.id).map((p) => p.id))}
+                className="w-full flex items-center gap-2 px-3 py-2 text-xs text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/50 transition-colors"
+              >
+                <Group size={12} />
+                Part of <span className="font-medium truncate">{panelGroup.name}</span> · select group
+              </button>
+            )}
             <div>
               <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Label</label>
               <input
@@ -162,201 +689,284 @@ export default function Sidebar() {
               </select>
             </div>
 
-            {/* Dimensions - context-sensitive based on orientation */}
-            <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
-              <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-3">
-                Dimensions
-              </h4>
-
-              {(selectedPanel.orientation || "horizontal") === "horizontal" && (
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">
-                      Width (mm)
-                    </label>
-                    <input
-                      type="number"
-                      min={10}
-                      value={selectedPanel.width}
-                      onChange={(e) =>
-                        updatePanel(selectedPanel.id, {
-                          width: parseInt(e.target.value) || 10,
-                        })
-                      }
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">
-                      Depth (mm)
-                    </label>
-                    <input
-                      key={`depth-h-${selectedPanel.id}`}
-                      type="number"
-                      min={10}
-                      value={
-                        selectedPanel.depth ?? settings.furnitureDepth ?? 400
-                      }
-                      onChange={(e) =>
-                        updatePanel(selectedPanel.id, {
-                          depth:
-                            parseInt(e.target.value) ||
-                            settings.furnitureDepth ||
-                            400,
-                        })
-                      }
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                  </div>
-                </div>
-              )}
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Material</label>
+              <select
+                value={(linearStock || getPanelMaterial(selectedPanel, settings)).id}
+                onChange={(e) => {
+                  const id = e.target.value;
+                  // Picking board stock makes it a linear part; picking a material cuts it from sheets again
+                  const stock = settings.linearStock?.find((s) => s.id === id);
+                  if (stock) {
+                    updatePanel(
+                      selectedPanel.id,
+                      selectedPanel.locked ? { linearStockId: id } : getLinearStockUpdates(selectedPanel, stock),
+                    );
+                  } else {
+                    updatePanel(selectedPanel.id, { materialId: toMaterialId(id), linearStockId: undefined });
+                  }
+                }}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {settings.linearStock?.length ? (
+                  <>
+                    <optgroup label="Sheets">
+                      {materials.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.name} · {formatLength(m.thickness, settings, { showUnit: true })}
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Boards">
+                      {settings.linearStock.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.name} · {formatSize(s.width, s.thickness, settings)}
+                        </option>
+                      ))}
+                    </optgroup>
+                  </>
+                ) : (
+                  materials.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name} · {formatLength(m.thickness, settings, { showUnit: true })}
+                    </option>
+                  ))
+                )}
+              </select>
+            </div>
 
-              {(selectedPanel.orientation || "horizontal") === "vertical" && (
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">
-                      Height (mm)
-                    </label>
-                    <input
-                      type="number"
-                      min={10}
-                      value={selectedPanel.height}
-                      onChange={(e) =>
-                        updatePanel(selectedPanel.id, {
-                          height: parseInt(e.target.value) || 10,
-                        })
-                      }
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
+            {/* Size and position stay put while the panel is locked */}
+            <fieldset
+              disabled={selectedPanel.locked}
+              title={selectedPanel.locked ? "Unlock the panel to move or resize it" : undefined}
+              className="min-w-0 space-y-3 disabled:opacity-60"
+            >
+              {/* Dimensions - context-sensitive based on orientation */}
+              <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+                <h4 className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-3">
+                  Dimensions
+                </h4>
+
+                {(selectedPanel.orientation || "horizontal") === "horizontal" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Width ({unitLabel(settings)})
+                      </label>
+                      <DimensionInput
+                        value={selectedPanel.width}
+                        settings={settings}
+                        min={MIN_DIMENSION}
+                        max={MAX_DIMENSION}
+                        onChange={(value) =>
+                          updatePanel(selectedPanel.id, { width: value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Depth ({unitLabel(settings)})
+                      </label>
+                      <DimensionInput
+                        key={`depth-h-${selectedPanel.id}`}
+                        value={
+                          selectedPanel.depth ?? settings.furnitureDepth ?? 400
+                        }
+                        settings={settings}
+                        min={MIN_DIMENSION}
+                        max={MAX_DIMENSION}
+                        onChange={(value) =>
+                          updatePanel(selectedPanel.id, { depth: value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
                   </div>
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">
-                      Depth (mm)
-                    </label>
-                    <input
-                      key={`depth-v-${selectedPanel.id}`}
-                      type="number"
-                      min={10}
-                      value={
-                        selectedPanel.depth ?? settings.furnitureDepth ?? 400
-                      }
-                      onChange={(e) =>
-                        updatePanel(selectedPanel.id, {
-                          depth:
-                            parseInt(e.target.value) ||
-                            settings.furnitureDepth ||
-                            400,
-                        })
-                      }
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
+                )}
+
+                {(selectedPanel.orientation || "horizontal") === "vertical" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Height ({unitLabel(settings)})
+                      </label>
+                      <DimensionInput
+                        value={selectedPanel.height}
+                        settings={settings}
+                        min={MIN_DIMENSION}
+                        max={MAX_DIMENSION}
+                        onChange={(value) =>
+                          updatePanel(selectedPanel.id, { height: value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Depth ({unitLabel(settings)})
+                      </label>
+                      <DimensionInput
+                        key={`depth-v-${selectedPanel.id}`}
+                        value={
+                          selectedPanel.depth ?? settings.furnitureDepth ?? 400
+                        }
+                        settings={settings}
+                        min={MIN_DIMENSION}
+                        max={MAX_DIMENSION}
+                        onChange={(value) =>
+                          updatePanel(selectedPanel.id, { depth: value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {selectedPanel.orientation === "back" && (
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">
-                      Width (mm)
-                    </label>
-                    <input
-                      type="number"
-                      min={10}
-                      value={selectedPanel.width}
-                      onChange={(e) =>
-                        updatePanel(selectedPanel.id, {
-                          width: parseInt(e.target.value) || 10,
-                        })
-                      }
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
+                {selectedPanel.orientation === "back" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Width ({unitLabel(settings)})
+                      </label>
+                      <DimensionInput
+                        value={selectedPanel.width}
+                        settings={settings}
+                        min={MIN_DIMENSION}
+                        max={MAX_DIMENSION}
+                        onChange={(value) =>
+                          updatePanel(selectedPanel.id, { width: value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-500 mb-1">
+                        Height ({unitLabel(settings)})
+                      </label>
+                      <DimensionInput
+                        value={selectedPanel.height}
+                        settings={settings}
+                        min={MIN_DIMENSION}
+                        max={MAX_DIMENSION}
+                        onChange={(value) =>
+                          updatePanel(selectedPanel.id, { height: value })
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
                   </div>
-                  <div>
-                    <label className="block text-xs text-gray-500 mb-1">
-                      Height (mm)
-                    </label>
-                    <input
-                      type="number"
-                      min={10}
-                      value={selectedPanel.height}
-                      onChange={(e) =>
+                )}
+
+                <p className="text-xs text-gray-400 mt-2">
+                  Thickness: {formatLength(getPanelThickness(selectedPanel, settings), settings, { showUnit: true })} (from{" "}
+                  {linearStock ? "board stock" : "material"})
+                </p>
+              </div>
+
+              {/* Depth position: front face's offset from the furniture front */}
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Depth Position · Z ({unitLabel(settings)})
+                </label>
+                <div className="flex gap-1">
+                  <DimensionInput
+                    key={`z-${selectedPanel.id}`}
+                    value={getPanelZRange(selectedPanel, settings).z}
+                    settings={settings}
+                    min={MIN_POSITION}
+                    max={MAX_POSITION}
+                    onChange={(value) => updatePanel(selectedPanel.id, { z: value })}
+                    ariaLabel="Z offset from the front"
+                    className="w-20 shrink-0 px-2 py-1.5 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                  />
+                  {Z_PRESETS.map((preset) => (
+                    <button
+                      key={preset.id}
+                      onClick={() =>
                         updatePanel(selectedPanel.id, {
-                          height: parseInt(e.target.value) || 10,
+                          z: getZPresetOffset(
+                            preset.id,
+                            getPanelZRange(selectedPanel, settings).depth,
+                            getFurnitureDepth(settings),
+                          ),
                         })
                       }
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                  </div>
+                      className={`flex-1 px-2 py-1.5 text-xs rounded border transition-colors ${
+                        getMatchingZPreset(selectedPanel, settings) === preset.id
+                          ? "bg-blue-100 border-blue-300 text-blue-700"
+                          : "border-gray-300 text-gray-600 hover:bg-gray-100"
+                      }`}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
                 </div>
-              )}
-
-              <p className="text-xs text-gray-400 mt-2">
-                Thickness: {settings.thickness}mm (from material settings)
-              </p>
-            </div>
+              </div>
 
-            {/* Z-alignment - only for horizontal/vertical with custom depth */}
-            {(selectedPanel.orientation || "horizontal") !== "back" &&
-              selectedPanel.depth &&
-              selectedPanel.depth < settings.furnitureDepth && (
+              {/* Position inputs */}
+              <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className="block text-xs text-gray-500 mb-1">
-                    Depth Position
+                    X Position ({unitLabel(settings)})
                   </label>
-                  <div className="flex gap-1">
-                    {Z_ALIGN_OPTIONS.map((opt) => (
-                      <button
-                        key={opt.value}
-                        onClick={() =>
-                          updatePanel(selectedPanel.id, { zAlign: opt.value })
-                        }
-                        className={`flex-1 px-2 py-1.5 text-xs rounded border transition-colors ${
-                          (selectedPanel.zAlign || "front") === opt.value
-                            ? "bg-blue-100 border-blue-300 text-blue-700"
-                            : "border-gray-300 text-gray-600 hover:bg-gray-100"
-                        }`}
-                      >
-                        {opt.label}
-                      </button>
-                    ))}
-                  </div>
+                  <DimensionInput
+                    value={selectedPanel.x}
+                    settings={settings}
+                    min={MIN_POSITION}
+                    max={MAX_POSITION}
+                    onChange={(value) =>
+                      updatePanel(selectedPanel.id, { x: value })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                  />
                 </div>
-              )}
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    Y Position ({unitLabel(settings)})
+                  </label>
+                  <DimensionInput
+                    value={selectedPanel.y}
+                    settings={settings}
+                    min={MIN_POSITION}
+                    max={MAX_POSITION}
+                    onChange={(value) =>
+                      updatePanel(selectedPanel.id, { y: value })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                  />
+                </div>
+              </div>
 
-            {/* Position inputs */}
-            <div className="grid grid-cols-2 gap-3">
+              {/* Formulas */}
               <div>
-                <label className="block text-xs text-gray-500 mb-1">
-                  X Position (mm)
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Formulas
                 </label>
-                <input
-                  type="number"
-                  value={Math.round(selectedPanel.x)}
-                  onChange={(e) =>
-                    updatePanel(selectedPanel.id, {
-                      x: parseInt(e.target.value) || 0,
-                    })
-                  }
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
-                />
-              </div>
-              <div>
-                <label className="block text-xs text-gray-500 mb-1">
-                  Y Position (mm)
-                </label>
-                <input
-                  type="number"
-                  value={Math.round(selectedPanel.y)}
-                  onChange={(e) =>
-                    updatePanel(selectedPanel.id, {
-                      y: parseInt(e.target.value) || 0,
-                    })
-                  }
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
-                />
+                <div className="space-y-1.5">
+                  {formulaFields.map(({ field, label }) => (
+                    <div key={field}>
+                      <div className="flex items-center gap-2">
+                        <span className="w-12 shrink-0 text-xs text-gray-500">{label} =</span>
+                        <FormulaInput
+                          key={`${selectedPanel.id}-${field}`}
+                          value={selectedPanel.formulas?.[field] ?? ""}
+                          onCommit={(formula) => setPanelFormula(selectedPanel.id, field, formula || null)}
+                          placeholder="—"
+                          ariaLabel={`${label} formula`}
+                        />
+                      </div>
+                      {formulaErrors[field] && (
+                        <p className="text-xs text-red-500 mt-0.5 ml-14">{formulaErrors[field]}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  In mm, e.g. W - 2*T. Typing a value or dragging the panel replaces its formula.
+                </p>
               </div>
-            </div>
+            </fieldset>
 
             {/* Edge Banding */}
             <div>
@@ -376,7 +986,7 @@ export default function Sidebar() {
                   >
                     <input
                       type="checkbox"
-                      checked={selectedPanel.edgeBanding?.[key as keyof EdgeBanding] || false}
+                      checked={selectedPanel.edgeBanding?.[key as BandedEdge] || false}
                       onChange={(e) =>
                         updatePanel(selectedPanel.id, {
                           edgeBanding: {
@@ -391,8 +1001,29 @@ export default function Sidebar() {
                   </label>
                 ))}
               </div>
+              {isBanded(selectedPanel.edgeBanding) && bandingTypes.length > 1 && (
+                <select
+                  value={getBandingType(settings, selectedPanel.edgeBanding.typeId).id}
+                  onChange={(e) =>
+                    updatePanel(selectedPanel.id, {
+                      edgeBanding: {
+                        ...selectedPanel.edgeBanding!,
+                        typeId: e.target.value === DEFAULT_BANDING_ID ? undefined : e.target.value,
+                      },
+                    })
+                  }
+                  className="w-full mt-2 px-3 py-2 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Banding type"
+                >
+                  {bandingTypes.map((type) => (
+                    <option key={type.id} value={type.id}>
+                      {type.name} ({formatLength(type.thickness, settings, { showUnit: true })})
+                    </option>
+                  ))}
+                </select>
+              )}
               <p className="text-xs text-gray-400 mt-1">
-                Select edges that need banding
+                Select edges that need banding; the piece is cut short by its thickness
               </p>
             </div>
 
@@ -422,13 +1053,78 @@ export default function Sidebar() {
                 ))}
               </div>
               <p className="text-xs text-gray-400 mt-1">
-                Constrains rotation during cutting optimization
+                Turns the part to match the sheet grain when cutting
+              </p>
+            </div>
+
+            {/* Grain-matched group */}
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Grain Match Group</label>
+              <input
+                type="text"
+                list="grain-groups"
+                value={selectedPanel.grainGroup || ""}
+                placeholder="e.g. Drawer fronts"
+                onChange={(e) =>
+                  updatePanel(selectedPanel.id, { grainGroup: e.target.value || undefined })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <datalist id="grain-groups">
+                {grainGroups.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+              <p className="text-xs text-gray-400 mt-1">
+                Parts in a group are cut one after another from a single strip
               </p>
             </div>
 
+            <CutFeaturesEditor
+              panel={selectedPanel}
+              settings={settings}
+              onChange={(features) => updatePanel(selectedPanel.id, { features })}
+            />
+
+            {(selectedPanel.orientation || "horizontal") === "horizontal" && (
+              <div>
+                <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedPanel.adjustable || false}
+                    onChange={(e) => updatePanel(selectedPanel.id, { adjustable: e.target.checked || undefined })}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Adjustable shelf
+                </label>
+                <p className="text-xs text-gray-400 mt-1">Sits on pins; the sides get 32mm shelf-pin rows</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs text-gray-500 mb-2">Hardware</label>
+              <HardwareEditor
+                attachments={selectedPanel.hardware || []}
+                settings={settings}
+                onChange={(hardware) => updatePanel(selectedPanel.id, { hardware })}
+              />
+              <p className="text-xs text-gray-400 mt-1">Per panel, e.g. hinges on a door or a handle</p>
+            </div>
+
+            <JointEditor
+              panel={selectedPanel}
+              panels={panels}
+              joints={joints}
+              settings={settings}
+              onChange={(otherId, updates) => updateJoint(selectedPanel.id, otherId, updates)}
+            />
+
+            {lockButton}
             <button
               onClick={() => deletePanel(selectedPanel.id)}
-              className="w-full px-3 py-2 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 transition-colors"
+              disabled={selectedPanel.locked}
+              title={selectedPanel.locked ? "Unlock the panel to delete it" : undefined}
+              className="w-full px-3 py-2 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
             >
               Delete Panel
             </button>
@@ -451,6 +1147,126 @@ export default function Sidebar() {
       {/* Divider */}
       <hr className="border-gray-200 dark:border-slate-700" />
 
+      {/* Variables */}
+      <div>
+        <h3 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-2">
+          Variables
+        </h3>
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <span className="w-10 shrink-0 px-2 font-mono">T</span>
+            <span className="flex-1">Material thickness</span>
+            <span className="w-16 text-right">{formatLength(settings.thickness, settings, { showUnit: true })}</span>
+            <span className="w-5" />
+          </div>
+          {variables.map((variable) => {
+            const value = resolved.values.get(variable.name);
+            const error = resolved.errors.get(variable.id);
+            return (
+              <div key={variable.id}>
+                <div className="flex items-center gap-2">
+                  <div className="w-10 shrink-0 flex">
+                    <FormulaInput
+                      value={variable.name}
+                      onCommit={(name) => updateVariable(variable.id, { name })}
+                      validate={(name) => validateVariableName(name, variables, variable.id)}
+                      ariaLabel="Variable name"
+                    />
+                  </div>
+                  <FormulaInput
+                    value={variable.expression}
+                    onCommit={(expression) => updateVariable(variable.id, { expression: expression || "0" })}
+                    ariaLabel={`Value of ${variable.name}`}
+                  />
+                  <span className="w-16 text-right text-xs text-gray-600 dark:text-gray-300">
+                    {value !== undefined && !error ? formatLength(value, settings, { showUnit: true }) : "—"}
+                  </span>
+                  <button
+                    onClick={() => removeVariable(variable.id)}
+                    className="w-5 p-0.5 text-gray-400 hover:text-red-600 rounded"
+                    aria-label={`Remove ${variable.name}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+                {error && <p className="text-xs text-red-500 mt-0.5 ml-12">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+        <button
+          onClick={() => addVariable(nextVariable.name, nextVariable.expression)}
+          className="mt-2 flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-700"
+        >
+          <Plus size={12} />
+          Add variable {nextVariable.name}
+        </button>
+      </div>
+
+      {/* Groups */}
+      {groups.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-2">
+            Groups
+          </h3>
+          <div className="space-y-1">
+            {groups.map((group) => {
+              const members = groupMembers(group.id);
+              const expanded = expandedGroups.includes(group.id);
+              const selected = members.every((p) => selectedPanelIds.includes(p.id));
+              return (
+                <div key={group.id}>
+                  <div
+                    className={`flex items-center gap-1 rounded-md text-sm ${
+                      selected
+                        ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                        : "text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700"
+                    }`}
+                  >
+                    <button
+                      onClick={() => toggleGroup(group.id)}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      aria-label={expanded ? `Collapse ${group.name}` : `Expand ${group.name}`}
+                    >
+                      {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    </button>
+                    <button
+                      onClick={() => selectPanels(members.map((p) => p.id))}
+                      className="flex-1 min-w-0 py-1 text-left truncate font-medium"
+                    >
+                      {group.name}
+                    </button>
+                    <span className="px-2 text-xs text-gray-400">{members.length}</span>
+                  </div>
+                  {expanded && (
+                    <ul className="ml-6 border-l border-gray-200 dark:border-slate-600">
+                      {members.map((p) => (
+                        <li key={p.id}>
+                          <button
+                            onClick={() => selectPanel(p.id)}
+                            className={`w-full flex items-center gap-1 pl-3 pr-2 py-0.5 text-left text-xs truncate ${
+                              selectedPanelIds.length === 1 && selectedPanelIds[0] === p.id
+                                ? "text-blue-700 dark:text-blue-300 font-medium"
+                                : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                            }`}
+                          >
+                            <span className="truncate">{p.label}</span>
+                            {p.locked && <Lock size={10} className="shrink-0 text-gray-400" />}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Component Library */}
+      <ComponentLibrary />
+
       {/* Stats */}
       <div className="mt-auto pt-4 border-t border-gray-200">
         <div className="text-xs text-gray-500">
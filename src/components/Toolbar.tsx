@@ -5,7 +5,7 @@ import { calculateCutList } from "../lib/optimizer";
 import { useDesignStore } from "../stores/designStore";
 
 export default function Toolbar() {
-  const { addPanel, clearAll, panels, exportDesign, loadDesign } =
+  const { addPanel, clearAll, panels, settings, exportDesign, loadDesign } =
     useDesignStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -16,7 +16,7 @@ export default function Toolbar() {
 
   const handleExportCSV = () => {
     const { pieces } = calculateCutList(panels);
-    exportToCSV(pieces);
+    exportToCSV(pieces, settings);
   };
 
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -14,9 +14,11 @@ import {
   AlignStartVertical,
   AlignVerticalDistributeCenter,
   Copy,
+  Group,
   Lock,
   Scissors,
   Trash2,
+  Ungroup,
   Unlock,
 } from "lucide-react";
 import React, { useEffect, useRef } from "react";
@@ -145,6 +147,9 @@ export function createPanelContextActions({
   onLock,
   onUnlock,
   isLocked,
+  onGroup,
+  onUngroup,
+  isGrouped,
 }: {
   hasSelection: boolean;
   selectionCount: number;
@@ -164,6 +169,9 @@ export function createPanelContextActions({
   onLock?: () => void;
   onUnlock?: () => void;
   isLocked?: boolean;
+  onGroup?: () => void;
+  onUngroup?: () => void;
+  isGrouped?: boolean; // Selection is exactly one group
 }): ContextMenuAction[] {
   const actions: ContextMenuAction[] = [
     {
@@ -270,6 +278,19 @@ export function createPanelContextActions({
     );
   }
 
+  // Add group/ungroup if handlers provided
+  if (onGroup && onUngroup) {
+    actions.push({
+      id: isGrouped ? "ungroup" : "group",
+      label: isGrouped ? "Ungroup" : "Group",
+      icon: isGrouped ? <Ungroup size={14} /> : <Group size={14} />,
+      shortcut: isGrouped ? "⌘⇧G" : "⌘G",
+      onClick: isGrouped ? onUngroup : onGroup,
+      disabled: isGrouped ? false : selectionCount < 2,
+      divider: true,
+    });
+  }
+
   // Add lock/unlock if handlers provided
   if (onLock && onUnlock) {
     actions.push({
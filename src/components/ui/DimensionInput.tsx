@@ -0,0 +1,121 @@
+/**
+ * Dimension Input Component
+ *
+ * Text input for a length stored in millimetres but edited in the project's
+ * units. Accepts fractional inches and feet (e.g. 23 5/8", 1' 11-5/8") as
+ * well as explicit metric values, and commits on Enter or blur.
+ */
+
+import React, { useEffect, useRef, useState } from "react";
+import { formatLength, parseLength, type UnitSettings } from "../../lib/units";
+
+interface DimensionInputProps {
+  value: number; // mm
+  onChange: (value: number) => void;
+  settings: UnitSettings;
+  min?: number; // mm
+  max?: number; // mm
+  className?: string;
+  ariaLabel?: string;
+}
+
+export function DimensionInput({
+  value,
+  onChange,
+  settings,
+  min,
+  max,
+  className = "",
+  ariaLabel,
+}: DimensionInputProps) {
+  const formatted = formatLength(value, settings);
+  const [localValue, setLocalValue] = useState(formatted);
+  const [error, setError] = useState<string | null>(null);
+  const [isFocused, setIsFocused] = useState(false);
+  // Set by Escape so the blur that follows doesn't commit the typed text
+  const cancelRef = useRef(false);
+
+  // Sync with external value (and unit changes) when not editing
+  useEffect(() => {
+    if (!isFocused) {
+      setLocalValue(formatted);
+    }
+  }, [formatted, isFocused]);
+
+  const validate = (raw: string): { num: number | null; error: string | null } => {
+    const num = parseLength(raw, settings);
+    if (num === null) {
+      return { num: null, error: "Enter a length" };
+    }
+    if (min !== undefined && num < min) {
+      return { num, error: `Min: ${formatLength(min, settings, { showUnit: true })}` };
+    }
+    if (max !== undefined && num > max) {
+      return { num, error: `Max: ${formatLength(max, settings, { showUnit: true })}` };
+    }
+    return { num, error: null };
+  };
+
+  const commit = () => {
+    setError(null);
+    // Untouched text must not re-round the stored value (600mm → 23 5/8")
+    if (localValue === formatted) return;
+
+    const { num, error } = validate(localValue);
+    if (num === null) {
+      setLocalValue(formatted);
+      return;
+    }
+    let clamped = num;
+    if (min !== undefined) clamped = Math.max(min, clamped);
+    if (max !== undefined) clamped = Math.min(max, clamped);
+    if (error || clamped !== value) {
+      onChange(clamped);
+    }
+    setLocalValue(formatLength(clamped, settings));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const raw = e.target.value;
+    setLocalValue(raw);
+    setError(raw.trim() === "" ? null : validate(raw).error);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      commit();
+      e.currentTarget.blur();
+    }
+    if (e.key === "Escape") {
+      cancelRef.current = true;
+      setLocalValue(formatted);
+      setError(null);
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        inputMode="decimal"
+        value={localValue}
+        onChange={handleChange}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => {
+          setIsFocused(false);
+          if (cancelRef.current) {
+            cancelRef.current = false;
+            return;
+          }
+          commit();
+        }}
+        onKeyDown={handleKeyDown}
+        aria-label={ariaLabel}
+        aria-invalid={!!error}
+        className={`${className} ${error ? "border-red-300 focus:ring-red-500" : ""}`}
+      />
+      {error && <p className="text-xs text-red-500 mt-0.5">{error}</p>}
+    </div>
+  );
+}
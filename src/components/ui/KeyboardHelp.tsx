@@ -33,6 +33,7 @@ const SHORTCUT_GROUPS: ShortcutGroup[] = [
       { keys: ["⌘", "-"], description: "Zoom out" },
       { keys: ["⌘", "0"], description: "Reset zoom" },
       { keys: ["⌘", "1"], description: "Fit to content" },
+      { keys: ["1", "2", "3"], description: "Front, side or top view" },
     ],
   },
   {
@@ -53,6 +54,11 @@ const SHORTCUT_GROUPS: ShortcutGroup[] = [
       { keys: ["⌘"], description: "Disable snapping" },
       { keys: ["←↑↓→"], description: "Nudge selected (1px)" },
       { keys: ["⇧", "←↑↓→"], description: "Nudge selected (10px)" },
+      { keys: ["⌘", "⇧", "L"], description: "Lock / unlock selected" },
+      { keys: ["⌥", "drag"], description: "Include locked panels in box select" },
+      { keys: ["⌘", "G"], description: "Group selected" },
+      { keys: ["⌘", "⇧", "G"], description: "Ungroup selected" },
+      { keys: ["⌘", "click"], description: "Select one panel of a group" },
     ],
   },
 ];
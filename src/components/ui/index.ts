@@ -2,6 +2,7 @@ export { ToastProvider, useToast } from "./Toast";
 export { ConfirmModal, useConfirm } from "./ConfirmModal";
 export { ErrorBoundary } from "./ErrorBoundary";
 export { ValidatedInput, InlineValidatedInput } from "./ValidatedInput";
+export { DimensionInput } from "./DimensionInput";
 export { KeyboardHelp, useKeyboardHelp } from "./KeyboardHelp";
 export { default as InstallPrompt } from "./InstallPrompt";
 export { Tooltip } from "./Tooltip";
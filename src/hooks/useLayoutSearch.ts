@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { optimizeCutsByMaterial } from "../lib/optimizer";
+import type { LayoutSearchMessage, LayoutSearchRequest } from "../lib/optimizer.worker";
+import { useLayoutStore } from "../stores/layoutStore";
+import type { InventoryItem, Panel, Settings } from "../types";
+
+interface LayoutSearchState {
+  running: boolean;
+  progress: number; // 0..1
+  iterations: number;
+}
+
+const IDLE: LayoutSearchState = { running: false, progress: 0, iterations: 0 };
+
+/**
+ * Sheet layouts for a set of cut panels: the optimizer's own, or the
+ * better one a layout search found for exactly these inputs. Anything
+ * that shows, counts or prices sheets should read `results` from here.
+ */
+export function useSheetLayout(
+  cutPanels: Panel[],
+  settings: Settings,
+  dimensionToLetter: Map<string, string>,
+  inventory: InventoryItem[],
+) {
+  const baseResults = useMemo(
+    () => optimizeCutsByMaterial(cutPanels, settings, dimensionToLetter, inventory),
+    [cutPanels, settings, dimensionToLetter, inventory],
+  );
+  // Letters follow from the panels, so they needn't be part of the key
+  const key = useMemo(() => JSON.stringify([cutPanels, settings, inventory]), [cutPanels, settings, inventory]);
+  const improved = useLayoutStore((state) => (state.improved?.key === key ? state.improved.results : null));
+
+  return { baseResults, results: improved ?? baseResults, improved: improved !== null, key };
+}
+
+/**
+ * Search for a better cutting layout in a Web Worker. Improved results
+ * stream into the layout store under `key` while it runs; a search in
+ * flight is dropped as soon as the key changes, since it was cutting
+ * different parts or settings.
+ */
+export function useLayoutSearch(key: string) {
+  const [state, setState] = useState<LayoutSearchState>(IDLE);
+  const { setImproved, clearImproved } = useLayoutStore();
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setState((s) => ({ ...s, running: false }));
+  }, []);
+
+  // Inputs changed: any search in flight is stale
+  useEffect(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setState(IDLE);
+  }, [key]);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const start = useCallback((request: LayoutSearchRequest) => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL("../lib/optimizer.worker.ts", import.meta.url), { type: "module" });
+    workerRef.current = worker;
+    clearImproved();
+    setState({ running: true, progress: 0, iterations: 0 });
+
+    worker.onmessage = (event: MessageEvent<LayoutSearchMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          setState((s) => ({ ...s, progress: message.progress, iterations: message.iterations }));
+          break;
+        case "improved":
+          setImproved(key, message.results);
+          break;
+        case "done":
+          worker.terminate();
+          workerRef.current = null;
+          setState((s) => ({ ...s, running: false, progress: 1, iterations: message.iterations }));
+          break;
+      }
+    };
+    worker.onerror = () => stop();
+    worker.postMessage(request);
+  }, [key, setImproved, clearImproved, stop]);
+
+  return {
+    running: state.running,
+    progress: state.progress,
+    iterations: state.iterations,
+    start,
+    stop,
+  };
+}
@@ -12,6 +12,7 @@
  * - Stability analysis (center of mass, tipping detection)
  * - Temporary support hints (hold, prop, clamp)
  * - Improved contextual instructions
+ * - Panel groups built first as named sub-assemblies, then installed whole
  */
 
 import toposort from "toposort";
@@ -20,12 +21,16 @@ import type {
   JointType,
   Panel,
   PanelEdge,
+  PanelGroup,
   Settings,
   StabilityStatus,
   SupportHint,
   SupportType,
   TipDirection,
 } from "../types";
+import { getZRange } from "./depth";
+import { getPanelCutKey, getPartLabel } from "./optimizer";
+import { formatLength, type UnitSettings } from "./units";
 
 // Assembly step with enhanced information
 export interface AssemblyStep {
@@ -44,6 +49,8 @@ export interface AssemblyStep {
   supportHint?: SupportHint;
   tipWarning?: TipDirection;
   alignmentTip?: string;
+  subAssembly?: { id: string; name: string }; // Step builds this sub-assembly on its own
+  installsGroup?: { id: string; name: string; panelIds: string[] }; // Step installs a finished sub-assembly
 }
 
 // Get panel dimensions based on orientation
@@ -62,50 +69,24 @@ function getDimensions(panel: Panel, thickness: number) {
 }
 
 // Get 3D bounding box for a panel
-function get3DBounds(
+export function get3DBounds(
   panel: Panel,
   thickness: number,
   furnitureDepth: number,
 ) {
   const dims = getDimensions(panel, thickness);
-  const orientation = panel.orientation || "horizontal";
-  const panelDepth = panel.depth || furnitureDepth;
-  const zAlign = panel.zAlign || "front";
-
-  let z1: number, z2: number;
-  if (orientation === "back") {
-    z1 = furnitureDepth - thickness;
-    z2 = furnitureDepth;
-  } else {
-    switch (zAlign) {
-      case "front":
-        z1 = 0;
-        z2 = panelDepth;
-        break;
-      case "back":
-        z1 = furnitureDepth - panelDepth;
-        z2 = furnitureDepth;
-        break;
-      case "center":
-        z1 = (furnitureDepth - panelDepth) / 2;
-        z2 = z1 + panelDepth;
-        break;
-      default:
-        z1 = 0;
-        z2 = panelDepth;
-    }
-  }
+  const { z, depth } = getZRange(panel, thickness, furnitureDepth);
 
   return {
     x1: panel.x,
     x2: panel.x + dims.w,
     y1: panel.y,
     y2: panel.y + dims.h,
-    z1,
-    z2,
+    z1: z,
+    z2: z + depth,
     width: dims.w,
     height: dims.h,
-    depth: orientation === "back" ? thickness : panelDepth,
+    depth,
   };
 }
 
@@ -121,9 +102,10 @@ function detectJointType(
   panelB: Panel,
   thickness: number,
   furnitureDepth: number,
+  panelThickness: (panel: Panel) => number = () => thickness,
 ): { type: JointType; aEdge: PanelEdge; bEdge: PanelEdge } | null {
-  const boundsA = get3DBounds(panelA, thickness, furnitureDepth);
-  const boundsB = get3DBounds(panelB, thickness, furnitureDepth);
+  const boundsA = get3DBounds(panelA, panelThickness(panelA), furnitureDepth);
+  const boundsB = get3DBounds(panelB, panelThickness(panelB), furnitureDepth);
   const tolerance = thickness * 1.5;
 
   const orientA = panelA.orientation || "horizontal";
@@ -195,18 +177,21 @@ function detectJointType(
 }
 
 /**
- * Detect all joints for a panel being added to existing assembly
+ * Detect all joints for a panel being added to existing assembly.
+ * `thickness` sets the contact tolerance; pass `panelThickness` when
+ * panels differ in thickness so each is measured at its own.
  */
-function detectJointsForPanel(
+export function detectJointsForPanel(
   panel: Panel,
   assembledPanels: Panel[],
   thickness: number,
   furnitureDepth: number,
+  panelThickness?: (panel: Panel) => number,
 ): Joint[] {
   const joints: Joint[] = [];
 
   for (const other of assembledPanels) {
-    const jointInfo = detectJointType(panel, other, thickness, furnitureDepth);
+    const jointInfo = detectJointType(panel, other, thickness, furnitureDepth, panelThickness);
     if (jointInfo) {
       joints.push({
         panelAId: panel.id,
@@ -468,10 +453,9 @@ function generateAlignmentTip(
 
   // Check front/back alignment
   if (orientation !== "back") {
-    const zAlign = panel.zAlign || "front";
-    if (zAlign === "front") {
+    if (bounds.z1 === 0) {
       tips.push("Align flush with front edge");
-    } else if (zAlign === "back") {
+    } else if (bounds.z1 > 0) {
       tips.push("Set back from front edge");
     }
   }
@@ -511,12 +495,17 @@ function getBounds(panel: Panel, thickness: number) {
   };
 }
 
-function findVerticalSupports(
+/**
+ * Find which vertical panels hold up a horizontal panel: verticals at its
+ * left or right end whose height spans the horizontal's Y position.
+ */
+export function findVerticalSupports(
   horizontal: Panel,
   allPanels: Panel[],
   thickness: number,
+  panelThickness: (panel: Panel) => number = () => thickness,
 ): Panel[] {
-  const hBounds = getBounds(horizontal, thickness);
+  const hBounds = getBounds(horizontal, panelThickness(horizontal));
   const supports: Panel[] = [];
   const tolerance = thickness * 2;
 
@@ -524,7 +513,7 @@ function findVerticalSupports(
     if (panel.id === horizontal.id) continue;
     if (panel.orientation !== "vertical") continue;
 
-    const vBounds = getBounds(panel, thickness);
+    const vBounds = getBounds(panel, panelThickness(panel));
 
     // Check if vertical's X position is at horizontal's left or right edge
     const atLeftEdge =
@@ -553,7 +542,7 @@ function findVerticalSupports(
  * - The vertical's bottom Y is at or near the horizontal's top Y
  * - There's X overlap
  */
-function findHorizontalBase(
+export function findHorizontalBase(
   vertical: Panel,
   allPanels: Panel[],
   thickness: number,
@@ -631,13 +620,22 @@ function buildDependencyGraph(
     }
 
     // Rule 3: Back panel depends on ALL other panels
-    if (orientation === "back") {
+    if (orientation === "back" && !panel.front) {
       for (const other of panels) {
         if (other.id !== panel.id && other.orientation !== "back") {
           edges.push([other.id, panel.id]);
         }
       }
     }
+
+    // Rule 4: Doors and drawer fronts go on the finished carcass
+    if (panel.front) {
+      for (const other of panels) {
+        if (other.id !== panel.id && !other.front) {
+          edges.push([other.id, panel.id]);
+        }
+      }
+    }
   }
 
   return edges;
@@ -669,6 +667,8 @@ function getPriority(
     priority += 0;
   } else if (orientation === "horizontal") {
     priority += 10000;
+  } else if (panel.front) {
+    priority += 1000000; // After the back
   } else if (orientation === "back") {
     priority += 100000; // Always last
   }
@@ -811,6 +811,7 @@ function generateInstruction(
  * Get action verb based on panel type
  */
 function getAction(panel: Panel): string {
+  if (panel.front) return panel.front.type === "door" ? "Hang" : "Fit";
   const orientation = panel.orientation || "horizontal";
   switch (orientation) {
     case "vertical":
@@ -833,11 +834,13 @@ function getAction(panel: Panel): string {
  * 3. Top shelf/panel - completes the frame box
  * 4. Inner dividers (vertical) - from left to right
  * 5. Inner shelves (horizontal) - from bottom to top
- * 6. Back panel - always last, squares up the unit
+ * 6. Back panel - squares up the unit
+ * 7. Doors and drawer fronts - hung on the finished carcass
  */
 export function generateAssemblySteps(
   panels: Panel[],
   settings: Settings,
+  groups: PanelGroup[] = [],
 ): AssemblyStep[] {
   if (panels.length === 0) return [];
 
@@ -866,6 +869,7 @@ export function generateAssemblySteps(
     innerDividers: Panel[]; // Vertical panels in the middle
     innerShelves: Panel[];  // Horizontal panels in the middle
     back: Panel[];          // Back panels
+    fronts: Panel[];        // Doors and drawer fronts
   } = {
     leftSide: [],
     rightSide: [],
@@ -874,6 +878,7 @@ export function generateAssemblySteps(
     innerDividers: [],
     innerShelves: [],
     back: [],
+    fronts: [],
   };
 
   const edgeTolerance = thickness * 2;
@@ -882,6 +887,10 @@ export function generateAssemblySteps(
     const orientation = panel.orientation || "horizontal";
     const bounds = boundsMap.get(panel.id)!;
 
+    if (panel.front) {
+      categorized.fronts.push(panel);
+      continue;
+    }
     if (orientation === "back") {
       categorized.back.push(panel);
       continue;
@@ -935,7 +944,8 @@ export function generateAssemblySteps(
     ...categorized.top,           // 4. Top (completes frame)
     ...categorized.innerDividers, // 5. Inner dividers (left to right)
     ...categorized.innerShelves,  // 6. Inner shelves (bottom to top)
-    ...categorized.back,          // 7. Back panel (always last)
+    ...categorized.back,          // 7. Back panel (squares the carcass)
+    ...categorized.fronts,        // 8. Doors and drawer fronts
   ];
 
   // Handle any panels that didn't fit into categories (shouldn't happen, but safety)
@@ -958,36 +968,13 @@ export function generateAssemblySteps(
   let nextLetterIndex = 0;
   
   orderedPanels.forEach((p) => {
-    // Calculate cut dimensions for this panel
-    const orientation = p.orientation || "horizontal";
-    const panelDepth = p.depth || furnitureDepth;
-    let cutW: number, cutH: number;
-    
-    switch (orientation) {
-      case "horizontal":
-        cutW = p.width;
-        cutH = panelDepth;
-        break;
-      case "vertical":
-        cutW = p.height;
-        cutH = panelDepth;
-        break;
-      case "back":
-        cutW = p.width;
-        cutH = p.height;
-        break;
-      default:
-        cutW = p.width;
-        cutH = panelDepth;
-    }
-    
-    // Normalize dimensions (larger first) for consistent keys
-    const dimKey = cutW >= cutH ? `${cutW}x${cutH}` : `${cutH}x${cutW}`;
+    // Panels cut identically (see getPanelCutKey) share a letter
+    const dimKey = getPanelCutKey(p, furnitureDepth);
     
     // Check if we already have a letter for these dimensions
     let letter = dimensionToLetter.get(dimKey);
     if (!letter) {
-      letter = String.fromCharCode(65 + nextLetterIndex); // A, B, C...
+      letter = getPartLabel(nextLetterIndex, settings.partNumbering);
       dimensionToLetter.set(dimKey, letter);
       nextLetterIndex++;
     }
@@ -998,11 +985,20 @@ export function generateAssemblySteps(
   // Build simple dependency edges for joint detection
   const edges = buildDependencyGraph(panels, thickness);
 
-  // Generate steps
-  const assembledSoFar: string[] = [];
-  const assembledPanels: Panel[] = [];
+  const globalBounds = {
+    globalMinX,
+    globalMaxX,
+    globalMinY,
+    globalMaxY,
+    globalWidth,
+    globalHeight,
+  };
 
-  return orderedPanels.map((panel, index) => {
+  // Panels built so far in the current (sub-)assembly
+  let assembledSoFar: string[] = [];
+  let assembledPanels: Panel[] = [];
+
+  const panelStep = (panel: Panel, stepNumber: number): AssemblyStep => {
     const letterLabel = idToLetter.get(panel.id) || "?";
     const bounds = boundsMap.get(panel.id)!;
 
@@ -1059,17 +1055,11 @@ export function generateAssemblySteps(
       letterLabel,
       connectsToLetters,
       bounds,
-      {
-        globalMinX,
-        globalMaxX,
-        globalMinY,
-        globalMaxY,
-        globalWidth,
-        globalHeight,
-      },
+      globalBounds,
       thickness,
       assembledPanels,
       idToLetter,
+      settings,
     );
 
     // Update assembled state
@@ -1077,7 +1067,7 @@ export function generateAssemblySteps(
     assembledPanels.push(panel);
 
     return {
-      stepNumber: index + 1,
+      stepNumber,
       panelId: panel.id,
       panelLabel: panel.label || `Panel ${panel.id.slice(0, 4)}`,
       letterLabel,
@@ -1092,7 +1082,103 @@ export function generateAssemblySteps(
       tipWarning: !stability.stable ? stability.tipDirection : undefined,
       alignmentTip,
     };
-  });
+  };
+
+  // A finished sub-assembly goes in as a single step
+  const groupStep = (group: PanelGroup, members: Panel[], stepNumber: number): AssemblyStep => {
+    const memberIds = members.map((p) => p.id);
+    const letters = [...new Set(members.map((p) => idToLetter.get(p.id) || "?"))];
+
+    const connectsToIds = [
+      ...new Set(
+        edges
+          .filter(([from, to]) => memberIds.includes(to) && assembledSoFar.includes(from))
+          .map(([from]) => from),
+      ),
+    ];
+    const connectsToLetters = [
+      ...new Set(
+        connectsToIds
+          .map((id) => idToLetter.get(id))
+          .filter((l): l is string => !!l),
+      ),
+    ];
+
+    const joints = members.flatMap((panel) =>
+      detectJointsForPanel(panel, assembledPanels, thickness, furnitureDepth),
+    );
+
+    const stability = checkStability([...assembledPanels, ...members], thickness, furnitureDepth);
+    let stabilityStatus: StabilityStatus = "stable";
+    if (!stability.stable) {
+      stabilityStatus = "unstable";
+    } else if (stability.margin < 0.3) {
+      stabilityStatus = "needs-support";
+    }
+
+    const connText = connectsToLetters.length > 0
+      ? ` Connect it to panel${connectsToLetters.length > 1 ? "s" : ""} ${connectsToLetters.join(", ")}.`
+      : "";
+
+    assembledSoFar.push(...memberIds);
+    assembledPanels.push(...members);
+
+    return {
+      stepNumber,
+      panelId: members[0].id,
+      panelLabel: group.name,
+      letterLabel: letters.join(", "),
+      action: `Install ${group.name}`,
+      instruction: `Set the assembled ${group.name} sub-assembly (panels ${letters.join(", ")}) in place as one unit.${connText}`,
+      connectsTo: connectsToIds,
+      connectsToLetters,
+      cumulativePanels: [...assembledSoFar],
+      joints,
+      stabilityStatus,
+      tipWarning: !stability.stable ? stability.tipDirection : undefined,
+      installsGroup: { id: group.id, name: group.name, panelIds: memberIds },
+    };
+  };
+
+  // Groups of two or more panels are built on their own first, in the
+  // same practical order as the whole piece
+  const subAssemblies = groups
+    .map((group) => ({
+      group,
+      members: orderedPanels.filter((p) => p.groupId === group.id),
+    }))
+    .filter(({ members }) => members.length >= 2);
+  const subAssemblyOf = new Map<string, (typeof subAssemblies)[number]>();
+  subAssemblies.forEach((sub) => sub.members.forEach((p) => subAssemblyOf.set(p.id, sub)));
+
+  const steps: AssemblyStep[] = [];
+
+  for (const { group, members } of subAssemblies) {
+    assembledSoFar = [];
+    assembledPanels = [];
+    for (const panel of members) {
+      steps.push({
+        ...panelStep(panel, steps.length + 1),
+        subAssembly: { id: group.id, name: group.name },
+      });
+    }
+  }
+
+  // Main assembly: each sub-assembly goes in where its first panel would
+  assembledSoFar = [];
+  assembledPanels = [];
+  const installed = new Set<string>();
+  for (const panel of orderedPanels) {
+    const sub = subAssemblyOf.get(panel.id);
+    if (!sub) {
+      steps.push(panelStep(panel, steps.length + 1));
+    } else if (!installed.has(sub.group.id)) {
+      installed.add(sub.group.id);
+      steps.push(groupStep(sub.group, sub.members, steps.length + 1));
+    }
+  }
+
+  return steps;
 }
 
 /**
@@ -1114,6 +1200,7 @@ function generatePracticalInstruction(
   thickness: number,
   assembledPanels: Panel[],
   idToLetter: Map<string, string>,
+  units: UnitSettings,
 ): string {
   const orientation = panel.orientation || "horizontal";
   const { globalMinX, globalMaxX, globalMinY, globalMaxY, globalWidth, globalHeight } = global;
@@ -1141,7 +1228,7 @@ function generatePracticalInstruction(
     }
     // Inner divider
     const distFromLeft = bounds.left - globalMinX;
-    return `Stand divider ${letterLabel} upright at ${Math.round(distFromLeft)}mm from the left side.${connText}`;
+    return `Stand divider ${letterLabel} upright at ${formatLength(distFromLeft, units, { showUnit: true })} from the left side.${connText}`;
   }
 
   // Horizontal panels (shelves)
@@ -1153,11 +1240,21 @@ function generatePracticalInstruction(
       return `Place the TOP panel (${letterLabel}) to complete the outer frame.${connText}`;
     }
     // Inner shelf
-    const heightFromBase = Math.round(bounds.bottom - globalMinY);
+    const heightFromBase = formatLength(bounds.bottom - globalMinY, units, { showUnit: true });
     if (isFullWidth) {
-      return `Insert shelf ${letterLabel} at ${heightFromBase}mm from the bottom, spanning the full width.${connText}`;
+      return `Insert shelf ${letterLabel} at ${heightFromBase} from the bottom, spanning the full width.${connText}`;
     }
-    return `Insert shelf ${letterLabel} at ${heightFromBase}mm height.${connText}`;
+    return `Insert shelf ${letterLabel} at ${heightFromBase} height.${connText}`;
+  }
+
+  // Doors and drawer fronts, once the carcass is square
+  if (panel.front?.type === "door") {
+    const hinge = panel.front.hinge || "left";
+    return `Hang door ${letterLabel} on hinges along its ${hinge.toUpperCase()} edge, then adjust the hinges until the gaps around it are even.`;
+  }
+  if (panel.front) {
+    const heightFromBase = formatLength(bounds.bottom - globalMinY, units, { showUnit: true });
+    return `Fit drawer front ${letterLabel} to the drawer at ${heightFromBase} from the bottom, with even gaps to the fronts around it.`;
   }
 
   // Back panel
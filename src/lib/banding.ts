@@ -0,0 +1,98 @@
+/**
+ * Edge Banding
+ *
+ * A project always has a default banding, described by the top-level
+ * Settings fields (edgeBandingPrice, edgeBandingThickness). Extra types
+ * live in `Settings.edgeBandingTypes`, and a panel picks one with
+ * `EdgeBanding.typeId`; panels without one, or whose type was removed,
+ * use the default.
+ *
+ * Panels are drawn at their finished size. Banding adds its thickness to
+ * each edge it goes on, so the piece is cut that much smaller (see
+ * getCutPanels in optimizer.ts).
+ */
+
+import type { EdgeBanding, EdgeBandingType, Panel, Settings } from "../types";
+
+export const DEFAULT_BANDING_ID = "default";
+
+export function getDefaultBandingType(settings: Settings): EdgeBandingType {
+  return {
+    id: DEFAULT_BANDING_ID,
+    name: "Edge banding",
+    thickness: settings.edgeBandingThickness ?? 0,
+    price: settings.edgeBandingPrice,
+  };
+}
+
+/**
+ * All banding types available to the project, default first.
+ */
+export function getBandingTypes(settings: Settings): EdgeBandingType[] {
+  return [getDefaultBandingType(settings), ...(settings.edgeBandingTypes || [])];
+}
+
+export function getBandingType(settings: Settings, typeId?: string): EdgeBandingType {
+  const type = typeId ? settings.edgeBandingTypes?.find((t) => t.id === typeId) : undefined;
+  return type || getDefaultBandingType(settings);
+}
+
+export function createBandingType(): EdgeBandingType {
+  return {
+    id: `banding_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name: "PVC 2mm",
+    thickness: 2,
+  };
+}
+
+export function isBanded(edgeBanding?: EdgeBanding): edgeBanding is EdgeBanding {
+  return !!edgeBanding && (edgeBanding.top || edgeBanding.bottom || edgeBanding.left || edgeBanding.right);
+}
+
+/**
+ * How many of the edges running along the panel (top, bottom) and across
+ * it (left, right) are banded.
+ */
+export function countBandedEdges(edgeBanding: EdgeBanding): { along: number; across: number } {
+  return {
+    along: (edgeBanding.top ? 1 : 0) + (edgeBanding.bottom ? 1 : 0),
+    across: (edgeBanding.left ? 1 : 0) + (edgeBanding.right ? 1 : 0),
+  };
+}
+
+export interface BandingUsage {
+  type: EdgeBandingType;
+  meters: number;
+  cost: number; // 0 when the type has no price
+}
+
+/**
+ * Meters of each banding type on the design, counting every copy of a
+ * panel, in type order. Lengths are the finished edge lengths.
+ */
+export function calculateBandingUsage(panels: Panel[], settings: Settings): BandingUsage[] {
+  const lengths = new Map<string, number>();
+  for (const panel of panels) {
+    if (!isBanded(panel.edgeBanding)) continue;
+    const orientation = panel.orientation || "horizontal";
+    const depth = panel.depth || settings.furnitureDepth || 400;
+    const alongLength = orientation === "vertical" ? panel.height : panel.width;
+    const acrossLength = orientation === "back" ? panel.height : depth;
+    const { along, across } = countBandedEdges(panel.edgeBanding);
+
+    const typeId = getBandingType(settings, panel.edgeBanding.typeId).id;
+    const length = (along * alongLength + across * acrossLength) * (panel.quantity || 1);
+    lengths.set(typeId, (lengths.get(typeId) || 0) + length);
+  }
+
+  return getBandingTypes(settings)
+    .filter((type) => lengths.has(type.id))
+    .map((type) => {
+      const meters = lengths.get(type.id)! / 1000;
+      return { type, meters, cost: meters * (type.price || 0) };
+    });
+}
+
+export function getBandingCost(usage: BandingUsage[]): number {
+  return usage.reduce((sum, u) => sum + u.cost, 0);
+}
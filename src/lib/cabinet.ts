@@ -0,0 +1,158 @@
+/**
+ * Cabinet Generator
+ *
+ * Builds the panels of a basic carcass — sides, top, bottom, shelves, back
+ * and plinth — from its outer dimensions. Positions follow the canvas
+ * conventions: x is the left edge, y the bottom edge (Y up), and the
+ * carcass stands with its front on the furniture's front face.
+ *
+ * Construction styles:
+ * - "sides_over_top": sides run the full height, top and bottom fit between them
+ * - "top_over_sides": top and bottom run the full width, sides fit between them
+ */
+
+import type { Panel } from "../types";
+
+export type CabinetType = "bookcase" | "base_cabinet" | "wall_cabinet" | "wardrobe" | "drawer_unit";
+
+export type CarcassConstruction = "sides_over_top" | "top_over_sides";
+
+// "inset" fits between sides, top and bottom; "overlay" covers the whole back
+export type BackPanelType = "none" | "inset" | "overlay";
+
+export interface CabinetOptions {
+  type: CabinetType;
+  width: number; // Outer size, mm
+  height: number;
+  depth: number;
+  shelfCount: number; // Drawer count for a drawer unit
+  construction: CarcassConstruction;
+  back: BackPanelType;
+  plinthHeight: number; // 0 = no plinth
+}
+
+export type CabinetPanel = Omit<Panel, "id">;
+
+export const CABINET_PRESETS: Record<CabinetType, { name: string; description: string; defaults: Omit<CabinetOptions, "type"> }> = {
+  bookcase: {
+    name: "Bookcase",
+    description: "Open shelves, full-height sides",
+    defaults: { width: 800, height: 1800, depth: 300, shelfCount: 4, construction: "sides_over_top", back: "overlay", plinthHeight: 0 },
+  },
+  base_cabinet: {
+    name: "Base Cabinet",
+    description: "Floor unit on a plinth",
+    defaults: { width: 600, height: 870, depth: 560, shelfCount: 1, construction: "sides_over_top", back: "inset", plinthHeight: 100 },
+  },
+  wall_cabinet: {
+    name: "Wall Cabinet",
+    description: "Shallow hanging unit",
+    defaults: { width: 600, height: 720, depth: 320, shelfCount: 2, construction: "top_over_sides", back: "inset", plinthHeight: 0 },
+  },
+  wardrobe: {
+    name: "Wardrobe",
+    description: "Hanging space under a hat shelf",
+    defaults: { width: 1000, height: 2100, depth: 600, shelfCount: 1, construction: "sides_over_top", back: "overlay", plinthHeight: 80 },
+  },
+  drawer_unit: {
+    name: "Drawer Unit",
+    description: "Carcass divided into drawer openings",
+    defaults: { width: 500, height: 720, depth: 500, shelfCount: 3, construction: "sides_over_top", back: "inset", plinthHeight: 80 },
+  },
+};
+
+// Wardrobe shelves stack under the top at this spacing, leaving hanging space below
+const WARDROBE_SHELF_SPACING = 350;
+
+/**
+ * Generate the panels for a carcass with its bottom-left corner at
+ * (x, y). Every panel gets an explicit depth; shelves and dividers sit in
+ * front of an inset back.
+ */
+export function generateCabinet(options: CabinetOptions, thickness: number, x = 0, y = 0): CabinetPanel[] {
+  const { type, width: W, height: H, depth: D, construction, back } = options;
+  const T = thickness;
+  const P = Math.max(0, options.plinthHeight);
+  const shelfCount = Math.max(0, Math.floor(options.shelfCount));
+
+  // An overlay back sits behind the carcass, inside the outer depth
+  const carcassDepth = back === "overlay" ? D - T : D;
+  const innerDepth = back === "inset" ? carcassDepth - T : carcassDepth;
+
+  // Interior opening, between sides and between bottom and top
+  const innerBottom = P + T;
+  const innerTop = H - T;
+  const innerWidth = W - 2 * T;
+
+  const panels: CabinetPanel[] = [];
+  // Everything is flush with the front; backs get an explicit z so they sit
+  // at the back of this carcass whatever the furniture depth
+  const add = (panel: Omit<CabinetPanel, "quantity">) =>
+    panels.push({ ...panel, x: x + panel.x, y: y + panel.y, quantity: 1 });
+
+  if (construction === "sides_over_top") {
+    add({ label: "Left side", orientation: "vertical", x: 0, y: 0, width: carcassDepth, height: H, depth: carcassDepth });
+    add({ label: "Right side", orientation: "vertical", x: W - T, y: 0, width: carcassDepth, height: H, depth: carcassDepth });
+    add({ label: "Bottom", orientation: "horizontal", x: T, y: P, width: innerWidth, height: carcassDepth, depth: carcassDepth });
+    add({ label: "Top", orientation: "horizontal", x: T, y: H - T, width: innerWidth, height: carcassDepth, depth: carcassDepth });
+  } else {
+    add({ label: "Bottom", orientation: "horizontal", x: 0, y: P, width: W, height: carcassDepth, depth: carcassDepth });
+    add({ label: "Left side", orientation: "vertical", x: 0, y: innerBottom, width: carcassDepth, height: innerTop - innerBottom, depth: carcassDepth });
+    add({ label: "Right side", orientation: "vertical", x: W - T, y: innerBottom, width: carcassDepth, height: innerTop - innerBottom, depth: carcassDepth });
+    add({ label: "Top", orientation: "horizontal", x: 0, y: H - T, width: W, height: carcassDepth, depth: carcassDepth });
+  }
+
+  // Shelves (or drawer dividers) across the interior
+  const shelfLabel = type === "drawer_unit" ? "Drawer divider" : "Shelf";
+  const count = type === "drawer_unit" ? Math.max(0, shelfCount - 1) : shelfCount;
+  const shelfYs: number[] = [];
+  if (type === "wardrobe") {
+    for (let i = 0; i < count; i++) {
+      const shelfY = innerTop - WARDROBE_SHELF_SPACING * (i + 1);
+      if (shelfY <= innerBottom) break;
+      shelfYs.push(shelfY);
+    }
+  } else {
+    const gap = (innerTop - innerBottom - count * T) / (count + 1);
+    for (let i = 0; i < count; i++) {
+      shelfYs.push(innerBottom + gap * (i + 1) + T * i);
+    }
+  }
+  shelfYs.forEach((shelfY, i) =>
+    add({
+      label: `${shelfLabel} ${i + 1}`,
+      orientation: "horizontal",
+      x: T,
+      y: Math.round(shelfY * 10) / 10,
+      width: innerWidth,
+      height: innerDepth,
+      depth: innerDepth,
+    }),
+  );
+
+  if (back === "inset") {
+    add({ label: "Back", orientation: "back", z: D - T, x: T, y: innerBottom, width: innerWidth, height: innerTop - innerBottom });
+  } else if (back === "overlay") {
+    add({ label: "Back", orientation: "back", z: D - T, x: 0, y: P, width: W, height: H - P });
+  }
+
+  // Kick board under the bottom, between the sides when they reach the floor
+  if (P > 0) {
+    const between = construction === "sides_over_top";
+    add({ label: "Plinth", orientation: "back", z: 0, x: between ? T : 0, y: 0, width: between ? innerWidth : W, height: P });
+  }
+
+  return panels;
+}
+
+/**
+ * Why a set of options can't produce a carcass, or null if it can.
+ */
+export function validateCabinet(options: CabinetOptions, thickness: number): string | null {
+  const T = thickness;
+  if (options.width <= 2 * T + 10) return "Too narrow for its sides";
+  if (options.depth <= 2 * T) return "Too shallow";
+  if (options.height - options.plinthHeight <= 2 * T + 10) return "Too low for top, bottom and plinth";
+  if (options.plinthHeight < 0) return "Plinth can't be negative";
+  return null;
+}
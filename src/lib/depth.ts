@@ -0,0 +1,77 @@
+/**
+ * Depth Position
+ *
+ * Where a panel sits front to back. `Panel.z` is the distance from the
+ * furniture's front face back to the panel's front face, in mm. A panel
+ * without one sits in the default spot for its orientation: shelves and
+ * dividers flush with the front, back panels flush with the back.
+ *
+ * Front, center and back are presets that work out a z for the panel's
+ * current depth; once set, the offset stays put if the depth changes.
+ */
+
+import type { Panel, Settings, ZAlignment } from "../types";
+import { getPanelThickness } from "./materials";
+
+export const Z_PRESETS: { id: ZAlignment; label: string }[] = [
+  { id: "front", label: "Front" },
+  { id: "center", label: "Center" },
+  { id: "back", label: "Back" },
+];
+
+export const getFurnitureDepth = (settings: Settings) => settings.furnitureDepth || 400;
+
+/**
+ * The z that puts a panel of the given depth at a preset position.
+ */
+export function getZPresetOffset(preset: ZAlignment, depth: number, furnitureDepth: number): number {
+  switch (preset) {
+    case "back":
+      return furnitureDepth - depth;
+    case "center":
+      return (furnitureDepth - depth) / 2;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * A panel's extent front to back: z is its front face and depth its size
+ * along Z (a back panel's thickness).
+ */
+export function getZRange(panel: Panel, thickness: number, furnitureDepth: number): { z: number; depth: number } {
+  const isBack = panel.orientation === "back";
+  const depth = isBack ? thickness : panel.depth || furnitureDepth;
+  const z = panel.z ?? getZPresetOffset(isBack ? "back" : "front", depth, furnitureDepth);
+  return { z, depth };
+}
+
+export function getPanelZRange(panel: Panel, settings: Settings): { z: number; depth: number } {
+  return getZRange(panel, getPanelThickness(panel, settings), getFurnitureDepth(settings));
+}
+
+/**
+ * The preset a panel currently sits at, if any.
+ */
+export function getMatchingZPreset(panel: Panel, settings: Settings): ZAlignment | null {
+  const { z, depth } = getPanelZRange(panel, settings);
+  const furnitureDepth = getFurnitureDepth(settings);
+  return Z_PRESETS.find((p) => Math.abs(getZPresetOffset(p.id, depth, furnitureDepth) - z) < 0.05)?.id ?? null;
+}
+
+/**
+ * Turn the old `zAlign` field into a z offset. Panels at their
+ * orientation's default position are left without one.
+ */
+export function migratePanelZ(panel: Panel & { zAlign?: ZAlignment }, settings: Settings): Panel {
+  if (!("zAlign" in panel)) return panel;
+  const { zAlign, ...rest } = panel;
+  const isBack = panel.orientation === "back";
+  // Back panels only ever moved off the back when aligned to the front
+  if (!zAlign || rest.z !== undefined || zAlign === (isBack ? "back" : "front") || (isBack && zAlign === "center")) {
+    return rest;
+  }
+
+  const { depth } = getPanelZRange(rest, settings);
+  return { ...rest, z: getZPresetOffset(zAlign, depth, getFurnitureDepth(settings)) };
+}
@@ -0,0 +1,226 @@
+/**
+ * Drawer Box Generator
+ *
+ * Sizes the boxes for a stack of drawers in an opening framed by the
+ * selected panels. The slide decides how much room the box gives up: each
+ * slide type has its clearance at the sides, above, below and behind the
+ * box, and metal slides only come in fixed lengths.
+ *
+ * Each box has two full-depth sides, a front and back between them, and a
+ * bottom let into a groove all round; the bottom's size includes the
+ * groove allowance so it can be cut straight from the cut list. Boxes
+ * start flush with the opening's front, where a drawer front is screwed on.
+ * Metal slides are attached to each box's left side as hardware.
+ */
+
+import type { Panel, Settings } from "../types";
+import { getPanelZRange } from "./depth";
+import type { Opening } from "./fronts";
+import { getMaterial } from "./materials";
+import { formatLength } from "./units";
+
+export type SlideType = "side_mount" | "undermount" | "wooden_runners";
+
+export interface SlideSpec {
+  name: string;
+  description: string;
+  sideClearance: number; // Each side, mm
+  topClearance: number;
+  bottomClearance: number;
+  rearClearance: number; // Between the box and the back of the opening
+  bottomOffset: number; // Groove for the bottom, up from the box's lower edge
+  lengthStep: number; // Slide lengths come in these steps; 0 = any length
+  hardwareId?: string; // Catalog item for a pair of these slides
+}
+
+export const SLIDE_TYPES: Record<SlideType, SlideSpec> = {
+  side_mount: {
+    name: "Side-mount",
+    description: "Ball bearing, 12.7mm each side",
+    sideClearance: 12.7,
+    topClearance: 10,
+    bottomClearance: 10,
+    rearClearance: 10,
+    bottomOffset: 10,
+    lengthStep: 50,
+    hardwareId: "slide_side_mount",
+  },
+  undermount: {
+    name: "Undermount",
+    description: "Concealed under a raised bottom",
+    sideClearance: 5,
+    topClearance: 6,
+    bottomClearance: 14,
+    rearClearance: 10,
+    bottomOffset: 13,
+    lengthStep: 50,
+    hardwareId: "slide_undermount",
+  },
+  wooden_runners: {
+    name: "Wooden runners",
+    description: "Box slides on the rail below",
+    sideClearance: 1,
+    topClearance: 3,
+    bottomClearance: 0,
+    rearClearance: 5,
+    bottomOffset: 10,
+    lengthStep: 0,
+  },
+};
+
+// Shortest slide sold, mm
+const MIN_SLIDE_LENGTH = 250;
+
+// Smallest box worth making, mm
+const MIN_BOX_HEIGHT = 40;
+const MIN_BOX_DEPTH = 100;
+
+export interface DrawerBoxOptions {
+  slide: SlideType;
+  count: number; // Drawers stacked in the opening
+  slideLength?: number; // Box depth; longest that fits when unset
+  grooveDepth: number; // How far the bottom goes into the sides, front and back
+  boxMaterialId?: string; // Default material when unset
+  bottomMaterialId?: string;
+}
+
+export const DEFAULT_DRAWER_BOX_OPTIONS: DrawerBoxOptions = {
+  slide: "side_mount",
+  count: 1,
+  grooveDepth: 6,
+};
+
+export type DrawerBoxPanel = Omit<Panel, "id">;
+
+/**
+ * How deep the opening framed by a set of panels is: from the front to
+ * the nearest back panel, or to the shallowest side, top or bottom when
+ * there's no back among them.
+ */
+export function getOpeningDepth(panels: Panel[], settings: Settings): number {
+  const backs = panels.filter((p) => p.orientation === "back" && !p.front);
+  if (backs.length > 0) {
+    return Math.min(...backs.map((p) => getPanelZRange(p, settings).z));
+  }
+  const frame = panels.filter((p) => p.orientation !== "back");
+  if (frame.length === 0) return 0;
+  return Math.min(
+    ...frame.map((p) => {
+      const { z, depth } = getPanelZRange(p, settings);
+      return z + depth;
+    }),
+  );
+}
+
+/**
+ * Slide lengths that fit an opening of the given depth, longest first.
+ * Empty for slides that can be any length.
+ */
+export function getSlideLengths(slide: SlideType, openingDepth: number): number[] {
+  const { lengthStep, rearClearance } = SLIDE_TYPES[slide];
+  if (lengthStep === 0) return [];
+  const lengths: number[] = [];
+  for (let length = MIN_SLIDE_LENGTH; length <= openingDepth - rearClearance; length += lengthStep) {
+    lengths.unshift(length);
+  }
+  return lengths;
+}
+
+/**
+ * Depth of the boxes: the chosen slide length, or the longest one that
+ * fits.
+ */
+export function getBoxDepth(openingDepth: number, options: DrawerBoxOptions): number {
+  const spec = SLIDE_TYPES[options.slide];
+  if (spec.lengthStep === 0) return Math.max(0, openingDepth - spec.rearClearance);
+  const lengths = getSlideLengths(options.slide, openingDepth);
+  if (options.slideLength && lengths.includes(options.slideLength)) return options.slideLength;
+  return lengths[0] ?? 0;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Generate the panels of every drawer box in the opening, numbered from
+ * the top like the drawer fronts.
+ */
+export function generateDrawerBoxes(
+  opening: Opening,
+  openingDepth: number,
+  options: DrawerBoxOptions,
+  settings: Settings,
+): DrawerBoxPanel[] {
+  const spec = SLIDE_TYPES[options.slide];
+  const T = getMaterial(settings, options.boxMaterialId).thickness;
+  const g = options.grooveDepth;
+  const count = Math.max(1, Math.floor(options.count));
+
+  const depth = getBoxDepth(openingDepth, options);
+  const width = opening.width - 2 * spec.sideClearance;
+  const slot = opening.height / count;
+  const height = slot - spec.topClearance - spec.bottomClearance;
+  const x = opening.x + spec.sideClearance;
+
+  const panels: DrawerBoxPanel[] = [];
+  const add = (panel: Omit<DrawerBoxPanel, "quantity">) =>
+    panels.push({
+      ...panel,
+      x: round(panel.x),
+      y: round(panel.y),
+      width: round(panel.width),
+      height: round(panel.height),
+      quantity: 1,
+    });
+
+  for (let i = 0; i < count; i++) {
+    const name = `Drawer ${count - i}`;
+    const y = opening.y + i * slot + spec.bottomClearance;
+    const box = options.boxMaterialId ? { materialId: options.boxMaterialId } : {};
+
+    const slides = spec.hardwareId ? { hardware: [{ itemId: spec.hardwareId, quantity: 1 }] } : {};
+
+    add({ ...box, ...slides, label: `${name} left side`, orientation: "vertical", x, y, width: depth, height, depth, z: 0 });
+    add({ ...box, label: `${name} right side`, orientation: "vertical", x: x + width - T, y, width: depth, height, depth, z: 0 });
+    add({ ...box, label: `${name} box front`, orientation: "back", x: x + T, y, width: width - 2 * T, height, z: 0 });
+    add({ ...box, label: `${name} box back`, orientation: "back", x: x + T, y, width: width - 2 * T, height, z: depth - T });
+    // Bottom reaches into the groove on all four sides
+    add({
+      ...(options.bottomMaterialId ? { materialId: options.bottomMaterialId } : {}),
+      label: `${name} bottom`,
+      orientation: "horizontal",
+      x: x + T - g,
+      y: y + spec.bottomOffset,
+      width: width - 2 * T + 2 * g,
+      height: depth - 2 * T + 2 * g,
+      depth: round(depth - 2 * T + 2 * g),
+      z: T - g,
+    });
+  }
+
+  return panels;
+}
+
+/**
+ * Why boxes can't be made for an opening, or null if they can.
+ */
+export function validateDrawerBoxes(
+  opening: Opening,
+  openingDepth: number,
+  options: DrawerBoxOptions,
+  settings: Settings,
+): string | null {
+  const spec = SLIDE_TYPES[options.slide];
+  const T = getMaterial(settings, options.boxMaterialId).thickness;
+  if (opening.width <= 0 || opening.height <= 0) return "The selected panels don't frame an opening";
+  if (options.grooveDepth < 0 || options.grooveDepth >= T) return "Groove must be less deep than the box sides are thick";
+  if (opening.width - 2 * spec.sideClearance <= 2 * T + 10) return "Opening is too narrow for the slides";
+  if (opening.height / Math.max(1, options.count) - spec.topClearance - spec.bottomClearance < MIN_BOX_HEIGHT) {
+    return "Opening is too low for that many drawers";
+  }
+  if (getBoxDepth(openingDepth, options) < Math.max(MIN_BOX_DEPTH, 2 * T + 10)) {
+    return spec.lengthStep > 0
+      ? `Opening is too shallow for a ${formatLength(MIN_SLIDE_LENGTH, settings, { showUnit: true })} slide`
+      : "Opening is too shallow for a drawer";
+  }
+  return null;
+}
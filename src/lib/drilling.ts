@@ -0,0 +1,296 @@
+/**
+ * Drilling Plans
+ *
+ * Where each part is drilled, worked out from the design:
+ *
+ * - adjustable shelves put rows of shelf-pin holes on the 32mm system into
+ *   the sides they sit between, up and down to the nearest fixed panels
+ * - cam locks and confirmats on a joint (`JointSpec.hardware`) and dowel
+ *   joinery put face holes in one panel and edge bores in the other
+ * - doors get a hinge cup for every hinge attached to them
+ *
+ * Hole centres are measured on the part's face as laid out in features.ts,
+ * at cut size: on a panel lengthened for a dado they move with the end.
+ */
+
+import type { FeatureEdge, JointSpec, Panel, PanelOrientation, Settings } from "../types";
+import { detectJointsForPanel } from "./assembly";
+import { getFaceEdgeName, type FaceSize } from "./features";
+import { getHardwareItem } from "./hardware";
+import {
+  applyJoinery,
+  DOWEL_DIAMETER,
+  DOWEL_SPACING,
+  getFixingCount,
+  getJointEnd,
+  getPanelBox,
+  SIDE_NAMES,
+  THICKNESS_AXIS,
+  type Axis,
+  type Box,
+  type JointEnd,
+} from "./joinery";
+
+export type DrillHoleKind = "shelf_pin" | "cam_housing" | "cam_bolt" | "confirmat" | "dowel" | "hinge_cup";
+
+export const DRILL_HOLE_NAMES: Record<DrillHoleKind, string> = {
+  shelf_pin: "Shelf pin",
+  cam_housing: "Cam housing",
+  cam_bolt: "Cam bolt",
+  confirmat: "Confirmat",
+  dowel: "Dowel",
+  hinge_cup: "Hinge cup",
+};
+
+// 32mm system: holes on a 32mm pitch, rows 37mm in from the front and back
+const SYSTEM_PITCH = 32;
+const SYSTEM_INSET = 37;
+const SHELF_PIN = { diameter: 5, depth: 10 };
+
+// 15mm cam locks: housing in one panel's face, bolt screwed into the other
+// panel's face and reaching the housing through a bore in the end
+const CAM_HOUSING = { diameter: 15, depth: 13 };
+const CAM_DISTANCE = 24; // Housing centre from the panel's end
+const CAM_BOLT = { diameter: 5, depth: 11 };
+const CAM_BOLT_BORE = { diameter: 8, depth: 34 };
+
+const CONFIRMAT_LENGTH = 50;
+const CONFIRMAT_CLEARANCE = 7; // Through the face panel
+const CONFIRMAT_PILOT = 5; // Into the end of the other
+
+const DOWEL_FACE_DEPTH = 12;
+const DOWEL_END_DEPTH = 25;
+
+// 35mm cups, centred 22.5mm in from the hinged edge
+const HINGE_CUP = { diameter: 35, depth: 13 };
+const HINGE_CUP_DISTANCE = 22.5;
+const HINGE_INSET = 100; // Top and bottom hinge from the door's ends
+
+export interface DrillHole {
+  kind: DrillHoleKind;
+  x: number; // Centre on the face, mm
+  y: number;
+  diameter: number;
+  depth: number; // 0 = through
+  surface: string; // Drilled from here, e.g. "right face" or "front edge"
+  edge?: FeatureEdge; // Bored into this edge of the face rather than the face itself
+}
+
+export interface DrillingPlan {
+  panel: Panel; // At cut size
+  face: FaceSize;
+  holes: DrillHole[];
+}
+
+// The face's horizontal and vertical axis, see features.ts
+const FACE_AXES: Record<PanelOrientation, [Axis, Axis]> = {
+  back: ["x", "y"],
+  horizontal: ["x", "z"],
+  vertical: ["z", "y"],
+};
+
+type Point = Record<Axis, number>;
+type HoleSpec = Omit<DrillHole, "x" | "y">;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const orientationOf = (panel: Panel) => panel.orientation || "horizontal";
+
+function getFace(box: Box, orientation: PanelOrientation): FaceSize {
+  const [u, v] = FACE_AXES[orientation];
+  return { width: box[u][1] - box[u][0], height: box[v][1] - box[v][0] };
+}
+
+function getFaceName(panel: Panel, side: 0 | 1): string {
+  return `${SIDE_NAMES[THICKNESS_AXIS[orientationOf(panel)]][side]} face`;
+}
+
+// The edge of the face at a panel's low or high end along an axis
+function getEndEdge(orientation: PanelOrientation, axis: Axis, end: 0 | 1): FeatureEdge {
+  if (axis === FACE_AXES[orientation][0]) return end ? "right" : "left";
+  return end ? "top" : "bottom";
+}
+
+/**
+ * Centres of `count` fixings along a line, the outer two `inset` in from
+ * its ends and the rest evenly between.
+ */
+function getPositions(start: number, length: number, count: number, inset: number): number[] {
+  if (count <= 1) return [start + length / 2];
+  const margin = Math.min(inset, length / 4);
+  const step = (length - 2 * margin) / (count - 1);
+  return Array.from({ length: count }, (_, i) => start + margin + i * step);
+}
+
+function countHardware(joint: JointSpec, category: string, settings: Settings): number {
+  return (joint.hardware || [])
+    .filter((a) => getHardwareItem(settings, a.itemId)?.category === category)
+    .reduce((sum, a) => sum + a.quantity, 0);
+}
+
+/**
+ * Drilling plans for every part with holes, in design order.
+ */
+export function generateDrillingPlans(panels: Panel[], joints: JointSpec[], settings: Settings): DrillingPlan[] {
+  const cutPanels = applyJoinery(panels, joints, settings);
+  const cutBoxes = new Map(cutPanels.map((p) => [p.id, getPanelBox(p, settings)]));
+  const holes = new Map<string, DrillHole[]>();
+
+  const add = (panel: Panel, point: Point, spec: HoleSpec) => {
+    const box = cutBoxes.get(panel.id)!;
+    const [u, v] = FACE_AXES[orientationOf(panel)];
+    const x = round(point[u] - box[u][0]);
+    const y = round(point[v] - box[v][0]);
+    const list = holes.get(panel.id) || [];
+    const taken = list.some((h) => h.surface === spec.surface && Math.abs(h.x - x) < 1 && Math.abs(h.y - y) < 1);
+    if (!taken) list.push({ ...spec, x, y });
+    holes.set(panel.id, list);
+  };
+
+  // Shelf-pin rows in the sides each adjustable shelf sits between
+  const verticals = panels.filter((p) => p.orientation === "vertical");
+  for (const shelf of panels) {
+    if (!shelf.adjustable || orientationOf(shelf) !== "horizontal") continue;
+    const shelfBox = getPanelBox(shelf, settings);
+    for (const joint of detectJointsForPanel(shelf, verticals, settings.thickness, settings.furnitureDepth || 400)) {
+      const side = verticals.find((p) => p.id === joint.panelBId)!;
+      const jointEnd = getJointEnd(shelf, side, settings);
+      if (jointEnd?.inner.id !== shelf.id) continue;
+
+      // Rows run between the fixed panels housed in the side below and above
+      const sideBox = getPanelBox(side, settings);
+      let low = sideBox.y[0];
+      let high = sideBox.y[1];
+      for (const other of panels) {
+        if (other === shelf || other.adjustable || orientationOf(other) !== "horizontal") continue;
+        if (getJointEnd(other, side, settings)?.inner.id !== other.id) continue;
+        const [y1, y2] = getPanelBox(other, settings).y;
+        if (y2 <= shelfBox.y[0]) low = Math.max(low, y2);
+        else if (y1 >= shelfBox.y[1]) high = Math.min(high, y1);
+      }
+
+      // Pins sit just under the shelf; the rest of the row follows the pitch
+      const anchor = shelfBox.y[0] - SHELF_PIN.diameter / 2;
+      const first = anchor - Math.floor((anchor - low - SYSTEM_PITCH) / SYSTEM_PITCH) * SYSTEM_PITCH;
+      const facing = jointEnd.end === 1 ? 0 : 1;
+      const spec: HoleSpec = { kind: "shelf_pin", ...SHELF_PIN, surface: getFaceName(side, facing) };
+      for (let y = first; y <= high - SYSTEM_PITCH; y += SYSTEM_PITCH) {
+        for (const z of [shelfBox.z[0] + SYSTEM_INSET, shelfBox.z[1] - SYSTEM_INSET]) {
+          add(side, { x: sideBox.x[facing], y, z }, spec);
+        }
+      }
+    }
+  }
+
+  // Connectors and dowels: face holes in the outer panel, bores in the inner one's end
+  const addJointHoles = (jointEnd: JointEnd, count: number, kind: "cam" | "confirmat" | "dowel") => {
+    const { inner, outer, axis, end, lineAxis, lineStart, length, outerThickness } = jointEnd;
+    const innerOrientation = orientationOf(inner);
+    const innerAxis = THICKNESS_AXIS[innerOrientation];
+    const innerBox = getPanelBox(inner, settings);
+    const middle = (innerBox[innerAxis][0] + innerBox[innerAxis][1]) / 2;
+    const endAt = innerBox[axis][end];
+    const edge = getEndEdge(innerOrientation, axis, end);
+    const endSurface = `${getFaceEdgeName(innerOrientation, edge)} edge`;
+    const insideFace = getFaceName(outer, end === 1 ? 0 : 1);
+
+    for (const along of getPositions(lineStart, length, count, SYSTEM_INSET)) {
+      const at = (position: number) => ({ [axis]: position, [innerAxis]: middle, [lineAxis]: along }) as Point;
+      switch (kind) {
+        case "cam":
+          add(outer, at(endAt), { kind: "cam_bolt", ...CAM_BOLT, surface: insideFace });
+          add(inner, at(endAt), { kind: "cam_bolt", ...CAM_BOLT_BORE, surface: endSurface, edge });
+          add(inner, at(endAt + (end ? -CAM_DISTANCE : CAM_DISTANCE)), {
+            kind: "cam_housing",
+            ...CAM_HOUSING,
+            surface: getFaceName(inner, 0),
+          });
+          break;
+        case "confirmat":
+          // Drilled through from the outside
+          add(outer, at(endAt), { kind: "confirmat", diameter: CONFIRMAT_CLEARANCE, depth: 0, surface: getFaceName(outer, end) });
+          add(inner, at(endAt), {
+            kind: "confirmat",
+            diameter: CONFIRMAT_PILOT,
+            depth: CONFIRMAT_LENGTH - outerThickness + 3,
+            surface: endSurface,
+            edge,
+          });
+          break;
+        case "dowel":
+          add(outer, at(endAt), {
+            kind: "dowel",
+            diameter: DOWEL_DIAMETER,
+            depth: Math.min(DOWEL_FACE_DEPTH, Math.round((outerThickness * 2) / 3)),
+            surface: insideFace,
+          });
+          add(inner, at(endAt), { kind: "dowel", diameter: DOWEL_DIAMETER, depth: DOWEL_END_DEPTH, surface: endSurface, edge });
+          break;
+      }
+    }
+  };
+
+  const byId = new Map(panels.map((p) => [p.id, p]));
+  for (const joint of joints) {
+    const [a, b] = joint.panelIds.map((id) => byId.get(id));
+    if (!a || !b) continue;
+    const jointEnd = getJointEnd(a, b, settings);
+    if (!jointEnd) continue;
+    const cams = countHardware(joint, "cam_lock", settings);
+    const confirmats = countHardware(joint, "confirmat", settings);
+    if (cams > 0) addJointHoles(jointEnd, cams, "cam");
+    if (confirmats > 0) addJointHoles(jointEnd, confirmats, "confirmat");
+    if (joint.joinery?.type === "dowel") addJointHoles(jointEnd, getFixingCount(jointEnd.length, DOWEL_SPACING), "dowel");
+  }
+
+  // Hinge cups on the inside of each door, along the hinged edge
+  for (const door of panels) {
+    if (door.front?.type !== "door") continue;
+    const hinges = (door.hardware || [])
+      .filter((a) => getHardwareItem(settings, a.itemId)?.category === "hinge")
+      .reduce((sum, a) => sum + a.quantity, 0);
+    if (hinges === 0) continue;
+    const box = getPanelBox(door, settings);
+    const x = door.front.hinge === "right" ? box.x[1] - HINGE_CUP_DISTANCE : box.x[0] + HINGE_CUP_DISTANCE;
+    const inside = THICKNESS_AXIS[orientationOf(door)] === "z" ? 1 : 0;
+    for (const y of getPositions(box.y[0], box.y[1] - box.y[0], hinges, HINGE_INSET)) {
+      add(door, { x, y, z: box.z[inside] }, { kind: "hinge_cup", ...HINGE_CUP, surface: getFaceName(door, inside) });
+    }
+  }
+
+  return cutPanels
+    .filter((panel) => holes.has(panel.id))
+    .map((panel) => {
+      const face = getFace(cutBoxes.get(panel.id)!, orientationOf(panel));
+      // Bores into an end sit on the edge, wherever that ended up after cutting
+      const placed = holes.get(panel.id)!.map((hole) => {
+        if (hole.edge === "left" || hole.edge === "right") return { ...hole, x: hole.edge === "left" ? 0 : face.width };
+        if (hole.edge) return { ...hole, y: hole.edge === "bottom" ? 0 : face.height };
+        return hole;
+      });
+      return { panel, face, holes: placed };
+    });
+}
+
+export interface DrillHoleGroup {
+  kind: DrillHoleKind;
+  diameter: number;
+  depth: number;
+  surface: string;
+  count: number;
+}
+
+/**
+ * A part's holes added up by size and the surface they're drilled from,
+ * for the table under its drilling diagram.
+ */
+export function groupDrillHoles(holes: DrillHole[]): DrillHoleGroup[] {
+  const groups = new Map<string, DrillHoleGroup>();
+  for (const { kind, diameter, depth, surface } of holes) {
+    const key = [kind, diameter, depth, surface].join("|");
+    const group = groups.get(key) || { kind, diameter, depth, surface, count: 0 };
+    group.count++;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,91 @@
+/**
+ * Elevation Views
+ *
+ * The canvas edits panels in front view (X across, Y up). The side and top
+ * elevations show the same panels projected onto the other two planes, so
+ * depth and Z position can be edited the same way:
+ *
+ * - "side": Z across (the furniture's front on the left), Y up
+ * - "top":  X across, Z up (the furniture's front at the bottom)
+ *
+ * Z is measured from the furniture's front face. A projected panel is an
+ * ordinary Panel whose orientation is chosen so that its visible rectangle
+ * and resize handles match what can be edited in that view; edits made to
+ * it are mapped back onto the real panel with `unprojectUpdates`.
+ */
+
+import type { Panel, PanelOrientation, Settings } from "../types";
+import { getPanelZRange } from "./depth";
+
+export type ElevationView = "front" | "side" | "top";
+
+// labels: what the canvas x, y, width and height mean in each view
+export const ELEVATION_VIEWS: { id: ElevationView; name: string; key: string; labels: [string, string, string, string] }[] = [
+  { id: "front", name: "Front", key: "1", labels: ["x", "y", "w", "h"] },
+  { id: "side", name: "Side", key: "2", labels: ["z", "y", "d", "h"] },
+  { id: "top", name: "Top", key: "3", labels: ["x", "z", "w", "d"] },
+];
+
+// How each orientation looks edge-on in the side and top views
+const PROJECTED_ORIENTATION: Record<Exclude<ElevationView, "front">, Record<PanelOrientation, PanelOrientation>> = {
+  side: { horizontal: "horizontal", vertical: "back", back: "vertical" },
+  top: { horizontal: "back", vertical: "vertical", back: "horizontal" },
+};
+
+/**
+ * A panel as seen in a side or top elevation.
+ */
+export function projectPanel(panel: Panel, view: ElevationView, settings: Settings): Panel {
+  if (view === "front") return panel;
+  const orientation = panel.orientation || "horizontal";
+  const { z, depth } = getPanelZRange(panel, settings);
+
+  if (view === "side") {
+    return {
+      ...panel,
+      orientation: PROJECTED_ORIENTATION.side[orientation],
+      x: z,
+      width: depth,
+    };
+  }
+
+  return {
+    ...panel,
+    orientation: PROJECTED_ORIENTATION.top[orientation],
+    y: z,
+    // Shown across: a shelf or back's width. Shown up: the depth.
+    height: depth,
+  };
+}
+
+/**
+ * Map edits made to a projected panel back onto the real one. Changes to
+ * the edge-on thickness are dropped.
+ */
+export function unprojectUpdates(
+  panel: Panel,
+  updates: Partial<Panel>,
+  view: ElevationView,
+  settings: Settings,
+): Partial<Panel> {
+  if (view === "front") return updates;
+  const orientation = panel.orientation || "horizontal";
+  const current = getPanelZRange(panel, settings);
+  const { x, y, width, height, ...rest } = updates;
+  const result: Partial<Panel> = rest;
+
+  // Which projected fields carry Z, and which carry a real dimension
+  const zPosition = view === "side" ? x : y;
+  const zSize = view === "side" ? width : height;
+  if (view === "side") {
+    if (y !== undefined) result.y = y;
+    if (height !== undefined && orientation !== "horizontal") result.height = height;
+  } else {
+    if (x !== undefined) result.x = x;
+    if (width !== undefined && orientation !== "vertical") result.width = width;
+  }
+
+  if (orientation !== "back" && zSize !== undefined && zSize !== current.depth) result.depth = zSize;
+  if (zPosition !== undefined && zPosition !== current.z) result.z = zPosition;
+  return result;
+}
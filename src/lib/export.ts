@@ -1,4 +1,6 @@
-import type { DesignData } from "../types";
+import type { DesignData, LibraryComponent } from "../types";
+import { getCategoryName, type HardwareBOMLine } from "./hardware";
+import { formatLength, unitLabel, type UnitSettings } from "./units";
 
 export function exportToJSON(data: DesignData): void {
   const json = JSON.stringify(data, null, 2);
@@ -11,12 +13,44 @@ export function exportToJSON(data: DesignData): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * CSV lines for the hardware bill of materials, to go after a cut list:
+ * a blank line, a header, then one row per item. Prices are plain numbers.
+ */
+export function getHardwareCSVLines(hardware: HardwareBOMLine[]): string[] {
+  if (hardware.length === 0) return [];
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+  return [
+    "",
+    ["Item", "Category", "Qty", "Unit price", "Total"].join(","),
+    ...hardware.map(({ item, quantity, cost }) =>
+      [
+        quote(item.name),
+        getCategoryName(item.category),
+        quantity,
+        item.price ? item.price.toFixed(2) : "",
+        item.price ? cost.toFixed(2) : "",
+      ].join(","),
+    ),
+  ];
+}
+
 export function exportToCSV(
   pieces: { label: string; width: number; height: number; qty: number }[],
+  settings: UnitSettings,
+  hardware: HardwareBOMLine[] = [],
 ): void {
-  const headers = ["Label", "Width (mm)", "Height (mm)", "Quantity"];
-  const rows = pieces.map((p) => [p.label, p.width, p.height, p.qty].join(","));
-  const csv = [headers.join(","), ...rows].join("\n");
+  const unit = unitLabel(settings);
+  const headers = ["Label", `Width (${unit})`, `Height (${unit})`, "Quantity"];
+  const rows = pieces.map((p) =>
+    [
+      p.label,
+      formatLength(p.width, settings),
+      formatLength(p.height, settings),
+      p.qty,
+    ].join(","),
+  );
+  const csv = [headers.join(","), ...rows, ...getHardwareCSVLines(hardware)].join("\n");
 
   const blob = new Blob([csv], { type: "text/csv" });
   const url = URL.createObjectURL(blob);
@@ -50,3 +84,44 @@ export async function importFromJSON(file: File): Promise<DesignData> {
     reader.readAsText(file);
   });
 }
+
+// Library files hold components only, so they can be shared without a design
+const LIBRARY_FILE_VERSION = 1;
+
+export function exportLibraryToJSON(components: LibraryComponent[]): void {
+  const json = JSON.stringify({ version: LIBRARY_FILE_VERSION, components }, null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `craftcut-library-${Date.now()}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function importLibraryFromJSON(file: File): Promise<LibraryComponent[]> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const data = JSON.parse(e.target?.result as string);
+        // Basic validation
+        if (!data.version || !Array.isArray(data.components)) {
+          throw new Error("Invalid CraftCut library format");
+        }
+        const components = (data.components as LibraryComponent[]).filter(
+          (c) => c && typeof c.id === "string" && typeof c.name === "string" && Array.isArray(c.panels),
+        );
+        resolve(components.map((c) => ({ ...c, joints: c.joints || [], notes: c.notes || [] })));
+      } catch (err) {
+        reject(
+          new Error(
+            "Failed to parse file. Make sure it's a CraftCut library JSON file.",
+          ),
+        );
+      }
+    };
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsText(file);
+  });
+}
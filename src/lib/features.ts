@@ -0,0 +1,271 @@
+/**
+ * Cut Features
+ *
+ * Notches, cut-outs and holes on a panel. A feature is positioned on the
+ * panel's face - the side you see in the view where it isn't edge-on:
+ *
+ * - back panel: front view, width × height
+ * - shelf (horizontal): top view, width × depth, front edge at the bottom
+ * - side (vertical): side view, depth × height, front edge on the left
+ *
+ * Corner and edge notches are tied to their corner or edge, so they stay
+ * there when the panel is resized. Cut-outs and holes keep their offset
+ * from the face's bottom-left corner.
+ */
+
+import type { CutFeature, CutFeatureType, FeatureCorner, FeatureEdge, Panel, PanelOrientation, Settings } from "../types";
+import { formatLength, formatSize, type UnitSettings } from "./units";
+
+export const CUT_FEATURE_TYPES: { id: CutFeatureType; name: string }[] = [
+  { id: "corner_notch", name: "Corner notch" },
+  { id: "edge_notch", name: "Edge notch" },
+  { id: "cutout", name: "Cut-out" },
+  { id: "hole", name: "Hole" },
+];
+
+export const FEATURE_CORNERS: FeatureCorner[] = ["bottom-left", "bottom-right", "top-left", "top-right"];
+
+export const FEATURE_EDGES: FeatureEdge[] = ["bottom", "top", "left", "right"];
+
+// What each side of the face is on the finished piece of furniture
+const FACE_EDGE_NAMES: Record<PanelOrientation, Record<FeatureEdge, string>> = {
+  back: { bottom: "bottom", top: "top", left: "left", right: "right" },
+  horizontal: { bottom: "front", top: "back", left: "left", right: "right" },
+  vertical: { bottom: "bottom", top: "top", left: "front", right: "back" },
+};
+
+// Default size of a new grommet hole, mm
+const DEFAULT_HOLE_DIAMETER = 60;
+
+export interface FaceSize {
+  width: number;
+  height: number;
+}
+
+export interface FeatureRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type FeatureShape =
+  | ({ kind: "rect" } & FeatureRect)
+  | { kind: "circle"; cx: number; cy: number; r: number };
+
+/**
+ * Size of the face features are drawn on, see the module comment.
+ */
+export function getFaceSize(panel: Panel, furnitureDepth: number): FaceSize {
+  const depth = panel.depth || furnitureDepth;
+  switch (panel.orientation || "horizontal") {
+    case "vertical":
+      return { width: depth, height: panel.height };
+    case "back":
+      return { width: panel.width, height: panel.height };
+    default:
+      return { width: panel.width, height: depth };
+  }
+}
+
+export function getFaceEdgeName(orientation: PanelOrientation, edge: FeatureEdge): string {
+  return FACE_EDGE_NAMES[orientation][edge];
+}
+
+export function getFaceCornerName(orientation: PanelOrientation, corner: FeatureCorner): string {
+  const [vertical, horizontal] = corner.split("-") as [FeatureEdge, FeatureEdge];
+  return `${FACE_EDGE_NAMES[orientation][vertical]} ${FACE_EDGE_NAMES[orientation][horizontal]}`;
+}
+
+/**
+ * A new feature of the given type with a size that suits the face.
+ */
+export function createFeature(type: CutFeatureType, face: FaceSize): CutFeature {
+  const id = `feature_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  const small = Math.round(Math.min(face.width, face.height) / 4);
+  switch (type) {
+    case "corner_notch":
+      return { id, type, corner: "bottom-left", x: 0, y: 0, width: small, height: small };
+    case "edge_notch":
+      return { id, type, edge: "bottom", x: Math.round((face.width - 2 * small) / 2), y: 0, width: 2 * small, height: small };
+    case "hole": {
+      const diameter = Math.min(DEFAULT_HOLE_DIAMETER, small);
+      return { id, type, x: Math.round(face.width / 2), y: Math.round(face.height / 2), width: diameter, height: diameter };
+    }
+    default: {
+      const width = Math.round(face.width / 2);
+      const height = Math.round(face.height / 2);
+      return { id, type, x: Math.round((face.width - width) / 2), y: Math.round((face.height - height) / 2), width, height };
+    }
+  }
+}
+
+/**
+ * Bounding rectangle of a feature on the face, clipped to the face.
+ */
+export function getFeatureRect(feature: CutFeature, face: FaceSize): FeatureRect {
+  const width = Math.min(feature.width, face.width);
+  const height = Math.min(feature.height, face.height);
+  let x = feature.x;
+  let y = feature.y;
+
+  if (feature.type === "corner_notch") {
+    const corner = feature.corner || "bottom-left";
+    x = corner.endsWith("left") ? 0 : face.width - width;
+    y = corner.startsWith("bottom") ? 0 : face.height - height;
+  } else if (feature.type === "edge_notch") {
+    const edge = feature.edge || "bottom";
+    if (edge === "bottom" || edge === "top") y = edge === "bottom" ? 0 : face.height - height;
+    else x = edge === "left" ? 0 : face.width - width;
+  } else if (feature.type === "hole") {
+    // Stored by its centre
+    x = feature.x - width / 2;
+    y = feature.y - width / 2;
+    return { x, y, width, height: width };
+  }
+
+  return {
+    x: Math.max(0, Math.min(x, face.width - width)),
+    y: Math.max(0, Math.min(y, face.height - height)),
+    width,
+    height,
+  };
+}
+
+export function getFeatureShape(feature: CutFeature, face: FaceSize): FeatureShape {
+  const rect = getFeatureRect(feature, face);
+  if (feature.type === "hole") {
+    return { kind: "circle", cx: rect.x + rect.width / 2, cy: rect.y + rect.width / 2, r: rect.width / 2 };
+  }
+  return { kind: "rect", ...rect };
+}
+
+/**
+ * The face's outline with its corner and edge notches taken out, counter-
+ * clockwise from the bottom-left corner.
+ */
+export function getFaceOutline(features: CutFeature[], face: FaceSize): { x: number; y: number }[] {
+  const { width: W, height: H } = face;
+  const notches = features.filter((f) => f.type === "corner_notch" || f.type === "edge_notch");
+  const cornerRect = (corner: FeatureCorner) => {
+    const notch = notches.find((f) => f.type === "corner_notch" && (f.corner || "bottom-left") === corner);
+    return notch && getFeatureRect(notch, face);
+  };
+  const edgeRects = (edge: FeatureEdge) =>
+    notches.filter((f) => f.type === "edge_notch" && (f.edge || "bottom") === edge).map((f) => getFeatureRect(f, face));
+
+  const points: { x: number; y: number }[] = [];
+  const add = (...corners: [number, number][]) => corners.forEach(([x, y]) => points.push({ x, y }));
+
+  // Bottom edge, left to right
+  const bl = cornerRect("bottom-left");
+  if (bl) add([0, bl.height], [bl.width, bl.height], [bl.width, 0]);
+  else add([0, 0]);
+  edgeRects("bottom")
+    .sort((a, b) => a.x - b.x)
+    .forEach((r) => add([r.x, 0], [r.x, r.height], [r.x + r.width, r.height], [r.x + r.width, 0]));
+
+  // Right edge, bottom to top
+  const br = cornerRect("bottom-right");
+  if (br) add([W - br.width, 0], [W - br.width, br.height], [W, br.height]);
+  else add([W, 0]);
+  edgeRects("right")
+    .sort((a, b) => a.y - b.y)
+    .forEach((r) => add([W, r.y], [r.x, r.y], [r.x, r.y + r.height], [W, r.y + r.height]));
+
+  // Top edge, right to left
+  const tr = cornerRect("top-right");
+  if (tr) add([W, H - tr.height], [W - tr.width, H - tr.height], [W - tr.width, H]);
+  else add([W, H]);
+  edgeRects("top")
+    .sort((a, b) => b.x - a.x)
+    .forEach((r) => add([r.x + r.width, H], [r.x + r.width, r.y], [r.x, r.y], [r.x, H]));
+
+  // Left edge, top to bottom
+  const tl = cornerRect("top-left");
+  if (tl) add([tl.width, H], [tl.width, H - tl.height], [0, H - tl.height]);
+  else add([0, H]);
+  edgeRects("left")
+    .sort((a, b) => b.y - a.y)
+    .forEach((r) => add([0, r.y + r.height], [r.width, r.y + r.height], [r.width, r.y], [0, r.y]));
+
+  return points;
+}
+
+/**
+ * Cut-outs and holes: the features that leave the outline intact.
+ */
+export function getInteriorShapes(features: CutFeature[], face: FaceSize): FeatureShape[] {
+  return features
+    .filter((f) => f.type === "cutout" || f.type === "hole")
+    .map((f) => getFeatureShape(f, face));
+}
+
+/**
+ * Feature shapes on a piece as laid out in the cutting diagram (Y down).
+ * The optimizer lays pieces long side along the sheet, so the face is
+ * turned when it's taller than wide, and again if the piece was rotated.
+ */
+export function getPlacedFeatureShapes(
+  panel: Panel,
+  furnitureDepth: number,
+  placement: { width: number; height: number; rotated: boolean },
+): FeatureShape[] {
+  if (!panel.features?.length) return [];
+  const face = getFaceSize(panel, furnitureDepth);
+  const turned = face.width < face.height !== placement.rotated;
+
+  return panel.features.map((feature) => {
+    const shape = getFeatureShape(feature, face);
+    if (shape.kind === "circle") {
+      return turned
+        ? { ...shape, cx: shape.cy, cy: shape.cx }
+        : { ...shape, cy: placement.height - shape.cy };
+    }
+    return turned
+      ? { kind: "rect", x: shape.y, y: shape.x, width: shape.height, height: shape.width }
+      : { ...shape, y: placement.height - shape.y - shape.height };
+  });
+}
+
+/**
+ * Key that tells apart otherwise identical panels with different
+ * features. Empty for plain panels.
+ */
+export function getFeaturesKey(panel: Panel): string {
+  if (!panel.features?.length) return "";
+  return panel.features
+    .map((f) => [f.type, f.corner || f.edge || "", f.x, f.y, f.width, f.height].join(":"))
+    .sort()
+    .join("|");
+}
+
+/**
+ * A one-line machining note for the cut list.
+ */
+export function describeFeature(feature: CutFeature, orientation: PanelOrientation, settings: UnitSettings): string {
+  const length = (mm: number) => formatLength(mm, settings, { showUnit: true });
+  const edgeName = (edge: FeatureEdge) => getFaceEdgeName(orientation, edge);
+
+  switch (feature.type) {
+    case "corner_notch":
+      return `Corner notch ${formatSize(feature.width, feature.height, settings)}, ${getFaceCornerName(orientation, feature.corner || "bottom-left")} corner`;
+    case "edge_notch": {
+      const edge = feature.edge || "bottom";
+      const alongWidth = edge === "bottom" || edge === "top";
+      const along = alongWidth ? feature.width : feature.height;
+      const into = alongWidth ? feature.height : feature.width;
+      const offset = alongWidth ? feature.x : feature.y;
+      const from = edgeName(alongWidth ? "left" : "bottom");
+      return `Notch ${length(along)} wide × ${length(into)} deep in the ${edgeName(edge)} edge, ${length(offset)} from the ${from}`;
+    }
+    case "hole":
+      return `Hole Ø${length(feature.width)}, centre ${length(feature.x)} from the ${edgeName("left")}, ${length(feature.y)} from the ${edgeName("bottom")}`;
+    default:
+      return `Cut-out ${formatSize(feature.width, feature.height, settings)}, ${length(feature.x)} from the ${edgeName("left")}, ${length(feature.y)} from the ${edgeName("bottom")}`;
+  }
+}
+
+export function getMachiningNotes(panel: Panel, settings: Settings): string[] {
+  return (panel.features || []).map((f) => describeFeature(f, panel.orientation || "horizontal", settings));
+}
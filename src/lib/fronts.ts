@@ -0,0 +1,195 @@
+/**
+ * Door and Drawer Front Generator
+ *
+ * Sizes doors and drawer fronts for an opening framed by the selected
+ * panels. The opening is the clear space between the innermost faces of
+ * the framing sides, bottom and top; how far a front reaches past it
+ * depends on the style:
+ *
+ * - "full_overlay": covers the framing panels, leaving half a reveal at
+ *   their outer edges
+ * - "half_overlay": covers half of each framing panel, so two fronts can
+ *   share a divider with a full reveal between them
+ * - "inset": sits inside the opening with a reveal all round
+ *
+ * Fronts are back-oriented panels tagged with `Panel.front`. Overlay fronts
+ * stand in front of the furniture (negative z); inset fronts are flush
+ * with its front. Doors come with their hinges attached.
+ */
+
+import type { FrontType, HingeSide, Panel, Settings } from "../types";
+import { getHingeCount } from "./hardware";
+import { getPanelThickness } from "./materials";
+
+export type FrontStyle = "full_overlay" | "half_overlay" | "inset";
+
+export type FrontLayout = "single" | "pair" | "drawers";
+
+export interface FrontOptions {
+  style: FrontStyle;
+  layout: FrontLayout;
+  reveal: number; // Gap between fronts and around them, mm
+  drawerCount: number;
+  hinge: HingeSide; // Single doors
+}
+
+export const FRONT_STYLES: { id: FrontStyle; name: string; description: string }[] = [
+  { id: "full_overlay", name: "Full overlay", description: "Covers the carcass edges" },
+  { id: "half_overlay", name: "Half overlay", description: "Shares dividers with the next front" },
+  { id: "inset", name: "Inset", description: "Sits inside the opening" },
+];
+
+export const FRONT_LAYOUTS: { id: FrontLayout; name: string }[] = [
+  { id: "single", name: "Single door" },
+  { id: "pair", name: "Pair of doors" },
+  { id: "drawers", name: "Drawer fronts" },
+];
+
+export const DEFAULT_FRONT_OPTIONS: FrontOptions = {
+  style: "full_overlay",
+  layout: "single",
+  reveal: 3,
+  drawerCount: 3,
+  hinge: "left",
+};
+
+// Smallest front worth making, mm
+const MIN_FRONT_SIZE = 30;
+
+export interface Opening {
+  x: number; // Clear opening, front view
+  y: number;
+  width: number;
+  height: number;
+  // Thickness of the panel framing each side (0 when nothing frames it)
+  frame: { left: number; right: number; bottom: number; top: number };
+}
+
+export type FrontPanel = Omit<Panel, "id">;
+
+/**
+ * The opening framed by a set of panels: between the outermost verticals
+ * and between the lowest and highest horizontals. Sides with no framing
+ * panel fall back to the selection's outer edge. Null for no panels.
+ */
+export function findOpening(panels: Panel[], settings: Settings): Opening | null {
+  if (panels.length === 0) return null;
+
+  const rects = panels.map((panel) => {
+    const T = getPanelThickness(panel, settings);
+    const orientation = panel.orientation || "horizontal";
+    const width = orientation === "vertical" ? T : panel.width;
+    const height = orientation === "horizontal" ? T : panel.height;
+    return { orientation, x1: panel.x, x2: panel.x + width, y1: panel.y, y2: panel.y + height };
+  });
+
+  const outer = {
+    x1: Math.min(...rects.map((r) => r.x1)),
+    x2: Math.max(...rects.map((r) => r.x2)),
+    y1: Math.min(...rects.map((r) => r.y1)),
+    y2: Math.max(...rects.map((r) => r.y2)),
+  };
+  const centerX = (outer.x1 + outer.x2) / 2;
+  const centerY = (outer.y1 + outer.y2) / 2;
+
+  // Framing panels are the outermost ones on each side of the centre
+  const verticals = rects.filter((r) => r.orientation === "vertical");
+  const horizontals = rects.filter((r) => r.orientation === "horizontal");
+  const left = verticals.filter((r) => r.x2 <= centerX).sort((a, b) => a.x1 - b.x1)[0];
+  const right = verticals.filter((r) => r.x1 >= centerX).sort((a, b) => b.x2 - a.x2)[0];
+  const bottom = horizontals.filter((r) => r.y2 <= centerY).sort((a, b) => a.y1 - b.y1)[0];
+  const top = horizontals.filter((r) => r.y1 >= centerY).sort((a, b) => b.y2 - a.y2)[0];
+
+  const x1 = left ? left.x2 : outer.x1;
+  const x2 = right ? right.x1 : outer.x2;
+  const y1 = bottom ? bottom.y2 : outer.y1;
+  const y2 = top ? top.y1 : outer.y2;
+
+  return {
+    x: x1,
+    y: y1,
+    width: x2 - x1,
+    height: y2 - y1,
+    frame: {
+      left: left ? left.x2 - left.x1 : 0,
+      right: right ? right.x2 - right.x1 : 0,
+      bottom: bottom ? bottom.y2 - bottom.y1 : 0,
+      top: top ? top.y2 - top.y1 : 0,
+    },
+  };
+}
+
+/**
+ * The rectangle the fronts cover together, before splitting into doors or
+ * drawers.
+ */
+function getFrontArea(opening: Opening, options: FrontOptions) {
+  const { style, reveal } = options;
+  // How far past the opening a front reaches over a framing panel
+  const reach = (frame: number) =>
+    style === "full_overlay" ? frame - reveal / 2 : style === "half_overlay" ? frame / 2 - reveal / 2 : -reveal;
+
+  const x1 = opening.x - reach(opening.frame.left);
+  const x2 = opening.x + opening.width + reach(opening.frame.right);
+  const y1 = opening.y - reach(opening.frame.bottom);
+  const y2 = opening.y + opening.height + reach(opening.frame.top);
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Generate the fronts for an opening in the given front thickness.
+ */
+export function generateFronts(opening: Opening, options: FrontOptions, thickness: number): FrontPanel[] {
+  const area = getFrontArea(opening, options);
+  const { reveal } = options;
+  const z = options.style === "inset" ? 0 : -thickness;
+
+  const front = (label: string, type: FrontType, x: number, y: number, width: number, height: number, hinge?: HingeSide): FrontPanel => ({
+    label,
+    orientation: "back",
+    x: round(x),
+    y: round(y),
+    width: round(width),
+    height: round(height),
+    z,
+    quantity: 1,
+    // Doors show vertical grain, drawer fronts run it across
+    grainDirection: type === "door" ? "vertical" : "horizontal",
+    front: hinge ? { type, hinge } : { type },
+    ...(type === "door" ? { hardware: [{ itemId: "hinge", quantity: getHingeCount(height) }] } : {}),
+  });
+
+  if (options.layout === "pair") {
+    const width = (area.width - reveal) / 2;
+    return [
+      front("Left door", "door", area.x, area.y, width, area.height, "left"),
+      front("Right door", "door", area.x + width + reveal, area.y, width, area.height, "right"),
+    ];
+  }
+
+  if (options.layout === "drawers") {
+    const count = Math.max(1, Math.floor(options.drawerCount));
+    const height = (area.height - (count - 1) * reveal) / count;
+    // Numbered from the top, as drawers are usually referred to
+    return Array.from({ length: count }, (_, i) =>
+      front(`Drawer front ${count - i}`, "drawer", area.x, area.y + i * (height + reveal), area.width, height),
+    );
+  }
+
+  return [front("Door", "door", area.x, area.y, area.width, area.height, options.hinge)];
+}
+
+/**
+ * Why fronts can't be made for an opening, or null if they can.
+ */
+export function validateFronts(opening: Opening, options: FrontOptions): string | null {
+  if (options.reveal < 0) return "Reveal can't be negative";
+  if (opening.width <= 0 || opening.height <= 0) return "The selected panels don't frame an opening";
+  const fronts = generateFronts(opening, options, 0);
+  if (fronts.some((f) => f.width < MIN_FRONT_SIZE || f.height < MIN_FRONT_SIZE)) {
+    return "Opening is too small for that many fronts";
+  }
+  return null;
+}
@@ -0,0 +1,119 @@
+/**
+ * Hardware
+ *
+ * Bought-in fittings - hinges, slides, connectors, handles, legs - from
+ * the project's catalog in `Settings.hardware`. A project that never
+ * edited its catalog uses DEFAULT_HARDWARE.
+ *
+ * Hardware is attached to a panel (`Panel.hardware`, counted once per
+ * copy of the panel) or to the joint between two panels (`JointSpec`).
+ * The bill of materials adds both up per catalog item.
+ */
+
+import type { HardwareAttachment, HardwareCategory, HardwareItem, JointSpec, Panel, Settings } from "../types";
+
+export const HARDWARE_CATEGORIES: { id: HardwareCategory; name: string }[] = [
+  { id: "hinge", name: "Hinge" },
+  { id: "drawer_slide", name: "Drawer slide" },
+  { id: "shelf_pin", name: "Shelf pin" },
+  { id: "cam_lock", name: "Cam lock" },
+  { id: "confirmat", name: "Confirmat screw" },
+  { id: "handle", name: "Handle" },
+  { id: "leg", name: "Leg" },
+];
+
+// Ids are fixed so the generators can attach them
+export const DEFAULT_HARDWARE: HardwareItem[] = [
+  { id: "hinge", name: "Concealed hinge 35mm", category: "hinge" },
+  { id: "slide_side_mount", name: "Ball-bearing slides (pair)", category: "drawer_slide" },
+  { id: "slide_undermount", name: "Undermount slides (pair)", category: "drawer_slide" },
+  { id: "shelf_pin", name: "Shelf pin 5mm", category: "shelf_pin" },
+  { id: "cam_lock", name: "Cam lock and bolt", category: "cam_lock" },
+  { id: "confirmat", name: "Confirmat screw 7×50", category: "confirmat" },
+  { id: "handle", name: "Handle", category: "handle" },
+  { id: "leg", name: "Adjustable leg", category: "leg" },
+];
+
+export function getHardwareCatalog(settings: Settings): HardwareItem[] {
+  return settings.hardware || DEFAULT_HARDWARE;
+}
+
+export function getHardwareItem(settings: Settings, itemId: string): HardwareItem | undefined {
+  return getHardwareCatalog(settings).find((item) => item.id === itemId);
+}
+
+export function getCategoryName(category: HardwareCategory): string {
+  return HARDWARE_CATEGORIES.find((c) => c.id === category)?.name || category;
+}
+
+export function createHardwareItem(category: HardwareCategory = "handle"): HardwareItem {
+  return {
+    id: `hardware_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name: getCategoryName(category),
+    category,
+  };
+}
+
+/**
+ * Id of the joint between two panels; the same whichever comes first.
+ */
+export function getJointId(panelAId: string, panelBId: string): string {
+  return [panelAId, panelBId].sort().join("+");
+}
+
+/**
+ * Hinges a door of the given height needs, going by the usual hinge
+ * makers' tables.
+ */
+export function getHingeCount(height: number): number {
+  if (height <= 900) return 2;
+  if (height <= 1600) return 3;
+  if (height <= 2000) return 4;
+  return 5;
+}
+
+export interface HardwareBOMLine {
+  item: HardwareItem;
+  quantity: number;
+  cost: number; // 0 when the item has no price
+  usedBy: string[]; // Labels of the panels (and joints) it goes on
+}
+
+/**
+ * Add up the hardware on all panels and joints, in catalog order.
+ * Joints whose panels were deleted and items no longer in the catalog are
+ * left out.
+ */
+export function calculateHardwareBOM(panels: Panel[], joints: JointSpec[], settings: Settings): HardwareBOMLine[] {
+  const totals = new Map<string, { quantity: number; usedBy: Set<string> }>();
+  const add = (attachments: HardwareAttachment[] | undefined, multiplier: number, usedBy: string) => {
+    for (const { itemId, quantity } of attachments || []) {
+      if (quantity <= 0) continue;
+      const total = totals.get(itemId) || { quantity: 0, usedBy: new Set<string>() };
+      total.quantity += quantity * multiplier;
+      total.usedBy.add(usedBy);
+      totals.set(itemId, total);
+    }
+  };
+
+  for (const panel of panels) {
+    add(panel.hardware, panel.quantity, panel.label);
+  }
+  const panelsById = new Map(panels.map((p) => [p.id, p]));
+  for (const joint of joints) {
+    const [a, b] = joint.panelIds.map((id) => panelsById.get(id));
+    if (!a || !b) continue;
+    add(joint.hardware, 1, `${a.label} / ${b.label}`);
+  }
+
+  return getHardwareCatalog(settings)
+    .filter((item) => totals.has(item.id))
+    .map((item) => {
+      const { quantity, usedBy } = totals.get(item.id)!;
+      return { item, quantity, cost: quantity * (item.price || 0), usedBy: [...usedBy] };
+    });
+}
+
+export function getHardwareCost(lines: HardwareBOMLine[]): number {
+  return lines.reduce((sum, line) => sum + line.cost, 0);
+}
@@ -0,0 +1,246 @@
+/**
+ * Joinery
+ *
+ * How the joint between two touching panels is made, stored per joint in
+ * `JointSpec.joinery`. In every joint one panel's end meets the other
+ * panel's face: the end panel is "inner", the face panel "outer".
+ *
+ * Dados and rabbets let the inner panel's end into the outer panel, so the
+ * inner panel is cut longer by the dado depth at that end and the outer
+ * panel gets a groove. The design keeps showing the finished sizes; only
+ * the cut list and the cutting diagrams use the longer cut sizes.
+ *
+ * Every joint type adds machining notes to the parts involved: grooves,
+ * dowel and biscuit holes, pocket holes, screw positions.
+ */
+
+import type { Joinery, JoineryType, JointSpec, Panel, PanelOrientation, Settings } from "../types";
+import { getPanelZRange } from "./depth";
+import { getPanelThickness } from "./materials";
+import { formatLength, type UnitSettings } from "./units";
+
+export const JOINERY_TYPES: { id: JoineryType; name: string; hasDepth: boolean }[] = [
+  { id: "butt_screws", name: "Butt, screwed", hasDepth: false },
+  { id: "dado", name: "Dado", hasDepth: true },
+  { id: "rabbet", name: "Rabbet", hasDepth: true },
+  { id: "dowel", name: "Dowels", hasDepth: false },
+  { id: "pocket_screw", name: "Pocket screws", hasDepth: false },
+  { id: "biscuit", name: "Biscuits", hasDepth: false },
+];
+
+// Fixing spacing along the joint, mm; every joint gets at least two
+const SCREW_SPACING = 150;
+export const DOWEL_SPACING = 150;
+const POCKET_SPACING = 200;
+const BISCUIT_SPACING = 200;
+
+export const DOWEL_DIAMETER = 8;
+
+// How far apart an end and a face may be and still meet, mm
+const CONTACT_TOLERANCE = 1;
+
+export type Axis = "x" | "y" | "z";
+
+// The axis a panel's thickness runs along
+export const THICKNESS_AXIS: Record<PanelOrientation, Axis> = { vertical: "x", horizontal: "y", back: "z" };
+
+// Names of the low and high side along each axis
+export const SIDE_NAMES: Record<Axis, [string, string]> = {
+  x: ["left", "right"],
+  y: ["bottom", "top"],
+  z: ["front", "back"],
+};
+
+// The panel field that holds a panel's size along an axis
+const SIZE_FIELD: Record<PanelOrientation, Partial<Record<Axis, "width" | "height" | "depth">>> = {
+  horizontal: { x: "width", z: "depth" },
+  vertical: { y: "height", z: "depth" },
+  back: { x: "width", y: "height" },
+};
+
+type Range = [number, number];
+export type Box = Record<Axis, Range>;
+
+/**
+ * The space a panel takes up, as a range along each axis.
+ */
+export function getPanelBox(panel: Panel, settings: Settings): Box {
+  const T = getPanelThickness(panel, settings);
+  const orientation = panel.orientation || "horizontal";
+  const { z, depth } = getPanelZRange(panel, settings);
+  return {
+    x: [panel.x, panel.x + (orientation === "vertical" ? T : panel.width)],
+    y: [panel.y, panel.y + (orientation === "horizontal" ? T : panel.height)],
+    z: [z, z + depth],
+  };
+}
+
+const overlap = ([a1, a2]: Range, [b1, b2]: Range) => Math.min(a2, b2) - Math.max(a1, b1);
+
+/**
+ * Where an inner panel's end meets an outer panel's face.
+ */
+export interface JointEnd {
+  inner: Panel;
+  outer: Panel;
+  axis: Axis; // Outer's thickness axis, along which inner ends
+  end: 0 | 1; // Which end of inner: the low (left/bottom/front) or high one
+  lineAxis: Axis; // The joint line runs along this axis…
+  lineStart: number; // …from here
+  offset: number; // Inner's near face from outer's low edge, along inner's thickness axis
+  outerSpan: number; // Outer's size along inner's thickness axis
+  length: number; // Length of the joint line
+  thickness: number; // Inner's thickness
+  outerThickness: number;
+}
+
+/**
+ * Find which of two touching panels ends on the other's face, or null if
+ * neither does (e.g. two panels side by side).
+ */
+export function getJointEnd(a: Panel, b: Panel, settings: Settings): JointEnd | null {
+  for (const [inner, outer] of [
+    [a, b],
+    [b, a],
+  ]) {
+    const innerAxis = THICKNESS_AXIS[inner.orientation || "horizontal"];
+    const axis = THICKNESS_AXIS[outer.orientation || "horizontal"];
+    if (innerAxis === axis) continue;
+
+    const innerBox = getPanelBox(inner, settings);
+    const outerBox = getPanelBox(outer, settings);
+    const [i1, i2] = innerBox[axis];
+    const [o1, o2] = outerBox[axis];
+    const end = Math.abs(i2 - o1) <= CONTACT_TOLERANCE ? 1 : Math.abs(i1 - o2) <= CONTACT_TOLERANCE ? 0 : null;
+    if (end === null) continue;
+
+    // The end must land on the face, not beside it
+    const lineAxis = (["x", "y", "z"] as Axis[]).find((ax) => ax !== axis && ax !== innerAxis)!;
+    const length = overlap(innerBox[lineAxis], outerBox[lineAxis]);
+    if (length <= 0 || overlap(innerBox[innerAxis], outerBox[innerAxis]) <= 0) continue;
+
+    return {
+      inner,
+      outer,
+      axis,
+      end,
+      lineAxis,
+      lineStart: Math.max(innerBox[lineAxis][0], outerBox[lineAxis][0]),
+      offset: innerBox[innerAxis][0] - outerBox[innerAxis][0],
+      outerSpan: outerBox[innerAxis][1] - outerBox[innerAxis][0],
+      length,
+      thickness: getPanelThickness(inner, settings),
+      outerThickness: getPanelThickness(outer, settings),
+    };
+  }
+  return null;
+}
+
+/**
+ * Dado or rabbet depth: as set, or a third of the outer panel's thickness.
+ * Never more than half of it.
+ */
+export function getJoineryDepth(joinery: Joinery, outerThickness: number): number {
+  const depth = joinery.depth ?? Math.round(outerThickness / 3);
+  return Math.max(0, Math.min(depth, outerThickness / 2));
+}
+
+export function getJoineryName(type: JoineryType): string {
+  return JOINERY_TYPES.find((t) => t.id === type)?.name || type;
+}
+
+const cutsInto = (joinery?: Joinery) => joinery?.type === "dado" || joinery?.type === "rabbet";
+
+/**
+ * Panels at their cut size: every panel let into a dado or rabbet is
+ * lengthened by the depth at that end. Panels keep their ids; panels
+ * without such joints are returned as they are.
+ */
+export function applyJoinery(panels: Panel[], joints: JointSpec[], settings: Settings): Panel[] {
+  const byId = new Map(panels.map((p) => [p.id, p]));
+  const grown = new Map<string, Panel>();
+
+  for (const joint of joints) {
+    if (!cutsInto(joint.joinery)) continue;
+    const [a, b] = joint.panelIds.map((id) => byId.get(id));
+    if (!a || !b) continue;
+    const jointEnd = getJointEnd(a, b, settings);
+    if (!jointEnd) continue;
+
+    const { inner, axis, end, outerThickness } = jointEnd;
+    const depth = getJoineryDepth(joint.joinery!, outerThickness);
+    const field = SIZE_FIELD[inner.orientation || "horizontal"][axis];
+    if (!field || depth <= 0) continue;
+
+    const panel = grown.get(inner.id) || { ...inner };
+    const { z, depth: zDepth } = getPanelZRange(panel, settings);
+    const size = field === "depth" ? zDepth : panel[field];
+    panel[field] = size + depth;
+    // Growing at the low end moves the panel's start back
+    if (end === 0) {
+      if (axis === "z") panel.z = z - depth;
+      else panel[axis] -= depth;
+    }
+    grown.set(inner.id, panel);
+  }
+
+  return grown.size > 0 ? panels.map((p) => grown.get(p.id) || p) : panels;
+}
+
+export const getFixingCount = (length: number, spacing: number) => Math.max(2, Math.round(length / spacing));
+
+/**
+ * Machining notes a joint puts on one of its panels.
+ */
+function describeJoinery(joinery: Joinery, jointEnd: JointEnd, panelId: string, settings: UnitSettings): string | null {
+  const { inner, outer, axis, end, offset, length, thickness, outerThickness, outerSpan } = jointEnd;
+  const mm = (value: number) => formatLength(value, settings, { showUnit: true });
+  const innerAxis = THICKNESS_AXIS[inner.orientation || "horizontal"];
+  const position = `${mm(offset)} from the ${SIDE_NAMES[innerAxis][0]}`;
+  const endName = `${SIDE_NAMES[axis][end]} end`;
+  const isInner = panelId === inner.id;
+
+  switch (joinery.type) {
+    case "dado":
+    case "rabbet": {
+      const depth = getJoineryDepth(joinery, outerThickness);
+      const kind = joinery.type;
+      if (isInner) return `Includes ${mm(depth)} at the ${endName} for the ${kind} in ${outer.label}`;
+      if (kind === "dado") return `Dado ${mm(thickness)} wide × ${mm(depth)} deep for ${inner.label}, ${position}`;
+      const edge = SIDE_NAMES[innerAxis][offset + thickness / 2 < outerSpan / 2 ? 0 : 1];
+      return `Rabbet ${mm(thickness)} wide × ${mm(depth)} deep along the ${edge} edge for ${inner.label}`;
+    }
+    case "dowel": {
+      const count = getFixingCount(length, DOWEL_SPACING);
+      return isInner
+        ? `${count} × Ø${mm(DOWEL_DIAMETER)} dowel holes in the ${endName}, into ${outer.label}`
+        : `${count} × Ø${mm(DOWEL_DIAMETER)} dowel holes for ${inner.label}, ${position}`;
+    }
+    case "pocket_screw":
+      return isInner ? `${getFixingCount(length, POCKET_SPACING)} pocket holes on the ${endName}, screwed into ${outer.label}` : null;
+    case "biscuit": {
+      const count = getFixingCount(length, BISCUIT_SPACING);
+      return isInner
+        ? `${count} biscuit slots in the ${endName}, into ${outer.label}`
+        : `${count} biscuit slots for ${inner.label}, ${position}`;
+    }
+    default:
+      return isInner ? null : `${getFixingCount(length, SCREW_SPACING)} screws through the face into ${inner.label}, ${position}`;
+  }
+}
+
+/**
+ * Machining notes from the joinery on every joint a panel is part of.
+ */
+export function getJoineryNotes(panel: Panel, panels: Panel[], joints: JointSpec[], settings: Settings): string[] {
+  const notes: string[] = [];
+  for (const joint of joints) {
+    if (!joint.joinery || !joint.panelIds.includes(panel.id)) continue;
+    const [a, b] = joint.panelIds.map((id) => panels.find((p) => p.id === id));
+    if (!a || !b) continue;
+    const jointEnd = getJointEnd(a, b, settings);
+    const note = jointEnd && describeJoinery(joint.joinery, jointEnd, panel.id, settings);
+    if (note) notes.push(note);
+  }
+  return notes;
+}
@@ -0,0 +1,91 @@
+/**
+ * Component Library
+ *
+ * A plinth, drawer bank or shelf module designed once can be saved from a
+ * selection and dropped into any project. A component keeps its panels,
+ * the joints between them and the sticky notes over them, all positioned
+ * relative to the selection's bottom-left corner.
+ *
+ * Formulas stay behind since they name the source project's variables;
+ * the panels keep the sizes they worked out to. Material, board stock and
+ * banding ids are kept as they are, and panels whose id the target project
+ * doesn't have use its defaults.
+ */
+
+import type { JointSpec, LibraryComponent, LibraryJoint, Panel, Settings, StickyNote } from "../types";
+import { get3DBounds } from "./assembly";
+import { getFurnitureDepth } from "./depth";
+import { getPanelThickness } from "./materials";
+
+export type NewLibraryComponent = Omit<LibraryComponent, "id" | "createdAt">;
+
+export interface PlacedComponent {
+  panels: Omit<Panel, "id">[];
+  joints: LibraryJoint[];
+  notes: Omit<StickyNote, "id">[];
+}
+
+/**
+ * Build a component from selected panels. Joints come along when both of
+ * their panels are selected, notes when they sit within the selection.
+ */
+export function createComponent(
+  name: string,
+  description: string,
+  panels: Panel[],
+  joints: JointSpec[],
+  notes: StickyNote[],
+  settings: Settings,
+): NewLibraryComponent {
+  const furnitureDepth = getFurnitureDepth(settings);
+  const bounds = panels.map((p) => get3DBounds(p, getPanelThickness(p, settings), furnitureDepth));
+  const x1 = Math.min(...bounds.map((b) => b.x1));
+  const y1 = Math.min(...bounds.map((b) => b.y1));
+  const x2 = Math.max(...bounds.map((b) => b.x2));
+  const y2 = Math.max(...bounds.map((b) => b.y2));
+
+  const index = new Map(panels.map((p, i) => [p.id, i]));
+  const savedJoints = joints.flatMap((joint): LibraryJoint[] => {
+    const { id, panelIds, ...spec } = joint;
+    const [a, b] = panelIds.map((panelId) => index.get(panelId));
+    return a !== undefined && b !== undefined ? [{ ...spec, panels: [a, b] }] : [];
+  });
+
+  return {
+    name: name.trim() || "Component",
+    description: description.trim() || undefined,
+    panels: panels.map((panel) => {
+      const { id, groupId, formulas, locked, ...rest } = panel;
+      return { ...rest, x: panel.x - x1, y: panel.y - y1 };
+    }),
+    joints: savedJoints,
+    notes: notes
+      .filter((n) => n.x >= x1 && n.x <= x2 && n.y >= y1 && n.y <= y2)
+      .map(({ text, color, x, y }) => ({ text, color, x: x - x1, y: y - y1 })),
+    width: x2 - x1,
+    height: y2 - y1,
+  };
+}
+
+/**
+ * A component's panels and notes moved so its bottom-left corner is at
+ * (x, y). Joint indices still refer to the returned panels.
+ */
+export function placeComponent(component: LibraryComponent, x: number, y: number): PlacedComponent {
+  return {
+    panels: component.panels.map((panel) => ({ ...panel, x: panel.x + x, y: panel.y + y })),
+    joints: component.joints,
+    notes: component.notes.map((note) => ({ ...note, x: note.x + x, y: note.y + y })),
+  };
+}
+
+/**
+ * Where to drop a component so it lands clear of the design: to the right
+ * of everything, on the floor.
+ */
+export function getInsertPosition(panels: Panel[], settings: Settings): { x: number; y: number } {
+  if (panels.length === 0) return { x: 0, y: 0 };
+  const furnitureDepth = getFurnitureDepth(settings);
+  const right = Math.max(...panels.map((p) => get3DBounds(p, getPanelThickness(p, settings), furnitureDepth).x2));
+  return { x: Math.ceil(right / 100) * 100 + 100, y: 0 };
+}
@@ -0,0 +1,169 @@
+/**
+ * Linear Stock
+ *
+ * Face frames, cleats, rails and legs are cut from boards bought by the
+ * length rather than from sheets. A part opts in with `Panel.linearStockId`;
+ * its cut length is the longer side of its cut piece and the shorter side
+ * has to fit within the board's width.
+ *
+ * Boards are filled first fit decreasing: longest parts first, each into
+ * the first board with room left, opening a board of the longest stock
+ * length when none has. Each board is then swapped for the shortest stock
+ * length that still holds its parts. Both ends of a board are squared off
+ * by the end trim and every cut takes a kerf.
+ */
+
+import type { LinearStock, Panel, Settings } from "../types";
+import { getPanelLinearStock } from "./materials";
+import { getCutDimensions, getCutOptions, getPanelLetter } from "./optimizer";
+
+export const DEFAULT_END_TRIM = 10;
+
+export function createLinearStock(): LinearStock {
+  return {
+    id: `linear_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name: "Pine 44×44",
+    width: 44,
+    thickness: 44,
+    lengths: [2400, 3000],
+  };
+}
+
+export interface LinearCut {
+  panelId: string;
+  letter: string;
+  label: string;
+  length: number;
+  offset: number; // From the board's left end, mm
+}
+
+export interface Board {
+  length: number; // Stock length bought
+  cuts: LinearCut[];
+  waste: number; // Everything that isn't a part: trims, kerfs and the offcut, mm
+}
+
+export interface LinearCutResult {
+  stock: LinearStock;
+  boards: Board[];
+  unplacedPieces: Panel[]; // Longer than any board, or wider than the stock
+}
+
+export interface BoardUsage {
+  stock: LinearStock;
+  length: number;
+  boards: number;
+  cost: number; // 0 when the stock has no price
+}
+
+// Room for parts on a board; the last part needs no kerf after it
+function getUsableLength(length: number, endTrim: number, kerf: number): number {
+  return length - 2 * endTrim + kerf;
+}
+
+/**
+ * Whether a linear part can be cut from its stock: no wider than the
+ * board, and no longer than the longest board once trimmed. Parts that
+ * can't end up in `unplacedPieces`.
+ */
+export function fitsLinearStock(panel: Panel, stock: LinearStock, settings: Settings): boolean {
+  const { kerf } = getCutOptions(settings);
+  const { cutWidth, cutHeight } = getCutDimensions(panel, settings.furnitureDepth || 400);
+  const longest = Math.max(0, ...stock.lengths);
+  return (
+    Math.min(cutWidth, cutHeight) <= stock.width &&
+    Math.max(cutWidth, cutHeight) + kerf <= getUsableLength(longest, settings.endTrim ?? DEFAULT_END_TRIM, kerf)
+  );
+}
+
+/**
+ * Updates that put a part on a board stock: the side across the board
+ * (a shelf's or side's depth, a back's shorter side) becomes the board's
+ * width, so the part fits as soon as it's assigned.
+ */
+export function getLinearStockUpdates(panel: Panel, stock: LinearStock): Partial<Panel> {
+  const orientation = panel.orientation || "horizontal";
+  if (orientation !== "back") return { linearStockId: stock.id, depth: stock.width };
+  return panel.width < panel.height
+    ? { linearStockId: stock.id, width: stock.width }
+    : { linearStockId: stock.id, height: stock.width };
+}
+
+/**
+ * Lay every linear part out on boards of its stock, one result per stock
+ * with parts, in stock order. Pass the cut-size panels (see getCutPanels).
+ */
+export function optimizeLinearCuts(
+  panels: Panel[],
+  settings: Settings,
+  dimensionToLetter?: Map<string, string>,
+): LinearCutResult[] {
+  const { kerf } = getCutOptions(settings);
+  const endTrim = settings.endTrim ?? DEFAULT_END_TRIM;
+  const furnitureDepth = settings.furnitureDepth || 400;
+
+  return (settings.linearStock || [])
+    .map((stock) => {
+      const lengths = [...new Set(stock.lengths)].filter((l) => l > 0).sort((a, b) => a - b);
+      const usable = (length: number) => getUsableLength(length, endTrim, kerf);
+      const longest = lengths[lengths.length - 1] ?? 0;
+
+      const pieces: { panel: Panel; length: number }[] = [];
+      const unplacedPieces: Panel[] = [];
+      for (const panel of panels) {
+        if (getPanelLinearStock(panel, settings)?.id !== stock.id) continue;
+        if (!fitsLinearStock(panel, stock, settings)) {
+          unplacedPieces.push(panel);
+          continue;
+        }
+        const { cutWidth, cutHeight } = getCutDimensions(panel, furnitureDepth);
+        const length = Math.max(cutWidth, cutHeight);
+        for (let i = 0; i < (panel.quantity || 1); i++) pieces.push({ panel, length });
+      }
+      pieces.sort((a, b) => b.length - a.length);
+
+      const open: { used: number; pieces: typeof pieces }[] = [];
+      for (const piece of pieces) {
+        const need = piece.length + kerf;
+        let board = open.find((b) => b.used + need <= usable(longest));
+        if (!board) {
+          board = { used: 0, pieces: [] };
+          open.push(board);
+        }
+        board.used += need;
+        board.pieces.push(piece);
+      }
+
+      const boards = open.map(({ used, pieces: boardPieces }): Board => {
+        const length = lengths.find((l) => usable(l) >= used) ?? longest;
+        let offset = endTrim;
+        const cuts = boardPieces.map(({ panel, length: cutLength }) => {
+          const cut: LinearCut = {
+            panelId: panel.id,
+            letter: dimensionToLetter ? getPanelLetter(panel, furnitureDepth, dimensionToLetter) : "?",
+            label: panel.label,
+            length: cutLength,
+            offset,
+          };
+          offset += cutLength + kerf;
+          return cut;
+        });
+        return { length, cuts, waste: length - cuts.reduce((sum, c) => sum + c.length, 0) };
+      });
+
+      return { stock, boards, unplacedPieces };
+    })
+    .filter((result) => result.boards.length > 0 || result.unplacedPieces.length > 0);
+}
+
+/**
+ * Count the boards a layout buys per stock length, shortest first.
+ * Boards are priced by the meter.
+ */
+export function getBoardUsage({ stock, boards }: LinearCutResult): BoardUsage[] {
+  const counts = new Map<number, number>();
+  for (const board of boards) counts.set(board.length, (counts.get(board.length) || 0) + 1);
+  return [...counts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([length, count]) => ({ stock, length, boards: count, cost: (count * length * (stock.price || 0)) / 1000 }));
+}
@@ -0,0 +1,157 @@
+/**
+ * Materials
+ *
+ * A project always has a default material, described by the top-level
+ * Settings fields (materialType, thickness, sheet size, sheetPrice,
+ * woodColor). Extra materials live in `Settings.materials`, and a panel
+ * opts into one with `Panel.materialId`. Panels without a material id, or
+ * whose material was removed, use the default.
+ *
+ * Linear parts (`Panel.linearStockId`) are cut from board stock rather
+ * than sheets and take their thickness from it; see linear.ts.
+ */
+
+import {
+  MATERIAL_PRESETS,
+  type LinearStock,
+  type Material,
+  type MaterialType,
+  type Panel,
+  type SheetGrain,
+  type Settings,
+  type StockSize,
+} from "../types";
+
+export const DEFAULT_MATERIAL_ID = "default";
+
+// Stock id of a material's main sheet size
+export const PRIMARY_STOCK_ID = "primary";
+
+/**
+ * Build the default material from the project settings.
+ */
+export function getDefaultMaterial(settings: Settings): Material {
+  const type = settings.materialType || "plywood";
+  const preset = MATERIAL_PRESETS.find((p) => p.id === type);
+  return {
+    id: DEFAULT_MATERIAL_ID,
+    name: preset?.name || "Default",
+    type,
+    thickness: settings.thickness,
+    sheetWidth: settings.sheetWidth,
+    sheetHeight: settings.sheetHeight,
+    sheetPrice: settings.sheetPrice,
+    stockSizes: settings.stockSizes,
+    grain: settings.sheetGrain,
+    color: settings.woodColor || "#E8D4B8",
+  };
+}
+
+/**
+ * All materials available to the project, default first.
+ */
+export function getMaterials(settings: Settings): Material[] {
+  return [getDefaultMaterial(settings), ...(settings.materials || [])];
+}
+
+export function getMaterial(settings: Settings, materialId?: string): Material {
+  const material = materialId
+    ? settings.materials?.find((m) => m.id === materialId)
+    : undefined;
+  return material || getDefaultMaterial(settings);
+}
+
+export function getPanelMaterial(panel: Panel, settings: Settings): Material {
+  return getMaterial(settings, panel.materialId);
+}
+
+/**
+ * The board stock a linear part is cut from, or undefined for parts cut
+ * from sheets (including those whose stock was removed).
+ */
+export function getPanelLinearStock(panel: Panel, settings: Settings): LinearStock | undefined {
+  return panel.linearStockId ? settings.linearStock?.find((s) => s.id === panel.linearStockId) : undefined;
+}
+
+export function getPanelThickness(panel: Panel, settings: Settings): number {
+  return (getPanelLinearStock(panel, settings) || getPanelMaterial(panel, settings)).thickness;
+}
+
+/**
+ * Grain on a material's sheets. Veneered and solid stock default to grain
+ * along the sheet's length; MDF, particleboard and melamine have none.
+ */
+export function getMaterialGrain(material: Material): SheetGrain {
+  if (material.grain) return material.grain;
+  return material.type === "plywood" || material.type === "solid_wood" ? "length" : "none";
+}
+
+/**
+ * Sheet sizes a material can be bought in, main size first. The main
+ * size is never limited, so there is always something to cut from.
+ */
+export function getMaterialStock(material: Material): StockSize[] {
+  return [
+    {
+      id: PRIMARY_STOCK_ID,
+      width: material.sheetWidth,
+      height: material.sheetHeight,
+      price: material.sheetPrice,
+    },
+    ...(material.stockSizes || []),
+  ];
+}
+
+/**
+ * Create an extra stock size, seeded as a quarter of the main sheet
+ * (1220×610 from 2440×1220).
+ */
+export function createStockSize(material: Material): StockSize {
+  return {
+    id: `stock_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    width: material.sheetHeight,
+    height: Math.round(material.sheetHeight / 2),
+    price: material.sheetPrice ? Math.round(material.sheetPrice / 4) : undefined,
+  };
+}
+
+/**
+ * Split panels into one bucket per material, in library order.
+ * Materials without any panels are left out.
+ */
+export function groupPanelsByMaterial(
+  panels: Panel[],
+  settings: Settings,
+): { material: Material; panels: Panel[] }[] {
+  const groups = new Map<string, Panel[]>();
+  for (const panel of panels) {
+    const { id } = getPanelMaterial(panel, settings);
+    const group = groups.get(id);
+    if (group) {
+      group.push(panel);
+    } else {
+      groups.set(id, [panel]);
+    }
+  }
+
+  return getMaterials(settings)
+    .filter((material) => groups.has(material.id))
+    .map((material) => ({ material, panels: groups.get(material.id)! }));
+}
+
+/**
+ * Create a new library material, seeded from a preset and the project's
+ * current sheet size.
+ */
+export function createMaterial(settings: Settings, type: MaterialType = "mdf"): Material {
+  const preset = MATERIAL_PRESETS.find((p) => p.id === type) || MATERIAL_PRESETS[0];
+  return {
+    id: `material_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    name: preset.name,
+    type: preset.id,
+    thickness: preset.defaultThickness,
+    sheetWidth: settings.sheetWidth,
+    sheetHeight: settings.sheetHeight,
+    color: preset.defaultColor,
+  };
+}
@@ -1,4 +1,11 @@
-import type { GrainDirection, OptimizationResult, Panel, Placement, Sheet } from "../types";
+import type { CutDirection, CutMode, CutStep, EdgeBandingType, GrainDirection, InventoryItem, JointSpec, Material, OptimizationResult, Panel, PartNumbering, Placement, Settings, Sheet, SheetGrain, StockSize, UsableWastePiece } from "../types";
+import { countBandedEdges, getBandingType, isBanded } from "./banding";
+import { getFeaturesKey, getMachiningNotes } from "./features";
+import { applyJoinery, getJoineryNotes } from "./joinery";
+import { getDefaultMaterial, getMaterialGrain, getMaterialStock, getMaterials, getPanelLinearStock, getPanelMaterial, groupPanelsByMaterial } from "./materials";
+
+// Which side of a cut piece the grain runs along
+export type PieceGrain = "length" | "width";
 
 interface Piece {
   id: string;
@@ -8,7 +15,17 @@ interface Piece {
   height: number; // Cut height (short dimension)
   sourceId: string;
   orientation: string;
-  grainDirection?: GrainDirection; // Grain direction affects rotation
+  grain?: PieceGrain;
+  lock?: "normal" | "rotated"; // Orientation that lines the grain up with the sheet's
+  // Grain-matched group: members laid end to end along the width, turned
+  // members with their height along it
+  members?: { piece: Piece; turned: boolean }[];
+}
+
+// Orientations a piece may be placed in
+interface AllowedOrientations {
+  normal: boolean;
+  rotated: boolean;
 }
 
 interface FreeRect {
@@ -28,11 +45,50 @@ export interface UsableWaste {
   area: number;
 }
 
-// Blade kerf - space lost to each cut (typical table saw blade)
-const KERF = 3; // mm
+// Saw and sheet parameters that shape every layout (all in mm)
+export interface CutOptions {
+  kerf: number; // Blade width - space lost to each cut
+  edgeTrim: number; // Margin trimmed off each factory sheet edge
+  minOffcut: number; // Minimum dimension for a usable waste piece
+  mode: CutMode; // Free nesting or guillotine through-cuts
+  sheetGrain: SheetGrain; // Grain on the stock; grained pieces are turned to match
+}
+
+export const DEFAULT_CUT_OPTIONS: CutOptions = {
+  kerf: 3, // Typical table saw blade
+  edgeTrim: 0,
+  minOffcut: 100,
+  mode: "nested",
+  sheetGrain: "length",
+};
+
+/**
+ * Read the cut options from project settings, falling back to defaults
+ * for designs saved before these fields existed.
+ */
+export function getCutOptions(settings: Settings): CutOptions {
+  return {
+    kerf: settings.kerf ?? DEFAULT_CUT_OPTIONS.kerf,
+    edgeTrim: settings.edgeTrim ?? DEFAULT_CUT_OPTIONS.edgeTrim,
+    minOffcut: settings.minOffcut ?? DEFAULT_CUT_OPTIONS.minOffcut,
+    mode: settings.cutMode ?? DEFAULT_CUT_OPTIONS.mode,
+    sheetGrain: getMaterialGrain(getDefaultMaterial(settings)),
+  };
+}
 
-// Minimum dimension for a usable waste piece (mm)
-const MIN_USABLE_WASTE = 100;
+/**
+ * The region pieces are packed into. Each placement reserves its size plus
+ * one kerf to the right and below, so the region extends one kerf past the
+ * trimmed edge: the last piece in a row needs no cut on its far side.
+ */
+function getPackingArea(sheetWidth: number, sheetHeight: number, options: CutOptions): FreeRect {
+  return {
+    x: options.edgeTrim,
+    y: options.edgeTrim,
+    width: sheetWidth - 2 * options.edgeTrim + options.kerf,
+    height: sheetHeight - 2 * options.edgeTrim + options.kerf,
+  };
+}
 
 /**
  * Get the actual cut dimensions for a panel based on its orientation.
@@ -40,7 +96,7 @@ const MIN_USABLE_WASTE = 100;
  * - Vertical (divider): cut height × depth
  * - Back: width × height
  */
-function getCutDimensions(
+export function getCutDimensions(
   panel: Panel,
   furnitureDepth: number,
 ): { cutWidth: number; cutHeight: number } {
@@ -62,6 +118,179 @@ function getCutDimensions(
   }
 }
 
+/**
+ * Map a panel's grain, as drawn in the front view, onto its cut piece:
+ * does it run along the piece's length or its width once the cut size is
+ * normalized? On shelves and dividers, grain that doesn't follow the
+ * visible edge runs front to back.
+ */
+export function getPieceGrain(panel: Panel, furnitureDepth: number): PieceGrain | undefined {
+  const grain = panel.grainDirection;
+  if (!grain || grain === "none") return undefined;
+
+  const { cutWidth, cutHeight } = getCutDimensions(panel, furnitureDepth);
+  // Dividers show their height, everything else its width, as cutWidth
+  const alongCutWidth =
+    (panel.orientation || "horizontal") === "vertical" ? grain === "vertical" : grain === "horizontal";
+  return alongCutWidth === cutWidth >= cutHeight ? "length" : "width";
+}
+
+// Banded edges of a cut piece once normalized (length >= width)
+export interface PieceBanding {
+  long: number; // Banded long edges, 0-2
+  short: number; // Banded short edges, 0-2
+  type: EdgeBandingType;
+}
+
+// Banded long and short edges of a panel's cut piece, or null when unbanded
+function getBandedEdgeCounts(panel: Panel, furnitureDepth: number): { long: number; short: number } | null {
+  if (!isBanded(panel.edgeBanding)) return null;
+  const { cutWidth, cutHeight } = getCutDimensions(panel, furnitureDepth);
+  const { along, across } = countBandedEdges(panel.edgeBanding);
+  return cutWidth >= cutHeight ? { long: along, short: across } : { long: across, short: along };
+}
+
+/**
+ * Map a panel's banded edges onto its cut piece, as getPieceGrain does for
+ * grain: top and bottom run along the cut width, so they're the long edges
+ * unless normalizing turns the piece.
+ */
+export function getPieceBanding(panel: Panel, settings: Settings): PieceBanding | undefined {
+  const counts = getBandedEdgeCounts(panel, settings.furnitureDepth || 400);
+  if (!counts) return undefined;
+  return { ...counts, type: getBandingType(settings, panel.edgeBanding!.typeId) };
+}
+
+// Set a panel's size fields to a cut size, the reverse of getCutDimensions
+function withCutSize(panel: Panel, cutWidth: number, cutHeight: number): Panel {
+  switch (panel.orientation || "horizontal") {
+    case "vertical":
+      return { ...panel, height: cutWidth, depth: cutHeight };
+    case "back":
+      return { ...panel, width: cutWidth, height: cutHeight };
+    default:
+      return { ...panel, width: cutWidth, depth: cutHeight };
+  }
+}
+
+/**
+ * Panels at the size they're cut: lengthened for dados and rabbets (see
+ * applyJoinery), then made short by the banding's thickness on each banded
+ * edge. Panels keep their ids.
+ */
+export function getCutPanels(panels: Panel[], joints: JointSpec[], settings: Settings): Panel[] {
+  const furnitureDepth = settings.furnitureDepth || 400;
+  return applyJoinery(panels, joints, settings).map((panel) => {
+    if (!isBanded(panel.edgeBanding)) return panel;
+    const { thickness } = getBandingType(settings, panel.edgeBanding.typeId);
+    if (thickness <= 0) return panel;
+    const { along, across } = countBandedEdges(panel.edgeBanding);
+    const { cutWidth, cutHeight } = getCutDimensions(panel, furnitureDepth);
+    return withCutSize(panel, cutWidth - across * thickness, cutHeight - along * thickness);
+  });
+}
+
+/**
+ * Key identifying panels that are cut identically: normalized cut size
+ * (length × width), the material or board stock when it isn't the
+ * default one (which also settles the thickness), which way the grain runs on the piece,
+ * which of its edges get banded and with what, and any notches, cut-outs
+ * or holes. Panels sharing a key share a cut-list letter.
+ */
+export function getPanelCutKey(panel: Panel, furnitureDepth: number): string {
+  const { cutWidth, cutHeight } = getCutDimensions(panel, furnitureDepth);
+  const length = Math.max(cutWidth, cutHeight);
+  const width = Math.min(cutWidth, cutHeight);
+  let key = `${length}x${width}`;
+  if (panel.materialId) key += `@${panel.materialId}`;
+  if (panel.linearStockId) key += `|${panel.linearStockId}`;
+
+  const grain = getPieceGrain(panel, furnitureDepth);
+  if (grain) key += `~${grain}`;
+  const banding = getBandedEdgeCounts(panel, furnitureDepth);
+  if (banding) key += `=${banding.long}${banding.short}${panel.edgeBanding!.typeId ? `:${panel.edgeBanding!.typeId}` : ""}`;
+
+  const featuresKey = getFeaturesKey(panel);
+  return featuresKey ? `${key}#${featuresKey}` : key;
+}
+
+/**
+ * Label of the part at an index in cut-list order: A…Z, then AA, AB… like
+ * spreadsheet columns, or 1, 2, 3…
+ */
+export function getPartLabel(index: number, numbering: PartNumbering = "letters"): string {
+  if (numbering === "numbers") return String(index + 1);
+  let label = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+// Orientation that lines a grained piece up with the sheet grain
+function getPieceLock(grain: PieceGrain | undefined, sheetGrain: SheetGrain): Piece["lock"] {
+  return !grain || sheetGrain === "none" ? undefined : grain === sheetGrain ? "normal" : "rotated";
+}
+
+/**
+ * Whether a panel's cut piece fits on at least one stock size of its
+ * material once edge trim, kerf and grain are allowed for. Panels that
+ * don't fit end up in `unplacedPieces`.
+ */
+export function fitsMaterialStock(panel: Panel, settings: Settings): boolean {
+  const material = getPanelMaterial(panel, settings);
+  const { cutWidth, cutHeight } = getCutDimensions(panel, settings.furnitureDepth || 400);
+  const width = Math.max(cutWidth, cutHeight);
+  const height = Math.min(cutWidth, cutHeight);
+  const lock = getPieceLock(getPieceGrain(panel, settings.furnitureDepth || 400), getMaterialGrain(material));
+  return fitsStock(material, width, height, lock, getCutOptions(settings));
+}
+
+/**
+ * The strip a grain-matched group is cut from, and whether it fits on at
+ * least one stock size of the group's material. Members go end to end, so
+ * a group can outgrow every sheet while each part would fit on its own.
+ */
+export function getGrainGroupFit(panels: Panel[], settings: Settings): { length: number; fits: boolean } {
+  const furnitureDepth = settings.furnitureDepth || 400;
+  const material = getPanelMaterial(panels[0], settings);
+  const options = getCutOptions(settings);
+  const pieces = panels.flatMap((panel) => {
+    const { cutWidth, cutHeight } = getCutDimensions(panel, furnitureDepth);
+    const piece = {
+      width: Math.max(cutWidth, cutHeight),
+      height: Math.min(cutWidth, cutHeight),
+      grain: getPieceGrain(panel, furnitureDepth),
+    };
+    return Array.from({ length: panel.quantity || 1 }, () => piece);
+  });
+  const strip = getGrainStrip(pieces, options.kerf);
+  const lock = getPieceLock(strip.grain, getMaterialGrain(material));
+  return { length: strip.width, fits: fitsStock(material, strip.width, strip.height, lock, options) };
+}
+
+function fitsStock(material: Material, width: number, height: number, lock: Piece["lock"], options: CutOptions): boolean {
+  return getMaterialStock(material).some((size) => {
+    const area = getPackingArea(size.width, size.height, options);
+    return (
+      (lock !== "rotated" && width + options.kerf <= area.width && height + options.kerf <= area.height) ||
+      (lock !== "normal" && height + options.kerf <= area.width && width + options.kerf <= area.height)
+    );
+  });
+}
+
+// A grain-matched group's members end to end, turned so the grain runs
+// along the strip
+function getGrainStrip<T extends { width: number; height: number; grain?: PieceGrain }>(group: T[], kerf: number) {
+  const members = group.map((piece) => ({ piece, turned: piece.grain === "width" }));
+  return {
+    members,
+    width: members.reduce((sum, m) => sum + (m.turned ? m.piece.height : m.piece.width), 0) + kerf * (members.length - 1),
+    height: Math.max(...members.map((m) => (m.turned ? m.piece.width : m.piece.height))),
+    grain: group.some((piece) => piece.grain) ? ("length" as const) : undefined,
+  };
+}
+
 type SortStrategy = 'area' | 'width' | 'height' | 'perimeter' | 'maxSide';
 
 /**
@@ -85,43 +314,169 @@ function sortPieces(pieces: Piece[], strategy: SortStrategy): Piece[] {
   }
 }
 
+// A packing configuration: the order pieces are placed in, which stock
+// policy opens new sheets and the placement heuristic
+interface PackingConfig {
+  order: Piece[];
+  stock: number; // Index into PackingSearch.stockPolicies
+  heuristic: PlacementHeuristic;
+}
+
+// Everything needed to pack one material's pieces and compare layouts
+interface PackingSearch {
+  pieces: Piece[];
+  stockPolicies: SheetStock[][];
+  heuristics: PlacementHeuristic[];
+  seeds: PackingConfig[];
+  pack: (config: PackingConfig) => OptimizationResult;
+  isBetter: (result: OptimizationResult, than: OptimizationResult | null) => boolean;
+  energy: (result: OptimizationResult) => number;
+}
+
 /**
  * Advanced bin-packing with multiple strategies - picks the best result
+ * @param stockSizes - Sheet sizes that can be bought; the cheapest mix wins
  * @param dimensionToLetter - Map from "length x width" key to letter (A, B, C...)
+ * @param inventory - Offcuts and partial sheets to fill before opening new sheets
  */
 export function optimizeCuts(
   panels: Panel[],
-  sheetWidth: number,
-  sheetHeight: number,
+  stockSizes: StockSize[],
   furnitureDepth: number = 400,
   dimensionToLetter?: Map<string, string>,
+  options: CutOptions = DEFAULT_CUT_OPTIONS,
+  inventory: InventoryItem[] = [],
 ): OptimizationResult {
-  if (panels.length === 0) {
-    return {
-      sheets: [],
-      totalSheets: 0,
-      totalWaste: 0,
-      unplacedPieces: [],
-    };
+  if (panels.length === 0) return emptyResult();
+
+  const search = createPackingSearch(panels, stockSizes, furnitureDepth, dimensionToLetter, options, inventory);
+  return runSeeds(search).result;
+}
+
+// Search tuning: annealing temperature, in energy units (~ one sheet)
+const START_TEMPERATURE = 0.3;
+const END_TEMPERATURE = 0.005;
+const PROGRESS_INTERVAL = 100; // ms between progress reports
+
+export interface SearchOptions {
+  timeBudget: number; // ms to keep searching
+  onProgress?: (progress: number, iterations: number) => void; // 0..1
+  onImprove?: (result: OptimizationResult) => void;
+  random?: () => number; // Seedable source for repeatable runs
+}
+
+/**
+ * Keep improving on optimizeCuts' layout until the time budget runs out,
+ * by simulated annealing over piece order, piece orientation, stock
+ * policy and heuristic. Neighbouring layouts swap or move pieces in the
+ * order, or turn one; worse ones are accepted with a probability that
+ * falls as the search cools, so it can climb out of a local best.
+ * Synchronous - run it in a worker.
+ */
+export function improveCuts(
+  panels: Panel[],
+  stockSizes: StockSize[],
+  furnitureDepth: number,
+  dimensionToLetter: Map<string, string> | undefined,
+  options: CutOptions,
+  inventory: InventoryItem[],
+  searchOptions: SearchOptions,
+): OptimizationResult {
+  if (panels.length === 0) return emptyResult();
+
+  const search = createPackingSearch(panels, stockSizes, furnitureDepth, dimensionToLetter, options, inventory);
+  return anneal(search, runSeeds(search), searchOptions);
+}
+
+// improveCuts' search, starting from the best seed layout
+function anneal(
+  search: PackingSearch,
+  seed: { config: PackingConfig; result: OptimizationResult },
+  searchOptions: SearchOptions,
+): OptimizationResult {
+  const { timeBudget, onProgress, onImprove, random = Math.random } = searchOptions;
+  let best = seed.result;
+  let current = seed;
+  let currentEnergy = search.energy(current.result);
+  const pick = (n: number) => Math.floor(random() * n);
+
+  const startedAt = Date.now();
+  let reportedAt = startedAt;
+  let iterations = 0;
+  // A single piece held to the grain has only one layout; nothing to search
+  const canSearch =
+    search.pieces.length > 1 ||
+    search.pieces.some((p) => !p.lock) ||
+    search.heuristics.length > 1 ||
+    search.stockPolicies.length > 1;
+
+  while (canSearch) {
+    const elapsed = Date.now() - startedAt;
+    if (elapsed >= timeBudget) break;
+    const progress = elapsed / timeBudget;
+    const temperature = START_TEMPERATURE * Math.pow(END_TEMPERATURE / START_TEMPERATURE, progress);
+
+    const config = mutateConfig(current, search, random, pick);
+    const result = search.pack(config);
+    const energy = search.energy(result);
+    iterations++;
+
+    if (energy <= currentEnergy || random() < Math.exp((currentEnergy - energy) / temperature)) {
+      current = { config, result };
+      currentEnergy = energy;
+    }
+    if (search.isBetter(result, best)) {
+      best = result;
+      onImprove?.(best);
+    }
+
+    if (onProgress && Date.now() - reportedAt >= PROGRESS_INTERVAL) {
+      reportedAt = Date.now();
+      onProgress(progress, iterations);
+    }
   }
 
+  onProgress?.(1, iterations);
+  return best;
+}
+
+function emptyResult(): OptimizationResult {
+  return {
+    sheets: [],
+    totalSheets: 0,
+    totalWaste: 0,
+    unplacedPieces: [],
+  };
+}
+
+/**
+ * Expand panels into pieces and set up stock, orders and comparisons
+ * shared by the fixed strategy grid and the improvement search
+ */
+function createPackingSearch(
+  panels: Panel[],
+  stockSizes: StockSize[],
+  furnitureDepth: number,
+  dimensionToLetter: Map<string, string> | undefined,
+  options: CutOptions,
+  inventory: InventoryItem[],
+): PackingSearch {
   // Expand panels by quantity and calculate cut dimensions
   const pieces: Piece[] = [];
+  const groups = new Map<string, Piece[]>();
   for (const panel of panels) {
     const { cutWidth, cutHeight } = getCutDimensions(panel, furnitureDepth);
+    const grain = getPieceGrain(panel, furnitureDepth);
     
     // Get letter based on dimensions (normalized)
-    const w = Math.max(cutWidth, cutHeight);
-    const h = Math.min(cutWidth, cutHeight);
-    const dimKey = `${w}x${h}`;
-    const letter = dimensionToLetter?.get(dimKey) || "?";
+    const letter = dimensionToLetter ? getPanelLetter(panel, furnitureDepth, dimensionToLetter) : "?";
     
     for (let i = 0; i < panel.quantity; i++) {
       // Normalize so width >= height (standard convention for cuts)
       const w = Math.max(cutWidth, cutHeight);
       const h = Math.min(cutWidth, cutHeight);
       
-      pieces.push({
+      const piece: Piece = {
         id: `${panel.id}_${i}`,
         label: panel.label || `Panel ${letter}`,
         letter: letter, // Same letter for all pieces of same panel type
@@ -129,79 +484,601 @@ export function optimizeCuts(
         height: h,
         sourceId: panel.id,
         orientation: panel.orientation || "horizontal",
-        grainDirection: panel.grainDirection, // Preserve grain direction
-      });
+        grain,
+        lock: getPieceLock(grain, options.sheetGrain),
+      };
+
+      if (panel.grainGroup) {
+        const group = groups.get(panel.grainGroup) || [];
+        group.push(piece);
+        groups.set(panel.grainGroup, group);
+      } else {
+        pieces.push(piece);
+      }
     }
   }
 
+  // Each grain-matched group is nested as one strip, members end to end
+  // with the grain running along it
+  for (const [name, group] of groups) {
+    const { members, width, height, grain } = getGrainStrip(group, options.kerf);
+    pieces.push({
+      id: `group_${name}`,
+      label: name,
+      letter: group[0].letter,
+      width,
+      height,
+      sourceId: group[0].sourceId,
+      orientation: group[0].orientation,
+      grain,
+      lock: getPieceLock(grain, options.sheetGrain),
+      members,
+    });
+  }
+
   // Try multiple sorting strategies and pick the best result
   const strategies: SortStrategy[] = ['area', 'width', 'height', 'perimeter', 'maxSide'];
   const placementHeuristics: PlacementHeuristic[] = ['bestShortSide', 'bestLongSide', 'bestArea', 'bottomLeft'];
   
-  let bestResult: OptimizationResult | null = null;
-  
-  // Try all combinations of sorting strategy and placement heuristic
+  const { offcuts, sizes } = getSheetStock(stockSizes, options, inventory);
+  const stockPolicies = getStockPolicies(sizes).map((policy) => [...offcuts, ...policy]);
+  // Group members map to their group, since placements are per member
+  const piecesById = new Map<string, Piece>();
+  for (const piece of pieces) {
+    for (const { piece: member } of piece.members || [{ piece }]) {
+      piecesById.set(member.id, piece);
+    }
+  }
+
+  // Largest-first orders only reach inventory once a new sheet is full,
+  // so also try leading with the pieces that fit an offcut
+  const fitsOffcut = (piece: Piece) =>
+    offcuts.some((s) => {
+      const allowed = getAllowedOrientations(piece);
+      const { kerf } = options;
+      return (allowed.normal && piece.width + kerf <= s.area.width && piece.height + kerf <= s.area.height) ||
+        (allowed.rotated && piece.height + kerf <= s.area.width && piece.width + kerf <= s.area.height);
+    });
+  const orders: Piece[][] = [];
   for (const strategy of strategies) {
-    for (const heuristic of placementHeuristics) {
-      const sortedPieces = sortPieces(pieces, strategy);
-      const result = packPieces(sortedPieces, panels, sheetWidth, sheetHeight, heuristic);
-      
-      // Compare results: fewer sheets wins, then higher efficiency
-      if (!bestResult || 
-          result.totalSheets < bestResult.totalSheets ||
-          (result.totalSheets === bestResult.totalSheets && (result.efficiency || 0) > (bestResult.efficiency || 0))) {
-        bestResult = result;
+    const sorted = sortPieces(pieces, strategy);
+    orders.push(sorted);
+    if (offcuts.length > 0) {
+      orders.push([...sorted.filter(fitsOffcut), ...sorted.filter((p) => !fitsOffcut(p))]);
+    }
+  }
+
+  const inventoryArea = (result: OptimizationResult) =>
+    result.sheets.reduce((sum, s) => (s.inventoryId ? sum + s.width * s.height : sum), 0);
+
+  const stockCost = new Map(sizes.map((s) => [s.stockId, s.cost]));
+  const sheetCost = (result: OptimizationResult) =>
+    result.sheets.reduce((sum, s) => sum + (s.stockId ? stockCost.get(s.stockId) || 0 : 0), 0);
+
+  // Compare results: cheapest new sheets wins, then fewer new sheets, then
+  // more inventory used up, then higher efficiency
+  const isBetter = (result: OptimizationResult, than: OptimizationResult | null) => {
+    if (!than) return true;
+    if (result.unplacedPieces.length !== than.unplacedPieces.length) {
+      return result.unplacedPieces.length < than.unplacedPieces.length;
+    }
+    const costDiff = sheetCost(result) - sheetCost(than);
+    if (Math.abs(costDiff) > 1e-6) return costDiff < 0;
+    if (result.totalSheets !== than.totalSheets) return result.totalSheets < than.totalSheets;
+    const inventoryUsed = inventoryArea(result) - inventoryArea(than);
+    if (inventoryUsed !== 0) return inventoryUsed > 0;
+    return (result.efficiency || 0) > (than.efficiency || 0);
+  };
+
+  // Annealing energy, in units of the cheapest sheet. Among layouts of
+  // equal cost, fuller sheets (by sum of squared fill) score lower: that
+  // concentrates free space on one sheet until it can be dropped.
+  const unitCost = Math.min(...sizes.map((s) => s.cost)) || 1;
+  const energy = (result: OptimizationResult) => {
+    const fill = result.sheets.reduce((sum, s) => sum + (s.usedArea / (s.width * s.height)) ** 2, 0);
+    return sheetCost(result) / unitCost + result.unplacedPieces.length * 100 - (fill / (result.sheets.length || 1)) * 0.9;
+  };
+
+  // Strip layouts have no placement heuristic - only the order matters
+  const heuristics: PlacementHeuristic[] =
+    options.mode === "nested" ? placementHeuristics : [placementHeuristics[0]];
+
+  const pack = ({ order, stock, heuristic }: PackingConfig) => {
+    const packWith = (packOrder: Piece[], packStock: SheetStock[]) =>
+      options.mode === "nested"
+        ? packPieces(packOrder, panels, packStock, options, heuristic)
+        : packGuillotine(packOrder, panels, packStock, options);
+
+    const result = packWith(order, stockPolicies[stock]);
+    return sizes.length > 1 ? downsizeSheets(result, sizes, piecesById, packWith) : result;
+  };
+
+  // All combinations of piece order, stock order and placement heuristic
+  const seeds = orders.flatMap((order) =>
+    stockPolicies.flatMap((_, stock) => heuristics.map((heuristic) => ({ order, stock, heuristic }))),
+  );
+
+  return { pieces, stockPolicies, heuristics, seeds, pack, isBetter, energy };
+}
+
+// Pack every seed configuration and keep the best
+function runSeeds(search: PackingSearch): { config: PackingConfig; result: OptimizationResult } {
+  let best: { config: PackingConfig; result: OptimizationResult } | null = null;
+  for (const config of search.seeds) {
+    const result = search.pack(config);
+    if (search.isBetter(result, best && best.result)) best = { config, result };
+  }
+  return best!;
+}
+
+// A neighbouring configuration: mostly small changes to the piece order
+function mutateConfig(
+  { config, result }: { config: PackingConfig; result: OptimizationResult },
+  search: PackingSearch,
+  random: () => number,
+  pick: (n: number) => number,
+): PackingConfig {
+  const roll = random();
+  if (roll < 0.1 && search.heuristics.length > 1) {
+    return { ...config, heuristic: search.heuristics[pick(search.heuristics.length)] };
+  }
+  if (roll < 0.15 && search.stockPolicies.length > 1) {
+    return { ...config, stock: pick(search.stockPolicies.length) };
+  }
+
+  const order = [...config.order];
+  if (roll < 0.25) {
+    // Turn a piece the packer placed one way to the other, or free up one
+    // turned before. Pieces held to the sheet grain can't turn.
+    const i = pick(order.length);
+    const piece = order[i];
+    const original = search.pieces.find((p) => p.id === piece.id)!;
+    if (original.lock) return config;
+    if (piece.lock) {
+      order[i] = original;
+    } else {
+      const { piece: first, turned } = piece.members?.[0] || { piece, turned: false };
+      const placement = result.sheets.flatMap((s) => s.placements).find((p) => p.id === first.id);
+      if (!placement) return config;
+      order[i] = { ...piece, lock: placement.rotated !== turned ? "normal" : "rotated" };
+    }
+    return { ...config, order };
+  }
+
+  if (order.length < 2) return config;
+  const i = pick(order.length);
+  let j = pick(order.length - 1);
+  if (j >= i) j++;
+  if (roll < 0.6) {
+    [order[i], order[j]] = [order[j], order[i]];
+  } else {
+    const [piece] = order.splice(i, 1);
+    order.splice(j, 0, piece);
+  }
+  return { ...config, order };
+}
+
+// Optimization result for the panels of a single material
+export interface MaterialCutResult {
+  material: Material;
+  result: OptimizationResult;
+}
+
+/**
+ * Nest each material separately on its own sheet size, since parts of
+ * different materials or thicknesses can never share a sheet. Inventory
+ * stock is offered to the material of the same type and thickness.
+ */
+export function optimizeCutsByMaterial(
+  panels: Panel[],
+  settings: Settings,
+  dimensionToLetter?: Map<string, string>,
+  inventory: InventoryItem[] = [],
+): MaterialCutResult[] {
+  return getMaterialJobs(panels, settings, dimensionToLetter, inventory).map(({ material, args }) => ({
+    material,
+    result: optimizeCuts(...args),
+  }));
+}
+
+export interface MaterialSearchOptions {
+  timeBudget: number; // ms, shared by all materials
+  onProgress?: (progress: number, iterations: number) => void;
+  onImprove?: (results: MaterialCutResult[]) => void; // Every material's current best
+  random?: () => number;
+}
+
+/**
+ * Run the improvement search for each material in turn, splitting the
+ * time budget by piece count. Reports the full set of results whenever
+ * any material's layout gets better.
+ */
+export function improveCutsByMaterial(
+  panels: Panel[],
+  settings: Settings,
+  dimensionToLetter: Map<string, string> | undefined,
+  inventory: InventoryItem[],
+  searchOptions: MaterialSearchOptions,
+): MaterialCutResult[] {
+  const { timeBudget, onProgress, onImprove, random } = searchOptions;
+  const jobs = getMaterialJobs(panels, settings, dimensionToLetter, inventory);
+  const pieceCounts = jobs.map(({ args }) => args[0].reduce((sum, p) => sum + p.quantity, 0));
+  const totalPieces = pieceCounts.reduce((sum, n) => sum + n, 0) || 1;
+
+  // Seed layouts are packed once: they're what materials not searched yet
+  // report, and where each material's search starts
+  const searches = jobs.map(({ args }) => {
+    const search = createPackingSearch(...args);
+    return { search, seed: runSeeds(search) };
+  });
+  const results = jobs.map(({ material }, i) => ({ material, result: searches[i].seed.result }));
+  let done = 0; // Share of the budget already spent
+  let iterationsDone = 0;
+  jobs.forEach(({ material }, i) => {
+    const share = pieceCounts[i] / totalPieces;
+    let iterations = 0;
+    anneal(searches[i].search, searches[i].seed, {
+      timeBudget: timeBudget * share,
+      random,
+      onProgress: (progress, count) => {
+        iterations = count;
+        onProgress?.(done + progress * share, iterationsDone + count);
+      },
+      onImprove: (result) => {
+        results[i] = { material, result };
+        onImprove?.([...results]);
+      },
+    });
+    done += share;
+    iterationsDone += iterations;
+  });
+  return results;
+}
+
+// Arguments for optimizeCuts/improveCuts for each material's panels
+function getMaterialJobs(
+  panels: Panel[],
+  settings: Settings,
+  dimensionToLetter: Map<string, string> | undefined,
+  inventory: InventoryItem[],
+) {
+  const options = getCutOptions(settings);
+  // Offcuts saved from this project are what's left over after cutting
+  // it, not stock it can be cut from
+  const stock =
+    settings.useInventory === false
+      ? []
+      : inventory.filter(
+          (item) => item.source !== "offcut" || (item.projectName || "") !== (settings.projectName || ""),
+        );
+  // Linear parts are cut from boards, see linear.ts
+  const sheetPanels = panels.filter((p) => !getPanelLinearStock(p, settings));
+  return groupPanelsByMaterial(sheetPanels, settings).map(({ material, panels: materialPanels }) => ({
+    material,
+    args: [
+      materialPanels,
+      getMaterialStock(material),
+      settings.furnitureDepth || 400,
+      dimensionToLetter,
+      { ...options, sheetGrain: getMaterialGrain(material) },
+      stock.filter((item) => item.materialType === material.type && item.thickness === material.thickness),
+    ] as [Panel[], StockSize[], number, Map<string, string> | undefined, CutOptions, InventoryItem[]],
+  }));
+}
+
+/**
+ * Combine per-material results into project-wide totals.
+ * Waste is weighted by sheet area so large sheets count proportionally.
+ * totalSheets counts new sheets only; inventory stock is already owned.
+ */
+export function summarizeMaterialResults(results: MaterialCutResult[]): {
+  totalSheets: number;
+  totalWaste: number;
+  unplacedPieces: Panel[];
+} {
+  let usedArea = 0;
+  let sheetArea = 0;
+  for (const { result } of results) {
+    for (const sheet of result.sheets) {
+      usedArea += sheet.usedArea;
+      sheetArea += sheet.width * sheet.height;
+    }
+  }
+
+  return {
+    totalSheets: results.reduce((sum, r) => sum + r.result.totalSheets, 0),
+    totalWaste: sheetArea > 0 ? Math.round((1 - usedArea / sheetArea) * 100) : 0,
+    unplacedPieces: results.flatMap((r) => r.result.unplacedPieces),
+  };
+}
+
+// New sheets bought in one stock size
+export interface StockUsage {
+  stock: StockSize;
+  sheets: number;
+  cost: number;
+}
+
+/**
+ * Count the new sheets a layout buys per stock size, in the material's
+ * stock order. Sizes that aren't used are left out.
+ */
+export function getStockUsage(material: Material, result: OptimizationResult): StockUsage[] {
+  return getMaterialStock(material)
+    .map((stock) => {
+      const sheets = result.sheets.filter((s) => s.stockId === stock.id).length;
+      return { stock, sheets, cost: sheets * (stock.price || 0) };
+    })
+    .filter((usage) => usage.sheets > 0);
+}
+
+// A sheet the packer can open: an inventory offcut or a new sheet of one
+// of the material's stock sizes
+interface SheetStock {
+  width: number;
+  height: number;
+  area: FreeRect; // Packing region, see getPackingArea
+  count: number; // How many can be opened
+  cost: number; // Price of a new sheet - or its area when not every size is priced
+  stockId?: string;
+  inventoryId?: string;
+}
+
+/**
+ * Inventory offcuts, smallest first so scraps get used up, and the stock
+ * sizes new sheets can be bought in. Offcuts already have sawn edges, so
+ * only new sheets lose the edge trim.
+ */
+function getSheetStock(
+  stockSizes: StockSize[],
+  options: CutOptions,
+  inventory: InventoryItem[],
+): { offcuts: SheetStock[]; sizes: SheetStock[] } {
+  const untrimmed = { ...options, edgeTrim: 0 };
+  const offcuts = inventory
+    .filter((item) => item.quantity > 0)
+    .sort((a, b) => a.width * a.height - b.width * b.height)
+    .map((item) => ({
+      width: item.width,
+      height: item.height,
+      area: getPackingArea(item.width, item.height, untrimmed),
+      count: item.quantity,
+      cost: 0,
+      inventoryId: item.id,
+    }));
+
+  // Mixing priced and unpriced sizes can't be compared on price
+  const allPriced = stockSizes.every((size) => (size.price || 0) > 0);
+  const sizes = stockSizes.map((size) => ({
+    width: size.width,
+    height: size.height,
+    area: getPackingArea(size.width, size.height, options),
+    count: size.maxQuantity ?? Infinity,
+    cost: allPriced ? size.price! : size.width * size.height,
+    stockId: size.id,
+  }));
+
+  return { offcuts, sizes };
+}
+
+/**
+ * Orders to try opening new sheet sizes in: each size first (the rest
+ * largest-first), plus smallest-first. A single size gives one order.
+ */
+function getStockPolicies(sizes: SheetStock[]): SheetStock[][] {
+  if (sizes.length <= 1) return [sizes];
+  const largestFirst = [...sizes].sort((a, b) => b.width * b.height - a.width * a.height);
+  const policies = sizes.map((first) => [first, ...largestFirst.filter((s) => s !== first)]);
+  policies.push([...largestFirst].reverse());
+  return policies;
+}
+
+/**
+ * Re-cut each new sheet's pieces from cheaper stock sizes when that costs
+ * less - typically a part-used last sheet swapped for one or two smaller
+ * sheets.
+ */
+function downsizeSheets(
+  result: OptimizationResult,
+  sizes: SheetStock[],
+  piecesById: Map<string, Piece>,
+  pack: (pieces: Piece[], stock: SheetStock[]) => OptimizationResult,
+): OptimizationResult {
+  const used = new Map<string, number>();
+  const countUsed = (sheets: Sheet[], delta: number) => {
+    for (const sheet of sheets) {
+      if (sheet.stockId) used.set(sheet.stockId, (used.get(sheet.stockId) || 0) + delta);
+    }
+  };
+  countUsed(result.sheets, 1);
+
+  // Each sheet's layout, with sheet indexes relative to the group
+  const groups = result.sheets.map((sheet, sheetIndex) => ({
+    sheets: [sheet],
+    usableWaste: (result.usableWaste || [])
+      .filter((w) => w.sheetIndex === sheetIndex)
+      .map((w) => ({ ...w, sheetIndex: 0 })),
+    cutSequence: (result.cutSequence || [])
+      .filter((c) => c.sheetIndex === sheetIndex)
+      .map((c) => ({ ...c, sheetIndex: 0 })),
+  }));
+  let changed = false;
+
+  result.sheets.forEach((sheet, sheetIndex) => {
+    const current = sizes.find((s) => s.stockId === sheet.stockId);
+    if (!current) return; // Inventory stock is free
+
+    const cheaper = sizes
+      .filter((s) => s.cost < current.cost)
+      .map((s) => ({ ...s, count: s.count - (used.get(s.stockId!) || 0) }))
+      .filter((s) => s.count > 0);
+    if (cheaper.length === 0) return;
+
+    // Group members share one piece
+    const pieces = sortPieces([...new Set(sheet.placements.map((p) => piecesById.get(p.id)!))], 'area');
+    let best: OptimizationResult | null = null;
+    let bestCost = current.cost;
+    for (const stock of getStockPolicies(cheaper)) {
+      const repacked = pack(pieces, stock);
+      const placed = repacked.sheets.reduce((sum, s) => sum + s.placements.length, 0);
+      const cost = repacked.sheets.reduce(
+        (sum, s) => sum + cheaper.find((c) => c.stockId === s.stockId)!.cost,
+        0,
+      );
+      if (placed === sheet.placements.length && cost < bestCost) {
+        best = repacked;
+        bestCost = cost;
       }
     }
+    if (!best) return;
+
+    groups[sheetIndex] = {
+      sheets: best.sheets,
+      usableWaste: best.usableWaste || [],
+      cutSequence: best.cutSequence || [],
+    };
+    countUsed([sheet], -1);
+    countUsed(best.sheets, 1);
+    changed = true;
+  });
+
+  if (!changed) return result;
+
+  // Stitch the groups back together, renumbering sheets
+  const sheets: Sheet[] = [];
+  const usableWaste: UsableWastePiece[] = [];
+  const cutSequence: CutStep[] = [];
+  for (const group of groups) {
+    const offset = sheets.length;
+    sheets.push(...group.sheets.map((sheet, i) => ({ ...sheet, id: `sheet_${offset + i + 1}` })));
+    usableWaste.push(...group.usableWaste.map((w) => ({ ...w, sheetIndex: offset + w.sheetIndex })));
+    cutSequence.push(...group.cutSequence.map((c) => ({ ...c, sheetIndex: offset + c.sheetIndex })));
   }
 
-  return bestResult!;
+  return buildResult(sheets, result.unplacedPieces, usableWaste, result.cutSequence && cutSequence);
+}
+
+function createSheet(index: number, stock: SheetStock): Sheet {
+  return {
+    id: `sheet_${index + 1}`,
+    width: stock.width,
+    height: stock.height,
+    stockId: stock.stockId,
+    inventoryId: stock.inventoryId,
+    placements: [],
+    usedArea: 0,
+    wastePercent: 100,
+  };
+}
+
+/**
+ * Totals for a packed layout. Only new sheets count towards totalSheets;
+ * waste and efficiency cover every sheet used, inventory included.
+ */
+function buildResult(
+  sheets: Sheet[],
+  unplacedPieces: Panel[],
+  usableWaste: UsableWastePiece[],
+  cutSequence?: CutStep[],
+): OptimizationResult {
+  const totalUsedArea = sheets.reduce((sum, s) => sum + s.usedArea, 0);
+  const totalSheetArea = sheets.reduce((sum, s) => sum + s.width * s.height, 0);
+
+  // Sort usable waste by area (largest first)
+  usableWaste.sort((a, b) => b.area - a.area);
+
+  return {
+    sheets,
+    totalSheets: sheets.filter((s) => !s.inventoryId).length,
+    totalWaste: totalSheetArea > 0 ? Math.round((1 - totalUsedArea / totalSheetArea) * 100) : 0,
+    unplacedPieces,
+    usableWaste,
+    efficiency: totalSheetArea > 0 ? Math.round((totalUsedArea / totalSheetArea) * 100) : 0,
+    ...(cutSequence && { cutSequence }),
+  };
 }
 
 type PlacementHeuristic = 'bestShortSide' | 'bestLongSide' | 'bestArea' | 'bottomLeft';
 
+/**
+ * Orientations a piece may take on the sheet. Grained pieces are held to
+ * the one that matches the sheet grain; square ones may still turn if
+ * that's the matching orientation.
+ */
+function getAllowedOrientations(piece: Piece): AllowedOrientations {
+  return { normal: piece.lock !== "rotated", rotated: piece.lock !== "normal" };
+}
+
+/**
+ * Place a piece on the sheet, expanding a grain-matched group into its
+ * members laid end to end
+ */
+function placePiece(piece: Piece, x: number, y: number, rotated: boolean, kerf: number): Placement[] {
+  if (!piece.members) return [toPlacement(piece, x, y, rotated)];
+
+  const placements: Placement[] = [];
+  let offset = 0;
+  for (const { piece: member, turned } of piece.members) {
+    const placement = toPlacement(member, rotated ? x : x + offset, rotated ? y + offset : y, rotated !== turned);
+    placements.push(placement);
+    offset += (rotated ? placement.height : placement.width) + kerf;
+  }
+  return placements;
+}
+
+function toPlacement(piece: Piece, x: number, y: number, rotated: boolean): Placement {
+  // Grain along a piece's length runs along the sheet unless it's turned
+  const grainDirection: GrainDirection | undefined =
+    piece.grain && ((piece.grain === "length") !== rotated ? "horizontal" : "vertical");
+  return {
+    id: piece.id,
+    label: piece.label,
+    letter: piece.letter,
+    x,
+    y,
+    width: rotated ? piece.height : piece.width,
+    height: rotated ? piece.width : piece.height,
+    rotated,
+    sourceId: piece.sourceId,
+    grainDirection,
+  };
+}
+
+// Record a piece (or every member of a group) that fits no stock
+function addUnplaced(unplacedPieces: Panel[], piece: Piece, panels: Panel[]) {
+  for (const { piece: member } of piece.members || [{ piece }]) {
+    if (!unplacedPieces.some((p) => p.id === member.sourceId)) {
+      const original = panels.find((p) => p.id === member.sourceId);
+      if (original) unplacedPieces.push(original);
+    }
+  }
+}
+
 /**
  * Pack pieces into sheets using Best-Fit Decreasing with Guillotine cutting
  */
 function packPieces(
   pieces: Piece[],
   panels: Panel[],
-  sheetWidth: number,
-  sheetHeight: number,
+  stock: SheetStock[],
+  options: CutOptions,
   heuristic: PlacementHeuristic = 'bestShortSide',
 ): OptimizationResult {
   const sheets: Sheet[] = [];
+  const sheetStock: SheetStock[] = []; // Stock each sheet was opened from
+  const remaining = stock.map((s) => s.count);
   const unplacedPieces: Panel[] = [];
-  const sheetArea = sheetWidth * sheetHeight;
+  const { kerf, minOffcut } = options;
 
   for (const piece of pieces) {
-    // Grain direction affects rotation options
-    // - "horizontal": grain runs along width, cannot rotate (would flip grain)
-    // - "vertical": grain runs along height, cannot rotate
-    // - "none": no grain constraint, can rotate freely
-    const canRotate = piece.grainDirection === undefined || piece.grainDirection === "none";
-    
-    // Check if piece can fit at all (with kerf consideration)
-    const canFitNormal =
-      piece.width + KERF <= sheetWidth && piece.height + KERF <= sheetHeight;
-    const canFitRotated = canRotate &&
-      piece.height + KERF <= sheetWidth && piece.width + KERF <= sheetHeight;
-
-    if (!canFitNormal && !canFitRotated) {
-      // Piece is too large for any sheet
-      const existing = unplacedPieces.find((p) => p.id === piece.sourceId);
-      if (!existing) {
-        const original = panels.find((p) => p.id === piece.sourceId);
-        if (original) unplacedPieces.push(original);
-      }
-      continue;
-    }
+    // Grained pieces only take the orientation matching the sheet grain
+    const allowed = getAllowedOrientations(piece);
 
     // Find the best position across all existing sheets (Best-Fit)
     let bestPlacement: { sheetIndex: number; x: number; y: number; rotated: boolean; score: number } | null = null;
 
     for (let i = 0; i < sheets.length; i++) {
-      const position = findBestPosition(sheets[i], piece, sheetWidth, sheetHeight, canRotate, heuristic);
+      const position = findBestPosition(sheets[i], piece, sheetStock[i].area, kerf, allowed, heuristic);
       if (position) {
         // Score: lower is better (tighter fit, less wasted space)
         if (!bestPlacement || position.score < bestPlacement.score) {
@@ -210,96 +1087,68 @@ function packPieces(
       }
     }
 
-    if (bestPlacement) {
-      const sheet = sheets[bestPlacement.sheetIndex];
-      sheet.placements.push({
-        id: piece.id,
-        label: piece.label,
-        letter: piece.letter,
-        x: bestPlacement.x,
-        y: bestPlacement.y,
-        width: bestPlacement.rotated ? piece.height : piece.width,
-        height: bestPlacement.rotated ? piece.width : piece.height,
-        rotated: bestPlacement.rotated,
-        sourceId: piece.sourceId,
-        grainDirection: piece.grainDirection,
-      });
-      sheet.usedArea += piece.width * piece.height;
-      sheet.wastePercent = Math.round((1 - sheet.usedArea / sheetArea) * 100);
-    } else {
-      // Create new sheet
-      const newSheet: Sheet = {
-        id: `sheet_${sheets.length + 1}`,
-        placements: [],
-        usedArea: 0,
-        wastePercent: 100,
-      };
-
-      const rotated = canRotate && !canFitNormal && canFitRotated;
-      newSheet.placements.push({
-        id: piece.id,
-        label: piece.label,
-        letter: piece.letter,
-        x: 0,
-        y: 0,
-        width: rotated ? piece.height : piece.width,
-        height: rotated ? piece.width : piece.height,
-        rotated,
-        sourceId: piece.sourceId,
-        grainDirection: piece.grainDirection,
-      });
-      newSheet.usedArea = piece.width * piece.height;
-      newSheet.wastePercent = Math.round(
-        (1 - newSheet.usedArea / sheetArea) * 100,
+    if (!bestPlacement) {
+      // Open the first stock still available that the piece fits (with kerf)
+      const fitsNormal = (s: SheetStock) =>
+        allowed.normal && piece.width + kerf <= s.area.width && piece.height + kerf <= s.area.height;
+      const fitsRotated = (s: SheetStock) =>
+        allowed.rotated && piece.height + kerf <= s.area.width && piece.width + kerf <= s.area.height;
+      const stockIndex = stock.findIndex(
+        (s, i) => remaining[i] > 0 && (fitsNormal(s) || fitsRotated(s)),
       );
-      sheets.push(newSheet);
+
+      if (stockIndex === -1) {
+        // Piece is too large for any sheet
+        addUnplaced(unplacedPieces, piece, panels);
+        continue;
+      }
+
+      const newStock = stock[stockIndex];
+      remaining[stockIndex]--;
+      sheets.push(createSheet(sheets.length, newStock));
+      sheetStock.push(newStock);
+      bestPlacement = {
+        sheetIndex: sheets.length - 1,
+        x: newStock.area.x,
+        y: newStock.area.y,
+        rotated: !fitsNormal(newStock),
+        score: 0,
+      };
     }
-  }
 
-  const totalUsedArea = sheets.reduce((sum, s) => sum + s.usedArea, 0);
-  const totalSheetArea = sheets.length * sheetArea;
-  const totalWaste =
-    totalSheetArea > 0
-      ? Math.round((1 - totalUsedArea / totalSheetArea) * 100)
-      : 0;
+    const sheet = sheets[bestPlacement.sheetIndex];
+    const placements = placePiece(piece, bestPlacement.x, bestPlacement.y, bestPlacement.rotated, kerf);
+    sheet.placements.push(...placements);
+    sheet.usedArea += placements.reduce((sum, p) => sum + p.width * p.height, 0);
+    sheet.wastePercent = Math.round((1 - sheet.usedArea / (sheet.width * sheet.height)) * 100);
+  }
 
   // Calculate usable waste pieces (leftover areas large enough to reuse)
-  const usableWaste: { sheetIndex: number; x: number; y: number; width: number; height: number; area: number }[] = [];
+  const usableWaste: UsableWastePiece[] = [];
   
   sheets.forEach((sheet, sheetIndex) => {
-    const freeRects = getFreeRectangles(sheet, sheetWidth, sheetHeight);
+    const freeRects = getFreeRectangles(sheet, sheetStock[sheetIndex].area, kerf);
     
     for (const rect of freeRects) {
+      // Free rects include the kerf needed to cut the offcut free
+      const width = rect.width - kerf;
+      const height = rect.height - kerf;
+
       // Only include pieces that are large enough to be useful
-      if (rect.width >= MIN_USABLE_WASTE && rect.height >= MIN_USABLE_WASTE) {
+      if (width >= minOffcut && height >= minOffcut) {
         usableWaste.push({
           sheetIndex,
           x: rect.x,
           y: rect.y,
-          width: rect.width,
-          height: rect.height,
-          area: rect.width * rect.height,
+          width,
+          height,
+          area: width * height,
         });
       }
     }
   });
 
-  // Sort usable waste by area (largest first)
-  usableWaste.sort((a, b) => b.area - a.area);
-
-  // Calculate efficiency
-  const efficiency = totalSheetArea > 0 
-    ? Math.round((totalUsedArea / totalSheetArea) * 100) 
-    : 0;
-
-  return {
-    sheets,
-    totalSheets: sheets.length,
-    totalWaste,
-    unplacedPieces,
-    usableWaste,
-    efficiency,
-  };
+  return buildResult(sheets, unplacedPieces, usableWaste);
 }
 
 /**
@@ -309,13 +1158,13 @@ function packPieces(
 function findBestPosition(
   sheet: Sheet,
   piece: Piece,
-  sheetWidth: number,
-  sheetHeight: number,
-  canRotate: boolean = true,
+  area: FreeRect,
+  kerf: number,
+  allowed: AllowedOrientations,
   heuristic: PlacementHeuristic = 'bestShortSide',
 ): { x: number; y: number; rotated: boolean; score: number } | null {
   // Get free rectangles using maximal rectangles algorithm
-  const freeRects = getFreeRectangles(sheet, sheetWidth, sheetHeight);
+  const freeRects = getFreeRectangles(sheet, area, kerf);
   
   let bestFit: { x: number; y: number; rotated: boolean; score: number } | null = null;
 
@@ -345,7 +1194,7 @@ function findBestPosition(
   // Try each free rectangle
   for (const rect of freeRects) {
     // Try normal orientation
-    if (piece.width + KERF <= rect.width && piece.height + KERF <= rect.height) {
+    if (allowed.normal && piece.width + kerf <= rect.width && piece.height + kerf <= rect.height) {
       const score = calculateScore(rect, piece.width, piece.height);
       
       if (!bestFit || score < bestFit.score) {
@@ -353,9 +1202,9 @@ function findBestPosition(
       }
     }
     
-    // Try rotated orientation (only if dimensions differ and rotation is allowed)
-    if (canRotate && piece.width !== piece.height && 
-        piece.height + KERF <= rect.width && piece.width + KERF <= rect.height) {
+    // Try rotated orientation (only if allowed and it makes a difference)
+    if (allowed.rotated && (piece.width !== piece.height || !allowed.normal) &&
+        piece.height + kerf <= rect.width && piece.width + kerf <= rect.height) {
       const score = calculateScore(rect, piece.height, piece.width);
       
       if (!bestFit || score < bestFit.score) {
@@ -369,21 +1218,28 @@ function findBestPosition(
 
 function getFreeRectangles(
   sheet: Sheet,
-  sheetWidth: number,
-  sheetHeight: number,
+  area: FreeRect,
+  kerf: number,
 ): FreeRect[] {
   if (sheet.placements.length === 0) {
-    return [{ x: 0, y: 0, width: sheetWidth, height: sheetHeight }];
+    return [{ ...area }];
   }
 
   // Use Guillotine algorithm with maximal rectangles
   const freeRects: FreeRect[] = [];
   
-  // Start with the full sheet as free
-  let workingRects: FreeRect[] = [{ x: 0, y: 0, width: sheetWidth, height: sheetHeight }];
+  // Start with the trimmed sheet as free
+  let workingRects: FreeRect[] = [{ ...area }];
   
   // For each placement, split the affected free rectangles
-  for (const placement of sheet.placements) {
+  for (const placed of sheet.placements) {
+    // Reserve the saw cut along the piece's right and bottom edges
+    const placement = {
+      x: placed.x,
+      y: placed.y,
+      width: placed.width + kerf,
+      height: placed.height + kerf,
+    };
     const newRects: FreeRect[] = [];
     
     for (const rect of workingRects) {
@@ -460,6 +1316,267 @@ function getFreeRectangles(
   return freeRects;
 }
 
+// ============================================
+// Guillotine Layout
+// ============================================
+
+// A first-stage strip: a band across the full packing area that is cut
+// off the sheet, then crosscut into pieces by second-stage cuts
+interface GuillotineStrip {
+  y: number;
+  height: number;
+  used: number; // Length taken along the strip, kerfs included
+  slots: GuillotineSlot[];
+}
+
+// Room one piece takes in a strip; a grain-matched group fills one slot
+// with several placements
+interface GuillotineSlot extends FreeRect {
+  placements: Placement[]; // On the sheet, not in strip space
+}
+
+interface GuillotineLayout {
+  stock: SheetStock;
+  transpose: boolean; // Strip space is the sheet turned a quarter turn
+  area: FreeRect; // Packing region in strip space
+  strips: GuillotineStrip[];
+  used: number; // Height taken by strips, kerfs included
+}
+
+/**
+ * Pack pieces as a three-stage guillotine layout where every cut runs
+ * straight through the part it divides, so it can be done on a table or
+ * panel saw. The layout is a tree: sheet → strips → pieces → trims.
+ *
+ * Packing happens in "strip space", where first-stage cuts are horizontal.
+ * Rip-first strips run along the sheet's long side and crosscut-first
+ * strips across it, so each sheet is transposed back as needed.
+ */
+function packGuillotine(
+  pieces: Piece[],
+  panels: Panel[],
+  stock: SheetStock[],
+  options: CutOptions,
+): OptimizationResult {
+  const { kerf, minOffcut, mode } = options;
+  const firstStage: CutDirection = mode === "rip-first" ? "rip" : "crosscut";
+  const secondStage: CutDirection = mode === "rip-first" ? "crosscut" : "rip";
+
+  const layouts: GuillotineLayout[] = [];
+  const remaining = stock.map((s) => s.count);
+  const unplacedPieces: Panel[] = [];
+
+  const openLayout = (s: SheetStock): GuillotineLayout => {
+    const transpose = (mode === "rip-first") !== (s.width >= s.height);
+    const area = transposeRect(s.area, transpose);
+    return { stock: s, transpose, area, strips: [], used: 0 };
+  };
+
+  const openStrip = (layout: GuillotineLayout, height: number): GuillotineStrip => {
+    const strip: GuillotineStrip = { y: layout.area.y + layout.used, height, used: 0, slots: [] };
+    layout.strips.push(strip);
+    layout.used += height + kerf;
+    return strip;
+  };
+
+  // Orientations of a piece in a layout's strip space that fit its
+  // packing area; "rotated" is relative to the sheet
+  const getOrientations = (piece: Piece, { transpose, area }: Pick<GuillotineLayout, "transpose" | "area">) => {
+    // Same grain rule as free nesting
+    const allowed = getAllowedOrientations(piece);
+    const width = transpose ? piece.height : piece.width;
+    const height = transpose ? piece.width : piece.height;
+    const orientations: { width: number; height: number; rotated: boolean }[] = [];
+    if (allowed.normal) {
+      orientations.push({ width, height, rotated: false });
+    }
+    if (allowed.rotated && (width !== height || !allowed.normal)) {
+      orientations.push({ width: height, height: width, rotated: true });
+    }
+    return orientations.filter(
+      (o) => o.width + kerf <= area.width && o.height + kerf <= area.height,
+    );
+  };
+  type Orientation = ReturnType<typeof getOrientations>[number];
+
+  // How much of the sheet a new strip opened with pieces[index] would put
+  // to use: the piece, then later pieces in order that fit beside it. The
+  // height left below the strip counts as taken when no other later piece
+  // fits in it, so a narrow strip that strands the rest of the sheet loses
+  // to a wider one holding more pieces.
+  const getStripUsage = (layout: GuillotineLayout, index: number, orientation: Orientation) => {
+    const { area } = layout;
+    let used = orientation.width + kerf;
+    let filled = orientation.width * orientation.height;
+    const rest: Piece[] = [];
+    for (const next of pieces.slice(index + 1)) {
+      const fitting = getOrientations(next, layout).filter(
+        (o) => o.height <= orientation.height && used + o.width + kerf <= area.width,
+      );
+      if (fitting.length === 0) {
+        rest.push(next);
+        continue;
+      }
+      const tallest = fitting.reduce((a, b) => (b.height > a.height ? b : a));
+      used += tallest.width + kerf;
+      filled += tallest.width * tallest.height;
+    }
+    const below = area.height - layout.used - orientation.height - kerf;
+    const stranded = !rest.some((next) => getOrientations(next, layout).some((o) => o.height + kerf <= below));
+    return filled / ((orientation.height + kerf + (stranded ? below : 0)) * area.width);
+  };
+
+  // The orientation to open a strip in: the one putting most of the sheet
+  // to use, or the narrowest when they tie
+  const getStripOrientation = (layout: GuillotineLayout, index: number, candidates: Orientation[]) => {
+    let best: { orientation: Orientation; usage: number } | null = null;
+    for (const orientation of [...candidates].sort((a, b) => a.height - b.height)) {
+      const usage = getStripUsage(layout, index, orientation);
+      if (!best || usage > best.usage + 1e-9) best = { orientation, usage };
+    }
+    return best!.orientation;
+  };
+
+  pieces.forEach((piece, index) => {
+    // Best fit among open strips: least height left over beside the piece
+    let best: { layout: GuillotineLayout; strip: GuillotineStrip; orientation: Orientation; score: number } | null = null;
+    for (const layout of layouts) {
+      const fitting = getOrientations(piece, layout);
+      for (const strip of layout.strips) {
+        for (const orientation of fitting) {
+          if (orientation.height > strip.height) continue;
+          if (strip.used + orientation.width + kerf > layout.area.width) continue;
+          const score = strip.height - orientation.height;
+          if (!best || score < best.score) {
+            best = { layout, strip, orientation, score };
+          }
+        }
+      }
+    }
+
+    // Otherwise open a new strip on the first sheet with room for one
+    if (!best) {
+      for (const layout of layouts) {
+        const fitting = getOrientations(piece, layout).filter(
+          (o) => layout.used + o.height + kerf <= layout.area.height,
+        );
+        if (fitting.length > 0) {
+          const orientation = getStripOrientation(layout, index, fitting);
+          best = { layout, strip: openStrip(layout, orientation.height), orientation, score: 0 };
+          break;
+        }
+      }
+    }
+
+    // Otherwise open the first stock still available that the piece fits
+    if (!best) {
+      const stockIndex = stock.findIndex(
+        (s, i) => remaining[i] > 0 && getOrientations(piece, openLayout(s)).length > 0,
+      );
+      if (stockIndex === -1) {
+        addUnplaced(unplacedPieces, piece, panels);
+        return;
+      }
+
+      remaining[stockIndex]--;
+      const layout = openLayout(stock[stockIndex]);
+      layouts.push(layout);
+      const orientation = getStripOrientation(layout, index, getOrientations(piece, layout));
+      best = { layout, strip: openStrip(layout, orientation.height), orientation, score: 0 };
+    }
+
+    const { layout, strip, orientation } = best;
+    const slot = { x: layout.area.x + strip.used, y: strip.y, width: orientation.width, height: orientation.height };
+    const onSheet = transposeRect(slot, layout.transpose);
+    strip.slots.push({
+      ...slot,
+      placements: placePiece(piece, onSheet.x, onSheet.y, orientation.rotated, kerf),
+    });
+    strip.used += orientation.width + kerf;
+  });
+
+  const sheets: Sheet[] = [];
+  const cutSequence: CutStep[] = [];
+  const usableWaste: UsableWastePiece[] = [];
+
+  layouts.forEach((layout, sheetIndex) => {
+    const { area, transpose } = layout;
+    // Trimmed sheet edges - the far side of the last strip/piece needs no kerf
+    const xEnd = area.x + area.width - kerf;
+    const yEnd = area.y + area.height - kerf;
+
+    // Map a strip-space rectangle back onto the sheet
+    const toSheet = <T extends FreeRect>(rect: T): T => transposeRect(rect, transpose);
+
+    let step = 0;
+    const addCut = (direction: CutDirection, offset: number, x1: number, y1: number, x2: number, y2: number) => {
+      step++;
+      cutSequence.push(
+        transpose
+          ? { sheetIndex, step, direction, offset, x1: y1, y1: x1, x2: y2, y2: x2 }
+          : { sheetIndex, step, direction, offset, x1, y1, x2, y2 },
+      );
+    };
+    const addWaste = (x: number, y: number, width: number, height: number) => {
+      if (width >= minOffcut && height >= minOffcut) {
+        usableWaste.push(toSheet({ sheetIndex, x, y, width, height, area: width * height }));
+      }
+    };
+
+    // Walk the cut tree depth-first: free a strip, then cut it up
+    for (const strip of layout.strips) {
+      const stripEnd = strip.y + strip.height;
+      if (stripEnd < yEnd) {
+        addCut(firstStage, strip.height, area.x, stripEnd, xEnd, stripEnd);
+      }
+
+      for (const slot of strip.slots) {
+        const pieceEnd = slot.x + slot.width;
+        if (pieceEnd < xEnd) {
+          addCut(secondStage, slot.width, pieceEnd, strip.y, pieceEnd, stripEnd);
+        }
+        // Third stage: trim a piece narrower than its strip
+        const pieceBottom = slot.y + slot.height;
+        if (pieceBottom < stripEnd) {
+          addCut(firstStage, slot.height, slot.x, pieceBottom, pieceEnd, pieceBottom);
+          addWaste(slot.x, pieceBottom + kerf, slot.width, stripEnd - pieceBottom - kerf);
+        }
+        // Then part a grain-matched group, member by member
+        const members = slot.placements.map(toSheet);
+        const alongStrip = members.length > 1 && members[1].x > members[0].x;
+        for (const member of members.slice(0, -1)) {
+          if (alongStrip) {
+            const memberEnd = member.x + member.width;
+            addCut(secondStage, member.width, memberEnd, slot.y, memberEnd, pieceBottom);
+          } else {
+            const memberEnd = member.y + member.height;
+            addCut(firstStage, member.height, slot.x, memberEnd, pieceEnd, memberEnd);
+          }
+        }
+      }
+
+      const stripLeftover = area.x + strip.used;
+      addWaste(stripLeftover, strip.y, xEnd - stripLeftover, strip.height);
+    }
+
+    const sheetLeftover = area.y + layout.used;
+    addWaste(area.x, sheetLeftover, xEnd - area.x, yEnd - sheetLeftover);
+
+    const sheet = createSheet(sheetIndex, layout.stock);
+    sheet.placements = layout.strips.flatMap((strip) => strip.slots.flatMap((slot) => slot.placements));
+    sheet.usedArea = sheet.placements.reduce((sum, p) => sum + p.width * p.height, 0);
+    sheet.wastePercent = Math.round((1 - sheet.usedArea / (sheet.width * sheet.height)) * 100);
+    sheets.push(sheet);
+  });
+
+  return buildResult(sheets, unplacedPieces, usableWaste, cutSequence);
+}
+
+// Swap a rectangle's axes when transposing between sheet and strip space
+function transposeRect<T extends FreeRect>(rect: T, transpose: boolean): T {
+  return transpose ? { ...rect, x: rect.y, y: rect.x, width: rect.height, height: rect.width } : rect;
+}
+
 export function calculateCutList(panels: Panel[]): {
   pieces: {
     label: string;
@@ -486,93 +1603,129 @@ export function calculateCutList(panels: Panel[]): {
 }
 
 /**
- * Calculate cut list grouped by actual cut dimensions
+ * Calculate cut list grouped by actual cut dimensions and material
  * This is what you'd take to the lumber yard - panels with identical cut sizes are bundled
- * Letters are assigned by size (A = largest piece)
+ * Letters are assigned per material in library order, then by size (A = largest piece),
+ * or numbers with `settings.partNumbering`
+ *
+ * Pieces are listed at cut size (see getCutPanels): longer where let into
+ * a dado or rabbet, shorter where banded, with the finished size alongside.
+ * Every joint's machining is listed too. Letters are also mapped by panel
+ * id, so getPanelLetter finds them for both the design's panels and the
+ * cut-size ones.
  */
 export function calculateGroupedCutList(
   panels: Panel[],
-  thickness: number,
-  furnitureDepth: number,
+  settings: Settings,
+  joints: JointSpec[] = [],
 ): {
   pieces: {
     letter: string;
     length: number;
     width: number;
     thickness: number;
+    materialId: string;
+    materialName: string;
     qty: number;
     area: number;
+    machining: string[]; // Notches, cut-outs, holes and joinery, one note each
+    grain?: PieceGrain; // Along the piece's length or width
+    banding?: PieceBanding;
+    finishedLength: number; // With the banding on
+    finishedWidth: number;
   }[];
   totalPieces: number;
   totalArea: number;
   dimensionToLetter: Map<string, string>; // Export for use in cutting diagrams
 } {
-  // Group panels by their cut dimensions first, then merge
+  const furnitureDepth = settings.furnitureDepth || 400;
+  // Linear parts are listed after the sheet parts, by board stock
+  const materialOrder = [...getMaterials(settings), ...(settings.linearStock || [])].map((m) => m.id);
+
+  // Group panels by their cut dimensions and material
   const dimensionGroups = new Map<
     string,
-    { length: number; width: number; thickness: number; qty: number }
+    {
+      length: number;
+      width: number;
+      thickness: number;
+      materialId: string;
+      materialName: string;
+      qty: number;
+      machining: string[];
+      grain?: PieceGrain;
+      banding?: PieceBanding;
+      panelIds: string[];
+    }
   >();
 
   // Convert each panel to its actual cut piece dimensions and group
-  panels.forEach((p) => {
-    const orientation = p.orientation || "horizontal";
-    const panelDepth = p.depth || furnitureDepth;
-    let length: number, width: number;
-
-    switch (orientation) {
-      case "horizontal": // Shelf: depth goes into the furniture
-        length = p.width;
-        width = panelDepth;
-        break;
-      case "vertical": // Side panel: height is the length, depth goes into furniture
-        length = p.height;
-        width = panelDepth;
-        break;
-      case "back": // Back panel: faces forward
-        length = p.width;
-        width = p.height;
-        break;
-      default:
-        length = p.width;
-        width = panelDepth;
-    }
+  getCutPanels(panels, joints, settings).forEach((p) => {
+    const { cutWidth, cutHeight } = getCutDimensions(p, furnitureDepth);
 
     // Normalize: always have length >= width
-    if (width > length) {
-      [length, width] = [width, length];
-    }
+    const length = Math.max(cutWidth, cutHeight);
+    const width = Math.min(cutWidth, cutHeight);
 
-    const key = `${length}x${width}`;
+    // Parts of the same size with different joinery are told apart too
+    const joinery = getJoineryNotes(p, panels, joints, settings);
+    const cutKey = getPanelCutKey(p, furnitureDepth);
+    const key = joinery.length > 0 ? `${cutKey}&${joinery.join("|")}` : cutKey;
     const existing = dimensionGroups.get(key);
     
     if (existing) {
       existing.qty += p.quantity;
+      existing.panelIds.push(p.id);
     } else {
-      dimensionGroups.set(key, { length, width, thickness, qty: p.quantity });
+      const material = getPanelLinearStock(p, settings) || getPanelMaterial(p, settings);
+      dimensionGroups.set(key, {
+        length,
+        width,
+        thickness: material.thickness,
+        materialId: material.id,
+        materialName: material.name,
+        qty: p.quantity,
+        machining: [...getMachiningNotes(p, settings), ...joinery],
+        grain: getPieceGrain(p, furnitureDepth),
+        banding: getPieceBanding(p, settings),
+        panelIds: [p.id],
+      });
     }
   });
 
-  // Convert to array and sort by area (largest first)
+  // Convert to array and sort by material, then area (largest first)
   const sortedPieces = Array.from(dimensionGroups.entries())
     .map(([key, p]) => ({
       key,
       ...p,
       area: (p.length * p.width * p.qty) / 1000000, // Convert to m²
     }))
-    .sort((a, b) => (b.length * b.width) - (a.length * a.width));
+    .sort(
+      (a, b) =>
+        materialOrder.indexOf(a.materialId) - materialOrder.indexOf(b.materialId) ||
+        (b.length * b.width) - (a.length * a.width),
+    );
 
   // Assign letters based on size order (A = largest)
   const dimensionToLetter = new Map<string, string>();
   const pieces = sortedPieces.map((p, idx) => {
-    const letter = String.fromCharCode(65 + idx); // A, B, C...
+    const letter = getPartLabel(idx, settings.partNumbering);
     dimensionToLetter.set(p.key, letter);
+    p.panelIds.forEach((id) => dimensionToLetter.set(id, letter));
     return {
       letter,
       length: p.length,
       width: p.width,
       thickness: p.thickness,
+      materialId: p.materialId,
+      materialName: p.materialName,
       qty: p.qty,
       area: p.area,
+      machining: p.machining,
+      grain: p.grain,
+      banding: p.banding,
+      finishedLength: p.length + (p.banding ? p.banding.short * p.banding.type.thickness : 0),
+      finishedWidth: p.width + (p.banding ? p.banding.long * p.banding.type.thickness : 0),
     };
   });
 
@@ -590,33 +1743,5 @@ export function getPanelLetter(
   furnitureDepth: number,
   dimensionToLetter: Map<string, string>,
 ): string {
-  const orientation = panel.orientation || "horizontal";
-  const panelDepth = panel.depth || furnitureDepth;
-  let length: number, width: number;
-
-  switch (orientation) {
-    case "horizontal":
-      length = panel.width;
-      width = panelDepth;
-      break;
-    case "vertical":
-      length = panel.height;
-      width = panelDepth;
-      break;
-    case "back":
-      length = panel.width;
-      width = panel.height;
-      break;
-    default:
-      length = panel.width;
-      width = panelDepth;
-  }
-
-  // Normalize
-  if (width > length) {
-    [length, width] = [width, length];
-  }
-
-  const key = `${length}x${width}`;
-  return dimensionToLetter.get(key) || "?";
+  return dimensionToLetter.get(panel.id) || dimensionToLetter.get(getPanelCutKey(panel, furnitureDepth)) || "?";
 }
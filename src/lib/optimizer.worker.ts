@@ -0,0 +1,41 @@
+/**
+ * Layout Search Worker
+ *
+ * Runs the improvement search off the main thread so the editor stays
+ * responsive for the whole time budget. Posts progress while it works and
+ * every improved set of results as soon as it's found.
+ */
+
+import type { InventoryItem, Panel, Settings } from "../types";
+import { improveCutsByMaterial, type MaterialCutResult } from "./optimizer";
+
+export interface LayoutSearchRequest {
+  panels: Panel[];
+  settings: Settings;
+  dimensionToLetter: Map<string, string>;
+  inventory: InventoryItem[];
+  timeBudget: number; // ms
+}
+
+export type LayoutSearchMessage =
+  | { type: "progress"; progress: number; iterations: number }
+  | { type: "improved"; results: MaterialCutResult[] }
+  | { type: "done"; iterations: number };
+
+const post = (message: LayoutSearchMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<LayoutSearchRequest>) => {
+  const { panels, settings, dimensionToLetter, inventory, timeBudget } = event.data;
+  let iterations = 0;
+
+  improveCutsByMaterial(panels, settings, dimensionToLetter, inventory, {
+    timeBudget,
+    onProgress: (progress, count) => {
+      iterations = count;
+      post({ type: "progress", progress, iterations });
+    },
+    onImprove: (results) => post({ type: "improved", results }),
+  });
+
+  post({ type: "done", iterations });
+};
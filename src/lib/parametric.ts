@@ -0,0 +1,388 @@
+/**
+ * Parametric Dimensions
+ *
+ * Project variables (W, H, D…) and panel fields written as formulas such
+ * as `W - 2*T`. Everything is in millimetres, and T is always the default
+ * material thickness. Panels keep each formula's result in the ordinary
+ * field, so the rest of the app only ever reads plain numbers; formulas
+ * are re-evaluated whenever a variable or the thickness changes.
+ *
+ * Formulas support + - * / %, parentheses and min, max, round, floor,
+ * ceil and abs. Variables may refer to each other as long as they don't
+ * form a cycle.
+ */
+
+import type { FormulaField, Panel, ProjectVariable, Settings } from "../types";
+
+// Always defined: the default material thickness
+export const THICKNESS_VARIABLE = "T";
+
+export const FORMULA_FIELDS: FormulaField[] = ["x", "y", "z", "width", "height", "depth"];
+
+// Fields that are sizes and so must come out positive
+const SIZE_FIELDS: FormulaField[] = ["width", "height", "depth"];
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: Math.min,
+  max: Math.max,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  abs: Math.abs,
+};
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+class CycleError extends ExpressionError {
+  constructor(readonly cycle: string[]) {
+    super(`Circular reference: ${cycle.join(" → ")}`);
+  }
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+type Expr =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string }
+  | { type: "negate"; arg: Expr }
+  | { type: "binary"; op: string; left: Expr; right: Expr }
+  | { type: "call"; name: string; args: Expr[] };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(input.slice(i));
+      if (!match) throw new ExpressionError(`Unexpected "${char}"`);
+      tokens.push({ type: "number", value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i))!;
+      tokens.push({ type: "name", value: match[0] });
+      i += match[0].length;
+    } else if ("+-*/%(),".includes(char)) {
+      tokens.push({ type: "op", value: char });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected "${char}"`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a formula into an expression tree. Throws an ExpressionError
+ * describing the first problem found.
+ */
+function parse(input: string): Expr {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token?.type === "op" && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new ExpressionError(`Expected "${value}"`);
+    pos++;
+  };
+
+  // sum := product (("+" | "-") product)*
+  const parseSum = (): Expr => {
+    let left = parseProduct();
+    while (isOp("+") || isOp("-")) {
+      const op = (tokens[pos++] as { value: string }).value;
+      left = { type: "binary", op, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  // product := unary (("*" | "/" | "%") unary)*
+  const parseProduct = (): Expr => {
+    let left = parseUnary();
+    while (isOp("*") || isOp("/") || isOp("%")) {
+      const op = (tokens[pos++] as { value: string }).value;
+      left = { type: "binary", op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  // unary := ("-" | "+") unary | primary
+  const parseUnary = (): Expr => {
+    if (isOp("-")) {
+      pos++;
+      return { type: "negate", arg: parseUnary() };
+    }
+    if (isOp("+")) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  // primary := number | name | name "(" args ")" | "(" sum ")"
+  const parsePrimary = (): Expr => {
+    const token = peek();
+    if (!token) throw new ExpressionError("Formula is incomplete");
+    pos++;
+
+    if (token.type === "number") return { type: "number", value: token.value };
+
+    if (token.type === "name") {
+      if (!isOp("(")) return { type: "variable", name: token.value };
+      if (!FUNCTIONS[token.value]) throw new ExpressionError(`Unknown function "${token.value}"`);
+      pos++;
+      const args: Expr[] = [];
+      if (!isOp(")")) {
+        args.push(parseSum());
+        while (isOp(",")) {
+          pos++;
+          args.push(parseSum());
+        }
+      }
+      expect(")");
+      return { type: "call", name: token.value, args };
+    }
+
+    if (token.value === "(") {
+      const inner = parseSum();
+      expect(")");
+      return inner;
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  if (tokens.length === 0) throw new ExpressionError("Formula is empty");
+  const expr = parseSum();
+  if (pos < tokens.length) {
+    const token = tokens[pos];
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  }
+  return expr;
+}
+
+function evaluate(expr: Expr, scope: Map<string, number>): number {
+  switch (expr.type) {
+    case "number":
+      return expr.value;
+    case "variable": {
+      const value = scope.get(expr.name);
+      if (value === undefined) throw new ExpressionError(`Unknown variable "${expr.name}"`);
+      return value;
+    }
+    case "negate":
+      return -evaluate(expr.arg, scope);
+    case "call": {
+      const args = expr.args.map((arg) => evaluate(arg, scope));
+      if (args.length === 0) throw new ExpressionError(`${expr.name}() needs a value`);
+      return FUNCTIONS[expr.name](...args);
+    }
+    case "binary": {
+      const left = evaluate(expr.left, scope);
+      const right = evaluate(expr.right, scope);
+      if ((expr.op === "/" || expr.op === "%") && right === 0) {
+        throw new ExpressionError("Division by zero");
+      }
+      switch (expr.op) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return left / right;
+        default: return left % right;
+      }
+    }
+  }
+}
+
+function collectVariables(expr: Expr, names: Set<string>): void {
+  switch (expr.type) {
+    case "variable":
+      names.add(expr.name);
+      break;
+    case "negate":
+      collectVariables(expr.arg, names);
+      break;
+    case "binary":
+      collectVariables(expr.left, names);
+      collectVariables(expr.right, names);
+      break;
+    case "call":
+      expr.args.forEach((arg) => collectVariables(arg, names));
+      break;
+  }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Evaluate a formula against a set of variable values (in mm).
+ * Throws an ExpressionError for bad syntax, unknown names or division by zero.
+ */
+export function evaluateExpression(input: string, scope: Map<string, number>): number {
+  const value = evaluate(parse(input), scope);
+  if (!Number.isFinite(value)) throw new ExpressionError("Result is not a number");
+  return value;
+}
+
+/**
+ * Names of the variables a formula refers to. Empty if it doesn't parse.
+ */
+export function getExpressionVariables(input: string): string[] {
+  try {
+    const names = new Set<string>();
+    collectVariables(parse(input), names);
+    return [...names];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Point a formula's references to a renamed variable at its new name.
+ */
+export function renameVariableReferences(input: string, from: string, to: string): string {
+  return input.replace(new RegExp(`(?<![A-Za-z0-9_])${from}(?![A-Za-z0-9_(])`, "g"), to);
+}
+
+/**
+ * Why a variable name can't be used, or null if it's fine.
+ */
+export function validateVariableName(name: string, variables: ProjectVariable[], id?: string): string | null {
+  if (!NAME_PATTERN.test(name)) return "Use letters, digits and _ (not starting with a digit)";
+  if (name === THICKNESS_VARIABLE) return "T is the material thickness";
+  if (FUNCTIONS[name]) return `"${name}" is a function name`;
+  if (variables.some((v) => v.name === name && v.id !== id)) return `"${name}" is already defined`;
+  return null;
+}
+
+export interface ResolvedVariables {
+  values: Map<string, number>; // By name, including T
+  errors: Map<string, string>; // By variable id
+}
+
+/**
+ * Evaluate every project variable in dependency order. Variables that are
+ * part of a cycle, or depend on one that failed, get an error instead of a
+ * value.
+ */
+export function resolveVariables(variables: ProjectVariable[], settings: Settings): ResolvedVariables {
+  const values = new Map<string, number>([[THICKNESS_VARIABLE, settings.thickness]]);
+  const errors = new Map<string, string>();
+  const byName = new Map(variables.map((v) => [v.name, v]));
+  const state = new Map<string, "visiting" | "done">();
+
+  const resolve = (variable: ProjectVariable, path: string[]): void => {
+    const status = state.get(variable.id);
+    if (status === "done") return;
+    if (status === "visiting") {
+      throw new CycleError([...path.slice(path.indexOf(variable.name)), variable.name]);
+    }
+
+    state.set(variable.id, "visiting");
+    try {
+      for (const name of getExpressionVariables(variable.expression)) {
+        const dependency = byName.get(name);
+        if (!dependency) continue; // Reported as unknown when evaluated
+        resolve(dependency, [...path, variable.name]);
+        if (errors.has(dependency.id)) {
+          throw new ExpressionError(`Depends on ${name}, which has an error`);
+        }
+      }
+      values.set(variable.name, evaluateExpression(variable.expression, values));
+    } catch (err) {
+      errors.set(variable.id, err instanceof Error ? err.message : String(err));
+      // Unwind the cycle back to where it started, so every variable on it
+      // reports the cycle and the ones outside it report a dependency error
+      if (err instanceof CycleError && err.cycle[0] !== variable.name) throw err;
+    } finally {
+      state.set(variable.id, "done");
+    }
+  };
+
+  variables.forEach((variable) => resolve(variable, []));
+
+  return { values, errors };
+}
+
+/**
+ * Evaluate a panel's formulas. Returns the new field values and an error
+ * per field that couldn't be evaluated (those fields keep their old value).
+ */
+export function evaluatePanelFormulas(
+  panel: Panel,
+  values: Map<string, number>,
+): { updates: Partial<Pick<Panel, FormulaField>>; errors: Partial<Record<FormulaField, string>> } {
+  const updates: Partial<Pick<Panel, FormulaField>> = {};
+  const errors: Partial<Record<FormulaField, string>> = {};
+
+  for (const field of FORMULA_FIELDS) {
+    const formula = panel.formulas?.[field];
+    if (!formula) continue;
+    try {
+      const value = Math.round(evaluateExpression(formula, values) * 10) / 10;
+      if (SIZE_FIELDS.includes(field) && value <= 0) {
+        throw new ExpressionError(`Comes out at ${value}, must be more than 0`);
+      }
+      updates[field] = value;
+    } catch (err) {
+      errors[field] = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return { updates, errors };
+}
+
+/**
+ * Re-evaluate every formula-driven panel field. Panels without formulas
+ * are returned as they are, and so are locked panels: they catch up when
+ * they're unlocked.
+ */
+export function applyFormulas(panels: Panel[], variables: ProjectVariable[], settings: Settings): Panel[] {
+  if (!panels.some((p) => p.formulas && !p.locked)) return panels;
+  const { values } = resolveVariables(variables, settings);
+
+  return panels.map((panel) => {
+    if (!panel.formulas || panel.locked) return panel;
+    const { updates } = evaluatePanelFormulas(panel, values);
+    return { ...panel, ...updates };
+  });
+}
+
+/**
+ * Drop the formulas for fields that are being set to a plain value, so a
+ * manual edit (typing a number, dragging on the canvas) isn't overwritten
+ * by the next re-evaluation.
+ */
+export function clearOverriddenFormulas(panel: Panel, updates: Partial<Panel>): Panel {
+  if (!panel.formulas || updates.formulas) return panel;
+  const overridden = FORMULA_FIELDS.filter((field) => field in updates && panel.formulas?.[field]);
+  if (overridden.length === 0) return panel;
+
+  const formulas = { ...panel.formulas };
+  overridden.forEach((field) => delete formulas[field]);
+  return { ...panel, formulas: Object.keys(formulas).length > 0 ? formulas : undefined };
+}
@@ -0,0 +1,86 @@
+/**
+ * Shopping List
+ *
+ * Everything to buy for a project in one list: sheets per material and
+ * size, boards per stock and length, edge banding by the meter, and
+ * hardware. Built from the same layouts the cutting diagrams show, so
+ * the counts always match them.
+ */
+
+import type { Settings } from "../types";
+import type { BandingUsage } from "./banding";
+import { getCategoryName, type HardwareBOMLine } from "./hardware";
+import { getBoardUsage, type LinearCutResult } from "./linear";
+import { getStockUsage, type MaterialCutResult } from "./optimizer";
+import { formatLength, formatSize } from "./units";
+
+export type ShoppingCategory = "sheets" | "boards" | "banding" | "hardware";
+
+export interface ShoppingItem {
+  category: ShoppingCategory;
+  name: string;
+  detail: string; // Size, profile or kind
+  quantity: number;
+  unit: string; // "sheet", "board", "m" or "pc"
+  cost: number; // 0 when unpriced
+}
+
+export const SHOPPING_CATEGORY_NAMES: Record<ShoppingCategory, string> = {
+  sheets: "Sheets",
+  boards: "Boards",
+  banding: "Edge banding",
+  hardware: "Hardware",
+};
+
+export function getShoppingList(
+  materialResults: MaterialCutResult[],
+  linearResults: LinearCutResult[],
+  bandingUsage: BandingUsage[],
+  hardwareBOM: HardwareBOMLine[],
+  settings: Settings,
+): ShoppingItem[] {
+  const mm = (value: number) => formatLength(value, settings, { showUnit: true });
+
+  const sheets = materialResults.flatMap(({ material, result }) =>
+    getStockUsage(material, result).map(({ stock, sheets: count, cost }) => ({
+      category: "sheets" as const,
+      name: `${material.name} ${mm(material.thickness)}`,
+      detail: formatSize(stock.width, stock.height, settings),
+      quantity: count,
+      unit: "sheet",
+      cost,
+    })),
+  );
+
+  const boards = linearResults.flatMap((result) =>
+    getBoardUsage(result).map(({ stock, length, boards: count, cost }) => ({
+      category: "boards" as const,
+      name: stock.name,
+      detail: `${formatSize(stock.width, stock.thickness, settings)} × ${mm(length)}`,
+      quantity: count,
+      unit: "board",
+      cost,
+    })),
+  );
+
+  // Banding is bought by the meter, so round up to the next tenth
+  const banding = bandingUsage.map(({ type, meters, cost }) => ({
+    category: "banding" as const,
+    name: type.name,
+    detail: type.thickness > 0 ? mm(type.thickness) : "",
+    quantity: Math.ceil(meters * 10) / 10,
+    unit: "m",
+    cost,
+  }));
+
+  const hardware = hardwareBOM.map(({ item, quantity, cost }) => ({
+    category: "hardware" as const,
+    name: item.name,
+    detail: getCategoryName(item.category),
+    quantity,
+    unit: "pc",
+    cost,
+  }));
+
+  return [...sheets, ...boards, ...banding, ...hardware];
+}
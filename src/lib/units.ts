@@ -0,0 +1,192 @@
+/**
+ * Units
+ *
+ * Every dimension in CraftCut is stored in millimetres. This module converts
+ * those values for display and parses user input back into millimetres,
+ * honouring `Settings.units`:
+ * - "mm": plain millimetres (600, 18.5)
+ * - "inches": fractional inches rounded to 1/16" or 1/32" (23 5/8", 1' 11-5/8")
+ *
+ * Input in either mode may carry an explicit unit (mm, cm, m, in, ", ft, '),
+ * so a metric user can still type 3/4" and an imperial user can type 600mm.
+ */
+
+import type { Settings } from "../types";
+
+export const MM_PER_INCH = 25.4;
+
+export type FractionPrecision = 16 | 32;
+
+export const DEFAULT_FRACTION_PRECISION: FractionPrecision = 16;
+
+// Only the settings that affect how lengths are displayed and parsed
+export type UnitSettings = Pick<Settings, "units" | "fractionPrecision">;
+
+export function isImperial(settings: UnitSettings): boolean {
+  return settings.units === "inches";
+}
+
+/**
+ * Short unit label for column headers and input suffixes ("mm" or "in").
+ */
+export function unitLabel(settings: UnitSettings): string {
+  return isImperial(settings) ? "in" : "mm";
+}
+
+function getPrecision(settings: UnitSettings): FractionPrecision {
+  return settings.fractionPrecision || DEFAULT_FRACTION_PRECISION;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * Format a decimal inch value as a whole number plus a reduced fraction,
+ * rounded to the nearest 1/precision (e.g. 23.62 → "23 5/8").
+ */
+export function formatFraction(inches: number, precision: FractionPrecision): string {
+  const sign = inches < 0 ? "-" : "";
+  const totalUnits = Math.round(Math.abs(inches) * precision);
+  const whole = Math.floor(totalUnits / precision);
+  const numerator = totalUnits % precision;
+
+  if (numerator === 0) return `${sign}${whole}`;
+
+  const divisor = gcd(numerator, precision);
+  const fraction = `${numerator / divisor}/${precision / divisor}`;
+  return whole === 0 ? `${sign}${fraction}` : `${sign}${whole} ${fraction}`;
+}
+
+interface FormatLengthOptions {
+  // Append the unit mark (mm or ")
+  showUnit?: boolean;
+  // Imperial only: show values of a foot or more as feet and inches
+  feet?: boolean;
+}
+
+/**
+ * Format a millimetre value for display in the project's units.
+ */
+export function formatLength(
+  mm: number,
+  settings: UnitSettings,
+  options: FormatLengthOptions = {},
+): string {
+  const { showUnit = false, feet = false } = options;
+
+  if (!isImperial(settings)) {
+    const value = String(Math.round(mm * 10) / 10);
+    return showUnit ? `${value}mm` : value;
+  }
+
+  const precision = getPrecision(settings);
+  const inches = Math.round((mm / MM_PER_INCH) * precision) / precision;
+
+  if (feet && Math.abs(inches) >= 12) {
+    const sign = inches < 0 ? "-" : "";
+    const absInches = Math.abs(inches);
+    const wholeFeet = Math.floor(absInches / 12);
+    const remainder = absInches - wholeFeet * 12;
+    if (remainder === 0) return `${sign}${wholeFeet}'`;
+    return `${sign}${wholeFeet}' ${formatFraction(remainder, precision).replace(" ", "-")}"`;
+  }
+
+  const value = formatFraction(inches, precision);
+  return showUnit ? `${value}"` : value;
+}
+
+/**
+ * Format a width × height pair with a single trailing unit, e.g.
+ * "600×400mm" or "23 5/8 × 15 3/4 in".
+ */
+export function formatSize(width: number, height: number, settings: UnitSettings): string {
+  if (!isImperial(settings)) {
+    return `${formatLength(width, settings)}×${formatLength(height, settings)}mm`;
+  }
+  return `${formatLength(width, settings)} × ${formatLength(height, settings)} in`;
+}
+
+/**
+ * Format an area given in mm² as m² (metric) or ft² (imperial).
+ */
+export function formatArea(mm2: number, settings: UnitSettings): string {
+  if (isImperial(settings)) {
+    const sqft = mm2 / (MM_PER_INCH * 12) ** 2;
+    return `${sqft.toFixed(2)}ft²`;
+  }
+  return `${(mm2 / 1_000_000).toFixed(2)}m²`;
+}
+
+const NUMBER = String.raw`\d+(?:\.\d+)?|\.\d+`;
+const DECIMAL_RE = new RegExp(`^(?:${NUMBER})$`);
+const FRACTION_RE = new RegExp(`^(?:(${NUMBER})(?:\\s+|\\s*-\\s*))?(\\d+)\\/(\\d+)$`);
+const FEET_RE = /^(.*?)\s*(?:'|ft|feet|foot)\s*-?\s*(.*)$/;
+const INCH_MARK_RE = /\s*(?:"|in|inch|inches)$/;
+const METRIC_RE = /^(.*?)\s*(mm|cm|m)$/;
+
+// Parse "23", "23.5", "5/8", "23 5/8" or "23-5/8" (no unit marks)
+function parseNumberOrFraction(text: string): number | null {
+  const value = text.trim();
+  if (value === "") return null;
+  if (DECIMAL_RE.test(value)) return parseFloat(value);
+
+  const match = value.match(FRACTION_RE);
+  if (!match) return null;
+  const whole = match[1] ? parseFloat(match[1]) : 0;
+  const denominator = parseInt(match[3], 10);
+  if (denominator === 0) return null;
+  return whole + parseInt(match[2], 10) / denominator;
+}
+
+// Parse an inch expression, optionally prefixed with feet: 1' 11-5/8"
+function parseImperial(text: string): number | null {
+  const feetMatch = text.match(FEET_RE);
+  if (feetMatch) {
+    const feet = parseNumberOrFraction(feetMatch[1]);
+    if (feet === null) return null;
+    const rest = feetMatch[2].replace(INCH_MARK_RE, "").trim();
+    const inches = rest === "" ? 0 : parseNumberOrFraction(rest);
+    if (inches === null) return null;
+    return feet * 12 + inches;
+  }
+  return parseNumberOrFraction(text.replace(INCH_MARK_RE, ""));
+}
+
+/**
+ * Parse a user-entered length into millimetres.
+ *
+ * Bare numbers are read in the project's units; an explicit unit always wins.
+ * Imperial input is rounded to the configured fraction precision.
+ * Returns null when the text can't be understood.
+ */
+export function parseLength(input: string, settings: UnitSettings): number | null {
+  let text = input.trim().toLowerCase().replace(/[″”]/g, '"').replace(/[′’]/g, "'");
+  if (text === "") return null;
+
+  let sign = 1;
+  if (text.startsWith("-")) {
+    sign = -1;
+    text = text.slice(1).trim();
+  }
+
+  const metricMatch = text.match(METRIC_RE);
+  if (metricMatch) {
+    const value = parseNumberOrFraction(metricMatch[1]);
+    if (value === null) return null;
+    const factor = metricMatch[2] === "m" ? 1000 : metricMatch[2] === "cm" ? 10 : 1;
+    return sign * value * factor;
+  }
+
+  const hasImperialMark = FEET_RE.test(text) || INCH_MARK_RE.test(text);
+  if (!hasImperialMark && !isImperial(settings)) {
+    const value = parseNumberOrFraction(text);
+    return value === null ? null : sign * value;
+  }
+
+  const inches = parseImperial(text);
+  if (inches === null) return null;
+  const precision = getPrecision(settings);
+  const rounded = Math.round(inches * precision) / precision;
+  return sign * rounded * MM_PER_INCH;
+}
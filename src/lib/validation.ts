@@ -0,0 +1,205 @@
+/**
+ * Design Validation
+ *
+ * Rule-based checks that catch a design problem while it's being drawn,
+ * rather than at the saw or during assembly:
+ * - "overlap": two panels occupy the same space in 3D, other than one
+ *   let into a groove or dado in the other
+ * - "floating": a panel touches no other panel
+ * - "unsupported": a shelf touches something but nothing holds it up
+ * - "oversize": a panel is bigger than every sheet of its material, or
+ *   than the boards of its linear stock; or a grain-matched set, cut end
+ *   to end as one strip, is longer than every sheet
+ *
+ * Contact and support come from the same 3D bounds and joint detection
+ * the assembly instructions use, so the two always agree; each panel is
+ * measured at its own material's thickness. Sizes are checked as cut,
+ * after joinery and banding (see getCutPanels).
+ */
+
+import type { JointSpec, Panel, PanelOrientation, Settings } from "../types";
+import { detectJointsForPanel, findVerticalSupports, get3DBounds } from "./assembly";
+import { getFurnitureDepth } from "./depth";
+import { fitsLinearStock } from "./linear";
+import { getPanelLinearStock, getPanelMaterial, getPanelThickness } from "./materials";
+import { fitsMaterialStock, getCutPanels, getGrainGroupFit } from "./optimizer";
+import { formatLength } from "./units";
+
+export type IssueSeverity = "error" | "warning";
+
+export type IssueRule = "overlap" | "floating" | "unsupported" | "oversize";
+
+export interface DesignIssue {
+  id: string; // Stable across re-runs: rule plus the panels involved
+  rule: IssueRule;
+  severity: IssueSeverity;
+  message: string;
+  panelIds: string[];
+}
+
+export const ISSUE_RULES: Record<IssueRule, { name: string; severity: IssueSeverity }> = {
+  overlap: { name: "Overlapping panels", severity: "error" },
+  oversize: { name: "Larger than the sheet", severity: "error" },
+  floating: { name: "Floating panel", severity: "warning" },
+  unsupported: { name: "Unsupported shelf", severity: "warning" },
+};
+
+// Panels may touch, or be off by rounding, without that counting as overlap
+const OVERLAP_TOLERANCE = 0.5;
+
+// How close an edge must be to the floor or another panel to rest on it
+const CONTACT_TOLERANCE = 1;
+
+type Bounds = ReturnType<typeof get3DBounds>;
+
+type Axis = "x" | "y" | "z";
+
+// The axis a panel's thickness runs along
+const THICKNESS_AXIS: Record<PanelOrientation, Axis> = { vertical: "x", horizontal: "y", back: "z" };
+
+const panelName = (panel: Panel) => panel.label || "Unnamed panel";
+
+// How far two ranges run into each other (negative when they're apart)
+const penetration = (a1: number, a2: number, b1: number, b2: number) => Math.min(a2, b2) - Math.max(a1, b1);
+
+const range = (bounds: Bounds, axis: Axis): [number, number] => [bounds[`${axis}1`], bounds[`${axis}2`]];
+
+/**
+ * Whether `inner` sits in a groove or dado cut into `outer`: its edge goes
+ * no more than halfway into outer's thickness, and its faces are within
+ * outer's edges.
+ */
+function isHousedIn(inner: Panel, innerBounds: Bounds, outer: Panel, outerBounds: Bounds, outerThickness: number): boolean {
+  const innerAxis = THICKNESS_AXIS[inner.orientation || "horizontal"];
+  const outerAxis = THICKNESS_AXIS[outer.orientation || "horizontal"];
+  if (innerAxis === outerAxis) return false;
+
+  const into = penetration(...range(innerBounds, outerAxis), ...range(outerBounds, outerAxis));
+  const [faceA, faceB] = range(innerBounds, innerAxis);
+  const [edgeA, edgeB] = range(outerBounds, innerAxis);
+  return into <= outerThickness / 2 + OVERLAP_TOLERANCE && faceA >= edgeA - OVERLAP_TOLERANCE && faceB <= edgeB + OVERLAP_TOLERANCE;
+}
+
+function createIssue(rule: IssueRule, message: string, panelIds: string[]): DesignIssue {
+  return { id: `${rule}:${panelIds.join("+")}`, rule, severity: ISSUE_RULES[rule].severity, message, panelIds };
+}
+
+/**
+ * Check the whole design. Errors come first, then warnings, each in panel
+ * order.
+ */
+export function validateDesign(panels: Panel[], joints: JointSpec[], settings: Settings): DesignIssue[] {
+  const furnitureDepth = getFurnitureDepth(settings);
+  const thickness = (panel: Panel) => getPanelThickness(panel, settings);
+  const bounds = new Map<string, Bounds>(
+    panels.map((panel) => [panel.id, get3DBounds(panel, getPanelThickness(panel, settings), furnitureDepth)]),
+  );
+  const issues: DesignIssue[] = [];
+
+  // Overlaps: every pair whose boxes intersect on all three axes
+  for (let i = 0; i < panels.length; i++) {
+    const a = bounds.get(panels[i].id)!;
+    for (let j = i + 1; j < panels.length; j++) {
+      const b = bounds.get(panels[j].id)!;
+      const depth = Math.min(
+        penetration(a.x1, a.x2, b.x1, b.x2),
+        penetration(a.y1, a.y2, b.y1, b.y2),
+        penetration(a.z1, a.z2, b.z1, b.z2),
+      );
+      if (
+        depth > OVERLAP_TOLERANCE &&
+        !isHousedIn(panels[i], a, panels[j], b, getPanelThickness(panels[j], settings)) &&
+        !isHousedIn(panels[j], b, panels[i], a, getPanelThickness(panels[i], settings))
+      ) {
+        issues.push(
+          createIssue(
+            "overlap",
+            `${panelName(panels[i])} and ${panelName(panels[j])} overlap by ${formatLength(depth, settings, { showUnit: true })}`,
+            [panels[i].id, panels[j].id],
+          ),
+        );
+      }
+    }
+  }
+
+  // Too big to cut: the optimizer would leave these unplaced
+  const cutPanels = getCutPanels(panels, joints, settings);
+  for (const panel of cutPanels) {
+    const stock = getPanelLinearStock(panel, settings);
+    if (stock) {
+      if (!fitsLinearStock(panel, stock, settings)) {
+        issues.push(createIssue("oversize", `${panelName(panel)} can't be cut from ${stock.name} boards`, [panel.id]));
+      }
+    } else if (!fitsMaterialStock(panel, settings)) {
+      const material = getPanelMaterial(panel, settings);
+      issues.push(createIssue("oversize", `${panelName(panel)} doesn't fit on any ${material.name} sheet`, [panel.id]));
+    }
+  }
+
+  // Grain-matched sets are nested per material, as one strip each
+  const grainGroups = new Map<string, Panel[]>();
+  for (const panel of cutPanels) {
+    if (!panel.grainGroup || getPanelLinearStock(panel, settings)) continue;
+    const key = `${panel.grainGroup}|${getPanelMaterial(panel, settings).id}`;
+    grainGroups.set(key, [...(grainGroups.get(key) || []), panel]);
+  }
+  for (const group of grainGroups.values()) {
+    // A member too big on its own is reported above
+    if (group.some((p) => !fitsMaterialStock(p, settings))) continue;
+    const { length, fits } = getGrainGroupFit(group, settings);
+    if (fits) continue;
+    const material = getPanelMaterial(group[0], settings);
+    issues.push(
+      createIssue(
+        "oversize",
+        `Grain-matched set "${group[0].grainGroup}" needs a ${formatLength(length, settings, { showUnit: true })} strip, longer than any ${material.name} sheet`,
+        group.map((p) => p.id),
+      ),
+    );
+  }
+
+  // A single panel has nothing to connect to yet
+  if (panels.length < 2) return issues;
+
+  for (const panel of panels) {
+    const others = panels.filter((p) => p.id !== panel.id);
+    if (detectJointsForPanel(panel, others, settings.thickness, furnitureDepth, thickness).length === 0) {
+      issues.push(createIssue("floating", `${panelName(panel)} doesn't touch any other panel`, [panel.id]));
+      continue;
+    }
+
+    // Shelves off the floor need a side at one end or something under them
+    if ((panel.orientation || "horizontal") !== "horizontal") continue;
+    const own = bounds.get(panel.id)!;
+    if (own.y1 <= CONTACT_TOLERANCE) continue;
+    if (findVerticalSupports(panel, others, settings.thickness, thickness).length > 0) continue;
+    const restsOnPanel = others.some((other) => {
+      const below = bounds.get(other.id)!;
+      return (
+        Math.abs(below.y2 - own.y1) <= CONTACT_TOLERANCE &&
+        penetration(own.x1, own.x2, below.x1, below.x2) > 0 &&
+        penetration(own.z1, own.z2, below.z1, below.z2) > 0
+      );
+    });
+    if (!restsOnPanel) {
+      issues.push(
+        createIssue("unsupported", `${panelName(panel)} has no side or panel underneath holding it up`, [panel.id]),
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Issues involving a panel, for highlighting it on the canvas.
+ */
+export function getIssuesByPanel(issues: DesignIssue[]): Map<string, DesignIssue[]> {
+  const byPanel = new Map<string, DesignIssue[]>();
+  for (const issue of issues) {
+    for (const id of issue.panelIds) {
+      byPanel.set(id, [...(byPanel.get(id) || []), issue]);
+    }
+  }
+  return byPanel;
+}
@@ -1,10 +1,17 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { DesignData, Panel, Settings, StickyNote } from "../types";
+import { migratePanelZ } from "../lib/depth";
+import { getJointId } from "../lib/hardware";
+import { placeComponent } from "../lib/library";
+import { applyFormulas, clearOverriddenFormulas, renameVariableReferences } from "../lib/parametric";
+import type { DesignData, FormulaField, JointSpec, LibraryComponent, Panel, PanelGroup, ProjectVariable, Settings, StickyNote } from "../types";
 
 // History entry for undo/redo
 interface HistoryEntry {
   panels: Panel[];
+  groups: PanelGroup[];
+  variables: ProjectVariable[];
+  joints: JointSpec[];
   settings: Settings;
 }
 
@@ -21,6 +28,9 @@ interface DesignState {
   
   settings: Settings;
   panels: Panel[];
+  groups: PanelGroup[];
+  variables: ProjectVariable[];
+  joints: JointSpec[];
   stickyNotes: StickyNote[];
   selectedPanelIds: string[];
 
@@ -35,15 +45,34 @@ interface DesignState {
 
   // Panel actions
   addPanel: (x?: number, y?: number, orientation?: "horizontal" | "vertical" | "back") => void;
+  addPanels: (panels: Omit<Panel, "id">[], options?: { groupName?: string; settings?: Partial<Settings> }) => string[];
   updatePanel: (id: string, updates: Partial<Panel>) => void;
   updatePanels: (ids: string[], updates: Partial<Panel>) => void;
   deletePanel: (id: string) => void;
   deletePanels: (ids: string[]) => void;
+  setPanelsLocked: (ids: string[], locked: boolean) => void;
+  getCopiedGroups: (panels: Panel[]) => PanelGroup[];
+  clonePanelGroups: (copies: Panel[], copiedGroups?: PanelGroup[]) => Panel[];
   selectPanel: (id: string | null, addToSelection?: boolean) => void;
   selectPanels: (ids: string[]) => void;
   selectAll: () => void;
   clearSelection: () => void;
 
+  // Group actions
+  groupPanels: (ids: string[], name?: string) => string | null;
+  ungroupPanels: (groupId: string) => void;
+  renameGroup: (groupId: string, name: string) => void;
+  insertComponent: (component: LibraryComponent, x: number, y: number) => string[];
+
+  // Parametric actions
+  addVariable: (name: string, expression: string) => void;
+  updateVariable: (id: string, updates: Partial<Omit<ProjectVariable, "id">>) => void;
+  removeVariable: (id: string) => void;
+  setPanelFormula: (id: string, field: FormulaField, formula: string | null) => void;
+
+  // Joint actions
+  updateJoint: (panelAId: string, panelBId: string, updates: Partial<Omit<JointSpec, "id" | "panelIds">>) => void;
+
   // Sticky note actions
   addStickyNote: (x: number, y: number) => string;
   updateStickyNote: (id: string, updates: Partial<StickyNote>) => void;
@@ -79,6 +108,9 @@ const DEFAULT_SETTINGS: Settings = {
   woodColor: "#E8D4B8",
   furnitureDepth: 400,
   projectName: "",
+  kerf: 3,
+  edgeTrim: 0,
+  minOffcut: 100,
 };
 
 const MAX_HISTORY = 50;
@@ -89,12 +121,30 @@ let panelCounter = 1;
 const generateId = () =>
   `panel_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
 
+const generateGroupId = () =>
+  `group_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+// Drop groups that no longer have any panels
+const pruneGroups = (groups: PanelGroup[], panels: Panel[]) =>
+  groups.filter((g) => panels.some((p) => p.groupId === g.id));
+
+// Drop joints that lost one of their panels
+const pruneJoints = (joints: JointSpec[], panels: Panel[]) =>
+  joints.filter((j) => j.panelIds.every((id) => panels.some((p) => p.id === id)));
+
+// Designs saved before panels had a z offset positioned them with zAlign
+const migratePanels = (panels: Panel[], settings: Settings) =>
+  panels.map((p) => migratePanelZ(p, settings));
+
 export const useDesignStore = create<DesignState>()(
   persist(
     (set, get) => ({
       currentProjectId: null,
       settings: { ...DEFAULT_SETTINGS },
       panels: [],
+      groups: [],
+      variables: [],
+      joints: [],
       stickyNotes: [],
       selectedPanelIds: [],
       viewState: { zoom: DEFAULT_ZOOM, panX: 0, panY: 0 },
@@ -115,6 +165,9 @@ export const useDesignStore = create<DesignState>()(
         const state = get();
         const entry: HistoryEntry = {
           panels: JSON.parse(JSON.stringify(state.panels)),
+          groups: JSON.parse(JSON.stringify(state.groups)),
+          variables: JSON.parse(JSON.stringify(state.variables)),
+          joints: JSON.parse(JSON.stringify(state.joints)),
           settings: JSON.parse(JSON.stringify(state.settings)),
         };
 
@@ -143,6 +196,9 @@ export const useDesignStore = create<DesignState>()(
         if (state.historyIndex === state.history.length - 1) {
           const currentEntry: HistoryEntry = {
             panels: JSON.parse(JSON.stringify(state.panels)),
+            groups: JSON.parse(JSON.stringify(state.groups)),
+            variables: JSON.parse(JSON.stringify(state.variables)),
+            joints: JSON.parse(JSON.stringify(state.joints)),
             settings: JSON.parse(JSON.stringify(state.settings)),
           };
           const newHistory = [...state.history, currentEntry];
@@ -154,6 +210,9 @@ export const useDesignStore = create<DesignState>()(
 
         set({
           panels: JSON.parse(JSON.stringify(entry.panels)),
+          groups: JSON.parse(JSON.stringify(entry.groups || [])),
+          variables: JSON.parse(JSON.stringify(entry.variables || [])),
+          joints: JSON.parse(JSON.stringify(entry.joints || [])),
           settings: JSON.parse(JSON.stringify(entry.settings)),
           historyIndex: state.historyIndex - 1,
           canUndo: state.historyIndex - 1 >= 0,
@@ -172,6 +231,9 @@ export const useDesignStore = create<DesignState>()(
 
         set({
           panels: JSON.parse(JSON.stringify(entry.panels)),
+          groups: JSON.parse(JSON.stringify(entry.groups || [])),
+          variables: JSON.parse(JSON.stringify(entry.variables || [])),
+          joints: JSON.parse(JSON.stringify(entry.joints || [])),
           settings: JSON.parse(JSON.stringify(entry.settings)),
           historyIndex: state.historyIndex + 1,
           canUndo: true,
@@ -200,11 +262,31 @@ export const useDesignStore = create<DesignState>()(
         }));
       },
 
+      // Add generated panels in one undo step, optionally as a named group
+      // and together with the settings they were generated for
+      addPanels: (newPanels, options = {}) => {
+        if (newPanels.length === 0) return [];
+        get().saveToHistory();
+        const groupId = options.groupName ? generateGroupId() : undefined;
+        const added: Panel[] = newPanels.map((panel) => ({ ...panel, id: generateId(), groupId }));
+        const ids = added.map((p) => p.id);
+        set((state) => {
+          const panels = [...state.panels, ...added];
+          const groups = groupId ? [...state.groups, { id: groupId, name: options.groupName! }] : state.groups;
+          if (!options.settings) return { panels, groups, selectedPanelIds: ids };
+          // As in updateSettings: T follows the thickness that came with the panels
+          const settings = { ...state.settings, ...options.settings };
+          return { panels: applyFormulas(panels, state.variables, settings), groups, settings, selectedPanelIds: ids };
+        });
+        return ids;
+      },
+
+      // A plain value replaces any formula that drove the same field
       updatePanel: (id, updates) => {
         // Don't save to history for every tiny movement - we'll batch these
         set((state) => ({
           panels: state.panels.map((p) =>
-            p.id === id ? { ...p, ...updates } : p,
+            p.id === id ? { ...clearOverriddenFormulas(p, updates), ...updates } : p,
           ),
         }));
       },
@@ -213,25 +295,138 @@ export const useDesignStore = create<DesignState>()(
         // Update multiple panels at once (for multi-select drag)
         set((state) => ({
           panels: state.panels.map((p) =>
-            ids.includes(p.id) ? { ...p, ...updates } : p,
+            ids.includes(p.id) ? { ...clearOverriddenFormulas(p, updates), ...updates } : p,
           ),
         }));
       },
 
       deletePanel: (id) => {
+        get().deletePanels([id]);
+      },
+
+      // Locked panels are skipped and stay selected
+      deletePanels: (ids) => {
+        const state = get();
+        const deletable = ids.filter((id) => !state.panels.find((p) => p.id === id)?.locked);
+        if (deletable.length === 0) return;
+        state.saveToHistory();
+        set((state) => {
+          const panels = state.panels.filter((p) => !deletable.includes(p.id));
+          return {
+            panels,
+            groups: pruneGroups(state.groups, panels),
+            joints: pruneJoints(state.joints, panels),
+            selectedPanelIds: state.selectedPanelIds.filter((pid) => !deletable.includes(pid)),
+          };
+        });
+      },
+
+      setPanelsLocked: (ids, locked) => {
+        get().saveToHistory();
+        set((state) => {
+          const panels = state.panels.map((p) =>
+            ids.includes(p.id) ? { ...p, locked: locked || undefined } : p,
+          );
+          // Unlocked panels pick up variable changes made while they were locked
+          return { panels: locked ? panels : applyFormulas(panels, state.variables, state.settings) };
+        });
+      },
+
+      // Groups every one of whose panels is among `panels`
+      getCopiedGroups: (panels) => {
+        const state = get();
+        return state.groups.filter((group) => {
+          const members = state.panels.filter((p) => p.groupId === group.id).length;
+          const copied = panels.filter((p) => p.groupId === group.id).length;
+          return members > 0 && copied >= members;
+        });
+      },
+
+      // Give copies their own groups. A group is only carried over when
+      // every one of its panels was copied; partial copies come out ungrouped.
+      // Pass the groups recorded at copy time when the originals may be
+      // gone by now, as after a cut.
+      clonePanelGroups: (copies, copiedGroups) => {
+        const state = get();
+        const newGroups: PanelGroup[] = [];
+        const groupMap = new Map<string, string>();
+
+        for (const group of copiedGroups ?? state.getCopiedGroups(copies)) {
+          const id = generateGroupId();
+          groupMap.set(group.id, id);
+          newGroups.push({ id, name: `${group.name} copy` });
+        }
+
+        if (newGroups.length > 0) {
+          set({ groups: [...state.groups, ...newGroups] });
+        }
+        return copies.map((p) => ({
+          ...p,
+          groupId: p.groupId ? groupMap.get(p.groupId) : undefined,
+        }));
+      },
+
+      // Panels leave any group they were in; a group left empty is removed
+      groupPanels: (ids, name) => {
+        if (ids.length === 0) return null;
+        get().saveToHistory();
+        const id = generateGroupId();
+        set((state) => {
+          const panels = state.panels.map((p) =>
+            ids.includes(p.id) ? { ...p, groupId: id } : p,
+          );
+          const groups = [
+            ...state.groups,
+            { id, name: name || `Group ${state.groups.length + 1}` },
+          ];
+          return { panels, groups: pruneGroups(groups, panels) };
+        });
+        return id;
+      },
+
+      ungroupPanels: (groupId) => {
         get().saveToHistory();
         set((state) => ({
-          panels: state.panels.filter((p) => p.id !== id),
-          selectedPanelIds: state.selectedPanelIds.filter((pid) => pid !== id),
+          panels: state.panels.map((p) =>
+            p.groupId === groupId ? { ...p, groupId: undefined } : p,
+          ),
+          groups: state.groups.filter((g) => g.id !== groupId),
         }));
       },
 
-      deletePanels: (ids) => {
+      renameGroup: (groupId, name) => {
         get().saveToHistory();
         set((state) => ({
-          panels: state.panels.filter((p) => !ids.includes(p.id)),
-          selectedPanelIds: [],
+          groups: state.groups.map((g) => (g.id === groupId ? { ...g, name } : g)),
+        }));
+      },
+
+      // The panels come in grouped under the component's name; they and
+      // their joints undo as one step
+      insertComponent: (component, x, y) => {
+        const placed = placeComponent(component, x, y);
+        const ids = get().addPanels(placed.panels, {
+          groupName: placed.panels.length > 1 ? component.name : undefined,
+        });
+        if (ids.length === 0) return ids;
+        set((state) => ({
+          joints: [
+            ...state.joints,
+            ...placed.joints.map(({ panels: [a, b], ...spec }) => ({
+              ...spec,
+              id: getJointId(ids[a], ids[b]),
+              panelIds: [ids[a], ids[b]] as [string, string],
+            })),
+          ],
+          stickyNotes: [
+            ...state.stickyNotes,
+            ...placed.notes.map((note) => ({
+              ...note,
+              id: `note_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+            })),
+          ],
         }));
+        return ids;
       },
 
       selectPanel: (id, addToSelection = false) => {
@@ -269,6 +464,73 @@ export const useDesignStore = create<DesignState>()(
         set({ selectedPanelIds: [] });
       },
 
+      addVariable: (name, expression) => {
+        get().saveToHistory();
+        const id = `var_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+        set((state) => {
+          const variables = [...state.variables, { id, name, expression }];
+          return { variables, panels: applyFormulas(state.panels, variables, state.settings) };
+        });
+      },
+
+      // Renaming a variable updates every formula that refers to it
+      updateVariable: (id, updates) => {
+        get().saveToHistory();
+        set((state) => {
+          const oldName = state.variables.find((v) => v.id === id)?.name;
+          const rename = (formula: string) =>
+            oldName && updates.name && updates.name !== oldName
+              ? renameVariableReferences(formula, oldName, updates.name)
+              : formula;
+
+          const variables = state.variables.map((v) =>
+            v.id === id ? { ...v, ...updates } : { ...v, expression: rename(v.expression) },
+          );
+          const panels = state.panels.map((p) => {
+            if (!p.formulas) return p;
+            const formulas = Object.fromEntries(
+              Object.entries(p.formulas).map(([field, formula]) => [field, formula && rename(formula)]),
+            );
+            return { ...p, formulas };
+          });
+          return { variables, panels: applyFormulas(panels, variables, state.settings) };
+        });
+      },
+
+      // Formulas that used the variable keep their last values and show an error
+      removeVariable: (id) => {
+        get().saveToHistory();
+        set((state) => ({
+          variables: state.variables.filter((v) => v.id !== id),
+        }));
+      },
+
+      setPanelFormula: (id, field, formula) => {
+        get().saveToHistory();
+        set((state) => {
+          const panels = state.panels.map((p) => {
+            if (p.id !== id) return p;
+            const formulas = { ...p.formulas, [field]: formula || undefined };
+            if (!formula) delete formulas[field];
+            return { ...p, formulas: Object.keys(formulas).length > 0 ? formulas : undefined };
+          });
+          return { panels: applyFormulas(panels, state.variables, state.settings) };
+        });
+      },
+
+      // A joint with nothing left on it is removed
+      updateJoint: (panelAId, panelBId, updates) => {
+        get().saveToHistory();
+        const id = getJointId(panelAId, panelBId);
+        set((state) => {
+          const existing = state.joints.find((j) => j.id === id);
+          const joint: JointSpec = { id, panelIds: [panelAId, panelBId], ...existing, ...updates };
+          const empty = !joint.hardware?.length && !joint.joinery;
+          const others = state.joints.filter((j) => j.id !== id);
+          return { joints: empty ? others : [...others, joint] };
+        });
+      },
+
       addStickyNote: (x, y) => {
         const id = `note_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
         const colors = [
@@ -302,9 +564,11 @@ export const useDesignStore = create<DesignState>()(
 
       updateSettings: (updates) => {
         get().saveToHistory();
-        set((state) => ({
-          settings: { ...state.settings, ...updates },
-        }));
+        set((state) => {
+          const settings = { ...state.settings, ...updates };
+          // T follows the thickness
+          return { settings, panels: applyFormulas(state.panels, state.variables, settings) };
+        });
       },
 
       clearAll: () => {
@@ -312,6 +576,9 @@ export const useDesignStore = create<DesignState>()(
         panelCounter = 1;
         set({
           panels: [],
+          groups: [],
+          variables: [],
+          joints: [],
           stickyNotes: [],
           selectedPanelIds: [],
           settings: { ...DEFAULT_SETTINGS },
@@ -323,7 +590,10 @@ export const useDesignStore = create<DesignState>()(
         panelCounter = data.panels.length + 1;
         set({
           settings: data.settings,
-          panels: data.panels,
+          panels: migratePanels(data.panels, data.settings),
+          groups: pruneGroups(data.groups || [], data.panels),
+          variables: data.variables || [],
+          joints: pruneJoints(data.joints || [], data.panels),
           selectedPanelIds: [],
         });
       },
@@ -334,6 +604,9 @@ export const useDesignStore = create<DesignState>()(
           version: 1,
           settings: state.settings,
           panels: state.panels,
+          groups: state.groups,
+          variables: state.variables,
+          joints: state.joints,
         };
       },
 
@@ -345,10 +618,14 @@ export const useDesignStore = create<DesignState>()(
           if (savedData) {
             const parsed = JSON.parse(savedData);
             panelCounter = (parsed.panels?.length || 0) + 1;
+            const settings = { ...DEFAULT_SETTINGS, ...parsed.settings };
             set({
               currentProjectId: projectId,
-              settings: { ...DEFAULT_SETTINGS, ...parsed.settings },
-              panels: parsed.panels || [],
+              settings,
+              panels: migratePanels(parsed.panels || [], settings),
+              groups: parsed.groups || [],
+              variables: parsed.variables || [],
+              joints: parsed.joints || [],
               stickyNotes: parsed.stickyNotes || [],
               selectedPanelIds: [],
               viewState: parsed.viewState || { zoom: DEFAULT_ZOOM, panX: 0, panY: 0 },
@@ -363,6 +640,9 @@ export const useDesignStore = create<DesignState>()(
               currentProjectId: projectId,
               settings: { ...DEFAULT_SETTINGS },
               panels: [],
+              groups: [],
+              variables: [],
+              joints: [],
               stickyNotes: [],
               selectedPanelIds: [],
               viewState: { zoom: DEFAULT_ZOOM, panX: 0, panY: 0 },
@@ -380,6 +660,9 @@ export const useDesignStore = create<DesignState>()(
             currentProjectId: projectId,
             settings: { ...DEFAULT_SETTINGS },
             panels: [],
+            groups: [],
+            variables: [],
+            joints: [],
             stickyNotes: [],
             selectedPanelIds: [],
             viewState: { zoom: DEFAULT_ZOOM, panX: 0, panY: 0 },
@@ -400,6 +683,9 @@ export const useDesignStore = create<DesignState>()(
         const dataToSave = {
           settings: state.settings,
           panels: state.panels,
+          groups: state.groups,
+          variables: state.variables,
+          joints: state.joints,
           stickyNotes: state.stickyNotes,
           viewState: state.viewState,
         };
@@ -417,6 +703,9 @@ export const useDesignStore = create<DesignState>()(
           currentProjectId: projectId,
           settings: { ...DEFAULT_SETTINGS, projectName: name || "" },
           panels: [],
+          groups: [],
+          variables: [],
+          joints: [],
           stickyNotes: [],
           selectedPanelIds: [],
           viewState: { zoom: DEFAULT_ZOOM, panX: 0, panY: 0 },
@@ -433,9 +722,20 @@ export const useDesignStore = create<DesignState>()(
         currentProjectId: state.currentProjectId,
         settings: state.settings,
         panels: state.panels,
+        groups: state.groups,
+        variables: state.variables,
+        joints: state.joints,
         stickyNotes: state.stickyNotes,
         // Don't persist history - it would be too large
       }),
+      version: 1,
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<DesignState>;
+        if (version < 1 && state.panels) {
+          state.panels = migratePanels(state.panels, { ...DEFAULT_SETTINGS, ...state.settings });
+        }
+        return state as DesignState;
+      },
       // Create backup before any storage operation
       onRehydrateStorage: () => {
         // Backup existing data before rehydration
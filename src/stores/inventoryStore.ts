@@ -0,0 +1,79 @@
+/**
+ * Inventory Store
+ *
+ * Offcuts and partial sheets the user owns, shared by every project.
+ * Leftovers are saved from a cutting layout or entered by hand, and the
+ * optimizer fills them before opening new full sheets.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { InventoryItem } from "../types";
+
+type NewInventoryItem = Omit<InventoryItem, "id" | "createdAt">;
+
+interface InventoryState {
+  items: InventoryItem[];
+
+  // Actions
+  addItems: (items: NewInventoryItem[]) => void;
+  updateItem: (id: string, updates: Partial<Omit<InventoryItem, "id" | "createdAt">>) => void;
+  removeItem: (id: string) => void;
+  consumeItems: (ids: string[]) => void;
+}
+
+// Generate unique ID
+function generateId(): string {
+  return `stock_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export const useInventoryStore = create<InventoryState>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      addItems: (items) => {
+        const now = Date.now();
+        set((state) => ({
+          items: [
+            ...items.map((item) => ({ ...item, id: generateId(), createdAt: now })),
+            ...state.items,
+          ],
+        }));
+      },
+
+      updateItem: (id, updates) => {
+        set((state) => ({
+          items: state.items.map((item) =>
+            item.id === id ? { ...item, ...updates } : item
+          ),
+        }));
+      },
+
+      removeItem: (id) => {
+        set((state) => ({
+          items: state.items.filter((item) => item.id !== id),
+        }));
+      },
+
+      // Take one piece of stock per id (ids may repeat); items that run
+      // out are removed
+      consumeItems: (ids) => {
+        const counts = new Map<string, number>();
+        for (const id of ids) {
+          counts.set(id, (counts.get(id) || 0) + 1);
+        }
+
+        set((state) => ({
+          items: state.items
+            .map((item) => ({ ...item, quantity: item.quantity - (counts.get(item.id) || 0) }))
+            .filter((item) => item.quantity > 0),
+        }));
+      },
+    }),
+    {
+      name: "craftcut_inventory",
+      version: 1,
+    }
+  )
+);
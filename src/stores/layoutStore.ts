@@ -0,0 +1,46 @@
+/**
+ * Layout Store
+ *
+ * Cutting layout state that isn't part of the design, so changing it adds
+ * no undo step and doesn't re-run the optimizer: how long a layout search
+ * runs, and the better layout it found. The found layout is kept with a
+ * key for the inputs it was cut from (see useSheetLayout); the cutting
+ * diagrams, cost estimate, booklet and shopping list all read it from
+ * here, so they agree on the sheet counts.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { MaterialCutResult } from "../lib/optimizer";
+
+export const SEARCH_TIME_OPTIONS = [5, 15, 30, 60]; // Seconds
+
+interface LayoutState {
+  searchTime: number; // Seconds the layout search runs for
+  improved: { key: string; results: MaterialCutResult[] } | null; // Not persisted
+
+  // Actions
+  setSearchTime: (seconds: number) => void;
+  setImproved: (key: string, results: MaterialCutResult[]) => void;
+  clearImproved: () => void;
+}
+
+export const useLayoutStore = create<LayoutState>()(
+  persist(
+    (set) => ({
+      searchTime: 15,
+      improved: null,
+
+      setSearchTime: (seconds) => set({ searchTime: seconds }),
+
+      setImproved: (key, results) => set({ improved: { key, results } }),
+
+      clearImproved: () => set({ improved: null }),
+    }),
+    {
+      name: "craftcut_layout",
+      version: 1,
+      partialize: (state) => ({ searchTime: state.searchTime }),
+    }
+  )
+);
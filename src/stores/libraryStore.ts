@@ -0,0 +1,69 @@
+/**
+ * Library Store
+ *
+ * Reusable components (a plinth, a drawer bank, a shelf module) saved
+ * from one project's panels and shared by every project. The library can
+ * be exported to a file and imported on another machine.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { NewLibraryComponent } from "../lib/library";
+import type { LibraryComponent } from "../types";
+
+interface LibraryState {
+  components: LibraryComponent[];
+
+  // Actions
+  addComponent: (component: NewLibraryComponent) => string;
+  updateComponent: (id: string, updates: Partial<Pick<LibraryComponent, "name" | "description">>) => void;
+  removeComponent: (id: string) => void;
+  importComponents: (components: LibraryComponent[]) => number;
+}
+
+// Generate unique ID
+function generateId(): string {
+  return `component_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export const useLibraryStore = create<LibraryState>()(
+  persist(
+    (set, get) => ({
+      components: [],
+
+      addComponent: (component) => {
+        const id = generateId();
+        set((state) => ({
+          components: [{ ...component, id, createdAt: Date.now() }, ...state.components],
+        }));
+        return id;
+      },
+
+      updateComponent: (id, updates) => {
+        set((state) => ({
+          components: state.components.map((c) => (c.id === id ? { ...c, ...updates } : c)),
+        }));
+      },
+
+      removeComponent: (id) => {
+        set((state) => ({
+          components: state.components.filter((c) => c.id !== id),
+        }));
+      },
+
+      // Components already in the library (same id) are skipped, so
+      // importing the same file twice adds nothing. Returns how many
+      // were added.
+      importComponents: (components) => {
+        const existing = new Set(get().components.map((c) => c.id));
+        const added = components.filter((c) => !existing.has(c.id));
+        set((state) => ({ components: [...added, ...state.components] }));
+        return added.length;
+      },
+    }),
+    {
+      name: "craftcut_library",
+      version: 1,
+    }
+  )
+);
@@ -5,19 +5,84 @@
 export type PanelOrientation = "horizontal" | "vertical" | "back";
 
 // Z-axis alignment for panels with depth less than furniture depth
-export type ZAlignment = "front" | "back" | "center";
+export type ZAlignment = "front" | "back" | "center"; // Depth position presets
 
-// Edge banding configuration - which edges have banding applied
+// Edge banding configuration - which edges have banding applied. Top and
+// bottom run along the panel's visible length (a shelf's or back's width,
+// a side's height), left and right across it (depth; a back's height).
 export interface EdgeBanding {
   top: boolean;
   bottom: boolean;
   left: boolean;
   right: boolean;
+  typeId?: string; // Banding from Settings.edgeBandingTypes (default banding when unset)
+}
+
+// A kind of edge banding; its thickness is taken off the cut size
+export interface EdgeBandingType {
+  id: string;
+  name: string;
+  thickness: number; // mm
+  price?: number; // Per meter
+}
+
+// Notches, cut-outs and holes machined into a panel. Positions are on the
+// face as seen where it's visible - a back panel from the front, a shelf
+// from above (front edge at the bottom), a side from the side (front edge
+// on the left) - measured from that face's bottom-left corner.
+export type CutFeatureType = "corner_notch" | "edge_notch" | "cutout" | "hole";
+
+export type FeatureCorner = "bottom-left" | "bottom-right" | "top-left" | "top-right";
+
+export type FeatureEdge = "bottom" | "top" | "left" | "right";
+
+export interface CutFeature {
+  id: string;
+  type: CutFeatureType;
+  x: number; // Cut-out: left edge. Hole: centre. Notch in the bottom or top edge: offset from the left
+  y: number; // Cut-out: bottom edge. Hole: centre. Notch in the left or right edge: offset from the bottom
+  width: number; // Hole: diameter
+  height: number;
+  corner?: FeatureCorner; // Corner notches
+  edge?: FeatureEdge; // Edge notches
+}
+
+// Doors and drawer fronts: back-oriented panels in front of the carcass
+export type FrontType = "door" | "drawer";
+
+export type HingeSide = "left" | "right";
+
+export interface PanelFront {
+  type: FrontType;
+  hinge?: HingeSide; // Doors only
+}
+
+// Bought-in fittings: hinges, slides, connectors and the like
+export type HardwareCategory = "hinge" | "drawer_slide" | "shelf_pin" | "cam_lock" | "confirmat" | "handle" | "leg";
+
+// An item in the project's hardware catalog
+export interface HardwareItem {
+  id: string;
+  name: string;
+  category: HardwareCategory;
+  price?: number; // Price per piece in local currency
+}
+
+// Hardware fitted to a panel or a joint
+export interface HardwareAttachment {
+  itemId: string; // HardwareItem id
+  quantity: number; // Per panel (or per joint)
 }
 
 // Grain direction for wood panels - affects cutting optimization
 export type GrainDirection = "horizontal" | "vertical" | "none";
 
+// Which way the grain runs on a stock sheet
+export type SheetGrain = "length" | "width" | "none";
+
+// Panel fields that can be driven by a formula
+export type FormulaField = "x" | "y" | "z" | "width" | "height" | "depth";
+
 export interface Panel {
   id: string;
   label: string;
@@ -28,9 +93,49 @@ export interface Panel {
   quantity: number;
   orientation: PanelOrientation;
   depth?: number; // Custom depth (Z dimension), defaults to furniture depth (400mm)
-  zAlign?: ZAlignment; // Where to position panel in Z-axis when depth < furniture depth
+  z?: number; // Front face's distance back from the furniture's front; unset = flush front (back panels: flush back)
   edgeBanding?: EdgeBanding; // Which edges have banding
   grainDirection?: GrainDirection; // Wood grain direction (affects cutting)
+  grainGroup?: string; // Grain-matched set, cut end to end from one strip
+  locked?: boolean; // Can't be moved, resized or deleted on the canvas
+  groupId?: string; // PanelGroup this panel belongs to
+  formulas?: Partial<Record<FormulaField, string>>; // e.g. { width: "W - 2*T" }; the plain fields hold the result
+  materialId?: string; // Material from Settings.materials (default material when unset)
+  features?: CutFeature[]; // Notches, cut-outs and holes
+  front?: PanelFront; // Set on doors and drawer fronts
+  hardware?: HardwareAttachment[]; // Fittings that go on this panel, e.g. hinges or a handle
+  adjustable?: boolean; // Shelf that sits on pins in drilled rows instead of being fixed
+  linearStockId?: string; // Cut from a board in Settings.linearStock instead of a sheet
+}
+
+// Named value panel formulas can refer to (W, H, D…)
+export interface ProjectVariable {
+  id: string;
+  name: string;
+  expression: string; // Number or formula in mm; may use T and other variables
+}
+
+// How two touching panels are joined. Dados and rabbets let one panel's
+// end into the other, so that panel is cut longer.
+export type JoineryType = "butt_screws" | "dado" | "rabbet" | "dowel" | "pocket_screw" | "biscuit";
+
+export interface Joinery {
+  type: JoineryType;
+  depth?: number; // Dado and rabbet depth in mm (default: a third of the housing panel's thickness)
+}
+
+// What's stored about the joint between two touching panels
+export interface JointSpec {
+  id: string; // Both panel ids, sorted and joined with "+"
+  panelIds: [string, string];
+  joinery?: Joinery; // Plain butt joint when unset
+  hardware?: HardwareAttachment[]; // Connectors for this joint, e.g. cam locks
+}
+
+// Named sub-assembly: its panels are selected, moved and built together
+export interface PanelGroup {
+  id: string;
+  name: string;
 }
 
 // Material presets
@@ -53,11 +158,56 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
   { id: "custom", name: "Custom", defaultThickness: 18, defaultColor: "#E8D4B8", description: "Custom material settings" },
 ];
 
+// A sheet size that can be bought. A material's main sheet size is always
+// available; extra sizes can be limited to what the supplier has in stock.
+export interface StockSize {
+  id: string;
+  width: number;
+  height: number;
+  price?: number; // Price per sheet in local currency
+  maxQuantity?: number; // Sheets available (unlimited when unset)
+}
+
+// A sheet material in the project's library
+export interface Material {
+  id: string;
+  name: string;
+  type: MaterialType;
+  thickness: number;
+  sheetWidth: number;
+  sheetHeight: number;
+  sheetPrice?: number; // Price per sheet in local currency
+  stockSizes?: StockSize[]; // Extra sheet sizes besides sheetWidth × sheetHeight
+  grain?: SheetGrain; // Defaults by material type, see getMaterialGrain
+  color: string;
+}
+
+// Solid-wood stock bought by the length, e.g. battens, rails or dowels.
+// Parts cut from it are laid out along boards instead of on sheets.
+export interface LinearStock {
+  id: string;
+  name: string;
+  width: number; // Cross-section, mm
+  thickness: number;
+  lengths: number[]; // Board lengths sold, mm
+  price?: number; // Price per meter in local currency
+}
+
+// How parts are laid out on a sheet:
+// - 'nested': free nesting, best material yield (CNC or careful track-saw work)
+// - 'rip-first': guillotine layout, rip full-length strips then crosscut them
+// - 'crosscut-first': guillotine layout, crosscut the sheet then rip the pieces
+export type CutMode = "nested" | "rip-first" | "crosscut-first";
+
+// How parts are labelled in the cut list: A…Z, AA, AB… or 1, 2, 3…
+export type PartNumbering = "letters" | "numbers";
+
 export interface Settings {
   thickness: number;
   sheetWidth: number;
   sheetHeight: number;
-  units: "mm" | "inches";
+  units: "mm" | "inches"; // Display/input units - panels are always stored in mm
+  fractionPrecision?: 16 | 32; // Imperial rounding: 1/16" or 1/32"
   woodColor: string;
   furnitureDepth: number; // Default depth for panels (typically 400mm)
   projectName?: string; // Name of the project for print cover page
@@ -66,8 +216,24 @@ export interface Settings {
   currency?: string; // Currency symbol (default: $)
   // Material
   materialType?: MaterialType;
+  stockSizes?: StockSize[]; // Extra sheet sizes for the default material
+  sheetGrain?: SheetGrain; // Grain on the default material's sheets
+  materials?: Material[]; // Extra materials; the fields above describe the default material
+  linearStock?: LinearStock[]; // Boards for linear parts (Panel.linearStockId)
+  // Cutting
+  kerf?: number; // Saw blade width in mm (default: 3)
+  edgeTrim?: number; // Trimmed off each sheet edge before cutting, in mm (default: 0)
+  minOffcut?: number; // Smallest offcut side worth keeping, in mm (default: 100)
+  cutMode?: CutMode; // Free nesting or a guillotine (through-cut) layout (default: nested)
+  useInventory?: boolean; // Fill offcuts from the inventory before new sheets (default: true)
+  endTrim?: number; // Squared off each board end before cutting linear parts, in mm (default: 10)
+  partNumbering?: PartNumbering; // Part labels in the cut list and assembly steps (default: letters)
   // Edge banding
   edgeBandingPrice?: number; // Price per meter
+  edgeBandingThickness?: number; // Default banding's thickness in mm (default: 0, cut at finished size)
+  edgeBandingTypes?: EdgeBandingType[]; // Extra banding types; the fields above describe the default banding
+  // Hardware
+  hardware?: HardwareItem[]; // Hardware catalog (defaults from lib/hardware when unset)
   // View options
   show3DLabels?: boolean; // Show panel labels in 3D view
   theme?: "light" | "dark" | "system"; // Color theme
@@ -77,6 +243,9 @@ export interface DesignData {
   version: number;
   settings: Settings;
   panels: Panel[];
+  groups?: PanelGroup[];
+  variables?: ProjectVariable[];
+  joints?: JointSpec[];
 }
 
 export interface Placement {
@@ -89,11 +258,15 @@ export interface Placement {
   height: number;
   rotated: boolean;
   sourceId: string;
-  grainDirection?: GrainDirection; // Grain direction from source panel
+  grainDirection?: GrainDirection; // Grain as it runs on the sheet ("horizontal" = along its length)
 }
 
 export interface Sheet {
   id: string;
+  width: number; // Sheet size in mm - inventory offcuts differ from full sheets
+  height: number;
+  stockId?: string; // Stock size a new sheet was bought as
+  inventoryId?: string; // Inventory item this sheet was taken from
   placements: Placement[];
   usedArea: number;
   wastePercent: number;
@@ -114,6 +287,58 @@ export interface OptimizationResult {
   unplacedPieces: Panel[];
   usableWaste?: UsableWastePiece[]; // Leftover pieces large enough to reuse
   efficiency?: number; // Material efficiency percentage (0-100)
+  cutSequence?: CutStep[]; // Ordered through-cuts (guillotine modes only)
+}
+
+// A rip runs along the sheet's length, a crosscut runs across it
+export type CutDirection = "rip" | "crosscut";
+
+// One straight through-cut in a guillotine cutting sequence
+export interface CutStep {
+  sheetIndex: number;
+  step: number; // Order within the sheet, starting at 1
+  direction: CutDirection;
+  offset: number; // Fence setting: size of the part being cut off (mm)
+  // Cut line in sheet coordinates
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// A leftover or partial sheet in the offcut inventory, shared by all
+// projects. Width runs along the original sheet's length.
+export interface InventoryItem {
+  id: string;
+  label: string;
+  materialType: MaterialType;
+  thickness: number;
+  width: number;
+  height: number;
+  quantity: number;
+  source: "offcut" | "sheet"; // Saved from a cutting layout, or entered by hand
+  projectName?: string; // Project an offcut was saved from
+  createdAt: number;
+}
+
+// A joint saved with a library component; its panels are indices into
+// the component's panel list
+export interface LibraryJoint extends Omit<JointSpec, "id" | "panelIds"> {
+  panels: [number, number];
+}
+
+// Panels saved from one project for reuse in any other. Positions are
+// relative to the saved selection's bottom-left corner.
+export interface LibraryComponent {
+  id: string;
+  name: string;
+  description?: string;
+  panels: Omit<Panel, "id" | "groupId" | "formulas" | "locked">[];
+  joints: LibraryJoint[];
+  notes: Omit<StickyNote, "id">[]; // Sticky notes that sat over the selection
+  width: number; // Bounding box in the front view, mm
+  height: number;
+  createdAt: number;
 }
 
 // Usable waste piece that could be reused for other projects